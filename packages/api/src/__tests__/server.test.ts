@@ -0,0 +1,287 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import type { ApiServerOptions } from '../options.js';
+import { createApiServer } from '../server.js';
+
+const schema = {
+  type: 'object',
+  required: ['id', 'kind'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    kind: { enum: ['a', 'b'] },
+  },
+};
+
+let server: Server;
+let baseUrl: string;
+
+async function listen(target: Server): Promise<string> {
+  await new Promise<void>((resolve) => target.listen(0, '127.0.0.1', resolve));
+  const { port } = target.address() as AddressInfo;
+  return `http://127.0.0.1:${port}`;
+}
+
+function close(target: Server): Promise<void> {
+  return new Promise<void>((resolve) => target.close(() => resolve()));
+}
+
+beforeAll(async () => {
+  server = createApiServer({ maxBodyBytes: 4096, maxCount: 50 });
+  baseUrl = await listen(server);
+});
+
+afterAll(async () => {
+  await close(server);
+});
+
+function post(
+  path: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  url = baseUrl
+): ReturnType<typeof globalThis.fetch> {
+  return globalThis.fetch(`${url}${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /generate', () => {
+  it('returns deterministic items and reuses the compiled schema', async () => {
+    const first = await post('/generate', { schema, count: 3, seed: 7 });
+    expect(first.status).toBe(200);
+    expect(first.headers.get('x-foundry-cache')).toBe('miss');
+    const hash = first.headers.get('x-foundry-schema-hash');
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    const body = (await first.json()) as { items: unknown[]; metrics: object };
+    expect(body.items).toHaveLength(3);
+    expect(body.metrics).toBeTypeOf('object');
+
+    const second = await post('/generate', { schema, count: 3, seed: 7 });
+    expect(second.headers.get('x-foundry-cache')).toBe('hit');
+    expect(second.headers.get('x-foundry-schema-hash')).toBe(hash);
+    expect(((await second.json()) as { items: unknown[] }).items).toEqual(
+      body.items
+    );
+  });
+
+  it('streams NDJSON when the client accepts it', async () => {
+    const res = await post(
+      '/generate',
+      { schema, count: 5, seed: 7 },
+      { accept: 'application/x-ndjson' }
+    );
+    expect(res.headers.get('content-type')).toContain('application/x-ndjson');
+    const lines = (await res.text()).trim().split('\n');
+    expect(lines).toHaveLength(5);
+    for (const line of lines) {
+      expect(JSON.parse(line)).toMatchObject({ kind: expect.any(String) });
+    }
+  });
+
+  it('rejects counts above the server limit', async () => {
+    const res = await post('/generate', { schema, count: 51 });
+    expect(res.status).toBe(400);
+    expect(res.headers.get('content-type')).toContain(
+      'application/problem+json'
+    );
+    expect(await res.json()).toMatchObject({ code: 'E101', path: '/count' });
+  });
+});
+
+describe('POST /validate', () => {
+  it('validates a single instance and a batch', async () => {
+    const single = await post('/validate', {
+      schema,
+      instance: { id: 1, kind: 'a' },
+    });
+    expect(await single.json()).toEqual({ valid: true, errors: [] });
+
+    const batch = await post('/validate', {
+      schema,
+      instances: [{ id: 1, kind: 'a' }, { id: 0 }],
+    });
+    const body = (await batch.json()) as {
+      valid: boolean;
+      results: Array<{ valid: boolean }>;
+    };
+    expect(body.valid).toBe(false);
+    expect(body.results.map((result) => result.valid)).toEqual([true, false]);
+  });
+
+  it('rejects planOptions, which validation does not use', async () => {
+    const res = await post('/validate', {
+      schema,
+      instance: { id: 1, kind: 'a' },
+      planOptions: { guards: { maxGeneratedNotNesting: 1 } },
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ path: '/planOptions' });
+  });
+});
+
+describe('POST /normalize and /compose', () => {
+  it('exposes the canonical schema and the coverage index', async () => {
+    const normalized = await post('/normalize', { schema });
+    expect(await normalized.json()).toMatchObject({
+      canonSchema: { type: 'object' },
+      notes: expect.any(Array),
+    });
+
+    const composed = await post('/compose', { schema });
+    const body = (await composed.json()) as {
+      coverageIndex: Record<string, { names?: string[] }>;
+    };
+    expect(body.coverageIndex['']?.names?.sort()).toEqual(['id', 'kind']);
+  });
+});
+
+describe('POST /coverage', () => {
+  it('measures the coverage of supplied instances', async () => {
+    const res = await post('/coverage', {
+      schema,
+      instances: [{ id: 1, kind: 'a' }, { kind: 'c' }],
+    });
+    const body = (await res.json()) as {
+      report: { version: string };
+      rejected: Array<{ index: number }>;
+    };
+    expect(body.report.version).toBe('coverage-report/v1');
+    expect(body.rejected.map((entry) => entry.index)).toEqual([1]);
+  });
+
+  it('measures supplied instances through the schema cache', async () => {
+    const measured = { type: 'integer', minimum: 0, maximum: 9 };
+    const first = await post('/coverage', { schema: measured, instances: [0] });
+    expect(first.headers.get('x-foundry-cache')).toBe('miss');
+    expect(first.headers.get('x-foundry-schema-hash')).toMatch(
+      /^[0-9a-f]{64}$/
+    );
+
+    const second = await post('/coverage', {
+      schema: measured,
+      instances: [9, 'x'],
+    });
+    expect(second.headers.get('x-foundry-cache')).toBe('hit');
+    const body = (await second.json()) as {
+      report: { run: { actualInstances: number } };
+      rejected: Array<{ index: number }>;
+    };
+    expect(body.report.run.actualInstances).toBe(1);
+    expect(body.rejected.map((entry) => entry.index)).toEqual([1]);
+  });
+
+  it('reports on generated instances', async () => {
+    const res = await post('/coverage', { schema, count: 4 });
+    const body = (await res.json()) as {
+      report: { engine: { coverageMode: string } };
+    };
+    expect(body.report.engine.coverageMode).toBe('measure');
+  });
+});
+
+describe('planOptions', () => {
+  const refSchema = {
+    type: 'object',
+    properties: { item: { $ref: 'https://schemas.acme.io/item.json' } },
+  };
+  let dir: string;
+  let resolver: ApiServerOptions['resolver'];
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fd-api-'));
+    fs.writeFileSync(
+      path.join(dir, 'item.json'),
+      JSON.stringify({
+        $id: 'https://schemas.acme.io/item.json',
+        type: 'string',
+      })
+    );
+    resolver = {
+      strategies: ['local', 'mapping'],
+      uriMappings: { 'https://schemas.acme.io/': dir },
+    };
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ignores resolver options sent by the client', async () => {
+    const res = await post('/generate', {
+      schema: refSchema,
+      count: 2,
+      planOptions: { resolver },
+    });
+    expect(res.status).not.toBe(200);
+  });
+
+  it('resolves external $refs with the server resolver options', async () => {
+    const configured = createApiServer({ resolver });
+    const url = await listen(configured);
+    try {
+      const res = await post(
+        '/generate',
+        { schema: refSchema, count: 2 },
+        {},
+        url
+      );
+      expect(res.status).toBe(200);
+      expect(((await res.json()) as { items: unknown[] }).items).toHaveLength(
+        2
+      );
+    } finally {
+      await close(configured);
+    }
+  });
+});
+
+describe('request handling', () => {
+  it('rejects bodies larger than maxBodyBytes with 413', async () => {
+    const res = await post('/validate', { schema, pad: 'x'.repeat(5000) });
+    expect(res.status).toBe(413);
+  });
+
+  it('reports invalid JSON, unknown routes and wrong methods', async () => {
+    const invalid = await globalThis.fetch(`${baseUrl}/generate`, {
+      method: 'POST',
+      body: '{',
+    });
+    expect(invalid.status).toBe(400);
+    expect((await globalThis.fetch(`${baseUrl}/nope`)).status).toBe(404);
+    const wrongMethod = await globalThis.fetch(`${baseUrl}/generate`);
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('allow')).toBe('POST');
+  });
+
+  it('serves its OpenAPI document with the configured limits', async () => {
+    const res = await globalThis.fetch(`${baseUrl}/openapi.json`);
+    const doc = (await res.json()) as {
+      openapi: string;
+      paths: Record<string, unknown>;
+      components: {
+        schemas: {
+          GenerateRequest: { properties: { count: { maximum: number } } };
+        };
+      };
+    };
+    expect(doc.openapi).toBe('3.1.0');
+    expect(Object.keys(doc.paths)).toEqual([
+      '/generate',
+      '/validate',
+      '/normalize',
+      '/compose',
+      '/coverage',
+    ]);
+    expect(
+      doc.components.schemas.GenerateRequest.properties.count.maximum
+    ).toBe(50);
+  });
+});
@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+import process from 'node:process';
+import { pathToFileURL } from 'node:url';
+
+import { Command, InvalidArgumentError } from 'commander';
+
+import { API_VERSION, createApiServer } from './server.js';
+
+interface ServeOptions {
+  port: number;
+  host: string;
+  maxBodyBytes?: number;
+  maxCount?: number;
+}
+
+function parseInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError('Expected a non-negative integer.');
+  }
+  return parsed;
+}
+
+export async function runCli(argv: string[]): Promise<void> {
+  const program = new Command()
+    .name('foundrydata-api')
+    .description('Serve the FoundryData pipeline over local HTTP')
+    .version(API_VERSION)
+    .option('--port <port>', 'Port to listen on', parseInteger, 3000)
+    .option('--host <host>', 'Interface to bind', '127.0.0.1')
+    .option(
+      '--max-body-bytes <n>',
+      'Largest request body (default: complexity.maxSchemaBytes)',
+      parseInteger
+    )
+    .option(
+      '--max-count <n>',
+      'Largest count / instances per request (default: 10000)',
+      parseInteger
+    );
+  await program.parseAsync(argv);
+
+  const options = program.opts<ServeOptions>();
+  const server = createApiServer({
+    maxBodyBytes: options.maxBodyBytes,
+    maxCount: options.maxCount,
+  });
+  server.listen(options.port, options.host, () => {
+    process.stderr.write(
+      `[foundrydata-api] listening on http://${options.host}:${options.port}\n`
+    );
+  });
+}
+
+const entryUrl = process.argv[1]
+  ? pathToFileURL(process.argv[1]).href
+  : undefined;
+if (entryUrl && import.meta.url === entryUrl) {
+  runCli(process.argv).catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,123 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  ErrorCode,
+  ErrorPresenter,
+  FoundryError,
+  isFoundryError,
+  ParseError,
+  type APIErrorView,
+} from '@foundrydata/core';
+
+/**
+ * Request-level failure whose HTTP status does not follow from its error
+ * code (unknown route, wrong method, oversized body).
+ */
+export class HttpError extends FoundryError {
+  constructor(
+    readonly status: number,
+    message: string,
+    errorCode: ErrorCode = ErrorCode.PARSE_ERROR
+  ) {
+    super({ message, errorCode });
+  }
+}
+
+export function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  contentType = 'application/json'
+): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    'content-type': `${contentType}; charset=utf-8`,
+    'content-length': Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+export function toFoundryError(err: unknown): FoundryError {
+  if (isFoundryError(err)) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  return new (class extends FoundryError {})({
+    message: message || 'Unexpected error',
+    errorCode: ErrorCode.INTERNAL_ERROR,
+    cause: err instanceof Error ? err : undefined,
+  });
+}
+
+/** RFC 9457 problem document built by ErrorPresenter.formatForAPI. */
+export function errorView(err: unknown, requestId: string): APIErrorView {
+  const error = toFoundryError(err);
+  const env = process.env.NODE_ENV === 'production' ? 'prod' : 'dev';
+  const view = new ErrorPresenter(env, { requestId }).formatForAPI(error);
+  if (error instanceof HttpError) view.status = error.status;
+  return view;
+}
+
+export function sendProblem(
+  res: ServerResponse,
+  err: unknown,
+  requestId: string
+): void {
+  const view = errorView(err, requestId);
+  sendJson(res, view.status, view, 'application/problem+json');
+}
+
+function readBody(
+  req: IncomingMessage,
+  maxBytes: number,
+  tooLarge: Error
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      if (size > maxBytes) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Keep draining the socket so the 413 response can be delivered.
+        chunks.length = 0;
+        reject(tooLarge);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Read a JSON object body, rejecting it with 413 once it exceeds
+ * `maxBytes` (checked against content-length first, then while reading).
+ */
+export async function readJsonBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<Record<string, unknown>> {
+  const tooLarge = new HttpError(
+    413,
+    `Request body exceeds ${maxBytes} bytes`,
+    ErrorCode.GENERATION_LIMIT_EXCEEDED
+  );
+  if (Number(req.headers['content-length'] ?? 0) > maxBytes) {
+    req.resume();
+    throw tooLarge;
+  }
+
+  const raw = await readBody(req, maxBytes, tooLarge);
+  let body: unknown;
+  try {
+    body = JSON.parse(raw.toString('utf8'));
+  } catch (error) {
+    throw new ParseError({
+      message: 'Request body is not valid JSON',
+      cause: error instanceof Error ? error : undefined,
+    });
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ParseError({ message: 'Request body must be a JSON object' });
+  }
+  return body as Record<string, unknown>;
+}
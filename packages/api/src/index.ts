@@ -0,0 +1,16 @@
+export {
+  API_VERSION,
+  createApiHandler,
+  createApiServer,
+  type ApiRequestHandler,
+} from './server.js';
+export {
+  DEFAULT_MAX_COUNT,
+  clampComplexity,
+  resolveApiLimits,
+  type ApiLimits,
+  type ApiServerOptions,
+} from './options.js';
+export { buildOpenApiDocument } from './openapi.js';
+export { SchemaCache, type CachedSchema } from './schema-cache.js';
+export { HttpError } from './http.js';
@@ -0,0 +1,229 @@
+import type { ApiLimits } from './options.js';
+
+type JsonObject = Record<string, unknown>;
+
+const ref = (name: string): JsonObject => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+const problem = (description: string): JsonObject => ({
+  description,
+  content: { 'application/problem+json': { schema: ref('Problem') } },
+});
+
+const PROBLEMS = {
+  '400': problem('Invalid request or generation failure'),
+  '413': problem('Request body too large'),
+  '500': problem('Internal error'),
+};
+
+function operation(
+  summary: string,
+  requestSchema: string,
+  responses: JsonObject
+): JsonObject {
+  return {
+    post: {
+      summary,
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: ref(requestSchema) } },
+      },
+      responses: { ...responses, ...PROBLEMS },
+    },
+  };
+}
+
+const json = (description: string, schema: JsonObject): JsonObject => ({
+  description,
+  content: { 'application/json': { schema } },
+});
+
+const SCHEMA_PROPERTY = {
+  description: 'JSON Schema (draft-07, 2019-09 or 2020-12)',
+  type: ['object', 'boolean'],
+};
+
+function generationProperties(limits: ApiLimits): JsonObject {
+  return {
+    schema: SCHEMA_PROPERTY,
+    count: {
+      type: 'integer',
+      minimum: 1,
+      maximum: limits.maxCount,
+      default: 1,
+    },
+    seed: { type: 'integer', minimum: 0, default: 424242 },
+    mode: { enum: ['strict', 'lax'], default: 'strict' },
+    context: {
+      enum: ['request', 'response'],
+      description: 'Omit readOnly (request) or writeOnly (response) properties',
+    },
+    locale: { type: 'string' },
+    preferExamples: { type: 'boolean' },
+    repairAttempts: { type: 'integer', minimum: 1, maximum: 3 },
+    validateFormats: { type: 'boolean', default: true },
+    discriminator: { type: 'boolean', default: false },
+    validateContent: { type: 'boolean', default: false },
+    planOptions: ref('PlanOptions'),
+    coverage: { type: 'object' },
+  };
+}
+
+const request = (properties: JsonObject): JsonObject => ({
+  type: 'object',
+  required: ['schema'],
+  properties,
+});
+
+function requestSchemas(limits: ApiLimits): JsonObject {
+  const generation = generationProperties(limits);
+  const instances = { type: 'array', maxItems: limits.maxCount };
+  return {
+    GenerateRequest: request({
+      ...generation,
+      polarity: { enum: ['positive', 'negative'], default: 'positive' },
+    }),
+    ValidateRequest: request({
+      schema: SCHEMA_PROPERTY,
+      instance: {},
+      instances,
+      validateFormats: { type: 'boolean', default: false },
+      discriminator: { type: 'boolean', default: false },
+      validateContent: { type: 'boolean', default: false },
+    }),
+    NormalizeRequest: request({
+      schema: SCHEMA_PROPERTY,
+      options: { type: 'object' },
+    }),
+    ComposeRequest: request({
+      schema: SCHEMA_PROPERTY,
+      mode: generation.mode,
+      seed: generation.seed,
+      planOptions: generation.planOptions,
+    }),
+    CoverageRequest: request({ ...generation, instances }),
+  };
+}
+
+function complexitySchema(limits: ApiLimits): JsonObject {
+  const properties: JsonObject = {};
+  for (const [key, max] of Object.entries(limits.complexity)) {
+    properties[key] = { type: 'number', maximum: max, default: max };
+  }
+  return { type: 'object', properties };
+}
+
+const PROBLEM_SCHEMA = {
+  type: 'object',
+  required: ['type', 'title', 'status', 'code'],
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    code: { type: 'string' },
+    detail: { type: 'string' },
+    instance: { type: 'string' },
+    suggestions: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const VALIDATE_RESULT = {
+  type: 'object',
+  properties: { valid: { type: 'boolean' }, errors: { type: 'array' } },
+};
+
+const objectWith = (properties: JsonObject): JsonObject => ({
+  type: 'object',
+  properties,
+});
+
+function generationPaths(): JsonObject {
+  return {
+    '/generate': operation('Generate instances', 'GenerateRequest', {
+      '200': {
+        description:
+          'Items with metrics; one item per line with Accept: application/x-ndjson',
+        content: {
+          'application/json': {
+            schema: objectWith({
+              items: { type: 'array' },
+              metrics: { type: 'object' },
+              coverageReport: { type: 'object' },
+            }),
+          },
+          'application/x-ndjson': { schema: {} },
+        },
+      },
+    }),
+    '/validate': operation('Validate instances', 'ValidateRequest', {
+      '200': json('Validation result', {
+        oneOf: [
+          VALIDATE_RESULT,
+          objectWith({
+            valid: { type: 'boolean' },
+            results: { type: 'array', items: VALIDATE_RESULT },
+          }),
+        ],
+      }),
+    }),
+  };
+}
+
+function stagePaths(): JsonObject {
+  return {
+    '/normalize': operation('Normalize a schema', 'NormalizeRequest', {
+      '200': json(
+        'Canonical schema, pointer map and notes',
+        objectWith({
+          canonSchema: {},
+          ptrMap: { type: 'object' },
+          notes: { type: 'array' },
+        })
+      ),
+    }),
+    '/compose': operation('Plan a schema', 'ComposeRequest', {
+      '200': json(
+        'Coverage index and planning diagnostics',
+        objectWith({
+          coverageIndex: { type: 'object' },
+          planDiag: { type: 'array' },
+          nameDfaSummary: { type: 'object' },
+        })
+      ),
+    }),
+    '/coverage': operation('Coverage report', 'CoverageRequest', {
+      '200': json(
+        'coverage-report/v1, with rejected instances',
+        objectWith({ report: { type: 'object' }, rejected: { type: 'array' } })
+      ),
+    }),
+  };
+}
+
+/**
+ * OpenAPI 3.1 description of the server, served at GET /openapi.json.
+ * Count and complexity bounds reflect the limits the server runs with.
+ */
+export function buildOpenApiDocument(
+  limits: ApiLimits,
+  version: string
+): JsonObject {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'FoundryData API',
+      version,
+      description:
+        'Schema-driven test data generation over the FoundryData core pipeline.',
+    },
+    paths: { ...generationPaths(), ...stagePaths() },
+    components: {
+      schemas: {
+        ...requestSchemas(limits),
+        PlanOptions: objectWith({ complexity: complexitySchema(limits) }),
+        Problem: PROBLEM_SCHEMA,
+      },
+    },
+  };
+}
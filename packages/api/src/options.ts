@@ -0,0 +1,78 @@
+import {
+  resolveOptions,
+  type CacheOptions,
+  type ComplexityOptions,
+  type PlanOptions,
+} from '@foundrydata/core';
+
+export interface ApiServerOptions {
+  /**
+   * Complexity caps applied to every request. A request may lower them
+   * through `planOptions.complexity` but never raise them. Defaults to the
+   * core defaults.
+   */
+  complexity?: ComplexityOptions;
+  /** Largest request body in bytes. Defaults to complexity.maxSchemaBytes. */
+  maxBodyBytes?: number;
+  /**
+   * Largest `count` for /generate and /coverage, and largest `instances`
+   * array for /validate and /coverage (default: 10_000).
+   */
+  maxCount?: number;
+  /** Schemas kept in the compiled-schema cache. Defaults to cache.lruSize. */
+  cacheSize?: number;
+  /**
+   * External $ref resolution for every request (strategies, mappings,
+   * snapshot, cache directory). Requests cannot set `planOptions.resolver`:
+   * it reads files and reaches the network. Defaults to the core defaults.
+   */
+  resolver?: PlanOptions['resolver'];
+  /**
+   * Plan caching for every request. Requests cannot set `planOptions.cache`:
+   * the persistent cache writes to disk. Defaults to the core defaults.
+   */
+  planCache?: CacheOptions;
+}
+
+export interface ApiLimits {
+  complexity: Required<ComplexityOptions>;
+  maxBodyBytes: number;
+  maxCount: number;
+  cacheSize: number;
+  /** Plan options fixed by the server, applied over every request's. */
+  serverPlanOptions: Pick<PlanOptions, 'resolver' | 'cache'>;
+}
+
+export const DEFAULT_MAX_COUNT = 10_000;
+
+export function resolveApiLimits(options: ApiServerOptions = {}): ApiLimits {
+  const resolved = resolveOptions({
+    complexity: options.complexity,
+    cache: options.planCache,
+  });
+  return {
+    complexity: resolved.complexity,
+    maxBodyBytes: options.maxBodyBytes ?? resolved.complexity.maxSchemaBytes,
+    maxCount: options.maxCount ?? DEFAULT_MAX_COUNT,
+    cacheSize: Math.max(1, options.cacheSize ?? resolved.cache.lruSize),
+    serverPlanOptions: { resolver: options.resolver, cache: options.planCache },
+  };
+}
+
+/**
+ * Complexity caps for one request: each requested value, capped by the
+ * server limit; unset values take the server limit.
+ */
+export function clampComplexity(
+  requested: ComplexityOptions | undefined,
+  limits: Required<ComplexityOptions>
+): Required<ComplexityOptions> {
+  const clamped = { ...limits };
+  for (const key of Object.keys(limits) as Array<keyof ComplexityOptions>) {
+    const value = requested?.[key];
+    if (typeof value === 'number' && value < limits[key]) {
+      clamped[key] = value;
+    }
+  }
+  return clamped;
+}
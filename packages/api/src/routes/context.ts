@@ -0,0 +1,69 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { PlanOptions } from '@foundrydata/core';
+
+import type { ApiLimits } from '../options.js';
+import { clampComplexity } from '../options.js';
+import type { SchemaCache } from '../schema-cache.js';
+import { readObject, type RequestBody } from './params.js';
+
+export interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  body: RequestBody;
+  limits: ApiLimits;
+  cache: SchemaCache;
+  requestId: string;
+}
+
+export type RouteHandler = (ctx: RouteContext) => Promise<void> | void;
+
+/** Announce the schema hash and whether its compiled form was reused. */
+export function setCacheHeaders(
+  res: ServerResponse,
+  cached: { hash: string; hit: boolean }
+): void {
+  res.setHeader('x-foundry-schema-hash', cached.hash);
+  res.setHeader('x-foundry-cache', cached.hit ? 'hit' : 'miss');
+}
+
+/**
+ * Plan options a request may set: planning and generation knobs. Options
+ * that touch the host (resolver, cache, debug freezing) are the server's.
+ */
+const REQUEST_PLAN_OPTIONS = [
+  'rewriteConditionals',
+  'rational',
+  'encoding',
+  'trials',
+  'guards',
+  'metrics',
+  'disablePatternOverlapAnalysis',
+  'coverageAnchoredSubset',
+  'enableLocalSMT',
+  'solverTimeoutMs',
+  'failFast',
+  'patternPolicy',
+  'conditionals',
+  'patternWitness',
+  'nameEnum',
+  'repair',
+  'gValid',
+] as const satisfies ReadonlyArray<keyof PlanOptions>;
+
+/**
+ * `planOptions` from the body: the request-settable options, complexity
+ * caps clamped to the server's, and the server's resolver and cache.
+ * Other members are dropped.
+ */
+export function readPlanOptions(ctx: RouteContext): PlanOptions {
+  const requested = readObject<PlanOptions>(ctx.body, 'planOptions') ?? {};
+  const planOptions: Record<string, unknown> = {};
+  for (const key of REQUEST_PLAN_OPTIONS) {
+    if (requested[key] !== undefined) planOptions[key] = requested[key];
+  }
+  return {
+    ...planOptions,
+    complexity: clampComplexity(requested.complexity, ctx.limits.complexity),
+    ...ctx.limits.serverPlanOptions,
+  };
+}
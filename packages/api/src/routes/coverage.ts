@@ -0,0 +1,51 @@
+import type { InstanceCoverageOptions } from '@foundrydata/core';
+
+import { sendJson } from '../http.js';
+import {
+  readPlanOptions,
+  setCacheHeaders,
+  type RouteContext,
+} from './context.js';
+import { assertCompleted, readGenerateRun, startGenerate } from './generate.js';
+import {
+  assertWithinCount,
+  readArray,
+  readBoolean,
+  readObject,
+  requireSchema,
+} from './params.js';
+
+function measureInstances(ctx: RouteContext, instances: unknown[]): void {
+  const { body } = ctx;
+  assertWithinCount('instances', instances.length, ctx.limits.maxCount);
+  const cached = ctx.cache.lookup(requireSchema(body));
+  const measure = cached.meter({
+    ...readObject<InstanceCoverageOptions>(body, 'coverage'),
+    validateFormats: readBoolean(body, 'validateFormats'),
+    planOptions: readPlanOptions(ctx),
+  });
+  setCacheHeaders(ctx.res, cached);
+  const result = measure(instances);
+  sendJson(ctx.res, 200, { report: result.report, rejected: result.rejected });
+}
+
+/**
+ * POST /coverage — a coverage-report/v1 for `schema`. With `instances`,
+ * measures the coverage those instances reach and lists the ones the
+ * schema rejects; otherwise generates `count` instances with coverage
+ * (`coverage.mode` defaults to 'measure') and reports on them.
+ */
+export async function handleCoverage(ctx: RouteContext): Promise<void> {
+  const instances = readArray(ctx.body, 'instances');
+  if (instances) {
+    measureInstances(ctx, instances);
+    return;
+  }
+
+  const run = readGenerateRun(ctx);
+  setCacheHeaders(ctx.res, run.cached);
+  run.options.coverage = { mode: 'measure', ...run.options.coverage };
+  const result = await startGenerate(run).result;
+  assertCompleted(result);
+  sendJson(ctx.res, 200, { report: result.artifacts.coverageReport });
+}
@@ -0,0 +1,175 @@
+import { once } from 'node:events';
+import type { ServerResponse } from 'node:http';
+import {
+  Generate,
+  GenerationError,
+  ParseError,
+  PipelineStageError,
+  stableHash,
+  type CoveragePolarity,
+  type GenerateIterable,
+  type GenerateOptions,
+  type PipelineResult,
+  type SchemaAccessContext,
+} from '@foundrydata/core';
+
+import { errorView, sendJson } from '../http.js';
+import type { CachedSchema } from '../schema-cache.js';
+import {
+  readPlanOptions,
+  setCacheHeaders,
+  type RouteContext,
+} from './context.js';
+import {
+  assertWithinCount,
+  readBoolean,
+  readEnum,
+  readInteger,
+  readObject,
+  readString,
+  requireSchema,
+} from './params.js';
+
+export const DEFAULT_SEED = 424242;
+export const NDJSON = 'application/x-ndjson';
+
+const MODES = ['strict', 'lax'] as const;
+const POLARITIES: readonly CoveragePolarity[] = ['positive', 'negative'];
+const CONTEXTS: readonly SchemaAccessContext[] = ['request', 'response'];
+
+export interface GenerateRun {
+  cached: CachedSchema;
+  count: number;
+  seed: number;
+  options: GenerateOptions;
+}
+
+/**
+ * Read the body members shared by /generate and /coverage and look the
+ * schema up in the compiled-schema cache.
+ */
+export function readGenerateRun(ctx: RouteContext): GenerateRun {
+  const { body } = ctx;
+  const count = readInteger(body, 'count', 1, 1);
+  assertWithinCount('count', count, ctx.limits.maxCount);
+  const cached = ctx.cache.lookup(requireSchema(body));
+  const mode = readEnum(body, 'mode', MODES) ?? 'strict';
+  const validateFormats = readBoolean(body, 'validateFormats') ?? true;
+  const discriminator = readBoolean(body, 'discriminator') ?? false;
+  const validateContent = readBoolean(body, 'validateContent') ?? false;
+  const planOptions = readPlanOptions(ctx);
+  // Shared resources are planned with these options: runs share them only
+  // when the effective plan options match.
+  const planKey = stableHash(planOptions)!.digest;
+  return {
+    cached,
+    count,
+    seed: readInteger(body, 'seed', DEFAULT_SEED, 0),
+    options: {
+      mode,
+      validateFormats,
+      discriminator,
+      validateContent,
+      polarity: readEnum(body, 'polarity', POLARITIES),
+      context: readEnum(body, 'context', CONTEXTS),
+      locale: readString(body, 'locale'),
+      preferExamples: readBoolean(body, 'preferExamples'),
+      repairAttempts: readInteger(body, 'repairAttempts', 1, 1),
+      planOptions,
+      coverage: readObject(body, 'coverage'),
+      shared: cached.shared(
+        `${mode}|${validateFormats}|${discriminator}|${validateContent}|${planKey}`
+      ),
+    },
+  };
+}
+
+export function startGenerate(
+  run: GenerateRun,
+  stream = false
+): GenerateIterable {
+  try {
+    return Generate(run.count, run.seed, run.cached.schema, {
+      ...run.options,
+      stream,
+    });
+  } catch (error) {
+    // Generate rejects invalid coverage options before starting the run.
+    throw new ParseError({
+      message: error instanceof Error ? error.message : String(error),
+      context: { path: '/coverage' },
+    });
+  }
+}
+
+function toGenerationError(error: unknown): unknown {
+  if (!(error instanceof PipelineStageError)) return error;
+  return new GenerationError({
+    message: error.message,
+    context: { stage: error.stage },
+    cause: error,
+  });
+}
+
+/** Throw the first stage error of a failed run as a GenerationError. */
+export function assertCompleted(result: PipelineResult): void {
+  if (result.status === 'completed') return;
+  throw toGenerationError(
+    result.errors[0] ??
+      new PipelineStageError('generate', 'Generation pipeline failed')
+  );
+}
+
+function finalItems(result: PipelineResult): unknown[] {
+  const items = result.artifacts.negativeInstances ?? result.artifacts.repaired;
+  return Array.isArray(items)
+    ? items
+    : (result.stages.generate.output?.items ?? []);
+}
+
+async function writeNdjson(
+  res: ServerResponse,
+  iterable: GenerateIterable,
+  requestId: string
+): Promise<void> {
+  res.writeHead(200, { 'content-type': `${NDJSON}; charset=utf-8` });
+  try {
+    for await (const item of iterable) {
+      if (res.destroyed) return;
+      if (!res.write(JSON.stringify(item ?? null) + '\n')) {
+        await Promise.race([once(res, 'drain'), once(res, 'close')]);
+      }
+    }
+    assertCompleted(await iterable.result);
+  } catch (error) {
+    // Headers are gone: report the failure as a final line instead.
+    const view = errorView(toGenerationError(error), requestId);
+    res.write(JSON.stringify({ error: view }) + '\n');
+  }
+  res.end();
+}
+
+/**
+ * POST /generate — `count` instances for `schema`. Responds with NDJSON,
+ * one item per line as produced, when the client accepts
+ * application/x-ndjson; otherwise with `{ items, metrics, coverageReport }`.
+ */
+export async function handleGenerate(ctx: RouteContext): Promise<void> {
+  const run = readGenerateRun(ctx);
+  setCacheHeaders(ctx.res, run.cached);
+
+  const streaming = (ctx.req.headers.accept ?? '').includes(NDJSON);
+  const iterable = startGenerate(run, streaming);
+  if (streaming) {
+    await writeNdjson(ctx.res, iterable, ctx.requestId);
+    return;
+  }
+
+  const result = await iterable.result;
+  assertCompleted(result);
+  sendJson(ctx.res, 200, {
+    items: finalItems(result),
+    metrics: result.metrics,
+    coverageReport: result.artifacts.coverageReport,
+  });
+}
@@ -0,0 +1,100 @@
+import { ErrorCode, GenerationError, ParseError } from '@foundrydata/core';
+
+export type RequestBody = Record<string, unknown>;
+
+function invalid(key: string, expected: string): ParseError {
+  return new ParseError({
+    message: `"${key}" must be ${expected}`,
+    context: { path: `/${key}` },
+  });
+}
+
+/** The `schema` member: a JSON Schema object or boolean schema. */
+export function requireSchema(body: RequestBody): object | boolean {
+  const schema = body.schema;
+  if (typeof schema === 'boolean') return schema;
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    throw invalid('schema', 'a JSON Schema object or boolean');
+  }
+  return schema;
+}
+
+export function readInteger(
+  body: RequestBody,
+  key: string,
+  fallback: number,
+  min = Number.MIN_SAFE_INTEGER
+): number {
+  const value = body[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw invalid(key, `an integer >= ${min}`);
+  }
+  return value;
+}
+
+export function readBoolean(
+  body: RequestBody,
+  key: string
+): boolean | undefined {
+  const value = body[key];
+  if (value === undefined || typeof value === 'boolean') return value;
+  throw invalid(key, 'a boolean');
+}
+
+export function readString(body: RequestBody, key: string): string | undefined {
+  const value = body[key];
+  if (value === undefined || typeof value === 'string') return value;
+  throw invalid(key, 'a string');
+}
+
+export function readEnum<T extends string>(
+  body: RequestBody,
+  key: string,
+  allowed: readonly T[]
+): T | undefined {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (
+    typeof value === 'string' &&
+    (allowed as readonly string[]).includes(value)
+  ) {
+    return value as T;
+  }
+  throw invalid(key, `one of ${allowed.join(', ')}`);
+}
+
+export function readObject<T extends object>(
+  body: RequestBody,
+  key: string
+): T | undefined {
+  const value = body[key];
+  if (value === undefined) return undefined;
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    return value as T;
+  }
+  throw invalid(key, 'an object');
+}
+
+export function readArray(
+  body: RequestBody,
+  key: string
+): unknown[] | undefined {
+  const value = body[key];
+  if (value === undefined || Array.isArray(value)) return value;
+  throw invalid(key, 'an array');
+}
+
+/** Reject counts above the server's maxCount with GENERATION_LIMIT_EXCEEDED. */
+export function assertWithinCount(
+  key: string,
+  count: number,
+  maxCount: number
+): void {
+  if (count <= maxCount) return;
+  throw new GenerationError({
+    message: `"${key}" exceeds the server limit of ${maxCount}`,
+    errorCode: ErrorCode.GENERATION_LIMIT_EXCEEDED,
+    context: { path: `/${key}`, limit: maxCount, observed: count },
+  });
+}
@@ -0,0 +1,56 @@
+import {
+  Compose,
+  Normalize,
+  type CoverageIndex,
+  type NormalizeOptions,
+} from '@foundrydata/core';
+
+import { sendJson } from '../http.js';
+import { readPlanOptions, type RouteContext } from './context.js';
+import { DEFAULT_SEED } from './generate.js';
+import { readEnum, readInteger, readObject, requireSchema } from './params.js';
+
+/** Names listed per finite coverage entry in /compose responses. */
+export const COMPOSE_NAME_SAMPLE = 64;
+
+/**
+ * POST /normalize — the canonical view of `schema` with its pointer map
+ * and normalizer notes.
+ */
+export function handleNormalize(ctx: RouteContext): void {
+  const result = Normalize(requireSchema(ctx.body), {
+    normalizeOptions: readObject<NormalizeOptions>(ctx.body, 'options'),
+  });
+  sendJson(ctx.res, 200, result);
+}
+
+function serializeCoverageIndex(index: CoverageIndex): Record<string, unknown> {
+  const entries: Record<string, unknown> = {};
+  for (const [pointer, entry] of index) {
+    entries[pointer] = {
+      provenance: entry.provenance,
+      nameDfaSummary: entry.nameDfaSummary,
+      names: entry.enumerate?.(COMPOSE_NAME_SAMPLE),
+    };
+  }
+  return entries;
+}
+
+/**
+ * POST /compose — planning diagnostics and the coverage index of
+ * `schema`. Entries list up to COMPOSE_NAME_SAMPLE names when the
+ * engine proved them finite.
+ */
+export function handleCompose(ctx: RouteContext): void {
+  const { body } = ctx;
+  const result = Compose(requireSchema(body), {
+    mode: readEnum(body, 'mode', ['strict', 'lax'] as const) ?? 'strict',
+    seed: readInteger(body, 'seed', DEFAULT_SEED, 0),
+    planOptions: readPlanOptions(ctx),
+  });
+  sendJson(ctx.res, 200, {
+    coverageIndex: serializeCoverageIndex(result.coverageIndex),
+    planDiag: result.planDiag,
+    nameDfaSummary: result.nameDfaSummary,
+  });
+}
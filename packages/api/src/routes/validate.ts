@@ -0,0 +1,61 @@
+import { ParseError, type ValidateResult } from '@foundrydata/core';
+
+import { sendJson } from '../http.js';
+import { setCacheHeaders, type RouteContext } from './context.js';
+import {
+  assertWithinCount,
+  readArray,
+  readBoolean,
+  requireSchema,
+} from './params.js';
+
+interface ValidateView {
+  valid: boolean;
+  errors: unknown[];
+}
+
+function toView(result: ValidateResult): ValidateView {
+  // A compile failure is reported as an Error, which JSON drops to {}.
+  const errors = (result.ajvErrors ?? []).map((error) =>
+    error instanceof Error ? { message: error.message } : error
+  );
+  return { valid: result.valid, errors };
+}
+
+/**
+ * POST /validate — check `instance` (or each of `instances`) against
+ * `schema` with the Source AJV. Responds with `{ valid, errors }`, or with
+ * `{ valid, results }` for a batch, `valid` being true when all pass.
+ * Validation does not plan, so `planOptions` is rejected rather than
+ * silently ignored.
+ */
+export function handleValidate(ctx: RouteContext): void {
+  const { body } = ctx;
+  if (body.planOptions !== undefined) {
+    throw new ParseError({
+      message: '"planOptions" is not accepted by /validate',
+      context: { path: '/planOptions' },
+    });
+  }
+  const instances = readArray(body, 'instances');
+  if (instances) {
+    assertWithinCount('instances', instances.length, ctx.limits.maxCount);
+  }
+  const cached = ctx.cache.lookup(requireSchema(body));
+  const validate = cached.validator({
+    validateFormats: readBoolean(body, 'validateFormats'),
+    discriminator: readBoolean(body, 'discriminator'),
+    validateContent: readBoolean(body, 'validateContent'),
+  });
+  setCacheHeaders(ctx.res, cached);
+
+  if (!instances) {
+    sendJson(ctx.res, 200, toView(validate(body.instance)));
+    return;
+  }
+  const results = instances.map((instance) => toView(validate(instance)));
+  sendJson(ctx.res, 200, {
+    valid: results.every((result) => result.valid),
+    results,
+  });
+}
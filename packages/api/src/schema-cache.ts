@@ -0,0 +1,108 @@
+import {
+  createInstanceCoverageMeter,
+  createValidator,
+  stableHash,
+  type InstanceCoverageMeter,
+  type InstanceCoverageOptions,
+  type PipelineSharedResources,
+  type ValidateOptions,
+  type ValidateResult,
+} from '@foundrydata/core';
+
+type Validator = (instance: unknown) => ValidateResult;
+
+interface CacheEntry {
+  /** First schema object seen for this hash, reused by later requests. */
+  schema: object | boolean;
+  validators: Map<string, Validator>;
+  meters: Map<string, InstanceCoverageMeter>;
+  runs: Map<string, PipelineSharedResources>;
+}
+
+export interface CachedSchema {
+  /** sha256 of the canonical JSON of the schema. */
+  hash: string;
+  hit: boolean;
+  schema: object | boolean;
+  /** Compiled Source AJV validator for the given options. */
+  validator(options: ValidateOptions): Validator;
+  /** Planned coverage targets and replay validators for the given options. */
+  meter(options: InstanceCoverageOptions): InstanceCoverageMeter;
+  /**
+   * Resolver registry and Source AJV shared by generation runs using the
+   * same settings (see PipelineSharedResources).
+   */
+  shared(settingsKey: string): PipelineSharedResources;
+}
+
+function memoize<T>(map: Map<string, T>, key: string, create: () => T): T {
+  let value = map.get(key);
+  if (value === undefined) {
+    value = create();
+    map.set(key, value);
+  }
+  return value;
+}
+
+/**
+ * Compiled schemas keyed by the hash of their canonical JSON, so requests
+ * repeating a schema skip AJV compilation and external $ref resolution.
+ * Least recently used schemas are evicted beyond `capacity`.
+ */
+export class SchemaCache {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly capacity: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  lookup(schema: object | boolean): CachedSchema {
+    const hash = stableHash(schema)!.digest;
+    let entry = this.entries.get(hash);
+    const hit = entry !== undefined;
+    if (entry) {
+      this.entries.delete(hash);
+    } else {
+      entry = {
+        schema,
+        validators: new Map(),
+        meters: new Map(),
+        runs: new Map(),
+      };
+    }
+    this.entries.set(hash, entry);
+    this.evict();
+
+    const cached = entry;
+    return {
+      hash,
+      hit,
+      schema: cached.schema,
+      validator: (options) => {
+        const key = [
+          options.validateFormats ?? false,
+          options.discriminator ?? false,
+          options.validateContent ?? false,
+        ].join('|');
+        return memoize(cached.validators, key, () =>
+          createValidator(cached.schema, options)
+        );
+      },
+      meter: (options) =>
+        memoize(cached.meters, stableHash(options)!.digest, () =>
+          createInstanceCoverageMeter(cached.schema, options)
+        ),
+      shared: (settingsKey) => memoize(cached.runs, settingsKey, () => ({})),
+    };
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) return;
+      this.entries.delete(oldest.value);
+    }
+  }
+}
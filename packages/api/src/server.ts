@@ -0,0 +1,119 @@
+import { randomUUID } from 'node:crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+
+import { HttpError, readJsonBody, sendJson, sendProblem } from './http.js';
+import { buildOpenApiDocument } from './openapi.js';
+import {
+  resolveApiLimits,
+  type ApiLimits,
+  type ApiServerOptions,
+} from './options.js';
+import type { RouteHandler } from './routes/context.js';
+import { handleCoverage } from './routes/coverage.js';
+import { handleGenerate } from './routes/generate.js';
+import { handleCompose, handleNormalize } from './routes/stages.js';
+import { handleValidate } from './routes/validate.js';
+import { SchemaCache } from './schema-cache.js';
+
+export const API_VERSION = '0.1.1';
+
+const POST_ROUTES: Record<string, RouteHandler> = {
+  '/generate': handleGenerate,
+  '/validate': handleValidate,
+  '/normalize': handleNormalize,
+  '/compose': handleCompose,
+  '/coverage': handleCoverage,
+};
+
+export type ApiRequestHandler = (
+  req: IncomingMessage,
+  res: ServerResponse
+) => Promise<void>;
+
+interface ServerState {
+  limits: ApiLimits;
+  cache: SchemaCache;
+  openapi: Record<string, unknown>;
+}
+
+function handleGet(
+  state: ServerState,
+  path: string,
+  res: ServerResponse
+): void {
+  if (path === '/openapi.json') {
+    sendJson(res, 200, state.openapi);
+    return;
+  }
+  sendJson(res, 200, { status: 'ok', cachedSchemas: state.cache.size });
+}
+
+function allowedMethod(path: string): string | undefined {
+  if (path in POST_ROUTES) return 'POST';
+  if (path === '/openapi.json' || path === '/health') return 'GET';
+  return undefined;
+}
+
+async function route(
+  state: ServerState,
+  req: IncomingMessage,
+  res: ServerResponse,
+  requestId: string
+): Promise<void> {
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const allowed = allowedMethod(path);
+  if (!allowed) {
+    throw new HttpError(404, `No route for ${path}`);
+  }
+  if (req.method !== allowed) {
+    res.setHeader('allow', allowed);
+    throw new HttpError(405, `${path} only accepts ${allowed}`);
+  }
+  if (allowed === 'GET') {
+    handleGet(state, path, res);
+    return;
+  }
+  const body = await readJsonBody(req, state.limits.maxBodyBytes);
+  await POST_ROUTES[path]!({ req, res, body, requestId, ...state });
+}
+
+/**
+ * Request listener serving the core facades as JSON endpoints. Schemas
+ * are processed in-process: no request leaves the machine, and compiled
+ * schemas are shared across requests through a SchemaCache.
+ */
+export function createApiHandler(
+  options: ApiServerOptions = {}
+): ApiRequestHandler {
+  const limits = resolveApiLimits(options);
+  const state: ServerState = {
+    limits,
+    cache: new SchemaCache(limits.cacheSize),
+    openapi: buildOpenApiDocument(limits, API_VERSION),
+  };
+  return async (req, res) => {
+    const requestId = randomUUID();
+    res.setHeader('x-request-id', requestId);
+    try {
+      await route(state, req, res, requestId);
+    } catch (error) {
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+      sendProblem(res, error, requestId);
+    }
+  };
+}
+
+export function createApiServer(options: ApiServerOptions = {}): Server {
+  const handler = createApiHandler(options);
+  return createServer((req, res) => {
+    void handler(req, res);
+  });
+}
@@ -20,6 +20,9 @@ class FakeCommand {
   option(): this {
     return this;
   }
+  allowUnknownOption(): this {
+    return this;
+  }
   action(): this {
     return this;
   }
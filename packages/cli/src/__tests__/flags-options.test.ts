@@ -3,6 +3,7 @@ import {
   resolveRowCount,
   resolveCompatMode,
   resolveOutputFormat,
+  resolvePolarity,
   parsePlanOptions,
   type CliOptions,
 } from '../flags';
@@ -83,6 +84,17 @@ describe('CLI flag helpers', () => {
     });
   });
 
+  describe('resolvePolarity', () => {
+    it('defaults to positive and accepts negative', () => {
+      expect(resolvePolarity(undefined)).toBe('positive');
+      expect(resolvePolarity('NEGATIVE')).toBe('negative');
+    });
+
+    it('throws on invalid values', () => {
+      expect(() => resolvePolarity('both')).toThrow(/Invalid --polarity value/);
+    });
+  });
+
   describe('parsePlanOptions', () => {
     it('accepts coverage-related flags without throwing (they are ignored)', () => {
       const options: CliOptions = {
@@ -115,5 +127,33 @@ describe('CLI flag helpers', () => {
       const plan = parsePlanOptions(options);
       expect(plan.repair?.allowStructuralInGValid).toBe(true);
     });
+
+    it('maps resolver map/preload flags and enables the mapping strategy', () => {
+      const plan = parsePlanOptions({
+        resolve: 'local',
+        resolverMap: ['https://schemas.acme.io/=./shared-schemas/'],
+        resolverPreload: ['./shared-schemas/**/*.{json,yaml}'],
+      });
+      expect(plan.resolver?.strategies).toEqual(['local', 'mapping']);
+      expect(plan.resolver?.uriMappings).toEqual({
+        'https://schemas.acme.io/': './shared-schemas/',
+      });
+      expect(plan.resolver?.preload).toEqual([
+        './shared-schemas/**/*.{json,yaml}',
+      ]);
+    });
+
+    it('maps planCache flag to PlanOptions.cache.persistent', () => {
+      expect(parsePlanOptions({ planCache: true }).cache).toEqual({
+        persistent: true,
+      });
+      expect(parsePlanOptions({}).cache).toBeUndefined();
+    });
+
+    it('rejects resolver maps without a directory', () => {
+      expect(() =>
+        parsePlanOptions({ resolverMap: ['https://schemas.acme.io/'] })
+      ).toThrow(/Invalid --resolver-map/);
+    });
   });
 });
@@ -6,6 +6,7 @@ import type { CoverageReport } from '@foundrydata/shared';
 import { COVERAGE_REPORT_VERSION_V1 } from '@foundrydata/shared';
 import {
   diffCoverageReports,
+  loadSourceDocument,
   type CoverageReportsDiff,
   checkCoverageDiffCompatibility,
 } from '@foundrydata/core';
@@ -16,19 +17,14 @@ export interface CoverageDiffOptions {
   failOnRegression?: boolean;
 }
 
-// eslint-disable-next-line max-lines-per-function
-export function registerCoverageDiffCommand(program: Command): void {
-  const coverage = program
-    .command('coverage')
-    .description('Coverage utilities');
-
+export function registerCoverageDiffCommand(coverage: Command): void {
   coverage
     .command('diff')
     .description(
-      'Compare two coverage-report/v1 JSON files and highlight regressions'
+      'Compare two coverage-report/v1 files (JSON, YAML, JSON5) and highlight regressions'
     )
-    .argument('<baseline>', 'Baseline coverage report (JSON file)')
-    .argument('<comparison>', 'Comparison coverage report (JSON file)')
+    .argument('<baseline>', 'Baseline coverage report file')
+    .argument('<comparison>', 'Comparison coverage report file')
     .option(
       '--fail-on-regression',
       'Exit with non-zero code when regressions or new gaps are detected',
@@ -76,24 +72,15 @@ function resolvePath(p: string): string {
   return path.isAbsolute(p) ? p : path.resolve(process.cwd(), p);
 }
 
-function readCoverageReport(filePath: string): CoverageReport {
+export function readCoverageReport(filePath: string): CoverageReport {
   if (!fs.existsSync(filePath)) {
     throw new Error(`Coverage report file not found: ${filePath}`);
   }
 
-  const raw = fs.readFileSync(filePath, 'utf8');
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(raw);
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    throw new Error(`Invalid JSON in coverage report ${filePath}: ${message}`);
-  }
-
-  const report = parsed as CoverageReport;
+  const report = loadSourceDocument(filePath).value as CoverageReport;
   if (report.version !== COVERAGE_REPORT_VERSION_V1) {
     throw new Error(
-      `Unsupported coverage report version for diff: expected ${COVERAGE_REPORT_VERSION_V1}, got ${report.version}`
+      `Unsupported coverage report version: expected ${COVERAGE_REPORT_VERSION_V1}, got ${report.version}`
     );
   }
 
@@ -0,0 +1,158 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Command } from 'commander';
+
+import {
+  fillCoverageGaps,
+  loadSourceDocument,
+  type CoverageGapFillResult,
+} from '@foundrydata/core';
+
+import type { CliOptions } from '../flags.js';
+import { resolveCliCoverageOptions } from '../config/coverage-options.js';
+import { addCoverageDimensionMinOptions } from '../config/coverage-thresholds.js';
+import { formatCoverageSummary } from '../coverage/coverage-summary.js';
+import { enforceCoverageThreshold } from '../coverage/coverage-exit-codes.js';
+import { readCoverageReport } from './coverage-diff.js';
+import { requireFile } from './coverage-measure.js';
+
+export interface CoverageFillOptions {
+  schema?: string;
+  baseline?: string;
+  out?: string;
+  append?: boolean;
+  seed?: string;
+  maxInstances?: string;
+  coverageDimensions?: string;
+  coverageMin?: string;
+  coverageReport?: string;
+  coverageReportMode?: string;
+  coverageExcludeUnreachable?: string;
+  coverageWeights?: string;
+  coverageMinStructure?: string;
+  coverageMinBranches?: string;
+  coverageMinEnum?: string;
+  coverageMinBoundaries?: string;
+  coverageMinOperations?: string;
+}
+
+// eslint-disable-next-line max-lines-per-function
+export function registerCoverageFillCommand(coverage: Command): void {
+  const fillCommand = coverage
+    .command('fill')
+    .description(
+      'Generate only the instances needed to close the uncovered targets of a baseline coverage report'
+    )
+    .option('-s, --schema <file>', 'JSON Schema file path (JSON, YAML, JSON5)')
+    .option(
+      '--baseline <file>',
+      'Full coverage-report/v1 of the existing fixtures (e.g. from coverage measure)'
+    )
+    .option('--out <file>', 'Write the new instances as NDJSON to a file')
+    .option('--append', 'Append to --out instead of overwriting it')
+    .option('--seed <number>', 'Deterministic seed', '424242')
+    .option(
+      '--max-instances <number>',
+      'Cap on generated candidates (default: one per uncovered target)'
+    )
+    .option(
+      '--coverage-dimensions <list>',
+      'Comma-separated coverage dimensions (default: those of the baseline)'
+    )
+    .option('--coverage-min <ratio>', 'Minimum merged overall coverage (0..1)')
+    .option('--coverage-report <file>', 'Write the merged coverage report')
+    .option(
+      '--coverage-report-mode <mode>',
+      'Coverage report mode: full (default) or summary'
+    )
+    .option(
+      '--coverage-exclude-unreachable <bool>',
+      'Exclude unreachable targets from the denominator (default true)'
+    )
+    .option(
+      '--coverage-weights <file>',
+      'Coverage weighting model (JSON/YAML): byPath globs, byKind factors'
+    );
+
+  addCoverageDimensionMinOptions(fillCommand).action(
+    async (options: CoverageFillOptions) => {
+      const schemaPath = requireFile(options.schema, '--schema <file>');
+      const baselinePath = requireFile(options.baseline, '--baseline <file>');
+      const { coverage } = resolveCliCoverageOptions({
+        ...options,
+        coverage: 'guided',
+      } as CliOptions);
+
+      const result = await fillCoverageGaps(
+        loadSourceDocument(schemaPath).value,
+        readCoverageReport(baselinePath),
+        {
+          seed: Number(options.seed ?? 424242),
+          maxInstances:
+            options.maxInstances !== undefined
+              ? Number(options.maxInstances)
+              : undefined,
+          dimensionsEnabled: options.coverageDimensions
+            ? coverage.dimensionsEnabled
+            : undefined,
+          excludeUnreachable: coverage.excludeUnreachable,
+          minCoverage: coverage.minCoverage,
+          reportMode: coverage.reportMode,
+          weights: coverage.weights,
+          minCoverageByDimension: coverage.minCoverageByDimension,
+          minCoverageByOperation: coverage.minCoverageByOperation,
+        }
+      );
+
+      writeFillOutputs(result, options.out, options.append === true);
+      if (coverage.reportPath) {
+        writeJson(coverage.reportPath, result.report);
+      }
+      process.stderr.write(
+        `[foundrydata] coverage fill: ${result.items.length} instance(s) for ${result.filledTargetIds.length} previously uncovered target(s)\n`
+      );
+      warnUnfilledTargets(result);
+      process.stderr.write(
+        `[foundrydata] ${formatCoverageSummary(result.report)}\n`
+      );
+      enforceCoverageThreshold(result.report);
+    }
+  );
+}
+
+function warnUnfilledTargets(result: CoverageGapFillResult): void {
+  if (result.unfilledTargetIds.length === 0) return;
+  // Summary reports omit targets: fall back to the bare IDs.
+  const byId = new Map(result.report.targets.map((t) => [t.id, t]));
+  const lines = result.unfilledTargetIds.map((id) => {
+    const target = byId.get(id);
+    return `  - ${target ? `${target.kind} ${target.canonPath}` : id}\n`;
+  });
+  process.stderr.write(
+    `[foundrydata] coverage fill: ${lines.length} target(s) still uncovered:\n${lines.join('')}`
+  );
+}
+
+function writeFillOutputs(
+  result: CoverageGapFillResult,
+  out: string | undefined,
+  append: boolean
+): void {
+  const ndjson = result.items
+    .map((item) => JSON.stringify(item) + '\n')
+    .join('');
+  if (!out) {
+    process.stdout.write(ndjson);
+    return;
+  }
+  const outPath = path.resolve(process.cwd(), out);
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  if (append) fs.appendFileSync(outPath, ndjson, 'utf8');
+  else fs.writeFileSync(outPath, ndjson, 'utf8');
+}
+
+function writeJson(filePath: string, value: unknown): void {
+  const resolved = path.resolve(process.cwd(), filePath);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+  fs.writeFileSync(resolved, JSON.stringify(value, null, 2), 'utf8');
+}
@@ -0,0 +1,154 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Command } from 'commander';
+
+import {
+  loadSourceDocument,
+  measureInstanceCoverage,
+  type InstanceCoverageResult,
+} from '@foundrydata/core';
+
+import type { CliOptions } from '../flags.js';
+import { resolveCliCoverageOptions } from '../config/coverage-options.js';
+import { addCoverageDimensionMinOptions } from '../config/coverage-thresholds.js';
+import { formatCoverageSummary } from '../coverage/coverage-summary.js';
+import { enforceCoverageThreshold } from '../coverage/coverage-exit-codes.js';
+
+export interface CoverageMeasureOptions {
+  schema?: string;
+  instances?: string;
+  coverageDimensions?: string;
+  coverageMin?: string;
+  coverageReport?: string;
+  coverageReportMode?: string;
+  coverageExcludeUnreachable?: string;
+  coverageWeights?: string;
+  coverageMinStructure?: string;
+  coverageMinBranches?: string;
+  coverageMinEnum?: string;
+  coverageMinBoundaries?: string;
+  coverageMinOperations?: string;
+}
+
+const NDJSON_EXTENSIONS = new Set(['.ndjson', '.jsonl']);
+
+// eslint-disable-next-line max-lines-per-function
+export function registerCoverageMeasureCommand(coverage: Command): void {
+  const measureCommand = coverage
+    .command('measure')
+    .description(
+      'Measure the coverage reached by existing instances (fixtures, captured payloads) and emit a coverage-report/v1'
+    )
+    .option('-s, --schema <file>', 'JSON Schema file path (JSON, YAML, JSON5)')
+    .option(
+      '--instances <file>',
+      'Instances to replay: NDJSON (.ndjson/.jsonl), or a JSON/YAML array'
+    )
+    .option(
+      '--coverage-dimensions <list>',
+      'Comma-separated coverage dimensions (e.g., structure,branches,enum)'
+    )
+    .option('--coverage-min <ratio>', 'Minimum overall coverage (0..1)')
+    .option(
+      '--coverage-report <file>',
+      'Write the coverage report to a file instead of stdout'
+    )
+    .option(
+      '--coverage-report-mode <mode>',
+      'Coverage report mode: full (default) or summary'
+    )
+    .option(
+      '--coverage-exclude-unreachable <bool>',
+      'Exclude unreachable targets from the denominator (default true)'
+    )
+    .option(
+      '--coverage-weights <file>',
+      'Coverage weighting model (JSON/YAML): byPath globs, byKind factors'
+    );
+
+  addCoverageDimensionMinOptions(measureCommand).action(
+    (options: CoverageMeasureOptions) => {
+      const schemaPath = requireFile(options.schema, '--schema <file>');
+      const instancesPath = requireFile(
+        options.instances,
+        '--instances <file>'
+      );
+      const { coverage } = resolveCliCoverageOptions({
+        ...options,
+        coverage: 'measure',
+      } as CliOptions);
+
+      const result = measureInstanceCoverage(
+        loadSourceDocument(schemaPath).value,
+        readInstances(instancesPath),
+        {
+          dimensionsEnabled: coverage.dimensionsEnabled,
+          excludeUnreachable: coverage.excludeUnreachable,
+          minCoverage: coverage.minCoverage,
+          reportMode: coverage.reportMode,
+          weights: coverage.weights,
+          minCoverageByDimension: coverage.minCoverageByDimension,
+          minCoverageByOperation: coverage.minCoverageByOperation,
+        }
+      );
+      writeRejected(result);
+      process.stderr.write(
+        `[foundrydata] ${formatCoverageSummary(result.report)}\n`
+      );
+
+      const json = JSON.stringify(result.report, null, 2);
+      if (coverage.reportPath) {
+        const reportPath = path.resolve(process.cwd(), coverage.reportPath);
+        fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+        fs.writeFileSync(reportPath, json, 'utf8');
+      } else {
+        process.stdout.write(json + '\n');
+      }
+      enforceCoverageThreshold(result.report);
+    }
+  );
+}
+
+export function requireFile(value: string | undefined, flag: string): string {
+  if (!value) {
+    throw new Error(`Missing ${flag}`);
+  }
+  const resolved = path.resolve(process.cwd(), value);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`File not found: ${resolved}`);
+  }
+  return resolved;
+}
+
+/**
+ * NDJSON files hold one instance per non-empty line; any other file is a
+ * single document, read as a list of instances when it is an array.
+ */
+function readInstances(filePath: string): unknown[] {
+  if (NDJSON_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+    const lines = fs.readFileSync(filePath, 'utf8').split(/\r?\n/);
+    return lines.flatMap((line, index) => {
+      if (line.trim() === '') return [];
+      try {
+        return [JSON.parse(line) as unknown];
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`${filePath}:${index + 1}: ${message}`);
+      }
+    });
+  }
+  const { value } = loadSourceDocument(filePath);
+  return Array.isArray(value) ? value : [value];
+}
+
+function writeRejected(result: InstanceCoverageResult): void {
+  for (const { index, errors } of result.rejected) {
+    const first = errors[0] as
+      | { instancePath?: string; message?: string }
+      | undefined;
+    const where = first?.instancePath || '/';
+    process.stderr.write(
+      `[foundrydata] warning: instance #${index} does not match the schema (${where}: ${first?.message ?? 'invalid'}); skipped\n`
+    );
+  }
+}
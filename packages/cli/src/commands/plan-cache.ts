@@ -0,0 +1,105 @@
+import type { Command } from 'commander';
+
+import {
+  clearPlanCache,
+  getPlanCacheStats,
+  prunePlanCache,
+  resolveOptions,
+  resolvePlanCacheDir,
+  type PlanCacheRemoval,
+  type PlanCacheStats,
+} from '@foundrydata/core';
+
+export interface PlanCacheCommandOptions {
+  cacheDir?: string;
+  maxAge?: string;
+  json?: boolean;
+}
+
+const CACHE_DIR_FLAG = '--cache-dir <path>';
+const CACHE_DIR_HELP =
+  'Resolver cache directory holding the plans/ cache (supports ~)';
+
+function planCacheDir(options: PlanCacheCommandOptions): string {
+  return resolvePlanCacheDir(
+    options.cacheDir ?? resolveOptions().resolver.cacheDir
+  );
+}
+
+function parseMaxAge(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(
+      `Invalid --max-age "${value}": expected a non-negative number of days`
+    );
+  }
+  return days;
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  const entries = Object.entries(counts).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) return '-';
+  return entries.map(([name, count]) => `${name}=${count}`).join(', ');
+}
+
+export function formatPlanCacheStats(stats: PlanCacheStats): string {
+  return [
+    `plan cache: ${stats.dir}`,
+    `  entries: ${stats.entries} (${stats.bytes} bytes)`,
+    `  by kind: ${formatCounts(stats.byKind)}`,
+    `  by engine: ${formatCounts(stats.byEngine)}`,
+  ].join('\n');
+}
+
+function formatRemoval(
+  verb: string,
+  dir: string,
+  removal: PlanCacheRemoval
+): string {
+  return `${verb} ${removal.removed} plan cache entr${removal.removed === 1 ? 'y' : 'ies'} (${removal.bytes} bytes) from ${dir}`;
+}
+
+export function registerPlanCacheCommands(program: Command): void {
+  const cache = program
+    .command('cache')
+    .description('Persistent plan cache utilities (see --plan-cache)');
+
+  cache
+    .command('stats')
+    .description('Report entries and size of the persistent plan cache')
+    .option(CACHE_DIR_FLAG, CACHE_DIR_HELP)
+    .option('--json', 'Print stats as JSON')
+    .action(async (options: PlanCacheCommandOptions) => {
+      const stats = await getPlanCacheStats(planCacheDir(options));
+      process.stdout.write(
+        (options.json
+          ? JSON.stringify(stats, null, 2)
+          : formatPlanCacheStats(stats)) + '\n'
+      );
+    });
+
+  cache
+    .command('prune')
+    .description(
+      'Remove entries written by other engine versions, and entries older than --max-age'
+    )
+    .option(CACHE_DIR_FLAG, CACHE_DIR_HELP)
+    .option('--max-age <days>', 'Also remove entries older than this many days')
+    .action(async (options: PlanCacheCommandOptions) => {
+      const dir = planCacheDir(options);
+      const maxAgeDays = parseMaxAge(options.maxAge);
+      const removal = await prunePlanCache(dir, { maxAgeDays });
+      process.stdout.write(formatRemoval('pruned', dir, removal) + '\n');
+    });
+
+  cache
+    .command('clear')
+    .description('Remove every persistent plan cache entry')
+    .option(CACHE_DIR_FLAG, CACHE_DIR_HELP)
+    .action(async (options: PlanCacheCommandOptions) => {
+      const dir = planCacheDir(options);
+      const removal = await clearPlanCache(dir);
+      process.stdout.write(formatRemoval('cleared', dir, removal) + '\n');
+    });
+}
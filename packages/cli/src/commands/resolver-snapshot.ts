@@ -0,0 +1,178 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Command } from 'commander';
+
+import {
+  collectResolverSnapshot,
+  loadSourceDocument,
+  resolveOptions,
+  serializeResolverSnapshot,
+  verifyResolverSnapshot,
+  type ResolverSnapshotBuildOptions,
+  type ResolverSnapshotBuildResult,
+  type ResolverSnapshotDrift,
+  type ResolverSnapshotUnresolved,
+} from '@foundrydata/core';
+
+export interface ResolverSnapshotCommandOptions {
+  schema?: string;
+  out?: string;
+  snapshot?: string;
+  cacheDir?: string;
+  maxDocs?: string;
+}
+
+// eslint-disable-next-line max-lines-per-function
+export function registerResolverSnapshotCommands(program: Command): void {
+  const resolver = program
+    .command('resolver')
+    .description('External $ref resolver utilities');
+
+  resolver
+    .command('snapshot')
+    .description(
+      'Record every external $ref document reachable from a schema (local files and resolver cache) into an offline snapshot'
+    )
+    .option(
+      '-s, --schema <file>',
+      'Root JSON Schema file path (JSON, YAML, JSON5)'
+    )
+    .option('--out <file>', 'Snapshot file to write (NDJSON)')
+    .option('--cache-dir <path>', 'Resolver cache directory (supports ~)')
+    .option('--max-docs <number>', 'Maximum documents to record', '64')
+    .action(async (options: ResolverSnapshotCommandOptions) => {
+      const schemaPath = requirePath(options.schema, '--schema <file>');
+      const outPath = requirePath(options.out, '--out <file>');
+      const result = await collectResolverSnapshot(
+        readSchema(schemaPath),
+        buildWalkOptions(schemaPath, options)
+      );
+      fs.mkdirSync(path.dirname(outPath), { recursive: true });
+      fs.writeFileSync(outPath, serializeResolverSnapshot(result), 'utf8');
+
+      process.stdout.write(formatSnapshotSummary(result, outPath) + '\n');
+      if (result.unresolved.length > 0) {
+        process.exitCode = 1;
+      }
+    });
+
+  resolver
+    .command('verify')
+    .description(
+      'Report drift between a resolver snapshot and the current $ref sources'
+    )
+    .option(
+      '-s, --schema <file>',
+      'Root JSON Schema file path (JSON, YAML, JSON5)'
+    )
+    .option('--snapshot <file>', 'Snapshot file to verify')
+    .option('--cache-dir <path>', 'Resolver cache directory (supports ~)')
+    .option('--max-docs <number>', 'Maximum documents to walk', '64')
+    .action(async (options: ResolverSnapshotCommandOptions) => {
+      const schemaPath = requirePath(options.schema, '--schema <file>');
+      const snapshotPath = requirePath(options.snapshot, '--snapshot <file>');
+      if (!fs.existsSync(snapshotPath)) {
+        throw new Error(`Resolver snapshot not found: ${snapshotPath}`);
+      }
+      const drift = await verifyResolverSnapshot(
+        snapshotPath,
+        readSchema(schemaPath),
+        buildWalkOptions(schemaPath, options)
+      );
+
+      process.stdout.write(formatDriftSummary(drift) + '\n');
+      if (!drift.inSync) {
+        process.exitCode = 1;
+      }
+    });
+}
+
+function requirePath(p: string | undefined, flag: string): string {
+  if (!p) throw new Error(`Missing ${flag}`);
+  return path.resolve(process.cwd(), p);
+}
+
+function readSchema(filePath: string): unknown {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Schema file not found: ${filePath}`);
+  }
+  return loadSourceDocument(filePath).value;
+}
+
+function buildWalkOptions(
+  schemaPath: string,
+  options: ResolverSnapshotCommandOptions
+): ResolverSnapshotBuildOptions {
+  const defaults = resolveOptions().resolver;
+  const maxDocs = Number.parseInt(options.maxDocs ?? '', 10);
+  return {
+    baseDir: path.dirname(schemaPath),
+    cacheDir: options.cacheDir ?? defaults.cacheDir,
+    maxDocs: Number.isFinite(maxDocs) && maxDocs > 0 ? maxDocs : undefined,
+    maxRefDepth: defaults.maxRefDepth,
+  };
+}
+
+function formatUnresolved(entries: ResolverSnapshotUnresolved[]): string[] {
+  if (entries.length === 0) return [];
+  return [
+    '  unresolved:',
+    ...entries.map(
+      (entry) =>
+        `    ${entry.uri} (${entry.reason}${entry.message ? `: ${entry.message}` : ''})`
+    ),
+  ];
+}
+
+function formatSnapshotSummary(
+  result: ResolverSnapshotBuildResult,
+  outPath: string
+): string {
+  const lines = [
+    `resolver snapshot: ${result.entries.length} document(s) -> ${outPath}`,
+    `  fingerprint: ${result.fingerprint}`,
+  ];
+  for (const entry of result.entries) {
+    const source = result.sources.get(entry.uri);
+    const origin = source?.kind === 'file' ? source.path : 'cache';
+    lines.push(`    ${entry.uri} <- ${origin}`);
+  }
+  lines.push(...formatUnresolved(result.unresolved));
+  return lines.join('\n');
+}
+
+function formatDriftSummary(drift: ResolverSnapshotDrift): string {
+  const lines = [
+    `resolver verify: ${drift.inSync ? 'in sync' : 'drift detected'}`,
+    `  snapshot fingerprint: ${drift.snapshotFingerprint}`,
+    `  current fingerprint: ${drift.currentFingerprint}`,
+  ];
+  if (
+    drift.declaredFingerprint !== undefined &&
+    drift.declaredFingerprint !== drift.snapshotFingerprint
+  ) {
+    lines.push(
+      `  declared fingerprint: ${drift.declaredFingerprint} (does not match the snapshot entries)`
+    );
+  }
+  const sections: Array<[string, string[]]> = [
+    ['added', drift.added],
+    ['removed', drift.removed],
+    [
+      'changed',
+      drift.changed.map(
+        (c) => `${c.uri} (${c.snapshotHash} -> ${c.currentHash})`
+      ),
+    ],
+    [
+      'unreadable snapshot lines',
+      drift.loadDiagnostics.map((d) => JSON.stringify(d.details ?? d.code)),
+    ],
+  ];
+  for (const [label, items] of sections) {
+    if (items.length === 0) continue;
+    lines.push(`  ${label}:`, ...items.map((item) => `    ${item}`));
+  }
+  lines.push(...formatUnresolved(drift.unresolved));
+  return lines.join('\n');
+}
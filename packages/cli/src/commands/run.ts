@@ -0,0 +1,223 @@
+import path from 'node:path';
+import type { Command } from 'commander';
+
+import {
+  resolveProjectConfig,
+  type LoadedProjectConfig,
+  type ProjectConfigValue,
+} from '../config/project-config.js';
+
+export interface RunCommandOptions {
+  all?: boolean;
+  config?: string;
+}
+
+export interface PlannedTarget {
+  name: string;
+  command: 'generate' | 'openapi';
+  /** Flags for the target's command, before any CLI overrides. */
+  argv: string[];
+}
+
+/** Config keys naming a file, resolved from the config file's directory. */
+const PATH_KEYS = new Set([
+  'schema',
+  'spec',
+  'output',
+  'outDir',
+  'coverageReport',
+  'coverageWeights',
+  'formats',
+  'resolverSnapshot',
+]);
+
+/** Config keys whose flag is repeated once per list entry. */
+const REPEATABLE_KEYS = new Set([
+  'resolverMap',
+  'resolverPreload',
+  'coverageMinOperation',
+]);
+
+/** Config keys spelled differently from their flag. */
+const FLAG_NAMES: Record<string, string> = { output: 'out-file' };
+
+function flagFor(key: string): string {
+  return `--${FLAG_NAMES[key] ?? key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+}
+
+function resolvePaths(
+  key: string,
+  value: ProjectConfigValue,
+  dir: string
+): ProjectConfigValue {
+  if (typeof value === 'string' && PATH_KEYS.has(key)) {
+    return path.resolve(dir, value);
+  }
+  if (key === 'cacheDir' && typeof value === 'string') {
+    return value.startsWith('~') ? value : path.resolve(dir, value);
+  }
+  if (key === 'resolverPreload') {
+    return ([] as string[])
+      .concat(value as string[])
+      .map((glob) => path.resolve(dir, glob));
+  }
+  if (key === 'resolverMap') {
+    return ([] as string[]).concat(value as string[]).map((entry) => {
+      const index = entry.lastIndexOf('=');
+      if (index <= 0) return entry;
+      return `${entry.slice(0, index)}=${path.resolve(dir, entry.slice(index + 1))}`;
+    });
+  }
+  return value;
+}
+
+function flagValues(key: string, value: ProjectConfigValue): string[] {
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value).map(([k, ratio]) => `${k}=${ratio}`);
+  }
+  if (Array.isArray(value)) {
+    return REPEATABLE_KEYS.has(key) ? value : [value.join(',')];
+  }
+  return [String(value)];
+}
+
+function booleanArgs(
+  command: Command,
+  long: string,
+  value: boolean
+): string[] | undefined {
+  const negatedLong = `--no-${long.slice(2)}`;
+  const hasFlag = command.options.some((o) => o.long === long && !o.negate);
+  const hasNegated = command.options.some((o) => o.long === negatedLong);
+  if (!hasFlag && !hasNegated) return undefined;
+  if (value) return hasFlag ? [long] : [];
+  return hasNegated ? [negatedLong] : [];
+}
+
+/**
+ * Flags expressing one config entry for `command`, or undefined when the
+ * command has no matching option. Booleans map to `--flag` / `--no-flag`
+ * unless the option takes a value (e.g. --fail-on-unresolved <bool>).
+ */
+function optionArgs(
+  command: Command,
+  key: string,
+  value: ProjectConfigValue
+): string[] | undefined {
+  const long = flagFor(key);
+  const option = command.options.find((o) => o.long === long && !o.negate);
+  const takesValue =
+    option !== undefined && (option.required || option.optional);
+  if (typeof value === 'boolean' && !takesValue) {
+    return booleanArgs(command, long, value);
+  }
+  if (!option) return undefined;
+  return flagValues(key, value).flatMap((v) => [long, v]);
+}
+
+export function findCommand(program: Command, name: string): Command {
+  const command = program.commands.find((c) => c.name() === name);
+  if (!command) throw new Error(`Unknown command "${name}"`);
+  return command;
+}
+
+/**
+ * Translate a named target into flags for `generate` (schema targets) or
+ * `openapi` (spec targets). Target entries replace the matching defaults;
+ * defaults the command does not accept are skipped, while unsupported
+ * target entries are errors.
+ */
+export function planTarget(
+  program: Command,
+  loaded: LoadedProjectConfig,
+  name: string
+): PlannedTarget {
+  const target = loaded.config.targets[name];
+  if (!target) {
+    const known = Object.keys(loaded.config.targets).join(', ');
+    throw new Error(
+      `Unknown target "${name}" in ${loaded.path} (available: ${known})`
+    );
+  }
+  const commandName = target.spec !== undefined ? 'openapi' : 'generate';
+  const command = findCommand(program, commandName);
+  const argv: string[] = [];
+  for (const [key, value] of Object.entries(loaded.config.defaults ?? {})) {
+    if (key in target) continue;
+    const args = optionArgs(command, key, resolvePaths(key, value, loaded.dir));
+    if (args) argv.push(...args);
+  }
+  for (const [key, value] of Object.entries(target)) {
+    if (key === 'description') continue;
+    const args = optionArgs(command, key, resolvePaths(key, value, loaded.dir));
+    if (!args) {
+      throw new Error(
+        `Target "${name}" sets "${key}", which foundrydata ${commandName} does not accept`
+      );
+    }
+    argv.push(...args);
+  }
+  return { name, command: commandName, argv };
+}
+
+/**
+ * Split `run` operands into target names and the flags that follow them,
+ * which are forwarded to every target's command.
+ */
+export function splitRunArguments(args: string[]): {
+  names: string[];
+  overrides: string[];
+} {
+  const index = args.findIndex((arg) => arg.startsWith('-'));
+  return index === -1
+    ? { names: args, overrides: [] }
+    : { names: args.slice(0, index), overrides: args.slice(index) };
+}
+
+function selectTargets(
+  loaded: LoadedProjectConfig,
+  names: string[],
+  all: boolean
+): string[] {
+  if (all && names.length > 0) {
+    throw new Error('Pass target names or --all, not both');
+  }
+  if (all) return Object.keys(loaded.config.targets);
+  if (names.length === 0) {
+    throw new Error(
+      `No target given; pass target names or --all (defined in ${loaded.path}: ${Object.keys(loaded.config.targets).join(', ')})`
+    );
+  }
+  return names;
+}
+
+export function registerRunCommand(program: Command): Command {
+  return program
+    .command('run')
+    .description(
+      'Run named targets from foundrydata.config.{json,mjs} (found from the current directory upward)'
+    )
+    .argument(
+      '[targets...]',
+      'Target names; flags after them are forwarded to every target and override config values'
+    )
+    .option('--all', 'Run every target in declaration order', false)
+    .option('--config <file>', 'Config file to use instead of discovery')
+    .allowUnknownOption()
+    .action(async (args: string[], options: RunCommandOptions) => {
+      const { names, overrides } = splitRunArguments(args);
+      const loaded = await resolveProjectConfig(options.config);
+      const selected = selectTargets(loaded, names, options.all === true);
+      // Plan every target first so a typo fails before anything runs.
+      const planned = selected.map((name) => planTarget(program, loaded, name));
+      for (const target of planned) {
+        process.stderr.write(
+          `[foundrydata] run: ${target.name} (${target.command})\n`
+        );
+        await findCommand(program, target.command).parseAsync(
+          [...target.argv, ...overrides],
+          { from: 'user' }
+        );
+      }
+    });
+}
@@ -0,0 +1,46 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadCustomFormats } from '../custom-formats.js';
+
+describe('loadCustomFormats', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fd-formats-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads a default export relative to cwd', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'formats.mjs'),
+      'export default { sku: { generate: ({ index }) => `SKU-${index}`, validate: /^SKU-\\d+$/ } };\n'
+    );
+    const formats = await loadCustomFormats('formats.mjs', dir);
+    expect(Object.keys(formats)).toEqual(['sku']);
+    expect(formats.sku?.validate).toBeInstanceOf(RegExp);
+  });
+
+  it('accepts a named formats export', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'named.mjs'),
+      "export const formats = { sku: { generate: () => 'SKU-1' } };\n"
+    );
+    const formats = await loadCustomFormats(path.join(dir, 'named.mjs'));
+    expect(typeof formats.sku?.generate).toBe('function');
+  });
+
+  it('rejects entries without a generate function', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'bad.mjs'),
+      'export default { sku: { validate: /x/ } };\n'
+    );
+    await expect(loadCustomFormats('bad.mjs', dir)).rejects.toThrow(
+      /must provide a generate\(\) function/
+    );
+  });
+});
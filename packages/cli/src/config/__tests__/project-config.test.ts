@@ -0,0 +1,150 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Command } from 'commander';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  findProjectConfig,
+  loadProjectConfig,
+  resolveProjectConfig,
+} from '../project-config.js';
+import { planTarget, splitRunArguments } from '../../commands/run.js';
+
+function stubProgram(): Command {
+  const program = new Command();
+  program
+    .command('generate')
+    .option('-s, --schema <file>')
+    .option('-c, --count <number>')
+    .option('--seed <number>')
+    .option('--locale <string>')
+    .option('--out-file <file>')
+    .option('--no-metrics')
+    .option('--fail-on-unresolved <bool>')
+    .option('--resolver-map <prefix=dir>');
+  program
+    .command('openapi')
+    .option('-s, --spec <file>')
+    .option('--operation-id <id>')
+    .option('--seed <number>')
+    .option('--coverage-min-operation <operationKey=ratio>');
+  return program;
+}
+
+describe('project config', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fd-project-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is discovered from a nested directory upward', () => {
+    const nested = path.join(dir, 'a', 'b');
+    fs.mkdirSync(nested, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'foundrydata.config.mjs'), '');
+
+    expect(findProjectConfig(nested)).toBe(
+      path.join(dir, 'foundrydata.config.mjs')
+    );
+  });
+
+  it('loads the default export of an .mjs config', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'foundrydata.config.mjs'),
+      "export default { targets: { users: { schema: 'user.json' } } };\n"
+    );
+
+    const loaded = await resolveProjectConfig(undefined, dir);
+    expect(loaded.dir).toBe(dir);
+    expect(loaded.config.targets.users).toEqual({ schema: 'user.json' });
+  });
+
+  it('rejects configs that do not match the published schema', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'foundrydata.config.json'),
+      JSON.stringify({
+        targets: { users: { schema: 'user.json', cuont: 3 } },
+      })
+    );
+
+    await expect(
+      loadProjectConfig('foundrydata.config.json', dir)
+    ).rejects.toThrow(
+      /\/targets\/users must NOT have unevaluated properties "cuont"/
+    );
+  });
+
+  it('maps targets to command flags, resolving paths from the config directory', () => {
+    const loaded = {
+      path: path.join(dir, 'foundrydata.config.json'),
+      dir,
+      config: {
+        defaults: {
+          seed: 7,
+          locale: 'fr',
+          metrics: false,
+          failOnUnresolved: false,
+          resolverMap: ['https://acme.io/=shared'],
+        },
+        targets: {
+          users: { schema: 'user.json', count: 3, output: 'out/users.json' },
+          api: {
+            spec: 'openapi.yaml',
+            operationId: 'getUsers',
+            seed: 9,
+            coverageMinOperation: { 'GET /users': 0.9 },
+          },
+        },
+      },
+    };
+    const program = stubProgram();
+
+    expect(planTarget(program, loaded, 'users').argv).toEqual([
+      '--seed',
+      '7',
+      '--locale',
+      'fr',
+      '--no-metrics',
+      '--fail-on-unresolved',
+      'false',
+      '--resolver-map',
+      `https://acme.io/=${path.join(dir, 'shared')}`,
+      '--schema',
+      path.join(dir, 'user.json'),
+      '--count',
+      '3',
+      '--out-file',
+      path.join(dir, 'out/users.json'),
+    ]);
+    // Defaults openapi does not accept are skipped; the target seed wins.
+    expect(planTarget(program, loaded, 'api')).toEqual({
+      name: 'api',
+      command: 'openapi',
+      argv: [
+        '--spec',
+        path.join(dir, 'openapi.yaml'),
+        '--operation-id',
+        'getUsers',
+        '--seed',
+        '9',
+        '--coverage-min-operation',
+        'GET /users=0.9',
+      ],
+    });
+    expect(() => planTarget(program, loaded, 'orders')).toThrow(
+      /Unknown target "orders".*available: users, api/
+    );
+  });
+
+  it('splits run operands into target names and forwarded flags', () => {
+    expect(splitRunArguments(['users', 'api', '--seed', '1'])).toEqual({
+      names: ['users', 'api'],
+      overrides: ['--seed', '1'],
+    });
+  });
+});
@@ -8,10 +8,14 @@ import {
   type CoverageReportMode,
 } from '@foundrydata/shared';
 import type { CliOptions } from '../flags';
+import {
+  resolveCliCoverageGates,
+  type CliCoverageGates,
+} from './coverage-thresholds.js';
 
 type CoverageMode = 'off' | 'measure' | 'guided';
 
-export interface CliCoverageConfig {
+export interface CliCoverageConfig extends CliCoverageGates {
   mode: CoverageMode;
   dimensionsEnabled: CoverageDimension[];
   excludeUnreachable: boolean;
@@ -284,6 +288,7 @@ export function resolveCliCoverageOptions(
       reportPath: mode === 'off' ? undefined : reportPath,
       profile,
       planner,
+      ...(mode === 'off' ? {} : resolveCliCoverageGates(cliOptions)),
       reportMode: mode === 'off' ? undefined : reportMode,
     },
     ignoredReason,
@@ -0,0 +1,95 @@
+import type { Command } from 'commander';
+import type {
+  CoverageDimension,
+  CoverageWeightConfig,
+} from '@foundrydata/core';
+
+import type { CliOptions } from '../flags.js';
+import { resolveCoverageWeights } from './coverage-weights.js';
+
+const THRESHOLD_DIMENSIONS = [
+  'structure',
+  'branches',
+  'enum',
+  'boundaries',
+  'operations',
+] as const satisfies readonly CoverageDimension[];
+
+/** Thresholds beyond --coverage-min and the weights they are checked against. */
+export interface CliCoverageGates {
+  minCoverageByDimension?: Partial<Record<CoverageDimension, number>>;
+  minCoverageByOperation?: Record<string, number>;
+  weights?: CoverageWeightConfig;
+}
+
+function dimensionOptionKey(dimension: CoverageDimension): keyof CliOptions {
+  return `coverageMin${dimension[0]!.toUpperCase()}${dimension.slice(1)}` as keyof CliOptions;
+}
+
+/** Register one --coverage-min-<dimension> option per threshold dimension. */
+export function addCoverageDimensionMinOptions(command: Command): Command {
+  for (const dimension of THRESHOLD_DIMENSIONS) {
+    command.option(
+      `--coverage-min-${dimension} <ratio>`,
+      `Minimum ${dimension} coverage (0..1); a miss exits with its own code`
+    );
+  }
+  return command;
+}
+
+function parseRatio(flag: string, raw: unknown): number {
+  const num = Number.parseFloat(String(raw));
+  if (!Number.isFinite(num) || num < 0 || num > 1) {
+    throw new Error(
+      `Invalid ${flag} value "${String(raw)}". Expected a number between 0 and 1.`
+    );
+  }
+  return num;
+}
+
+function parseOperationThresholds(
+  values: string[]
+): Record<string, number> | undefined {
+  if (values.length === 0) return undefined;
+  const thresholds: Record<string, number> = {};
+  for (const value of values) {
+    const index = value.lastIndexOf('=');
+    const key = index > 0 ? value.slice(0, index).trim() : '';
+    if (!key) {
+      throw new Error(
+        `Invalid --coverage-min-operation "${value}": expected <operationKey>=<ratio>`
+      );
+    }
+    thresholds[key] = parseRatio(
+      '--coverage-min-operation',
+      value.slice(index + 1)
+    );
+  }
+  return thresholds;
+}
+
+/**
+ * Read per-dimension and per-operation thresholds and the
+ * --coverage-weights model from parsed CLI options.
+ */
+export function resolveCliCoverageGates(
+  cliOptions: CliOptions
+): CliCoverageGates {
+  const byDimension: Partial<Record<CoverageDimension, number>> = {};
+  for (const dimension of THRESHOLD_DIMENSIONS) {
+    const raw = cliOptions[dimensionOptionKey(dimension)];
+    if (raw !== undefined && raw !== '') {
+      byDimension[dimension] = parseRatio(`--coverage-min-${dimension}`, raw);
+    }
+  }
+  const byOperation = parseOperationThresholds(
+    cliOptions.coverageMinOperation ?? []
+  );
+  return {
+    ...(Object.keys(byDimension).length > 0
+      ? { minCoverageByDimension: byDimension }
+      : {}),
+    ...(byOperation ? { minCoverageByOperation: byOperation } : {}),
+    weights: resolveCoverageWeights(cliOptions.coverageWeights),
+  };
+}
@@ -0,0 +1,48 @@
+import path from 'node:path';
+import {
+  assertCoverageWeightConfig,
+  loadSourceDocument,
+  type CoverageWeightConfig,
+} from '@foundrydata/core';
+
+/**
+ * Load a coverage weighting model passed via --coverage-weights.
+ *
+ * The file (JSON, YAML or JSON5) holds an object with optional `byPath`
+ * (canonPath glob → weight), `byKind` (target kind → factor) and
+ * `annotations` (boolean) entries.
+ */
+export function loadCoverageWeights(
+  filePath: string,
+  cwd: string = process.cwd()
+): CoverageWeightConfig {
+  const abs = path.resolve(cwd, filePath);
+  const { value } = loadSourceDocument(abs);
+  if (!isPlainObject(value)) {
+    throw new Error(`Coverage weights file ${abs} must contain an object`);
+  }
+  const config = value as CoverageWeightConfig;
+  for (const key of ['byPath', 'byKind'] as const) {
+    if (config[key] !== undefined && !isPlainObject(config[key])) {
+      throw new Error(`"${key}" in ${abs} must be an object`);
+    }
+  }
+  try {
+    assertCoverageWeightConfig(config);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${message} (in ${abs})`);
+  }
+  return config;
+}
+
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Weighting model for --coverage-weights, when given. */
+export function resolveCoverageWeights(
+  filePath: string | undefined
+): CoverageWeightConfig | undefined {
+  return filePath ? loadCoverageWeights(filePath) : undefined;
+}
@@ -0,0 +1,65 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { CustomFormats } from '@foundrydata/core';
+
+/**
+ * Load caller-defined formats from an ES module passed via --formats.
+ *
+ * The module may export the format map as its default export or as a
+ * named `formats` export. Each entry must provide a `generate` function
+ * and may provide a `validate` RegExp or predicate.
+ */
+export async function loadCustomFormats(
+  modulePath: string,
+  cwd: string = process.cwd()
+): Promise<CustomFormats> {
+  const abs = path.resolve(cwd, modulePath);
+  let mod: Record<string, unknown>;
+  try {
+    mod = (await import(pathToFileURL(abs).href)) as Record<string, unknown>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load formats module ${abs}: ${message}`);
+  }
+
+  const candidate = mod.formats ?? mod.default;
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
+    throw new Error(
+      `Formats module ${abs} must export an object (default or "formats")`
+    );
+  }
+
+  const formats: CustomFormats = {};
+  for (const [name, def] of Object.entries(
+    candidate as Record<string, unknown>
+  )) {
+    formats[name] = assertFormatDefinition(name, def, abs);
+  }
+  return formats;
+}
+
+function assertFormatDefinition(
+  name: string,
+  def: unknown,
+  source: string
+): CustomFormats[string] {
+  if (!def || typeof def !== 'object') {
+    throw new Error(`Format "${name}" in ${source} must be an object`);
+  }
+  const record = def as Record<string, unknown>;
+  if (typeof record.generate !== 'function') {
+    throw new Error(
+      `Format "${name}" in ${source} must provide a generate() function`
+    );
+  }
+  if (
+    record.validate !== undefined &&
+    !(record.validate instanceof RegExp) &&
+    typeof record.validate !== 'function'
+  ) {
+    throw new Error(
+      `Format "${name}" in ${source} has an invalid validate (expected RegExp or function)`
+    );
+  }
+  return def as CustomFormats[string];
+}
@@ -0,0 +1,149 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { Validate } from '@foundrydata/core';
+
+/** Config file names looked up, in order, in each directory. */
+export const PROJECT_CONFIG_FILES = [
+  'foundrydata.config.json',
+  'foundrydata.config.mjs',
+] as const;
+
+export type ProjectConfigValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | Record<string, number>;
+
+/** camelCase `generate` / `openapi` flags and their values. */
+export type ProjectConfigOptions = Record<string, ProjectConfigValue>;
+
+/**
+ * A named target: `schema` (runs `generate`) or `spec` (runs `openapi`),
+ * an optional `output` file, and any option overriding the defaults.
+ */
+export type ProjectConfigTarget = ProjectConfigOptions;
+
+export interface ProjectConfig {
+  defaults?: ProjectConfigOptions;
+  targets: Record<string, ProjectConfigTarget>;
+}
+
+export interface LoadedProjectConfig {
+  /** Absolute path of the config file. */
+  path: string;
+  /** Directory relative paths in the config resolve from. */
+  dir: string;
+  config: ProjectConfig;
+}
+
+const SCHEMA_URL = new URL(
+  '../../schemas/foundrydata-config.schema.json',
+  import.meta.url
+);
+
+let cachedSchema: unknown;
+
+function readConfigSchema(): unknown {
+  cachedSchema ??= JSON.parse(fs.readFileSync(SCHEMA_URL, 'utf8'));
+  return cachedSchema;
+}
+
+/**
+ * Walk from `cwd` up to the filesystem root and return the first
+ * foundrydata.config.{json,mjs} found, if any.
+ */
+export function findProjectConfig(
+  cwd: string = process.cwd()
+): string | undefined {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    for (const name of PROJECT_CONFIG_FILES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+async function readConfigValue(abs: string): Promise<unknown> {
+  if (abs.endsWith('.mjs')) {
+    try {
+      const mod = (await import(pathToFileURL(abs).href)) as {
+        default?: unknown;
+      };
+      return mod.default;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load config module ${abs}: ${message}`);
+    }
+  }
+  try {
+    return JSON.parse(fs.readFileSync(abs, 'utf8')) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read config file ${abs}: ${message}`);
+  }
+}
+
+function formatSchemaError(error: unknown): string {
+  const { instancePath, message, params } = error as {
+    instancePath?: string;
+    message?: string;
+    params?: Record<string, unknown>;
+  };
+  const property = params?.unevaluatedProperty ?? params?.additionalProperty;
+  const suffix = typeof property === 'string' ? ` "${property}"` : '';
+  return `${instancePath || '/'} ${message ?? 'is invalid'}${suffix}`;
+}
+
+/**
+ * Check a parsed config against the published foundrydata-config schema,
+ * throwing with the violation AJV reports.
+ */
+export function assertProjectConfig(
+  value: unknown,
+  source: string
+): asserts value is ProjectConfig {
+  const { valid, ajvErrors } = Validate(value, readConfigSchema());
+  if (valid) return;
+  const details = Array.from(new Set((ajvErrors ?? []).map(formatSchemaError)));
+  throw new Error(`Invalid config ${source}: ${details.join('; ')}`);
+}
+
+/**
+ * Load and validate a foundrydata.config.json file, or the default export
+ * of a foundrydata.config.mjs module.
+ */
+export async function loadProjectConfig(
+  filePath: string,
+  cwd: string = process.cwd()
+): Promise<LoadedProjectConfig> {
+  const abs = path.resolve(cwd, filePath);
+  if (!fs.existsSync(abs)) {
+    throw new Error(`Config file not found: ${abs}`);
+  }
+  const value = await readConfigValue(abs);
+  assertProjectConfig(value, abs);
+  return { path: abs, dir: path.dirname(abs), config: value };
+}
+
+/**
+ * Load the config given via --config, or the nearest one found from `cwd`
+ * upward.
+ */
+export async function resolveProjectConfig(
+  configPath: string | undefined,
+  cwd: string = process.cwd()
+): Promise<LoadedProjectConfig> {
+  const found = configPath ?? findProjectConfig(cwd);
+  if (!found) {
+    throw new Error(
+      `No ${PROJECT_CONFIG_FILES.join(' or ')} found in ${path.resolve(cwd)} or its parent directories`
+    );
+  }
+  return loadProjectConfig(found, cwd);
+}
@@ -0,0 +1,69 @@
+import { ErrorCode, getExitCode } from '@foundrydata/core';
+import type {
+  CoverageReport,
+  CoverageThresholdFailure,
+} from '@foundrydata/shared';
+
+export const COVERAGE_FAILURE_EXIT_CODE = getExitCode(
+  ErrorCode.COVERAGE_THRESHOLD_NOT_MET
+);
+
+export const COVERAGE_DIMENSION_FAILURE_EXIT_CODE = getExitCode(
+  ErrorCode.COVERAGE_DIMENSION_THRESHOLD_NOT_MET
+);
+
+export function formatCoverageFailureMessage(report: CoverageReport): string {
+  const threshold = report.metrics.thresholds?.overall;
+  const thresholdLabel =
+    typeof threshold === 'number' ? threshold.toFixed(3) : 'unknown';
+  const weighted = report.metrics.weighted?.overall;
+  const actual =
+    typeof weighted === 'number'
+      ? `weighted overall ${weighted.toFixed(3)}`
+      : `overall ${report.metrics.overall.toFixed(3)}`;
+  return `[foundrydata] coverage status: minCoverageNotMet (${actual} < minCoverage ${thresholdLabel})\n`;
+}
+
+function formatThresholdFailure(failure: CoverageThresholdFailure): string {
+  const label =
+    failure.scope === 'operation' ? `operation ${failure.key}` : failure.key;
+  return `[foundrydata]   ${label}: ${failure.actual.toFixed(
+    3
+  )} < ${failure.threshold.toFixed(3)}\n`;
+}
+
+/**
+ * One line per missed per-dimension or per-operation threshold, under a
+ * header naming the thresholdsNotMet status when overall coverage passed.
+ */
+export function formatThresholdFailuresMessage(report: CoverageReport): string {
+  const failures = (report.metrics.thresholdFailures ?? []).filter(
+    (failure) => failure.scope !== 'overall'
+  );
+  if (failures.length === 0) return '';
+  const header =
+    report.metrics.coverageStatus === 'thresholdsNotMet'
+      ? '[foundrydata] coverage status: thresholdsNotMet\n'
+      : '[foundrydata] coverage thresholds also not met:\n';
+  return header + failures.map(formatThresholdFailure).join('');
+}
+
+export function enforceCoverageThreshold(report?: CoverageReport): void {
+  if (!report) return;
+
+  const status = report.metrics.coverageStatus;
+  if (status !== 'minCoverageNotMet' && status !== 'thresholdsNotMet') {
+    return;
+  }
+
+  const message =
+    (status === 'minCoverageNotMet'
+      ? formatCoverageFailureMessage(report)
+      : '') + formatThresholdFailuresMessage(report);
+  process.stderr.write(message);
+  process.exit(
+    status === 'minCoverageNotMet'
+      ? COVERAGE_FAILURE_EXIT_CODE
+      : COVERAGE_DIMENSION_FAILURE_EXIT_CODE
+  );
+}
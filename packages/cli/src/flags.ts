@@ -1,9 +1,12 @@
+/* eslint-disable max-lines */
 /* eslint-disable complexity */
 /* eslint-disable max-lines-per-function */
 import { type PlanOptions } from '@foundrydata/core';
 
 export type OutputFormat = 'json' | 'ndjson';
 
+export type InstancePolarity = 'positive' | 'negative';
+
 /**
  * CLI options interface matching Commander.js option structure
  */
@@ -34,6 +37,13 @@ export interface CliOptions {
   coverageProfile?: 'quick' | 'balanced' | 'thorough' | string;
   coverageReportMode?: 'full' | 'summary' | string;
   coverageExcludeUnreachable?: string | boolean;
+  coverageWeights?: string;
+  coverageMinStructure?: string;
+  coverageMinBranches?: string;
+  coverageMinEnum?: string;
+  coverageMinBoundaries?: string;
+  coverageMinOperations?: string;
+  coverageMinOperation?: string[];
   mode?: 'strict' | 'lax' | string;
   compat?: 'strict' | 'lax' | string;
   out?: string;
@@ -43,7 +53,11 @@ export interface CliOptions {
   // Resolver extension flags
   resolve?: string; // e.g., "local,remote,schemastore"
   cacheDir?: string;
+  resolverSnapshot?: string;
+  resolverMap?: string[]; // repeatable "prefix=dir"
+  resolverPreload?: string[]; // repeatable glob
   failOnUnresolved?: string | boolean;
+  planCache?: boolean;
   // Allow additional CLI options that we don't process
   [key: string]: unknown;
 }
@@ -125,10 +139,18 @@ export function parsePlanOptions(options: CliOptions): Partial<PlanOptions> {
     };
   }
 
+  // Persistent plan cache under <cache-dir>/plans (opt-in)
+  if (options.planCache === true) {
+    planOptions.cache = { persistent: true };
+  }
+
   // Resolver (Extension R1) — map CLI flags when provided
   const hasResolverFlag =
     typeof options.resolve === 'string' ||
     typeof options.cacheDir === 'string' ||
+    typeof options.resolverSnapshot === 'string' ||
+    (options.resolverMap?.length ?? 0) > 0 ||
+    (options.resolverPreload?.length ?? 0) > 0 ||
     options.failOnUnresolved !== undefined;
   if (hasResolverFlag) {
     type ResolverOptions = NonNullable<PlanOptions['resolver']>;
@@ -139,12 +161,30 @@ export function parsePlanOptions(options: CliOptions): Partial<PlanOptions> {
       const parts = options.resolve
         .split(',')
         .map((s) => s.trim())
-        .filter(Boolean) as Array<'local' | 'remote' | 'schemastore'>;
+        .filter(Boolean) as Array<
+        'local' | 'remote' | 'schemastore' | 'mapping'
+      >;
       if (parts.length > 0) base.strategies = parts;
     }
+    if (options.resolverMap && options.resolverMap.length > 0) {
+      base.uriMappings = parseUriMappings(options.resolverMap);
+    }
+    if (options.resolverPreload && options.resolverPreload.length > 0) {
+      base.preload = options.resolverPreload.slice();
+    }
+    // Mapping flags imply the 'mapping' strategy.
+    if (base.uriMappings || base.preload) {
+      const strategies = base.strategies ?? ['local'];
+      if (!strategies.includes('mapping')) {
+        base.strategies = [...strategies, 'mapping'];
+      }
+    }
     if (typeof options.cacheDir === 'string') {
       base.cacheDir = options.cacheDir;
     }
+    if (typeof options.resolverSnapshot === 'string') {
+      base.snapshotPath = options.resolverSnapshot;
+    }
     if (
       (typeof options.failOnUnresolved === 'string' &&
         options.failOnUnresolved === 'false') ||
@@ -158,6 +198,31 @@ export function parsePlanOptions(options: CliOptions): Partial<PlanOptions> {
   return planOptions;
 }
 
+/** Commander argParser accumulating a repeatable option into an array. */
+export function collectRepeatable(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parse repeated `--resolver-map <prefix=dir>` values into
+ * resolver.uriMappings.
+ */
+export function parseUriMappings(values: string[]): Record<string, string> {
+  const mappings: Record<string, string> = {};
+  for (const value of values) {
+    const index = value.lastIndexOf('=');
+    const prefix = index > 0 ? value.slice(0, index).trim() : '';
+    const dir = index > 0 ? value.slice(index + 1).trim() : '';
+    if (!prefix || !dir) {
+      throw new Error(
+        `Invalid --resolver-map "${value}": expected <uri-prefix>=<directory>`
+      );
+    }
+    mappings[prefix] = dir;
+  }
+  return mappings;
+}
+
 /**
  * Resolve count/rows/n into a single positive integer.
  *
@@ -244,3 +309,21 @@ export function resolveOutputFormat(value: unknown): OutputFormat {
     )}". Supported formats are "json" and "ndjson".`
   );
 }
+
+/**
+ * Resolve the --polarity flag (positive|negative), defaulting to positive.
+ */
+export function resolvePolarity(value: unknown): InstancePolarity {
+  if (value === undefined || value === null || value === '') {
+    return 'positive';
+  }
+  const raw = String(value).toLowerCase();
+  if (raw === 'positive' || raw === 'negative') {
+    return raw;
+  }
+  throw new Error(
+    `Invalid --polarity value "${String(
+      value
+    )}". Supported values are "positive" and "negative".`
+  );
+}
@@ -176,6 +176,58 @@ describe('CLI generate command', () => {
     expect(stderr).toBe('');
   });
 
+  it('streams NDJSON lines as items are produced and counts them in --summary', async () => {
+    const { dir, schemaPath } = await createSchemaFixture();
+
+    const stdoutChunks: string[] = [];
+    const stderrChunks: string[] = [];
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: any) => {
+        stdoutChunks.push(String(chunk));
+        return true;
+      });
+    const stderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation((chunk: any) => {
+        stderrChunks.push(String(chunk));
+        return true;
+      });
+
+    try {
+      await program.parseAsync(
+        [
+          'generate',
+          '--schema',
+          schemaPath,
+          '--n',
+          '150',
+          '--out',
+          'ndjson',
+          '--summary',
+        ],
+        { from: 'user' }
+      );
+    } finally {
+      stdoutSpy.mockRestore();
+      stderrSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    // One write per item: lines are flushed individually, not as one batch
+    expect(stdoutChunks).toHaveLength(150);
+    expect(stdoutChunks.every((chunk) => chunk.endsWith('\n'))).toBe(true);
+
+    const summaryLine = stderrChunks.find((chunk) =>
+      chunk.startsWith('[foundrydata] summary: ')
+    );
+    expect(summaryLine).toBeDefined();
+    const summary = JSON.parse(
+      String(summaryLine).replace('[foundrydata] summary: ', '')
+    );
+    expect(summary.items.total).toBe(150);
+  });
+
   it('wires --gvalid flag into PlanOptions.gValid via debug output', async () => {
     const { dir, schemaPath } = await createSchemaFixture();
 
@@ -454,6 +506,94 @@ describe('CLI generate command', () => {
     }
   });
 
+  it('keeps --resolver-map reads inside the mapped directory', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'foundrydata-cli-map-'));
+    const dialect = 'https://json-schema.org/draft/2020-12/schema';
+    const sharedDir = path.join(dir, 'shared');
+    fs.mkdirSync(sharedDir);
+    await writeFile(
+      path.join(sharedDir, 'country.json'),
+      JSON.stringify({ $schema: dialect, type: 'string', minLength: 2 }),
+      'utf8'
+    );
+    // Outside the mapped directory; its $id would satisfy the escaping ref.
+    await writeFile(
+      path.join(dir, 'secret.json'),
+      JSON.stringify({
+        $schema: dialect,
+        $id: 'https://schemas.acme.io/secret.json',
+        type: 'integer',
+      }),
+      'utf8'
+    );
+    const schemaPath = path.join(dir, 'root.json');
+    const run = async (ref: string): Promise<void> => {
+      await writeFile(
+        schemaPath,
+        JSON.stringify({
+          $schema: dialect,
+          type: 'object',
+          properties: { value: { $ref: ref } },
+        }),
+        'utf8'
+      );
+      await main([
+        'node',
+        'foundrydata',
+        'generate',
+        '--schema',
+        schemaPath,
+        '--n',
+        '1',
+        '--out',
+        'ndjson',
+        '--resolver-map',
+        `https://schemas.acme.io/=${sharedDir}/`,
+      ]);
+    };
+
+    const stdoutChunks: string[] = [];
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: any) => {
+        stdoutChunks.push(String(chunk));
+        return true;
+      });
+    const stderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation(() => true);
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation(((
+      code?: number
+    ) => {
+      throw new Error(`EXIT:${code ?? 0}`);
+    }) as never);
+    const errorChunks: string[] = [];
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(((
+      msg?: unknown
+    ) => {
+      if (msg !== undefined) {
+        errorChunks.push(String(msg));
+      }
+    }) as never);
+
+    try {
+      // Compiling the ref needs the mapped file, so a clean run proves the read.
+      await run('https://schemas.acme.io/country.json');
+      expect(stdoutChunks.join('').trim().split('\n')).toHaveLength(1);
+
+      await expect(
+        run('https://schemas.acme.io/%2e%2e%2fsecret.json')
+      ).rejects.toThrow(/EXIT:/);
+      expect(errorChunks.join('\n')).toMatch(/can't resolve reference/);
+    } finally {
+      stdoutSpy.mockRestore();
+      stderrSpy.mockRestore();
+      exitSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
   it('emits coverage summary on stderr when coverage=measure is enabled', async () => {
     const { dir, schemaPath } = await createSchemaFixture();
 
@@ -679,6 +819,62 @@ describe('CLI generate command', () => {
     }
   });
 
+  it.each(['ndjson', 'json'])(
+    'emits labelled negative instances with --polarity negative (%s)',
+    async (outFormat) => {
+      const { dir, schemaPath, schema } = await createSchemaFixture();
+
+      const stdoutChunks: string[] = [];
+      const stdoutSpy = vi
+        .spyOn(process.stdout, 'write')
+        .mockImplementation((chunk: any) => {
+          stdoutChunks.push(String(chunk));
+          return true;
+        });
+      const stderrSpy = vi
+        .spyOn(process.stderr, 'write')
+        .mockImplementation(() => true);
+
+      try {
+        await program.parseAsync(
+          [
+            'generate',
+            '--schema',
+            schemaPath,
+            '--n',
+            '4',
+            '--out',
+            outFormat,
+            '--polarity',
+            'negative',
+          ],
+          { from: 'user' }
+        );
+      } finally {
+        stdoutSpy.mockRestore();
+        stderrSpy.mockRestore();
+        await rm(dir, { recursive: true, force: true });
+      }
+
+      const stdout = stdoutChunks.join('');
+      const records =
+        outFormat === 'json'
+          ? JSON.parse(stdout)
+          : stdout
+              .split('\n')
+              .map((line) => line.trim())
+              .filter(Boolean)
+              .map((line) => JSON.parse(line));
+      expect(records).toHaveLength(4);
+      for (const record of records) {
+        const res = PublicValidate(record.instance, schema);
+        expect(res.valid).toBe(false);
+        expect(record.expected).toHaveProperty('keyword');
+        expect(record.expected).toHaveProperty('instancePath');
+      }
+    }
+  );
+
   it('exits with non-zero code when schema file is missing', async () => {
     const exitSpy = vi.spyOn(process, 'exit').mockImplementation(((
       code?: number
@@ -702,6 +898,105 @@ describe('CLI generate command', () => {
       exitSpy.mockRestore();
     }
   });
+
+  it('reads YAML schemas', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'foundrydata-cli-yaml-'));
+    const schemaPath = path.join(dir, 'schema.yaml');
+    await writeFile(
+      schemaPath,
+      [
+        'type: object',
+        'required: [id]',
+        'properties:',
+        '  id: { type: integer, minimum: 3 }',
+      ].join('\n'),
+      'utf8'
+    );
+
+    const stdoutChunks: string[] = [];
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: any) => {
+        stdoutChunks.push(String(chunk));
+        return true;
+      });
+    try {
+      await program.parseAsync(
+        ['generate', '--schema', schemaPath, '--n', '2', '--out', 'ndjson'],
+        { from: 'user' }
+      );
+    } finally {
+      stdoutSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    const items = stdoutChunks
+      .join('')
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+    expect(items).toHaveLength(2);
+    for (const item of items) {
+      expect(item.id).toBeGreaterThanOrEqual(3);
+    }
+  });
+
+  it('points pipeline failures at the source line of a JSON5 schema', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'foundrydata-cli-json5-'));
+    const schemaPath = path.join(dir, 'schema.json5');
+    await writeFile(
+      schemaPath,
+      [
+        '// unsatisfiable on purpose',
+        '{',
+        "  type: 'object',",
+        '  properties: {',
+        '    a: { type: "integer", minimum: 5, maximum: 1 },',
+        '  },',
+        "  required: ['a'],",
+        '}',
+      ].join('\n'),
+      'utf8'
+    );
+
+    const errorChunks: string[] = [];
+    const errorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation((...args: unknown[]) => {
+        errorChunks.push(args.map(String).join(' '));
+      });
+    const stderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation(() => true);
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation(((
+      code?: number
+    ) => {
+      throw new Error(`EXIT:${code ?? 0}`);
+    }) as never);
+
+    try {
+      await expect(
+        main([
+          'node',
+          'foundrydata',
+          'generate',
+          '--schema',
+          schemaPath,
+          '--n',
+          '1',
+        ])
+      ).rejects.toThrow(/EXIT:/);
+    } finally {
+      errorSpy.mockRestore();
+      stderrSpy.mockRestore();
+      exitSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    expect(errorChunks.join('\n')).toContain(
+      `#/properties/a (${schemaPath}:5:5)`
+    );
+  });
 });
 
 describe('CLI openapi command', () => {
@@ -837,51 +1132,51 @@ describe('CLI openapi command', () => {
     }
   });
 
-  it('exits with non-zero code and prints an error when selection fails', async () => {
-    const { dir, specPath } = await createOpenApiFixture();
-
-    const exitSpy = vi.spyOn(process, 'exit').mockImplementation(((
-      code?: number
-    ) => {
-      throw new Error(`EXIT:${code ?? 0}`);
-    }) as never);
-
-    const errorChunks: string[] = [];
-    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(((
-      msg?: unknown
-    ) => {
-      if (msg !== undefined) {
-        errorChunks.push(String(msg));
-      }
-    }) as never);
-
-    try {
-      await expect(
-        main([
-          'node',
-          'foundrydata',
-          'openapi',
-          '--spec',
-          specPath,
-          '--operation-id',
-          'nonExistentOperation',
-          '--n',
-          '1',
-        ])
-      ).rejects.toThrow(/EXIT:/);
-
-      const stderr = errorChunks.join('\n');
-      expect(stderr).not.toBe('');
-      expect(stderr).toMatch(/operationid/i);
-    } finally {
-      exitSpy.mockRestore();
-      consoleErrorSpy.mockRestore();
-      await rm(dir, { recursive: true, force: true });
-    }
-  });
-
-  it('accepts coverage-related flags on openapi command (and warns when coverage=off)', async () => {
-    const { dir, specPath, responseSchema } = await createOpenApiFixture();
+  it('emits request fixtures with --request and hits OP_REQUEST_COVERED', async () => {
+    const dir = await mkdtemp(
+      path.join(os.tmpdir(), 'foundrydata-cli-openapi-')
+    );
+    const document = {
+      openapi: '3.1.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: {
+        '/users/{id}': {
+          put: {
+            operationId: 'putUser',
+            parameters: [
+              { name: 'id', in: 'path', schema: { const: 42 } },
+              {
+                name: 'tags',
+                in: 'query',
+                required: true,
+                explode: false,
+                schema: { const: ['a', 'b'] },
+              },
+            ],
+            requestBody: {
+              required: true,
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/User' },
+                },
+              },
+            },
+            responses: { 204: { description: 'No Content' } },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          User: {
+            type: 'object',
+            required: ['name'],
+            properties: { name: { const: 'Ada' } },
+          },
+        },
+      },
+    };
+    const specPath = path.join(dir, 'openapi.json');
+    await writeFile(specPath, JSON.stringify(document), 'utf8');
 
     const stdoutChunks: string[] = [];
     const stderrChunks: string[] = [];
@@ -904,26 +1199,18 @@ describe('CLI openapi command', () => {
           'openapi',
           '--spec',
           specPath,
-          '--path',
-          '/users',
-          '--method',
-          'get',
+          '--operation-id',
+          'putUser',
+          '--request',
           '--n',
           '2',
           '--out',
           'ndjson',
           '--coverage',
-          'off',
+          'measure',
           '--coverage-dimensions',
-          'structure,branches',
-          '--coverage-min',
-          '0.5',
-          '--coverage-report',
-          'coverage.json',
-          '--coverage-profile',
-          'quick',
-          '--coverage-exclude-unreachable',
-          'true',
+          'structure,operations',
+          '--summary',
         ],
         { from: 'user' }
       );
@@ -933,16 +1220,278 @@ describe('CLI openapi command', () => {
       await rm(dir, { recursive: true, force: true });
     }
 
-    const stdout = stdoutChunks.join('');
-    const lines = stdout
+    const fixtures = stdoutChunks
+      .join('')
       .split('\n')
       .map((line) => line.trim())
-      .filter(Boolean);
-    expect(lines.length).toBe(2);
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+    expect(fixtures).toHaveLength(2);
+    expect(fixtures[0]).toEqual({
+      path: '/users/42',
+      query: { tags: 'a,b' },
+      headers: { 'content-type': 'application/json' },
+      body: { name: 'Ada' },
+    });
+
+    const summaryLine = stderrChunks
+      .join('')
+      .split('\n')
+      .find((line) => line.includes('[foundrydata] summary:'));
+    const summary = JSON.parse(summaryLine!.slice(summaryLine!.indexOf('{')));
+    expect(summary.coverage.byOperation.putUser).toBe(1);
+  });
 
-    const instances = lines.map((line) => JSON.parse(line));
-    for (const instance of instances) {
-      const res = PublicValidate(instance, responseSchema);
+  it('writes every response under --out-dir with --all and one combined coverage report', async () => {
+    const dir = await mkdtemp(
+      path.join(os.tmpdir(), 'foundrydata-cli-openapi-')
+    );
+    const document = {
+      openapi: '3.1.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: {
+        '/users': {
+          get: {
+            responses: {
+              200: {
+                description: 'OK',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/User' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        '/users/{id}': {
+          get: {
+            operationId: 'getUser',
+            responses: {
+              200: {
+                description: 'OK',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/User' },
+                  },
+                },
+              },
+              404: {
+                description: 'Not Found',
+                content: {
+                  'application/problem+json': {
+                    schema: {
+                      type: 'object',
+                      required: ['title'],
+                      properties: { title: { const: 'missing' } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          User: {
+            type: 'object',
+            required: ['name'],
+            properties: { name: { const: 'Ada' } },
+          },
+        },
+      },
+    };
+    const specPath = path.join(dir, 'openapi.json');
+    const outDir = path.join(dir, 'fixtures');
+    const reportPath = path.join(dir, 'coverage.json');
+    await writeFile(specPath, JSON.stringify(document), 'utf8');
+
+    const stderrChunks: string[] = [];
+    const stderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation((chunk: any) => {
+        stderrChunks.push(String(chunk));
+        return true;
+      });
+
+    let report: CoverageReport;
+    let files: string[];
+    let notFound: unknown[];
+    try {
+      await program.parseAsync(
+        [
+          'openapi',
+          '--spec',
+          specPath,
+          '--all',
+          '--out-dir',
+          outDir,
+          '--n',
+          '2',
+          '--out',
+          'ndjson',
+          '--coverage',
+          'measure',
+          '--coverage-dimensions',
+          'structure,operations',
+          '--coverage-report',
+          reportPath,
+        ],
+        { from: 'user' }
+      );
+      files = fs
+        .readdirSync(outDir, { recursive: true, encoding: 'utf8' })
+        .filter((entry) => entry.includes('.'))
+        .sort();
+      notFound = (
+        await readFile(
+          path.join(
+            outDir,
+            'getUser',
+            '404',
+            'application%2Fproblem%2Bjson.ndjson'
+          ),
+          'utf8'
+        )
+      )
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      report = JSON.parse(await readFile(reportPath, 'utf8'));
+    } finally {
+      stderrSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    expect(files).toEqual([
+      path.join('GET%20%2Fusers', '200', 'application%2Fjson.ndjson'),
+      path.join('getUser', '200', 'application%2Fjson.ndjson'),
+      path.join('getUser', '404', 'application%2Fproblem%2Bjson.ndjson'),
+    ]);
+    expect(notFound).toEqual([{ title: 'missing' }, { title: 'missing' }]);
+    expect(report.run.actualInstances).toBe(6);
+    expect(report.metrics.byOperation).toEqual({
+      'GET /users': expect.any(Number),
+      getUser: expect.any(Number),
+    });
+    expect(
+      report.targets
+        .filter((target) => target.kind === 'OP_RESPONSE_COVERED')
+        .every((target) => target.hit)
+    ).toBe(true);
+    expect(stderrChunks.join('')).toContain('[foundrydata] coverage:');
+  });
+
+  it('exits with non-zero code and prints an error when selection fails', async () => {
+    const { dir, specPath } = await createOpenApiFixture();
+
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation(((
+      code?: number
+    ) => {
+      throw new Error(`EXIT:${code ?? 0}`);
+    }) as never);
+
+    const errorChunks: string[] = [];
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(((
+      msg?: unknown
+    ) => {
+      if (msg !== undefined) {
+        errorChunks.push(String(msg));
+      }
+    }) as never);
+
+    try {
+      await expect(
+        main([
+          'node',
+          'foundrydata',
+          'openapi',
+          '--spec',
+          specPath,
+          '--operation-id',
+          'nonExistentOperation',
+          '--n',
+          '1',
+        ])
+      ).rejects.toThrow(/EXIT:/);
+
+      const stderr = errorChunks.join('\n');
+      expect(stderr).not.toBe('');
+      expect(stderr).toMatch(/operationid/i);
+    } finally {
+      exitSpy.mockRestore();
+      consoleErrorSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('accepts coverage-related flags on openapi command (and warns when coverage=off)', async () => {
+    const { dir, specPath, responseSchema } = await createOpenApiFixture();
+
+    const stdoutChunks: string[] = [];
+    const stderrChunks: string[] = [];
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: any) => {
+        stdoutChunks.push(String(chunk));
+        return true;
+      });
+    const stderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation((chunk: any) => {
+        stderrChunks.push(String(chunk));
+        return true;
+      });
+
+    try {
+      await program.parseAsync(
+        [
+          'openapi',
+          '--spec',
+          specPath,
+          '--path',
+          '/users',
+          '--method',
+          'get',
+          '--n',
+          '2',
+          '--out',
+          'ndjson',
+          '--coverage',
+          'off',
+          '--coverage-dimensions',
+          'structure,branches',
+          '--coverage-min',
+          '0.5',
+          '--coverage-report',
+          'coverage.json',
+          '--coverage-profile',
+          'quick',
+          '--coverage-exclude-unreachable',
+          'true',
+        ],
+        { from: 'user' }
+      );
+    } finally {
+      stdoutSpy.mockRestore();
+      stderrSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    const stdout = stdoutChunks.join('');
+    const lines = stdout
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    expect(lines.length).toBe(2);
+
+    const instances = lines.map((line) => JSON.parse(line));
+    for (const instance of instances) {
+      const res = PublicValidate(instance, responseSchema);
       expect(res.valid).toBe(true);
     }
 
@@ -1290,6 +1839,89 @@ describe('CLI openapi command', () => {
     expect(stderr).toMatch(/coverage status: minCoverageNotMet/i);
   });
 
+  it('exits with the dimension threshold code when a per-dimension minimum is not met', async () => {
+    const { dir, schemaPath } = await createSchemaFixture();
+    const coverageSchema = {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      oneOf: [
+        {
+          type: 'object',
+          properties: { branch: { const: 'a' } },
+          required: ['branch'],
+        },
+        {
+          type: 'object',
+          properties: { branch: { const: 'b' } },
+          required: ['branch'],
+        },
+      ],
+    } as const;
+    await writeFile(schemaPath, JSON.stringify(coverageSchema), 'utf8');
+    const reportPath = path.join(dir, 'coverage.json');
+
+    const stderrChunks: string[] = [];
+    const stderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation((chunk: any) => {
+        stderrChunks.push(String(chunk));
+        return true;
+      });
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const exitSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation(() => undefined as never);
+
+    let report: CoverageReport;
+    try {
+      await program.parseAsync(
+        [
+          'generate',
+          '--schema',
+          schemaPath,
+          '--n',
+          '1',
+          '--out',
+          'ndjson',
+          '--coverage',
+          'measure',
+          '--coverage-dimensions',
+          'structure,branches',
+          '--coverage-min-structure',
+          '0.1',
+          '--coverage-min-branches',
+          '1',
+          '--coverage-report',
+          reportPath,
+        ],
+        { from: 'user' }
+      );
+
+      expect(exitSpy).toHaveBeenCalledWith(
+        getExitCode(ErrorCode.COVERAGE_DIMENSION_THRESHOLD_NOT_MET)
+      );
+      report = JSON.parse(await readFile(reportPath, 'utf8')) as CoverageReport;
+    } finally {
+      exitSpy.mockRestore();
+      stdoutSpy.mockRestore();
+      stderrSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    expect(report.metrics.coverageStatus).toBe('thresholdsNotMet');
+    expect(report.metrics.thresholds?.byDimension).toEqual({
+      structure: 0.1,
+      branches: 1,
+    });
+    expect(report.metrics.thresholdFailures).toEqual([
+      { scope: 'dimension', key: 'branches', actual: 0.5, threshold: 1 },
+    ]);
+    const stderr = stderrChunks.join('');
+    expect(stderr).toMatch(/coverage status: thresholdsNotMet/);
+    expect(stderr).toContain('branches: 0.500 < 1.000');
+  });
+
   it('applies quick/balanced/thorough coverage profiles with guided >= measure on branches/enum and consistent thresholds', async () => {
     const { dir, schemaPath } = await createSchemaFixture();
     const coverageSchema = {
@@ -1622,6 +2254,49 @@ describe('CLI coverage diff command', () => {
     }
   });
 
+  it('reads YAML and JSON5 coverage reports', async () => {
+    const dir = await mkdtemp(
+      path.join(os.tmpdir(), 'foundrydata-cli-coverage-diff-')
+    );
+    const baselinePath = path.join(dir, 'baseline.json5');
+    const comparisonPath = path.join(dir, 'comparison.yaml');
+    await writeFile(
+      baselinePath,
+      `// recorded on main\n${JSON.stringify(makeBaseReport())}\n`,
+      'utf8'
+    );
+    await writeFile(
+      comparisonPath,
+      Object.entries(makeBaseReport())
+        .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+        .join('\n'),
+      'utf8'
+    );
+
+    const stdoutChunks: string[] = [];
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: any) => {
+        stdoutChunks.push(String(chunk));
+        return true;
+      });
+
+    const previousExitCode = process.exitCode;
+    try {
+      process.exitCode = undefined;
+      await program.parseAsync(
+        ['coverage', 'diff', baselinePath, comparisonPath],
+        { from: 'user' }
+      );
+      expect(stdoutChunks.join('')).toMatch(/overall: .*delta=0\.000/);
+      expect(process.exitCode ?? 0).toBe(0);
+    } finally {
+      process.exitCode = previousExitCode;
+      stdoutSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
   it('sets non-zero exit code when regressions or new gaps are detected', async () => {
     const base = makeBaseReport();
     const comparison = makeBaseReport();
@@ -1798,3 +2473,501 @@ describe('CLI coverage diff command', () => {
     }
   });
 });
+
+describe('CLI coverage measure command', () => {
+  it('replays NDJSON instances into a coverage report and warns on invalid ones', async () => {
+    const { dir, schemaPath } = await createSchemaFixture();
+    const instancesPath = path.join(dir, 'fixtures.ndjson');
+    const reportPath = path.join(dir, 'coverage.json');
+    await writeFile(
+      instancesPath,
+      ['{"id":1,"name":"a"}', '', '{"id":"x","name":"b"}'].join('\n'),
+      'utf8'
+    );
+
+    const stderrChunks: string[] = [];
+    const stderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation((chunk: any) => {
+        stderrChunks.push(String(chunk));
+        return true;
+      });
+
+    try {
+      await program.parseAsync(
+        [
+          'coverage',
+          'measure',
+          '--schema',
+          schemaPath,
+          '--instances',
+          instancesPath,
+          '--coverage-report',
+          reportPath,
+        ],
+        { from: 'user' }
+      );
+
+      const stderr = stderrChunks.join('');
+      expect(stderr).toMatch(/instance #1 does not match the schema \(\/id:/);
+      expect(stderr).toMatch(/coverage overall:/);
+
+      const report = JSON.parse(
+        await readFile(reportPath, 'utf8')
+      ) as CoverageReport;
+      expect(report.version).toBe('coverage-report/v1');
+      expect(report.engine.coverageMode).toBe('measure');
+      expect(report.run.actualInstances).toBe(1);
+      expect(report.metrics.overall).toBe(1);
+    } finally {
+      stderrSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('CLI coverage fill command', () => {
+  it('appends the instances that close a baseline gap to the fixture file', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'foundrydata-cli-fill-'));
+    const schemaPath = path.join(dir, 'schema.json');
+    const fixturesPath = path.join(dir, 'fixtures.ndjson');
+    const baselinePath = path.join(dir, 'baseline.json');
+    const mergedPath = path.join(dir, 'merged.json');
+    await writeFile(
+      schemaPath,
+      JSON.stringify({
+        type: 'object',
+        required: ['size'],
+        properties: { size: { enum: ['S', 'M', 'L'] } },
+      }),
+      'utf8'
+    );
+    await writeFile(fixturesPath, '{"size":"M"}\n', 'utf8');
+
+    const stderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation(() => true);
+
+    try {
+      const measure = (reportPath: string): Promise<unknown> =>
+        program.parseAsync(
+          [
+            'coverage',
+            'measure',
+            '--schema',
+            schemaPath,
+            '--instances',
+            fixturesPath,
+            '--coverage-report',
+            reportPath,
+          ],
+          { from: 'user' }
+        );
+      await measure(baselinePath);
+      await program.parseAsync(
+        [
+          'coverage',
+          'fill',
+          '--schema',
+          schemaPath,
+          '--baseline',
+          baselinePath,
+          '--out',
+          fixturesPath,
+          '--append',
+        ],
+        { from: 'user' }
+      );
+
+      const sizes = (await readFile(fixturesPath, 'utf8'))
+        .trim()
+        .split('\n')
+        .map((line) => (JSON.parse(line) as { size: string }).size);
+      expect(sizes[0]).toBe('M');
+      expect([...sizes].sort()).toEqual(['L', 'M', 'S']);
+
+      await measure(mergedPath);
+      const merged = JSON.parse(
+        await readFile(mergedPath, 'utf8')
+      ) as CoverageReport;
+      expect(merged.metrics.overall).toBe(1);
+    } finally {
+      stderrSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('closes oneOf branch and boundary gaps with the baseline dimensions', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'foundrydata-cli-fill-'));
+    const schemaPath = path.join(dir, 'schema.json');
+    const fixturesPath = path.join(dir, 'fixtures.ndjson');
+    const baselinePath = path.join(dir, 'baseline.json');
+    const mergedPath = path.join(dir, 'merged.json');
+    await writeFile(
+      schemaPath,
+      JSON.stringify({
+        type: 'object',
+        required: ['kind', 'v', 'n'],
+        properties: {
+          kind: { enum: ['a', 'b'] },
+          v: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+          n: { type: 'integer', minimum: 0, maximum: 10 },
+        },
+      }),
+      'utf8'
+    );
+    await writeFile(fixturesPath, '{"kind":"a","v":"x","n":0}\n', 'utf8');
+
+    const stderrChunks: string[] = [];
+    const stderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation((chunk: any) => {
+        stderrChunks.push(String(chunk));
+        return true;
+      });
+
+    try {
+      const measure = (reportPath: string): Promise<unknown> =>
+        program.parseAsync(
+          [
+            'coverage',
+            'measure',
+            '--schema',
+            schemaPath,
+            '--instances',
+            fixturesPath,
+            '--coverage-dimensions',
+            'structure,branches,enum,boundaries',
+            '--coverage-report',
+            reportPath,
+          ],
+          { from: 'user' }
+        );
+      await measure(baselinePath);
+      const baseline = JSON.parse(
+        await readFile(baselinePath, 'utf8')
+      ) as CoverageReport;
+      const missed = baseline.targets
+        .filter((target) => !target.hit)
+        .map((target) => `${target.kind} ${target.canonPath}`);
+      expect(missed).toEqual(
+        expect.arrayContaining([
+          'ONEOF_BRANCH #/properties/v/oneOf/1',
+          'NUMERIC_MAX_HIT #/properties/n',
+        ])
+      );
+
+      await program.parseAsync(
+        [
+          'coverage',
+          'fill',
+          '--schema',
+          schemaPath,
+          '--baseline',
+          baselinePath,
+          '--out',
+          fixturesPath,
+          '--append',
+        ],
+        { from: 'user' }
+      );
+      expect(stderrChunks.join('')).not.toMatch(/still uncovered/);
+
+      await measure(mergedPath);
+      const merged = JSON.parse(
+        await readFile(mergedPath, 'utf8')
+      ) as CoverageReport;
+      expect(merged.targets.filter((target) => !target.hit)).toEqual([]);
+    } finally {
+      stderrSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('CLI resolver snapshot commands', () => {
+  async function createRefFixture(): Promise<{
+    dir: string;
+    schemaPath: string;
+    defsPath: string;
+  }> {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'foundrydata-cli-refs-'));
+    const dialect = 'https://json-schema.org/draft/2020-12/schema';
+    const schemaPath = path.join(dir, 'root.json');
+    const defsPath = path.join(dir, 'defs.json');
+    await writeFile(
+      schemaPath,
+      JSON.stringify({
+        $schema: dialect,
+        $id: 'https://example.test/schemas/root.json',
+        type: 'object',
+        properties: { a: { $ref: 'defs.json#/$defs/A' } },
+      }),
+      'utf8'
+    );
+    await writeFile(
+      defsPath,
+      JSON.stringify({ $schema: dialect, $defs: { A: { type: 'string' } } }),
+      'utf8'
+    );
+    return { dir, schemaPath, defsPath };
+  }
+
+  it('writes a snapshot and reports drift after a referenced file changes', async () => {
+    const { dir, schemaPath, defsPath } = await createRefFixture();
+    const snapshotPath = path.join(dir, 'refs.snapshot.json');
+
+    const stdoutChunks: string[] = [];
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: any) => {
+        stdoutChunks.push(String(chunk));
+        return true;
+      });
+
+    const previousExitCode = process.exitCode;
+    try {
+      process.exitCode = undefined;
+
+      await program.parseAsync(
+        ['resolver', 'snapshot', '--schema', schemaPath, '--out', snapshotPath],
+        { from: 'user' }
+      );
+      expect(process.exitCode ?? 0).toBe(0);
+      const lines = (await readFile(snapshotPath, 'utf8'))
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(lines[0]?.uri).toBe('https://example.test/schemas/defs.json');
+      expect(lines[1]).toMatchObject({ count: 1 });
+
+      await program.parseAsync(
+        [
+          'resolver',
+          'verify',
+          '--schema',
+          schemaPath,
+          '--snapshot',
+          snapshotPath,
+        ],
+        { from: 'user' }
+      );
+      expect(process.exitCode ?? 0).toBe(0);
+      expect(stdoutChunks.join('')).toMatch(/resolver verify: in sync/);
+
+      await writeFile(
+        defsPath,
+        JSON.stringify({ $defs: { A: { type: 'integer' } } }),
+        'utf8'
+      );
+      stdoutChunks.length = 0;
+      await program.parseAsync(
+        [
+          'resolver',
+          'verify',
+          '--schema',
+          schemaPath,
+          '--snapshot',
+          snapshotPath,
+        ],
+        { from: 'user' }
+      );
+      expect(process.exitCode).toBe(1);
+      const stdout = stdoutChunks.join('');
+      expect(stdout).toMatch(/drift detected/);
+      expect(stdout).toMatch(
+        /changed:\n\s+https:\/\/example\.test\/schemas\/defs\.json/
+      );
+    } finally {
+      process.exitCode = previousExitCode;
+      stdoutSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reads a YAML root schema', async () => {
+    const { dir } = await createRefFixture();
+    const schemaPath = path.join(dir, 'root.yaml');
+    const snapshotPath = path.join(dir, 'refs.snapshot.json');
+    await writeFile(
+      schemaPath,
+      [
+        '$id: https://example.test/schemas/root.yaml',
+        'type: object',
+        'properties:',
+        '  a:',
+        "    $ref: 'defs.json#/$defs/A'",
+      ].join('\n'),
+      'utf8'
+    );
+
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const previousExitCode = process.exitCode;
+    try {
+      process.exitCode = undefined;
+      await program.parseAsync(
+        ['resolver', 'snapshot', '--schema', schemaPath, '--out', snapshotPath],
+        { from: 'user' }
+      );
+      expect(process.exitCode ?? 0).toBe(0);
+      const [entry] = (await readFile(snapshotPath, 'utf8')).split('\n');
+      expect(JSON.parse(entry ?? '{}').uri).toBe(
+        'https://example.test/schemas/defs.json'
+      );
+    } finally {
+      process.exitCode = previousExitCode;
+      stdoutSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('writes a snapshot that generate --resolver-snapshot consumes offline', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'foundrydata-cli-refs-'));
+    const dialect = 'https://json-schema.org/draft/2020-12/schema';
+    const schemaPath = path.join(dir, 'schemas', 'root.json');
+    const sharedDir = path.join(dir, 'shared');
+    const snapshotPath = path.join(dir, 'refs.snapshot.json');
+    fs.mkdirSync(path.dirname(schemaPath));
+    fs.mkdirSync(sharedDir);
+    await writeFile(
+      schemaPath,
+      JSON.stringify({
+        $schema: dialect,
+        $id: 'https://example.test/schemas/root.json',
+        type: 'object',
+        properties: { a: { $ref: '../shared/defs.json#/$defs/A' } },
+      }),
+      'utf8'
+    );
+    await writeFile(
+      path.join(sharedDir, 'defs.json'),
+      JSON.stringify({ $schema: dialect, $defs: { A: { type: 'string' } } }),
+      'utf8'
+    );
+
+    const stdoutChunks: string[] = [];
+    const stderrChunks: string[] = [];
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation((chunk: any) => {
+        stdoutChunks.push(String(chunk));
+        return true;
+      });
+    const stderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation((chunk: any) => {
+        stderrChunks.push(String(chunk));
+        return true;
+      });
+
+    const previousExitCode = process.exitCode;
+    try {
+      process.exitCode = undefined;
+      await program.parseAsync(
+        ['resolver', 'snapshot', '--schema', schemaPath, '--out', snapshotPath],
+        { from: 'user' }
+      );
+      expect(process.exitCode ?? 0).toBe(0);
+      expect(stdoutChunks.join('')).toContain(
+        'https://example.test/shared/defs.json'
+      );
+
+      // The snapshot alone must satisfy the ref once the source is gone.
+      await rm(sharedDir, { recursive: true, force: true });
+      stdoutChunks.length = 0;
+      await program.parseAsync(
+        [
+          'generate',
+          '--schema',
+          schemaPath,
+          '--n',
+          '2',
+          '--out',
+          'ndjson',
+          '--resolver-snapshot',
+          snapshotPath,
+        ],
+        { from: 'user' }
+      );
+      expect(process.exitCode ?? 0).toBe(0);
+    } finally {
+      process.exitCode = previousExitCode;
+      stdoutSpy.mockRestore();
+      stderrSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    const lines = stdoutChunks
+      .join('')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    expect(lines).toHaveLength(2);
+    expect(stderrChunks.join('')).not.toMatch(/EXTERNAL_REF_UNRESOLVED/);
+  });
+});
+
+describe('CLI run command', () => {
+  it('runs every config target into its output file, with CLI flags overriding config values', async () => {
+    const { dir, schema } = await createSchemaFixture();
+    const { dir: specDir, specPath } = await createOpenApiFixture();
+    const configPath = path.join(dir, 'foundrydata.config.json');
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        defaults: { count: 5, seed: 7 },
+        targets: {
+          users: { schema: 'schema.json', output: 'out/users.json' },
+          'users-api': {
+            spec: specPath,
+            operationId: 'getUsers',
+            count: 4,
+            output: 'out/api.json',
+          },
+        },
+      }),
+      'utf8'
+    );
+
+    const stderrChunks: string[] = [];
+    const stdoutSpy = vi
+      .spyOn(process.stdout, 'write')
+      .mockImplementation(() => true);
+    const stderrSpy = vi
+      .spyOn(process.stderr, 'write')
+      .mockImplementation((chunk: any) => {
+        stderrChunks.push(String(chunk));
+        return true;
+      });
+
+    try {
+      await program.parseAsync(
+        ['run', '--all', '--config', configPath, '--count', '2'],
+        { from: 'user' }
+      );
+
+      const users = JSON.parse(
+        await readFile(path.join(dir, 'out/users.json'), 'utf8')
+      ) as unknown[];
+      const api = JSON.parse(
+        await readFile(path.join(dir, 'out/api.json'), 'utf8')
+      ) as unknown[];
+      expect(users).toHaveLength(2);
+      expect(api).toHaveLength(2);
+      for (const item of users) {
+        expect(PublicValidate(item, schema).valid).toBe(true);
+      }
+      expect(stdoutSpy).not.toHaveBeenCalled();
+      expect(stderrChunks.join('')).toContain(
+        '[foundrydata] run: users-api (openapi)'
+      );
+    } finally {
+      stdoutSpy.mockRestore();
+      stderrSpy.mockRestore();
+      await rm(dir, { recursive: true, force: true });
+      await rm(specDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -21,8 +21,10 @@
 //     NDJSON/JSON) and how they map onto Normalize/Compose/Generate/Repair/Validate.
 
 import { Command } from 'commander';
+import { once } from 'node:events';
 import fs from 'node:fs';
 import path from 'node:path';
+import type { Writable } from 'node:stream';
 import { fileURLToPath } from 'node:url';
 import {
   ErrorPresenter,
@@ -32,24 +34,45 @@ import {
   resolveOptions,
   Generate,
   PipelineStageError,
+  SUPPORTED_LOCALES,
+  resolveLocalePack,
+  loadSourceDocument,
+  type SourceDocument,
+  type GenerateIterable,
   type PipelineResult,
   selectResponseSchemaAndExample,
+  selectRequestSchema,
+  serializeRequestFixture,
+  generateOpenApiSpecFixtures,
+  upgradeOpenApiDocument,
   type OpenApiDriverOptions,
+  type OpenApiSpecFixturesOptions,
+  type OpenApiSpecTargetOutcome,
 } from '@foundrydata/core';
 import { renderCLIView } from './render.js';
 import {
+  collectRepeatable,
   parsePlanOptions,
   resolveRowCount,
   resolveCompatMode,
   resolveOutputFormat,
+  resolvePolarity,
   type OutputFormat,
   type CliOptions,
 } from './flags.js';
 import { printComposeDebug } from './debug.js';
+import { failureSchemaPath } from './source-location.js';
 import { resolveCliCoverageOptions } from './config/coverage-options.js';
+import { addCoverageDimensionMinOptions } from './config/coverage-thresholds.js';
+import { loadCustomFormats } from './config/custom-formats.js';
 import { formatCoverageSummary } from './coverage/coverage-summary.js';
 import { enforceCoverageThreshold } from './coverage/coverage-exit-codes.js';
 import { registerCoverageDiffCommand } from './commands/coverage-diff.js';
+import { registerCoverageMeasureCommand } from './commands/coverage-measure.js';
+import { registerCoverageFillCommand } from './commands/coverage-fill.js';
+import { registerResolverSnapshotCommands } from './commands/resolver-snapshot.js';
+import { registerPlanCacheCommands } from './commands/plan-cache.js';
+import { registerRunCommand } from './commands/run.js';
 import { applyGValidProfileToCliOptions } from './profiles.js';
 
 const program = new Command();
@@ -59,7 +82,7 @@ program
   .description('Generate test data from JSON Schema')
   .version('0.1.0');
 
-program
+const generateCommand = program
   .command('generate')
   .description('Generate test data from schema')
   .option('-s, --schema <file>', 'JSON Schema file path')
@@ -67,7 +90,10 @@ program
   .option('-r, --rows <number>', 'Alias for --count')
   .option('-n, --n <number>', 'Alias for --count')
   .option('--seed <number>', 'Deterministic seed', '424242')
-  .option('--locale <string>', 'Locale (e.g., en, fr)', 'en')
+  .option(
+    '--locale <string>',
+    `Locale for unconstrained strings: ${SUPPORTED_LOCALES.join('|')} (default: off)`
+  )
   .option(
     '--repair-attempts <number>',
     'Per-item retry attempts on validation failure',
@@ -127,10 +153,30 @@ program
   .option('--no-metrics', 'Disable metrics collection')
   .option(
     '--resolve <strategies>',
-    'Resolver strategies: local[,remote][,schemastore]',
+    'Resolver strategies: local[,remote][,schemastore][,mapping]',
     'local'
   )
   .option('--cache-dir <path>', 'Resolver cache directory (supports ~)')
+  .option(
+    '--plan-cache',
+    'Reuse normalize/compose results persisted under <cache-dir>/plans'
+  )
+  .option(
+    '--resolver-snapshot <file>',
+    'Resolve external $ref from a snapshot written by `resolver snapshot` (no network)'
+  )
+  .option(
+    '--resolver-map <prefix=dir>',
+    'Read $ref URIs under prefix from a local directory (repeatable; enables the mapping strategy)',
+    collectRepeatable,
+    []
+  )
+  .option(
+    '--resolver-preload <glob>',
+    'Index schema files matching glob by $id (repeatable; enables the mapping strategy)',
+    collectRepeatable,
+    []
+  )
   .option(
     '--fail-on-unresolved <bool>',
     'Set false to enable Lax planning stubs (maps to resolver.stubUnresolved=emptySchema)',
@@ -159,7 +205,19 @@ program
     '--coverage-exclude-unreachable <bool>',
     'Exclude unreachable targets from coverage denominators (true|false)'
   )
+  .option(
+    '--coverage-weights <file>',
+    'Coverage weighting model (JSON/YAML): byPath globs, byKind factors'
+  );
+
+addCoverageDimensionMinOptions(generateCommand)
   .option('--out <format>', 'Output format: json|ndjson', 'json')
+  .option('--out-file <file>', 'Write fixtures to a file instead of stdout')
+  .option(
+    '--polarity <polarity>',
+    'Instance polarity: positive|negative (negative emits invalid instances labelled with the expected AJV error)',
+    'positive'
+  )
   .option(
     '--summary',
     'Print a compact JSON summary suitable for CI to stderr',
@@ -174,15 +232,20 @@ program
     '--prefer-examples',
     'Prefer OpenAPI examples over generated data when available'
   )
+  .option(
+    '--formats <module>',
+    'ES module exporting custom format generators (default or "formats" export)'
+  )
   .option('--debug-passes', 'Print effective configuration to stderr')
   .action(async function (this: Command, options) {
+    let source: SourceDocument | undefined;
     try {
       const schemaPath = options.schema as string | undefined;
       if (!schemaPath) throw new Error('Missing --schema <file>');
       const abs = path.resolve(process.cwd(), schemaPath);
       if (!fs.existsSync(abs)) throw new Error(`Schema file not found: ${abs}`);
-      const raw = fs.readFileSync(abs, 'utf8');
-      const input = JSON.parse(raw);
+      source = loadSourceDocument(abs);
+      const input = source.value;
 
       // Determine compatibility mode early (used by pre-scan and generation)
       const compat = resolveCompatMode({
@@ -238,6 +301,13 @@ program
       const repairAttempts = Number(options.repairAttempts ?? 1);
       const outFormat: OutputFormat = resolveOutputFormat(options.out);
       const preferExamples = options.preferExamples === true;
+      const polarity = resolvePolarity(options.polarity);
+      const locale = options.locale as string | undefined;
+      if (locale !== undefined && !resolveLocalePack(locale)) {
+        throw new Error(
+          `Unsupported --locale "${locale}" (expected one of: ${SUPPORTED_LOCALES.join(', ')})`
+        );
+      }
 
       // Parse CLI options into PlanOptions
       const command = this;
@@ -268,34 +338,44 @@ program
         ? requestedCount
         : (recommendedMaxInstances ?? requestedCount);
 
+      const formats = options.formats
+        ? await loadCustomFormats(options.formats as string)
+        : undefined;
       const stream = Generate(instanceCount, seed, schemaForGen as object, {
         mode: compat,
+        formats,
         metricsEnabled: options.metrics !== false,
         planOptions,
         preferExamples,
+        locale,
         repairAttempts,
         validateFormats: true,
+        stream: outFormat === 'ndjson',
+        polarity,
         coverage: {
           mode: coverage.mode,
           dimensionsEnabled: coverage.dimensionsEnabled,
           excludeUnreachable: coverage.excludeUnreachable,
           minCoverage: coverage.minCoverage,
           planner: coverage.planner,
+          weights: coverage.weights,
+          minCoverageByDimension: coverage.minCoverageByDimension,
+          minCoverageByOperation: coverage.minCoverageByOperation,
           reportMode: coverage.reportMode,
         },
       });
-      const pipelineResult = await stream.result;
+      const fixtures = openFixtureSink(options.outFile);
+      const { result: pipelineResult, itemCount } = await handlePipelineOutput(
+        stream,
+        options.printMetrics === true,
+        outFormat,
+        { sink: fixtures.sink }
+      ).finally(fixtures.close);
 
       if (options.debugPasses) {
         printComposeDebug(pipelineResult);
       }
 
-      handlePipelineOutput(
-        pipelineResult,
-        options.printMetrics === true,
-        outFormat
-      );
-
       const coverageReport = pipelineResult.artifacts.coverageReport;
       if (coverageReport) {
         const summary = formatCoverageSummary(coverageReport);
@@ -323,12 +403,6 @@ program
       }
 
       if (options.summary || options.manifest) {
-        const generatedStage = pipelineResult.stages.generate.output;
-        const repairedItems = pipelineResult.artifacts.repaired;
-        const items = Array.isArray(repairedItems)
-          ? repairedItems
-          : (generatedStage?.items ?? []);
-
         const summaryPayload = {
           version: 'foundrydata-cli-summary/v1',
           command: 'generate' as const,
@@ -338,8 +412,9 @@ program
           seed,
           count: instanceCount,
           outFormat,
+          polarity,
           items: {
-            total: Array.isArray(items) ? items.length : 0,
+            total: itemCount,
           },
           metrics: pipelineResult.metrics,
           coverage: coverageReport
@@ -365,16 +440,20 @@ program
 
       enforceCoverageThreshold(coverageReport);
     } catch (err: unknown) {
-      await handleCliError(err);
+      await handleCliError(err, source);
     }
   });
 
-program
+const openapiCommand = program
   // openapi CLI wiring (current snapshot):
   // - Uses Generate(...) from @foundrydata/core with mode/seed/count/out, metrics toggle,
   //   repairAttempts, and preferExamples, reusing the same helpers as `generate`.
   // - Uses selectResponseSchemaAndExample with --operation-id or --path/--method plus
   //   --status/--content-type to select the response schema (and example when present).
+  // - With --request, uses selectRequestSchema instead and serializes each item into a
+  //   { path, query, headers, body } request fixture.
+  // - With --all, runs every path/method/status/content-type response through
+  //   generateOpenApiSpecFixtures and writes one file per response under --out-dir.
   // - Missing before this task: dedicated CLI tests exercising schema selection, NDJSON
   //   output, and AJV validation via the public Validate API.
   .command('openapi')
@@ -449,10 +528,30 @@ program
   .option('--no-metrics', 'Disable metrics collection')
   .option(
     '--resolve <strategies>',
-    'Resolver strategies: local[,remote][,schemastore]',
+    'Resolver strategies: local[,remote][,schemastore][,mapping]',
     'local'
   )
   .option('--cache-dir <path>', 'Resolver cache directory (supports ~)')
+  .option(
+    '--plan-cache',
+    'Reuse normalize/compose results persisted under <cache-dir>/plans'
+  )
+  .option(
+    '--resolver-snapshot <file>',
+    'Resolve external $ref from a snapshot written by `resolver snapshot` (no network)'
+  )
+  .option(
+    '--resolver-map <prefix=dir>',
+    'Read $ref URIs under prefix from a local directory (repeatable; enables the mapping strategy)',
+    collectRepeatable,
+    []
+  )
+  .option(
+    '--resolver-preload <glob>',
+    'Index schema files matching glob by $id (repeatable; enables the mapping strategy)',
+    collectRepeatable,
+    []
+  )
   .option(
     '--fail-on-unresolved <bool>',
     'Set false to enable Lax planning stubs (maps to resolver.stubUnresolved=emptySchema)',
@@ -481,7 +580,20 @@ program
     '--coverage-exclude-unreachable <bool>',
     'Exclude unreachable targets from coverage denominators (true|false)'
   )
+  .option(
+    '--coverage-weights <file>',
+    'Coverage weighting model (JSON/YAML): byPath globs, byKind factors'
+  );
+
+addCoverageDimensionMinOptions(openapiCommand)
+  .option(
+    '--coverage-min-operation <operationKey=ratio>',
+    'Minimum coverage for one operation (repeatable), e.g. "GET /users=0.9"',
+    collectRepeatable,
+    []
+  )
   .option('--out <format>', 'Output format: json|ndjson', 'json')
+  .option('--out-file <file>', 'Write fixtures to a file instead of stdout')
   .option(
     '--prefer-examples',
     'Prefer OpenAPI examples over generated data when available'
@@ -496,23 +608,49 @@ program
     'Alias for --summary (prints the same compact JSON summary to stderr)',
     false
   )
+  .option(
+    '--request',
+    'Generate request fixtures ({ path, query, headers, body }) from parameters and requestBody instead of responses',
+    false
+  )
+  .option(
+    '--all',
+    'Generate fixtures for every operation, status and content type (requires --out-dir)',
+    false
+  )
+  .option(
+    '--out-dir <dir>',
+    'Directory receiving --all fixtures as <operationId>/<status>/<contentType>.<json|ndjson>'
+  )
   .option(
     '--status <code>',
     'HTTP status code to select from responses (e.g., 200)'
   )
   .option(
     '--content-type <type>',
-    'Content type to select from response content (e.g., application/json)'
+    'Content type to select from response or request body content (e.g., application/json)'
+  )
+  .option(
+    '--formats <module>',
+    'ES module exporting custom format generators (default or "formats" export)'
   )
   .option('--debug-passes', 'Print effective configuration to stderr')
   .action(async function (this: Command, options) {
+    let source: SourceDocument | undefined;
     try {
       const specPath = options.spec as string | undefined;
       if (!specPath) throw new Error('Missing --spec <file>');
       const abs = path.resolve(process.cwd(), specPath);
       if (!fs.existsSync(abs)) throw new Error(`Spec file not found: ${abs}`);
-      const raw = fs.readFileSync(abs, 'utf8');
-      const document = JSON.parse(raw);
+      source = loadSourceDocument(abs);
+      const document = upgradeOpenApiSource(source);
+      const all = options.all === true;
+      if (all && !options.outDir) {
+        throw new Error('--all requires --out-dir <dir>');
+      }
+      if (all && options.request === true) {
+        throw new Error('--request cannot be combined with --all');
+      }
 
       const compat = resolveCompatMode({
         mode: options.mode,
@@ -541,8 +679,15 @@ program
         preferExamples,
       };
 
-      const selection = selectResponseSchemaAndExample(document, driverOptions);
-      const baseSchema = selection.schema as unknown;
+      const requestSelection =
+        options.request === true
+          ? selectRequestSchema(document, driverOptions)
+          : undefined;
+      const selection =
+        all || requestSelection
+          ? undefined
+          : selectResponseSchemaAndExample(document, driverOptions);
+      const baseSchema = (requestSelection ?? selection)?.schema as unknown;
 
       // Attach OpenAPI components to the selected schema so that local
       // references like "#/components/schemas/User" remain resolvable when
@@ -574,7 +719,7 @@ program
       // validation semantics (example is an annotation keyword).
       if (
         preferExamples &&
-        selection.example !== undefined &&
+        selection?.example !== undefined &&
         schemaForGen &&
         typeof schemaForGen === 'object' &&
         !Array.isArray(schemaForGen)
@@ -615,34 +760,120 @@ program
         ? requestedCount
         : (recommendedMaxInstances ?? requestedCount);
 
+      const formats = options.formats
+        ? await loadCustomFormats(options.formats as string)
+        : undefined;
+
+      if (all) {
+        const { coverageReport, itemCount, failed } =
+          await writeOpenApiSpecFixtures(document, {
+            outDir: path.resolve(process.cwd(), options.outDir as string),
+            outFormat,
+            options: {
+              count: instanceCount,
+              seed,
+              mode: compat,
+              formats,
+              metricsEnabled: options.metrics !== false,
+              planOptions,
+              preferExamples,
+              repairAttempts,
+              validateFormats: true,
+              coverage: {
+                mode: coverage.mode,
+                dimensionsEnabled: coverage.dimensionsEnabled,
+                excludeUnreachable: coverage.excludeUnreachable,
+                minCoverage: coverage.minCoverage,
+                planner: coverage.planner,
+                weights: coverage.weights,
+                minCoverageByDimension: coverage.minCoverageByDimension,
+                minCoverageByOperation: coverage.minCoverageByOperation,
+                reportMode: coverage.reportMode,
+              },
+            },
+          });
+        if (coverageReport) {
+          process.stderr.write(
+            `[foundrydata] coverage: ${formatCoverageSummary(coverageReport)}\n`
+          );
+          writeCoverageReportToPath(coverageReport, coverage.reportPath ?? '');
+        }
+        if (options.summary || options.manifest) {
+          const summaryPayload = {
+            version: 'foundrydata-cli-summary/v1',
+            command: 'openapi' as const,
+            status: failed.length === 0 ? 'completed' : 'failed',
+            mode: compat,
+            specPath: abs,
+            all: true,
+            outDir: options.outDir,
+            seed,
+            count: instanceCount,
+            outFormat,
+            items: {
+              total: itemCount,
+            },
+            coverage: summarizeCoverageReport(coverageReport),
+          };
+          process.stderr.write(
+            `[foundrydata] summary: ${JSON.stringify(summaryPayload)}\n`
+          );
+        }
+        if (failed.length > 0) {
+          throw (
+            failed[0]!.error ??
+            new PipelineStageError('generate', 'Generation pipeline failed')
+          );
+        }
+        enforceCoverageThreshold(coverageReport);
+        return;
+      }
+
       const stream = Generate(instanceCount, seed, schemaForGen as object, {
         mode: compat,
+        context: (requestSelection ?? selection)?.meta.context,
+        formats,
         metricsEnabled: options.metrics !== false,
         planOptions,
         preferExamples,
         repairAttempts,
         validateFormats: true,
+        stream: outFormat === 'ndjson',
         coverage: {
           mode: coverage.mode,
           dimensionsEnabled: coverage.dimensionsEnabled,
           excludeUnreachable: coverage.excludeUnreachable,
           minCoverage: coverage.minCoverage,
           planner: coverage.planner,
+          weights: coverage.weights,
+          minCoverageByDimension: coverage.minCoverageByDimension,
+          minCoverageByOperation: coverage.minCoverageByOperation,
           reportMode: coverage.reportMode,
+          requestOperation: requestSelection
+            ? {
+                operationKey: requestSelection.meta.operationKey,
+                canonPath: requestSelection.meta.operationPath,
+              }
+            : undefined,
         },
       });
-      const pipelineResult = await stream.result;
+      const fixtures = openFixtureSink(options.outFile);
+      const { result: pipelineResult, itemCount } = await handlePipelineOutput(
+        stream,
+        options.printMetrics === true,
+        outFormat,
+        {
+          sink: fixtures.sink,
+          mapItem: requestSelection
+            ? (item) => serializeRequestFixture(requestSelection, item)
+            : undefined,
+        }
+      ).finally(fixtures.close);
 
       if (options.debugPasses) {
         printComposeDebug(pipelineResult);
       }
 
-      handlePipelineOutput(
-        pipelineResult,
-        options.printMetrics === true,
-        outFormat
-      );
-
       const coverageReport = pipelineResult.artifacts.coverageReport;
       if (coverageReport) {
         const summary = formatCoverageSummary(coverageReport);
@@ -669,12 +900,6 @@ program
         }
       }
       if (options.summary || options.manifest) {
-        const generatedStage = pipelineResult.stages.generate.output;
-        const repairedItems = pipelineResult.artifacts.repaired;
-        const items = Array.isArray(repairedItems)
-          ? repairedItems
-          : (generatedStage?.items ?? []);
-
         const summaryPayload = {
           version: 'foundrydata-cli-summary/v1',
           command: 'openapi' as const,
@@ -688,23 +913,10 @@ program
           count: instanceCount,
           outFormat,
           items: {
-            total: Array.isArray(items) ? items.length : 0,
+            total: itemCount,
           },
           metrics: pipelineResult.metrics,
-          coverage: coverageReport
-            ? {
-                mode: coverageReport.engine.coverageMode,
-                dimensionsEnabled: coverageReport.run.dimensionsEnabled,
-                excludeUnreachable: coverageReport.run.excludeUnreachable,
-                overall: coverageReport.metrics.overall,
-                byDimension: coverageReport.metrics.byDimension,
-                byOperation: coverageReport.metrics.byOperation,
-                coverageStatus: coverageReport.metrics.coverageStatus,
-                minCoverage:
-                  coverageReport.metrics.thresholds?.overall ?? undefined,
-                targetsByStatus: coverageReport.metrics.targetsByStatus,
-              }
-            : undefined,
+          coverage: summarizeCoverageReport(coverageReport),
         };
 
         process.stderr.write(
@@ -713,11 +925,11 @@ program
       }
       enforceCoverageThreshold(coverageReport);
     } catch (err: unknown) {
-      await handleCliError(err);
+      await handleCliError(err, source);
     }
   });
 
-program
+const contractsCommand = program
   .command('contracts')
   .description(
     'Generate and validate contract-style fixtures for a JSON Schema'
@@ -753,6 +965,12 @@ program
     '--coverage-exclude-unreachable <bool>',
     'Exclude unreachable targets from coverage denominators (true|false)'
   )
+  .option(
+    '--coverage-weights <file>',
+    'Coverage weighting model (JSON/YAML): byPath globs, byKind factors'
+  );
+
+addCoverageDimensionMinOptions(contractsCommand)
   .option(
     '--summary',
     'Print a compact JSON summary suitable for CI to stderr',
@@ -763,15 +981,20 @@ program
     'Alias for --summary (prints the same compact JSON summary to stderr)',
     false
   )
+  .option(
+    '--formats <module>',
+    'ES module exporting custom format generators (default or "formats" export)'
+  )
   .option('--print-metrics', 'Print pipeline metrics as JSON to stderr', false)
   .action(async function (this: Command, options) {
+    let source: SourceDocument | undefined;
     try {
       const schemaPath = options.schema as string | undefined;
       if (!schemaPath) throw new Error('Missing --schema <file>');
       const abs = path.resolve(process.cwd(), schemaPath);
       if (!fs.existsSync(abs)) throw new Error(`Schema file not found: ${abs}`);
-      const raw = fs.readFileSync(abs, 'utf8');
-      const input = JSON.parse(raw);
+      source = loadSourceDocument(abs);
+      const input = source.value;
 
       const compat = resolveCompatMode({
         mode: options.mode,
@@ -800,22 +1023,28 @@ program
         ? requestedCount
         : (recommendedMaxInstances ?? requestedCount);
 
+      const formats = options.formats
+        ? await loadCustomFormats(options.formats as string)
+        : undefined;
       const stream = Generate(instanceCount, seed, input as object, {
         mode: compat,
+        formats,
         validateFormats: true,
+        stream: outFormat === 'ndjson',
         coverage: {
           mode: coverage.mode,
           dimensionsEnabled: coverage.dimensionsEnabled,
           excludeUnreachable: coverage.excludeUnreachable,
           minCoverage: coverage.minCoverage,
           planner: coverage.planner,
+          weights: coverage.weights,
+          minCoverageByDimension: coverage.minCoverageByDimension,
+          minCoverageByOperation: coverage.minCoverageByOperation,
           reportMode: coverage.reportMode,
         },
       });
-      const pipelineResult = await stream.result;
-
-      handlePipelineOutput(
-        pipelineResult,
+      const { result: pipelineResult, itemCount } = await handlePipelineOutput(
+        stream,
         options.printMetrics === true,
         outFormat
       );
@@ -831,12 +1060,6 @@ program
       }
 
       if (options.summary || options.manifest) {
-        const generatedStage = pipelineResult.stages.generate.output;
-        const repairedItems = pipelineResult.artifacts.repaired;
-        const items = Array.isArray(repairedItems)
-          ? repairedItems
-          : (generatedStage?.items ?? []);
-
         const summaryPayload = {
           version: 'foundrydata-cli-summary/v1',
           command: 'contracts' as const,
@@ -847,7 +1070,7 @@ program
           count: instanceCount,
           outFormat,
           items: {
-            total: Array.isArray(items) ? items.length : 0,
+            total: itemCount,
           },
           metrics: pipelineResult.metrics,
           coverage: coverageReport
@@ -873,11 +1096,19 @@ program
 
       enforceCoverageThreshold(coverageReport);
     } catch (err: unknown) {
-      await handleCliError(err);
+      await handleCliError(err, source);
     }
   });
 
-registerCoverageDiffCommand(program);
+const coverageCommand = program
+  .command('coverage')
+  .description('Coverage utilities');
+registerCoverageDiffCommand(coverageCommand);
+registerCoverageMeasureCommand(coverageCommand);
+registerCoverageFillCommand(coverageCommand);
+registerResolverSnapshotCommands(program);
+registerPlanCacheCommands(program);
+registerRunCommand(program);
 
 function writeCoverageReportToPath(
   coverageReport: NonNullable<PipelineResult['artifacts']['coverageReport']>,
@@ -901,38 +1132,175 @@ function writeCoverageReportToPath(
   }
 }
 
-function handlePipelineOutput(
-  result: PipelineResult,
-  printMetrics: boolean,
-  outFormat: OutputFormat
-): void {
-  if (result.status !== 'completed') {
-    // If validation-time diagnostics were produced (e.g., AJV_FLAGS_MISMATCH),
-    // surface them before throwing to aid troubleshooting, per SPEC diagnostics exposure.
-    const vdiags = result.artifacts.validationDiagnostics;
-    if (Array.isArray(vdiags) && vdiags.length > 0) {
-      process.stderr.write(
-        `[foundrydata] diagnostics(validate): ${JSON.stringify(vdiags)}\n`
+type CoverageReportArtifact = NonNullable<
+  PipelineResult['artifacts']['coverageReport']
+>;
+
+function summarizeCoverageReport(
+  coverageReport: CoverageReportArtifact | undefined
+): Record<string, unknown> | undefined {
+  if (!coverageReport) return undefined;
+  return {
+    mode: coverageReport.engine.coverageMode,
+    dimensionsEnabled: coverageReport.run.dimensionsEnabled,
+    excludeUnreachable: coverageReport.run.excludeUnreachable,
+    overall: coverageReport.metrics.overall,
+    byDimension: coverageReport.metrics.byDimension,
+    byOperation: coverageReport.metrics.byOperation,
+    coverageStatus: coverageReport.metrics.coverageStatus,
+    minCoverage: coverageReport.metrics.thresholds?.overall ?? undefined,
+    targetsByStatus: coverageReport.metrics.targetsByStatus,
+  };
+}
+
+/**
+ * Upgrade a Swagger 2.0 / OpenAPI 3.0 spec to its 3.1 view before any
+ * selection, reporting each lossy rewrite on stderr with its source line.
+ */
+function upgradeOpenApiSource(source: SourceDocument): Record<string, unknown> {
+  const { document, sourceVersion, notes } = upgradeOpenApiDocument(
+    source.value
+  );
+  if (sourceVersion !== '3.1') {
+    process.stderr.write(
+      `[foundrydata] openapi: upgraded ${sourceVersion === '2.0' ? 'Swagger 2.0' : 'OpenAPI 3.0'} document to 3.1 (${notes.length} lossy rewrite(s))\n`
+    );
+  }
+  for (const note of notes) {
+    const location = source.describe(note.path);
+    process.stderr.write(
+      `[foundrydata] note: ${note.code} at ${note.path}${location ? ` (${location})` : ''}\n`
+    );
+  }
+  return document as Record<string, unknown>;
+}
+
+/**
+ * Run every OpenAPI response and write its fixtures to
+ * `<outDir>/<operationId or operationKey>/<status>/<contentType>.<ext>`
+ * (segments percent-encoded). Failed responses are reported on stderr and
+ * returned so the caller can exit non-zero after writing coverage.
+ */
+async function writeOpenApiSpecFixtures(
+  document: unknown,
+  args: {
+    outDir: string;
+    outFormat: OutputFormat;
+    options: Omit<OpenApiSpecFixturesOptions, 'onTarget'>;
+  }
+): Promise<{
+  coverageReport?: CoverageReportArtifact;
+  itemCount: number;
+  failed: OpenApiSpecTargetOutcome[];
+}> {
+  const result = await generateOpenApiSpecFixtures(document, {
+    ...args.options,
+    onTarget: (target, items) => {
+      const dir = path.join(
+        args.outDir,
+        encodeURIComponent(target.operationId ?? target.operationKey),
+        encodeURIComponent(target.status)
       );
-    }
-    const stageError = result.errors[0];
-    if (stageError) throw stageError;
-    throw new PipelineStageError('generate', 'Generation pipeline failed');
+      fs.mkdirSync(dir, { recursive: true });
+      const content =
+        args.outFormat === 'ndjson'
+          ? items.map((item) => `${JSON.stringify(item ?? null)}\n`).join('')
+          : `${JSON.stringify(items, null, 2)}\n`;
+      fs.writeFileSync(
+        path.join(
+          dir,
+          `${encodeURIComponent(target.contentType)}.${args.outFormat}`
+        ),
+        content,
+        'utf8'
+      );
+    },
+  });
+
+  const failed = result.targets.filter(
+    (outcome) => outcome.status !== 'completed'
+  );
+  for (const { target, error } of failed) {
+    process.stderr.write(
+      `[foundrydata] failed: ${target.operationKey} ${target.status} ${target.contentType}: ${error?.message ?? 'Generation pipeline failed'}\n`
+    );
   }
+  return {
+    coverageReport: result.coverageReport,
+    itemCount: result.targets.reduce((sum, o) => sum + o.itemCount, 0),
+    failed,
+  };
+}
+
+interface FixtureOutput {
+  /** Defaults to stdout. */
+  sink?: Writable;
+  mapItem?: (item: unknown) => unknown;
+}
 
-  const generatedStage = result.stages.generate.output;
-  const repairedItems = result.artifacts.repaired;
-  const items = Array.isArray(repairedItems)
-    ? repairedItems
-    : (generatedStage?.items ?? []);
+/**
+ * Fixture destination for --out-file (parent directories are created), or
+ * stdout when no file is given. `close` flushes and closes the file.
+ */
+function openFixtureSink(outFile: unknown): {
+  sink: Writable;
+  close: () => Promise<void>;
+} {
+  if (typeof outFile !== 'string' || outFile === '') {
+    return { sink: process.stdout, close: async () => {} };
+  }
+  const abs = path.resolve(process.cwd(), outFile);
+  fs.mkdirSync(path.dirname(abs), { recursive: true });
+  const sink = fs.createWriteStream(abs, 'utf8');
+  return {
+    sink,
+    close: async () => {
+      if (sink.closed) return;
+      sink.end();
+      await once(sink, 'close');
+    },
+  };
+}
 
+/**
+ * Write fixtures to stdout (or `output.sink`) and return the settled
+ * pipeline result.
+ * NDJSON consumes the streaming iterator, writing each line as soon as its
+ * chunk validates and pausing on backpressure; JSON needs the whole
+ * array and prints it once the run completes. `mapItem` shapes each item
+ * right before it is written (e.g. OpenAPI request fixtures).
+ */
+async function handlePipelineOutput(
+  stream: GenerateIterable,
+  printMetrics: boolean,
+  outFormat: OutputFormat,
+  output: FixtureOutput = {}
+): Promise<{ result: PipelineResult; itemCount: number }> {
+  const sink = output.sink ?? process.stdout;
+  const mapItem = output.mapItem ?? ((item: unknown): unknown => item);
+  let itemCount = 0;
   if (outFormat === 'ndjson') {
-    const lines = items.map((item) => JSON.stringify(item ?? null));
-    if (lines.length > 0) {
-      process.stdout.write(lines.join('\n') + '\n');
+    try {
+      itemCount = await writeNdjsonStream(stream, mapItem, sink);
+    } catch (error) {
+      // Surface validate diagnostics from the settled run before rethrowing.
+      assertPipelineCompleted(await stream.result);
+      throw error;
     }
-  } else {
-    process.stdout.write(JSON.stringify(items, null, 2) + '\n');
+  }
+
+  const result = await stream.result;
+  assertPipelineCompleted(result);
+
+  if (outFormat !== 'ndjson') {
+    const generatedStage = result.stages.generate.output;
+    const finalItems =
+      result.artifacts.negativeInstances ?? result.artifacts.repaired;
+    const items = Array.isArray(finalItems)
+      ? finalItems
+      : (generatedStage?.items ?? []);
+    itemCount = items.length;
+    sink.write(JSON.stringify(items.map(mapItem), null, 2) + '\n');
   }
 
   if (printMetrics) {
@@ -940,11 +1308,56 @@ function handlePipelineOutput(
       `[foundrydata] metrics: ${JSON.stringify(result.metrics)}\n`
     );
   }
+  return { result, itemCount };
+}
+
+async function writeNdjsonStream(
+  stream: GenerateIterable,
+  mapItem: (item: unknown) => unknown,
+  sink: Writable
+): Promise<number> {
+  let count = 0;
+  for await (const item of stream) {
+    if (!sink.write(JSON.stringify(mapItem(item) ?? null) + '\n')) {
+      await once(sink, 'drain');
+    }
+    count += 1;
+  }
+  return count;
+}
+
+function assertPipelineCompleted(result: PipelineResult): void {
+  if (result.status === 'completed') return;
+  // If validation-time diagnostics were produced (e.g., AJV_FLAGS_MISMATCH),
+  // surface them before throwing to aid troubleshooting, per SPEC diagnostics exposure.
+  const vdiags = result.artifacts.validationDiagnostics;
+  if (Array.isArray(vdiags) && vdiags.length > 0) {
+    process.stderr.write(
+      `[foundrydata] diagnostics(validate): ${JSON.stringify(vdiags)}\n`
+    );
+  }
+  const stageError = result.errors[0];
+  if (!stageError) {
+    throw new PipelineStageError('generate', 'Generation pipeline failed');
+  }
+  const schemaPath = failureSchemaPath(result);
+  if (schemaPath === undefined) throw stageError;
+  // Keep the stage error as cause; the schemaPath lets the presenter point
+  // at the offending line of the input file.
+  throw new (class extends FoundryError {})({
+    message: stageError.message,
+    errorCode: ErrorCode.INTERNAL_ERROR,
+    context: { schemaPath },
+    cause: stageError,
+  });
 }
 
-async function handleCliError(err: unknown): Promise<never> {
+async function handleCliError(
+  err: unknown,
+  source?: SourceDocument
+): Promise<never> {
   const env = process.env.NODE_ENV === 'production' ? 'prod' : 'dev';
-  const presenter = new ErrorPresenter(env, { colors: true });
+  const presenter = new ErrorPresenter(env, { colors: true, source });
 
   let error: FoundryError;
   if (isFoundryError(err)) {
@@ -0,0 +1,27 @@
+import type { PipelineResult } from '@foundrydata/core';
+
+function causeCanonPath(cause: unknown): string | undefined {
+  if (!cause || typeof cause !== 'object') return undefined;
+  const fatal = (cause as { fatalDiagnostics?: unknown }).fatalDiagnostics;
+  const diagnostic = Array.isArray(fatal)
+    ? fatal[0]
+    : (cause as { diagnostic?: unknown }).diagnostic;
+  const canonPath = (diagnostic as { canonPath?: unknown } | undefined)
+    ?.canonPath;
+  return typeof canonPath === 'string' ? canonPath : undefined;
+}
+
+/**
+ * Schema pointer ('#/properties/a') in the user's input document for the
+ * diagnostic that stopped the pipeline. Canonical paths are mapped back
+ * through the normalizer's ptrMap; undefined when the failure carries no
+ * canonPath.
+ */
+export function failureSchemaPath(result: PipelineResult): string | undefined {
+  const canonPath = causeCanonPath(result.errors[0]?.cause);
+  if (canonPath === undefined) return undefined;
+  const canonical = canonPath.startsWith('#') ? canonPath.slice(1) : canonPath;
+  const original =
+    result.artifacts.canonical?.ptrMap.get(canonical) ?? canonical;
+  return `#${original}`;
+}
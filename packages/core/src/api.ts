@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 /* eslint-disable max-lines-per-function */
 
 import {
@@ -10,15 +11,30 @@ import {
   type ComposeDiagnostics,
   type CoverageIndex,
 } from './transform/composition-engine.js';
-import { executePipeline } from './pipeline/orchestrator.js';
-import type { PipelineOptions, PipelineResult } from './pipeline/types.js';
-import type { CoverageReport } from '@foundrydata/shared';
+import {
+  DEFAULT_STREAM_CHUNK_SIZE,
+  executePipeline,
+} from './pipeline/orchestrator.js';
+import type {
+  PipelineOptions,
+  PipelineResult,
+  PipelineSharedResources,
+  PipelineStreamOptions,
+} from './pipeline/types.js';
+import type { ValidateFunction } from 'ajv';
+import type { CoveragePolarity, CoverageReport } from '@foundrydata/shared';
 import type { PlanOptions } from './types/options.js';
+import type { CustomFormats } from './types/formats.js';
 import {
   createSourceAjv,
   detectDialectFromSchema,
   prepareSchemaForSourceAjv,
 } from './util/ajv-source.js';
+import { createItemStream, type ItemStream } from './util/item-stream.js';
+import {
+  projectSchemaForContext,
+  type SchemaAccessContext,
+} from './transform/access-context.js';
 
 // NOTE: The root README “Node.js API” section documents Normalize/Compose/Generate/Validate
 // using the facades exported from this module. Any change to their signatures or defaults
@@ -97,6 +113,13 @@ export interface GenerateOptions {
    * Prefer schema/OpenAPI examples when present, falling back to generation.
    */
   preferExamples?: boolean;
+  /**
+   * Locale pack for unconstrained strings: 'en', 'fr', 'de', 'es' or 'ja'
+   * (region subtags such as 'fr-CA' match their language). Property names
+   * like firstName, city, phone or currency pick matching values. Unset by
+   * default, which keeps the minimal strings.
+   */
+  locale?: string;
   /**
    * Plan options forwarded to Normalize/Compose/Generate/Repair/Validate.
    */
@@ -115,6 +138,17 @@ export interface GenerateOptions {
    * Defaults to false.
    */
   discriminator?: boolean;
+  /**
+   * Decode string content (contentEncoding / contentMediaType) and validate
+   * it against contentSchema in the final validation pass. Defaults to false.
+   */
+  validateContent?: boolean;
+  /**
+   * Custom format definitions (e.g. iban, ulid). Their generators drive
+   * string synthesis and their validators are registered on the AJV
+   * instances, taking precedence over built-in formats of the same name.
+   */
+  formats?: CustomFormats;
   /**
    * Enable or disable metrics collection on the pipeline.
    * Defaults to true.
@@ -125,6 +159,38 @@ export interface GenerateOptions {
    * When omitted, coverage mode defaults to 'off'.
    */
   coverage?: PipelineOptions['coverage'];
+  /**
+   * Stream items as they are produced instead of buffering the whole run.
+   * Generate → Repair → Validate then run per chunk (default 64 items) and
+   * the iterator yields each validated item immediately, pausing the
+   * pipeline while the consumer lags behind. `result` still resolves with
+   * metrics and coverage once iteration finishes, but its
+   * `artifacts.repaired` is left empty. Awaiting `result` or `coverage`
+   * lifts the backpressure so the run completes without a consumer; items
+   * not yet iterated are then buffered in memory.
+   */
+  stream?: boolean | { chunkSize?: number };
+  /**
+   * 'negative' yields invalid instances instead of valid ones: each item is
+   * a NegativeInstance `{ instance, expected: { keyword, instancePath,
+   * schemaPath }, ... }` obtained by applying one mutation (missing
+   * required, out-of-range number, wrong type, extra property, enum miss)
+   * to a generated valid instance. `stream` is ignored in this mode.
+   * Defaults to 'positive'.
+   */
+  polarity?: CoveragePolarity;
+  /**
+   * Side of an HTTP exchange the instances are for. 'request' omits
+   * readOnly properties and 'response' omits writeOnly ones, dropping them
+   * from `required` and from the coverage targets. Unset by default, which
+   * keeps every property.
+   */
+  context?: SchemaAccessContext;
+  /**
+   * Resolver registry and Source AJV shared with other runs over the same
+   * document (see PipelineSharedResources).
+   */
+  shared?: PipelineSharedResources;
 }
 
 /**
@@ -148,6 +214,13 @@ export interface ValidateOptions {
    * Defaults to false.
    */
   discriminator?: boolean;
+  /**
+   * Decode string content and validate it against contentSchema.
+   * Defaults to false.
+   */
+  validateContent?: boolean;
+  /** Custom format validators registered on the Source AJV instance. */
+  formats?: CustomFormats;
   /**
    * Optional PlanOptions used to derive multipleOfPrecision and related flags.
    */
@@ -234,27 +307,15 @@ export function Generate(
   const repairAttempts = Math.max(1, Math.min(3, options.repairAttempts ?? 1));
 
   const coverageOptions = options.coverage;
-  if (coverageOptions && Array.isArray(coverageOptions.dimensionsEnabled)) {
-    const allowed = new Set([
-      'structure',
-      'branches',
-      'enum',
-      'boundaries',
-      'operations',
-    ]);
-    for (const dim of coverageOptions.dimensionsEnabled) {
-      if (typeof dim !== 'string' || !allowed.has(dim)) {
-        throw new Error(
-          `Invalid coverage dimension "${String(
-            dim
-          )}". Expected one of: structure, branches, enum, boundaries, operations.`
-        );
-      }
-    }
-  }
+  assertCoverageDimensions(coverageOptions);
 
-  const pipelinePromise = executePipeline(schema, {
+  const polarity = options.polarity ?? 'positive';
+  const itemStream =
+    polarity === 'negative' ? undefined : createGenerateStream(options.stream);
+
+  const pipelinePromise = executePipeline(forContext(schema, options.context), {
     mode,
+    formats: options.formats,
     metrics: { enabled: options.metricsEnabled ?? true },
     compose: { planOptions },
     generate: {
@@ -262,15 +323,24 @@ export function Generate(
       seed,
       planOptions,
       preferExamples: options.preferExamples,
+      locale: options.locale,
     },
     repair: { attempts: repairAttempts },
     validate: {
       validateFormats,
       discriminator,
+      validateContent: options.validateContent,
     },
     coverage: coverageOptions,
+    stream: itemStream?.options,
+    polarity,
+    shared: options.shared,
   });
 
+  if (itemStream) {
+    settleItemStream(itemStream.items, pipelinePromise);
+  }
+
   async function* iterator(): AsyncIterableIterator<unknown> {
     const result = await pipelinePromise;
     if (result.status !== 'completed') {
@@ -280,25 +350,34 @@ export function Generate(
     }
     const generatedStage = result.stages.generate.output;
     const repairedItems = result.artifacts.repaired;
-    const items = Array.isArray(repairedItems)
-      ? repairedItems
-      : (generatedStage?.items ?? []);
+    const items: unknown[] =
+      result.artifacts.negativeInstances ??
+      (Array.isArray(repairedItems)
+        ? repairedItems
+        : (generatedStage?.items ?? []));
     for (const item of items) {
       // Yield items exactly as validated by the pipeline
       yield item;
     }
   }
 
-  const asyncIterator = iterator() as unknown as GenerateIterable;
+  const asyncIterator = (itemStream
+    ? itemStream.items.iterate()
+    : iterator()) as unknown as GenerateIterable;
+  const release = (): void => itemStream?.items.release();
   Object.defineProperty(asyncIterator, 'result', {
-    value: pipelinePromise,
+    value: releaseOnAwait(pipelinePromise, release),
     enumerable: false,
     writable: false,
   });
 
   Object.defineProperty(asyncIterator, 'coverage', {
-    value: pipelinePromise.then(
-      (result) => result.artifacts.coverageReport as CoverageReport | undefined
+    value: releaseOnAwait(
+      pipelinePromise.then(
+        (result) =>
+          result.artifacts.coverageReport as CoverageReport | undefined
+      ),
+      release
     ),
     enumerable: false,
     writable: false,
@@ -307,6 +386,107 @@ export function Generate(
   return asyncIterator;
 }
 
+function forContext(
+  schema: unknown,
+  context: SchemaAccessContext | undefined
+): unknown {
+  return context ? projectSchemaForContext(schema, context) : schema;
+}
+
+function assertCoverageDimensions(
+  coverageOptions: PipelineOptions['coverage']
+): void {
+  if (!coverageOptions || !Array.isArray(coverageOptions.dimensionsEnabled)) {
+    return;
+  }
+  const allowed = new Set([
+    'structure',
+    'branches',
+    'enum',
+    'boundaries',
+    'operations',
+  ]);
+  for (const dim of coverageOptions.dimensionsEnabled) {
+    if (typeof dim !== 'string' || !allowed.has(dim)) {
+      throw new Error(
+        `Invalid coverage dimension "${String(
+          dim
+        )}". Expected one of: structure, branches, enum, boundaries, operations.`
+      );
+    }
+  }
+}
+
+function createGenerateStream(
+  stream: GenerateOptions['stream']
+): { items: ItemStream<unknown>; options: PipelineStreamOptions } | undefined {
+  if (!stream) return undefined;
+  const requested = typeof stream === 'object' ? stream.chunkSize : undefined;
+  const chunkSize = Math.max(
+    1,
+    Math.floor(requested ?? DEFAULT_STREAM_CHUNK_SIZE)
+  );
+  // Buffer at most one chunk ahead of the consumer.
+  const items = createItemStream<unknown>(chunkSize);
+  return {
+    items,
+    options: {
+      chunkSize,
+      onItems: (chunk) => items.push(chunk),
+      signal: items.signal,
+    },
+  };
+}
+
+/**
+ * Promise that runs `release` when something subscribes to it (await,
+ * then, catch), so awaiting a streamed run's `result` before draining the
+ * iterator cannot deadlock on backpressure. A subclass is required: `await`
+ * on a plain Promise never calls an overridden `then`.
+ */
+class ReleasingPromise<T> extends Promise<T> {
+  static get [Symbol.species](): PromiseConstructor {
+    return Promise;
+  }
+
+  release?: () => void;
+
+  override then<R1 = T, R2 = never>(
+    onFulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+    onRejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): Promise<R1 | R2> {
+    this.release?.();
+    return super.then(onFulfilled, onRejected);
+  }
+}
+
+function releaseOnAwait<T>(
+  promise: Promise<T>,
+  release: () => void
+): Promise<T> {
+  const wrapped = new ReleasingPromise<T>((resolve, reject) => {
+    promise.then(resolve, reject);
+  });
+  wrapped.release = release;
+  return wrapped;
+}
+
+function settleItemStream(
+  items: ItemStream<unknown>,
+  pipelinePromise: Promise<PipelineResult>
+): void {
+  pipelinePromise.then(
+    (result) => {
+      if (result.status === 'completed') {
+        items.close();
+        return;
+      }
+      items.fail(result.errors[0] ?? new Error('Generation pipeline failed'));
+    },
+    (error: unknown) => items.fail(error)
+  );
+}
+
 /**
  * Validate — AJV-oracle validation against the original schema.
  *
@@ -319,30 +499,51 @@ export function Validate(
   originalSchema: unknown,
   options: ValidateOptions = {}
 ): ValidateResult {
+  return createValidator(originalSchema, options)(instance);
+}
+
+/**
+ * Compile the original schema once and return a reusable Validate for it,
+ * for callers checking many instances against the same schema. A schema
+ * that fails to compile yields a validator reporting the compile error.
+ */
+export function createValidator(
+  originalSchema: unknown,
+  options: ValidateOptions = {}
+): (instance: unknown) => ValidateResult {
   const dialect = detectDialectFromSchema(originalSchema);
   const { schemaForAjv } = prepareSchemaForSourceAjv(originalSchema, dialect);
   const planOptions = options.planOptions;
   const validateFormats = options.validateFormats ?? false;
   const discriminator = options.discriminator ?? false;
 
+  let validateFn: ValidateFunction;
   try {
     const ajv = createSourceAjv(
       {
         dialect,
         validateFormats,
         discriminator,
+        formats: options.formats,
+        validateContent: options.validateContent,
       },
       planOptions
     );
-    const validateFn = ajv.compile(schemaForAjv as object);
-    const ok = validateFn(instance);
-    const errors = Array.isArray(validateFn.errors)
-      ? (validateFn.errors as unknown[]).slice()
-      : undefined;
-    return { valid: ok, ajvErrors: errors };
+    validateFn = ajv.compile(schemaForAjv as object);
   } catch (error) {
-    return { valid: false, ajvErrors: [error] };
+    return () => ({ valid: false, ajvErrors: [error] });
   }
+  return (instance) => {
+    try {
+      const ok = validateFn(instance);
+      const errors = Array.isArray(validateFn.errors)
+        ? (validateFn.errors as unknown[]).slice()
+        : undefined;
+      return { valid: ok, ajvErrors: errors };
+    } catch (error) {
+      return { valid: false, ajvErrors: [error] };
+    }
+  };
 }
 
 // Internal helpers
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  createInstanceCoverageMeter,
+  measureInstanceCoverage,
+} from '../replay.js';
+
+const schema = {
+  type: 'object',
+  required: ['kind'],
+  properties: {
+    kind: { enum: ['a', 'b', 'c'] },
+    size: { type: 'integer', minimum: 1, maximum: 10 },
+    payload: {
+      oneOf: [{ type: 'string', minLength: 2 }, { type: 'integer' }],
+    },
+  },
+  if: { properties: { kind: { const: 'a' } } },
+  then: { required: ['size'] },
+  else: { properties: { size: { maximum: 5 } } },
+};
+
+function hitPaths(
+  report: ReturnType<typeof measureInstanceCoverage>['report'],
+  kind: string
+): unknown[] {
+  return report.targets
+    .filter((target) => target.kind === kind && target.hit)
+    .map((target) => target.params ?? target.canonPath);
+}
+
+describe('measureInstanceCoverage', () => {
+  it('records the branches, enum values and properties the instances reach', () => {
+    const { report, rejected } = measureInstanceCoverage(
+      schema,
+      [
+        { kind: 'a', size: 1, payload: 'xy' },
+        { kind: 'b', payload: 3 },
+      ],
+      { dimensionsEnabled: ['structure', 'branches', 'enum', 'boundaries'] }
+    );
+
+    expect(rejected).toEqual([]);
+    expect(report.engine.coverageMode).toBe('measure');
+    expect(report.run.actualInstances).toBe(2);
+    expect(hitPaths(report, 'ONEOF_BRANCH')).toEqual([
+      { index: 0 },
+      { index: 1 },
+    ]);
+    expect(hitPaths(report, 'CONDITIONAL_PATH')).toEqual([
+      { pathKind: 'if+then' },
+      { pathKind: 'if+else' },
+    ]);
+    expect(hitPaths(report, 'ENUM_VALUE_HIT')).toEqual([
+      { enumIndex: 0, value: 'a' },
+      { enumIndex: 1, value: 'b' },
+    ]);
+    expect(
+      report.targets.find(
+        (target) =>
+          target.kind === 'ENUM_VALUE_HIT' && target.params?.value === 'c'
+      )?.hit
+    ).toBe(false);
+    expect(hitPaths(report, 'NUMERIC_MIN_HIT')).toHaveLength(1);
+    expect(hitPaths(report, 'NUMERIC_MAX_HIT')).toEqual([]);
+    expect(report.metrics.overall).toBeGreaterThan(0);
+    expect(report.metrics.overall).toBeLessThan(1);
+  });
+
+  it('lists instances that fail the schema and leaves them out of coverage', () => {
+    const { report, rejected } = measureInstanceCoverage(schema, [
+      { kind: 'z' },
+      { kind: 'c' },
+    ]);
+
+    expect(rejected.map((entry) => entry.index)).toEqual([0]);
+    expect(rejected[0]?.errors.length).toBeGreaterThan(0);
+    expect(report.run.maxInstances).toBe(2);
+    expect(report.run.actualInstances).toBe(1);
+    expect(hitPaths(report, 'ENUM_VALUE_HIT')).toEqual([
+      { enumIndex: 2, value: 'c' },
+    ]);
+  });
+
+  it('reports minCoverageNotMet below the threshold', () => {
+    const { report } = measureInstanceCoverage(schema, [{ kind: 'b' }], {
+      minCoverage: 0.99,
+    });
+    expect(report.metrics.coverageStatus).toBe('minCoverageNotMet');
+  });
+
+  it('plans with the given planOptions', () => {
+    const closed = {
+      type: 'object',
+      additionalProperties: false,
+      patternProperties: { '^(a|b|c)$': { type: 'string' } },
+    };
+    const propertyTargets = (maxResults?: number): number =>
+      measureInstanceCoverage(closed, [], {
+        planOptions: maxResults ? { nameEnum: { maxResults } } : undefined,
+      }).report.targets.filter((target) => target.kind === 'PROPERTY_PRESENT')
+        .length;
+
+    expect(propertyTargets(1)).toBeLessThan(propertyTargets());
+  });
+});
+
+describe('createInstanceCoverageMeter', () => {
+  it('measures each instance set on its own', () => {
+    const measure = createInstanceCoverageMeter(schema);
+    const first = measure([{ kind: 'a', size: 1 }]);
+    const second = measure([{ kind: 'b' }, { kind: 'z' }]);
+
+    expect(hitPaths(first.report, 'ENUM_VALUE_HIT')).toEqual([
+      { enumIndex: 0, value: 'a' },
+    ]);
+    expect(hitPaths(second.report, 'ENUM_VALUE_HIT')).toEqual([
+      { enumIndex: 1, value: 'b' },
+    ]);
+    expect(second.rejected.map((entry) => entry.index)).toEqual([1]);
+    expect(second.report.run.maxInstances).toBe(2);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+
+import { evaluateCoverageThresholds } from '../thresholds.js';
+
+const metrics = {
+  overall: 0.8,
+  byDimension: { structure: 1, branches: 0.5 },
+  byOperation: { 'GET /users': 0.6, 'POST /users': 1 },
+};
+
+describe('evaluateCoverageThresholds', () => {
+  it('reports per-dimension and per-operation misses as thresholdsNotMet', () => {
+    const result = evaluateCoverageThresholds(metrics, {
+      overall: 0.7,
+      byDimension: { branches: 1, structure: 0.9, enum: 1 },
+      byOperation: { 'GET /users': 0.9, 'DELETE /users': 1 },
+    });
+
+    expect(result.coverageStatus).toBe('thresholdsNotMet');
+    expect(result.thresholdFailures).toEqual([
+      { scope: 'dimension', key: 'branches', actual: 0.5, threshold: 1 },
+      { scope: 'operation', key: 'GET /users', actual: 0.6, threshold: 0.9 },
+    ]);
+  });
+
+  it('keeps minCoverageNotMet when the overall threshold also fails', () => {
+    const result = evaluateCoverageThresholds(metrics, {
+      overall: 0.9,
+      byDimension: { branches: 1 },
+    });
+
+    expect(result.coverageStatus).toBe('minCoverageNotMet');
+    expect(result.thresholdFailures.map((f) => f.scope)).toEqual([
+      'overall',
+      'dimension',
+    ]);
+  });
+
+  it('checks weighted ratios when present', () => {
+    const result = evaluateCoverageThresholds(
+      {
+        ...metrics,
+        weighted: { overall: 0.95, byDimension: { branches: 0.9 } },
+      },
+      { overall: 0.9, byDimension: { branches: 0.9 } }
+    );
+
+    expect(result).toEqual({ coverageStatus: 'ok', thresholdFailures: [] });
+  });
+});
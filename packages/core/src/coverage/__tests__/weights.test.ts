@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import type { CoverageTarget, CoverageTargetReport } from '@foundrydata/shared';
+
+import {
+  applyCoverageWeights,
+  assertCoverageWeightConfig,
+} from '../weights.js';
+import { evaluateCoverage } from '../evaluator.js';
+import { applyPlannerCaps } from '../coverage-planner-caps.js';
+import { resolveCoveragePlannerConfig } from '../coverage-planner.js';
+import { measureInstanceCoverage } from '../replay.js';
+
+function target(
+  id: string,
+  canonPath: string,
+  kind: CoverageTarget['kind'] = 'SCHEMA_NODE'
+): CoverageTarget {
+  return { id, dimension: 'structure', kind, canonPath } as CoverageTarget;
+}
+
+describe('applyCoverageWeights', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      payment: {
+        'x-foundry-weight': 4,
+        type: 'object',
+        properties: { card: { type: 'string' } },
+      },
+      note: { type: 'string' },
+    },
+  };
+
+  it('combines path globs, annotations and kind factors', () => {
+    const weighted = applyCoverageWeights(
+      [
+        target('card', '#/properties/payment/properties/card'),
+        target('note', '#/properties/note'),
+        target('branch', '#/properties/note', 'ONEOF_BRANCH'),
+        target('root', '#'),
+      ],
+      schema,
+      {
+        byPath: { '#/properties/note': 2 },
+        byKind: { ONEOF_BRANCH: 3 },
+      }
+    );
+
+    expect(weighted.map((t) => t.weight)).toEqual([4, 2, 6, undefined]);
+  });
+
+  it('ignores annotations when disabled and rejects invalid weights', () => {
+    const [card] = applyCoverageWeights(
+      [target('card', '#/properties/payment/properties/card')],
+      schema,
+      { annotations: false }
+    );
+    expect(card!.weight).toBeUndefined();
+
+    expect(() =>
+      assertCoverageWeightConfig({ byPath: { '#/**': -1 } })
+    ).toThrow(/Invalid coverage weight for "#\/\*\*"/);
+  });
+});
+
+describe('weighted coverage metrics', () => {
+  const reportTargets = (hits: boolean[]): CoverageTargetReport[] => [
+    { ...target('heavy', '#/a'), weight: 3, hit: hits[0]! },
+    { ...target('light', '#/b'), hit: hits[1]! },
+  ];
+
+  it('reports weighted ratios and enforces thresholds against them', () => {
+    const { metrics } = evaluateCoverage({
+      targets: reportTargets([true, false]),
+      dimensionsEnabled: ['structure'],
+      excludeUnreachable: true,
+      thresholds: { overall: 0.7 },
+    });
+
+    expect(metrics.overall).toBe(0.5);
+    expect(metrics.weighted).toEqual({
+      overall: 0.75,
+      byDimension: { structure: 0.75 },
+    });
+    expect(metrics.coverageStatus).toBe('ok');
+  });
+
+  it('omits weighted metrics when no target carries a weight', () => {
+    const { metrics } = evaluateCoverage({
+      targets: [{ ...target('t', '#'), hit: true }],
+      dimensionsEnabled: ['structure'],
+      excludeUnreachable: true,
+    });
+    expect(metrics.weighted).toBeUndefined();
+  });
+
+  it('threads weights through instance replay', () => {
+    const { report } = measureInstanceCoverage(
+      {
+        type: 'object',
+        properties: { a: { type: 'string' }, b: { type: 'string' } },
+      },
+      [{ a: 'x' }],
+      {
+        dimensionsEnabled: ['structure'],
+        weights: { byPath: { '#/properties/a': 10 } },
+      }
+    );
+    expect(report.metrics.weighted!.overall).toBeGreaterThan(
+      report.metrics.overall
+    );
+  });
+});
+
+describe('applyPlannerCaps with weights', () => {
+  it('plans heavier targets first when a cap bites', () => {
+    const config = resolveCoveragePlannerConfig({
+      maxInstances: 10,
+      dimensionsEnabled: ['structure'],
+      caps: { maxTargetsPerDimension: { structure: 1 } },
+    });
+    const targets = [
+      target('light', '#/a'),
+      { ...target('heavy', '#/b'), weight: 5 },
+    ];
+
+    const { plannedTargetIds, updatedTargets } = applyPlannerCaps(
+      targets,
+      config
+    );
+
+    expect([...plannedTargetIds]).toEqual(['heavy']);
+    expect(updatedTargets.map((t) => t.id)).toEqual(['light', 'heavy']);
+  });
+});
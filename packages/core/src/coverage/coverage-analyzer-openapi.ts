@@ -0,0 +1,461 @@
+/* eslint-disable max-lines */
+import type {
+  CoverageDimension,
+  CoverageTarget,
+  CoverageTargetReport,
+} from '@foundrydata/shared';
+import type { CoverageGraph } from './index.js';
+import {
+  computeCoverageTargetId,
+  createCoverageTargetIdContext,
+  COVERAGE_ID_ENGINE_VERSION,
+  type CoverageTargetIdContext,
+} from './id-generator.js';
+import { upgradeOpenApiDocument } from '../openapi/upgrade.js';
+
+interface AttachOpenApiOperationNodesInput {
+  /**
+   * Canonical view of the schema. When this represents an OpenAPI
+   * document (root object with `openapi` and `paths`), operation
+   * nodes are derived from its `paths` map; Swagger 2.0 and 3.0
+   * documents are read through their upgraded 3.1 view.
+   */
+  rootSchema: unknown;
+  /**
+   * Coverage graph to enrich with operation nodes and edges.
+   * The function mutates `graph.nodes` and `graph.edges` in place.
+   */
+  graph: CoverageGraph;
+  /**
+   * Coverage targets to extend with operations-dimension targets
+   * when the 'operations' dimension is enabled.
+   */
+  targets: CoverageTarget[];
+  /**
+   * Enabled coverage dimensions for the current run.
+   */
+  enabledDimensions: Set<CoverageDimension>;
+  /**
+   * Context for computing stable coverage target IDs.
+   */
+  idContext: CoverageTargetIdContext;
+}
+
+type HttpMethod =
+  | 'get'
+  | 'put'
+  | 'post'
+  | 'delete'
+  | 'options'
+  | 'head'
+  | 'patch'
+  | 'trace';
+
+const HTTP_METHODS: readonly HttpMethod[] = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function appendPointer(base: string, token: string): string {
+  if (token === '') return base;
+  const escaped = token.replace(/~/g, '~0').replace(/\//g, '~1');
+  if (base === '') return `/${escaped}`;
+  return `${base}/${escaped}`;
+}
+
+function toUpperHttpMethod(method: HttpMethod): string {
+  return method.toUpperCase();
+}
+
+function getOpenApiPaths(
+  rootSchema: unknown
+): Record<string, unknown> | undefined {
+  const { document } = upgradeOpenApiDocument(rootSchema);
+  if (!isRecord(document)) return undefined;
+  const openapiVersion = document.openapi;
+  const pathsValue = document.paths;
+  if (typeof openapiVersion !== 'string') return undefined;
+  if (!isRecord(pathsValue)) return undefined;
+  return pathsValue as Record<string, unknown>;
+}
+
+export interface OperationContext {
+  pathKey: string;
+  method: HttpMethod;
+  operation: Record<string, unknown>;
+}
+
+function* iterateOperations(
+  paths: Record<string, unknown>
+): Iterable<OperationContext> {
+  const pathKeys = Object.keys(paths).sort();
+  for (const pathKey of pathKeys) {
+    const pathItem = paths[pathKey];
+    if (!isRecord(pathItem)) continue;
+    for (const method of HTTP_METHODS) {
+      const operationValue = pathItem[method];
+      if (!isRecord(operationValue)) continue;
+      yield {
+        pathKey,
+        method,
+        operation: operationValue as Record<string, unknown>,
+      };
+    }
+  }
+}
+
+export function deriveOperationKey(ctx: OperationContext): {
+  operationKey: string;
+  operationPtr: string;
+} {
+  const { pathKey, method, operation } = ctx;
+  const rawOperationId = operation.operationId;
+  const operationId =
+    typeof rawOperationId === 'string' && rawOperationId.trim().length > 0
+      ? rawOperationId.trim()
+      : undefined;
+  const operationKey = operationId ?? `${toUpperHttpMethod(method)} ${pathKey}`;
+  const operationPtr = appendPointer(
+    appendPointer(appendPointer('', 'paths'), pathKey),
+    method
+  );
+  return { operationKey, operationPtr };
+}
+
+function recordReuseKey(
+  reuseIndex: Map<string, Set<string>>,
+  reuseKey: string,
+  operationKey: string
+): void {
+  const existing = reuseIndex.get(reuseKey) ?? new Set<string>();
+  existing.add(operationKey);
+  reuseIndex.set(reuseKey, existing);
+}
+
+// eslint-disable-next-line max-params, max-lines-per-function
+function addRequestEdgesForOperation(
+  graph: CoverageGraph,
+  operationNodeId: string,
+  operationPtr: string,
+  operation: Record<string, unknown>,
+  context: { operationKey: string; reuseIndex: Map<string, Set<string>> }
+): boolean {
+  const requestBody = operation.requestBody;
+  if (!isRecord(requestBody)) return false;
+  const content = requestBody.content;
+  if (!isRecord(content)) return false;
+
+  let added = false;
+
+  const contentTypes = Object.keys(content).sort();
+  for (const contentType of contentTypes) {
+    const mediaType = content[contentType];
+    if (!isRecord(mediaType)) continue;
+    if (!('schema' in mediaType)) continue;
+    const schema = mediaType.schema;
+    if (!schema || typeof schema !== 'object') continue;
+
+    const schemaPtr = appendPointer(
+      appendPointer(
+        appendPointer(appendPointer(operationPtr, 'requestBody'), 'content'),
+        contentType
+      ),
+      'schema'
+    );
+
+    const reuseKey =
+      isRecord(schema) && typeof schema.$ref === 'string'
+        ? schema.$ref
+        : `#${schemaPtr}`;
+    recordReuseKey(context.reuseIndex, reuseKey, context.operationKey);
+
+    graph.edges.push({
+      from: operationNodeId,
+      to: `#${schemaPtr}`,
+      kind: 'operation',
+      meta: {
+        role: 'request',
+        contentType,
+      },
+    });
+
+    added = true;
+  }
+
+  return added;
+}
+
+// eslint-disable-next-line max-params, max-lines-per-function
+function addResponseEdgesForOperation(
+  graph: CoverageGraph,
+  operationNodeId: string,
+  operationPtr: string,
+  operation: Record<string, unknown>,
+  context: { operationKey: string; reuseIndex: Map<string, Set<string>> }
+): boolean {
+  const responses = operation.responses;
+  if (!isRecord(responses)) return false;
+
+  let added = false;
+
+  const statusKeys = Object.keys(responses).sort();
+  for (const status of statusKeys) {
+    const response = responses[status];
+    if (!isRecord(response)) continue;
+    const content = response.content;
+    if (!isRecord(content)) continue;
+
+    const contentTypes = Object.keys(content).sort();
+    for (const contentType of contentTypes) {
+      const mediaType = content[contentType];
+      if (!isRecord(mediaType)) continue;
+      if (!('schema' in mediaType)) continue;
+      const schema = mediaType.schema;
+      if (!schema || typeof schema !== 'object') continue;
+
+      const schemaPtr = appendPointer(
+        appendPointer(
+          appendPointer(
+            appendPointer(appendPointer(operationPtr, 'responses'), status),
+            'content'
+          ),
+          contentType
+        ),
+        'schema'
+      );
+
+      const reuseKey =
+        isRecord(schema) && typeof schema.$ref === 'string'
+          ? schema.$ref
+          : `#${schemaPtr}`;
+      recordReuseKey(context.reuseIndex, reuseKey, context.operationKey);
+
+      graph.edges.push({
+        from: operationNodeId,
+        to: `#${schemaPtr}`,
+        kind: 'operation',
+        meta: {
+          role: 'response',
+          status,
+          contentType,
+        },
+      });
+      added = true;
+    }
+  }
+
+  return added;
+}
+
+function buildOperationReachability(
+  graph: CoverageGraph
+): Map<string, Set<string>> {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    const existing = adjacency.get(edge.from) ?? [];
+    existing.push(edge.to);
+    adjacency.set(edge.from, existing);
+  }
+
+  const nodeOps = new Map<string, Set<string>>();
+  const queue: Array<{ nodeId: string; opKey: string }> = [];
+
+  for (const node of graph.nodes) {
+    if (node.kind !== 'operation' || !node.operationKey) continue;
+    queue.push({ nodeId: node.id, opKey: node.operationKey });
+  }
+
+  while (queue.length > 0) {
+    const { nodeId, opKey } = queue.shift()!;
+    const existing = nodeOps.get(nodeId) ?? new Set<string>();
+    if (existing.has(opKey)) {
+      continue;
+    }
+    existing.add(opKey);
+    nodeOps.set(nodeId, existing);
+
+    const neighbors = adjacency.get(nodeId);
+    if (!neighbors) continue;
+    for (const neighbor of neighbors) {
+      queue.push({ nodeId: neighbor, opKey });
+    }
+  }
+
+  return nodeOps;
+}
+
+function attachOperationKeysToTargets(
+  graph: CoverageGraph,
+  nodeOps: Map<string, Set<string>>,
+  targets: CoverageTarget[]
+): void {
+  if (nodeOps.size === 0) return;
+
+  const opsByCanonPath = new Map<string, Set<string>>();
+  for (const node of graph.nodes) {
+    const ops = nodeOps.get(node.id);
+    if (!ops || ops.size === 0) continue;
+    const existing = opsByCanonPath.get(node.canonPath) ?? new Set<string>();
+    for (const opKey of ops) {
+      existing.add(opKey);
+    }
+    opsByCanonPath.set(node.canonPath, existing);
+  }
+
+  for (const target of targets) {
+    const ops = opsByCanonPath.get(target.canonPath);
+    if (!ops || ops.size === 0) continue;
+    const operationKeys = Array.from(ops).sort();
+    const meta = target.meta ? { ...target.meta } : {};
+    (meta as Record<string, unknown>).operationKeys = operationKeys;
+    target.meta = meta;
+  }
+}
+
+function addSchemaReusedTargetsFromIndex(
+  reuseIndex: Map<string, Set<string>>,
+  operationsEnabled: boolean,
+  targets: CoverageTarget[],
+  idContext: CoverageTargetIdContext
+): void {
+  if (!operationsEnabled) return;
+
+  for (const [reuseKey, opKeys] of reuseIndex) {
+    if (opKeys.size <= 1) continue;
+    const canonPath = reuseKey.startsWith('#') ? reuseKey : `#${reuseKey}`;
+    const targetBase: CoverageTarget = {
+      id: '',
+      dimension: 'operations',
+      kind: 'SCHEMA_REUSED_COVERED',
+      canonPath,
+      status: 'deprecated',
+      meta: {
+        operationKeys: Array.from(opKeys).sort(),
+      },
+    };
+    const id = computeCoverageTargetId(targetBase, idContext);
+    targets.push({ ...targetBase, id });
+  }
+}
+
+function createOperationTarget(
+  kind: 'OP_REQUEST_COVERED' | 'OP_RESPONSE_COVERED',
+  operation: { operationKey: string; canonPath: string },
+  idContext: CoverageTargetIdContext
+): CoverageTarget {
+  const targetBase: CoverageTarget = {
+    id: '',
+    dimension: 'operations',
+    kind,
+    canonPath: operation.canonPath,
+    operationKey: operation.operationKey,
+  };
+  return { ...targetBase, id: computeCoverageTargetId(targetBase, idContext) };
+}
+
+/**
+ * Operation target for runs whose root schema is not an OpenAPI document
+ * (request fixtures of one operation, or one response of a whole-spec run),
+ * so attachOpenApiOperationNodes cannot derive it. Hit once any item is
+ * emitted.
+ */
+export function buildOperationTarget(
+  kind: 'OP_REQUEST_COVERED' | 'OP_RESPONSE_COVERED',
+  operation: { operationKey: string; canonPath: string },
+  emittedInstances: number
+): CoverageTargetReport {
+  const target = createOperationTarget(
+    kind,
+    operation,
+    createCoverageTargetIdContext({
+      engineVersion: COVERAGE_ID_ENGINE_VERSION,
+    })
+  );
+  return { ...target, hit: emittedInstances > 0 };
+}
+
+// eslint-disable-next-line max-lines-per-function
+export function attachOpenApiOperationNodes(
+  input: AttachOpenApiOperationNodesInput
+): void {
+  const { rootSchema, graph, targets, enabledDimensions, idContext } = input;
+  const paths = getOpenApiPaths(rootSchema);
+  if (!paths) return;
+
+  const operationsEnabled = enabledDimensions.has('operations');
+  const reuseIndex = new Map<string, Set<string>>();
+
+  for (const ctx of iterateOperations(paths)) {
+    const { operationKey, operationPtr } = deriveOperationKey(ctx);
+    const operationNodeId = `operation:${operationKey}`;
+    const opContext = { operationKey, reuseIndex };
+
+    graph.nodes.push({
+      id: operationNodeId,
+      kind: 'operation',
+      canonPath: `#${operationPtr}`,
+      operationKey,
+    });
+
+    const hasRequest = addRequestEdgesForOperation(
+      graph,
+      operationNodeId,
+      operationPtr,
+      ctx.operation,
+      opContext
+    );
+    const hasResponse = addResponseEdgesForOperation(
+      graph,
+      operationNodeId,
+      operationPtr,
+      ctx.operation,
+      opContext
+    );
+
+    if (!operationsEnabled) {
+      continue;
+    }
+
+    const canonPath = `#${operationPtr}`;
+
+    if (hasRequest) {
+      targets.push(
+        createOperationTarget(
+          'OP_REQUEST_COVERED',
+          { operationKey, canonPath },
+          idContext
+        )
+      );
+    }
+
+    if (hasResponse) {
+      targets.push(
+        createOperationTarget(
+          'OP_RESPONSE_COVERED',
+          { operationKey, canonPath },
+          idContext
+        )
+      );
+    }
+  }
+
+  addSchemaReusedTargetsFromIndex(
+    reuseIndex,
+    operationsEnabled,
+    targets,
+    idContext
+  );
+
+  const nodeOps = buildOperationReachability(graph);
+  attachOperationKeysToTargets(graph, nodeOps, targets);
+}
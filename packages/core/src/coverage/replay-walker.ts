@@ -0,0 +1,365 @@
+/* eslint-disable complexity */
+import type Ajv from 'ajv';
+import type { ValidateFunction } from 'ajv';
+
+import type { CoverageEvent } from './events.js';
+import { resolveDiscriminator } from '../transform/discriminator.js';
+import { codePointLength } from '../generator/format-producers.js';
+import { canonicalizeForHash } from '../util/canonical-json.js';
+
+/** Key the canonical schema is registered under in the replay AJV. */
+export const REPLAY_SCHEMA_KEY = 'foundrydata:coverage-replay';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function appendPointer(base: string, token: string): string {
+  const escaped = token.replace(/~/g, '~0').replace(/\//g, '~1');
+  return `${base}/${escaped}`;
+}
+
+function toCanonPath(pointer: string): string {
+  return pointer === '' ? '#' : `#${pointer}`;
+}
+
+function decodePointerToken(token: string): string {
+  return decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function resolvePointer(root: unknown, pointer: string): unknown {
+  let current = root;
+  for (const token of pointer.split('/').slice(1)) {
+    if (!current || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[decodePointerToken(token)];
+  }
+  return current;
+}
+
+function testPattern(pattern: string, name: string): boolean {
+  try {
+    return new RegExp(pattern, 'u').test(name);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Walks one instance over the canonical schema and emits the coverage
+ * events a generator producing that instance would have emitted.
+ */
+export class InstanceCoverageWalker {
+  private readonly validators = new Map<string, ValidateFunction | null>();
+  private readonly enumKeys = new Map<string, string[]>();
+
+  constructor(
+    private readonly root: unknown,
+    private readonly ajv: Ajv,
+    private readonly emit: (event: CoverageEvent) => void
+  ) {}
+
+  walk(value: unknown): void {
+    this.visit(this.root, '', value, new Set());
+  }
+
+  /** AJV verdict of the canonical subschema at `pointer` for `value`. */
+  private matches(pointer: string, value: unknown): boolean {
+    let validate = this.validators.get(pointer);
+    if (validate === undefined) {
+      const fragment = pointer.split('/').map(encodeURIComponent).join('/');
+      try {
+        validate =
+          this.ajv.getSchema(`${REPLAY_SCHEMA_KEY}#${fragment}`) ?? null;
+      } catch {
+        validate = null;
+      }
+      this.validators.set(pointer, validate);
+    }
+    return validate ? validate(value) === true : false;
+  }
+
+  private visit(
+    schema: unknown,
+    pointer: string,
+    value: unknown,
+    refChain: ReadonlySet<string>
+  ): void {
+    if (!isRecord(schema)) return;
+    this.emit({
+      dimension: 'structure',
+      kind: 'SCHEMA_NODE',
+      canonPath: toCanonPath(pointer),
+    });
+
+    if (typeof schema.$ref === 'string' && schema.$ref.startsWith('#')) {
+      const target = schema.$ref.slice(1);
+      if (!refChain.has(target)) {
+        const chain = new Set(refChain).add(pointer);
+        this.visit(resolvePointer(this.root, target), target, value, chain);
+      }
+    }
+
+    this.recordEnum(schema, pointer, value);
+    this.recordBoundaries(schema, pointer, value);
+    this.visitApplicators(schema, pointer, value, refChain);
+
+    if (Array.isArray(value)) this.visitArray(schema, pointer, value);
+    else if (isRecord(value)) this.visitObject(schema, pointer, value);
+  }
+
+  private visitApplicators(
+    schema: Record<string, unknown>,
+    pointer: string,
+    value: unknown,
+    refChain: ReadonlySet<string>
+  ): void {
+    const each = (keyword: string, run: (index: number) => void): void => {
+      const list = schema[keyword];
+      if (Array.isArray(list)) list.forEach((_, index) => run(index));
+    };
+
+    each('allOf', (index) => {
+      const branchPtr = `${pointer}/allOf/${index}`;
+      this.visit(
+        (schema.allOf as unknown[])[index],
+        branchPtr,
+        value,
+        refChain
+      );
+    });
+
+    each('anyOf', (index) => {
+      const branchPtr = `${pointer}/anyOf/${index}`;
+      if (!this.matches(branchPtr, value)) return;
+      this.emit({
+        dimension: 'branches',
+        kind: 'ANYOF_BRANCH',
+        canonPath: toCanonPath(branchPtr),
+        params: { index },
+      });
+      this.visit(
+        (schema.anyOf as unknown[])[index],
+        branchPtr,
+        value,
+        refChain
+      );
+    });
+
+    if (Array.isArray(schema.oneOf)) {
+      this.visitOneOf(schema, pointer, value, refChain);
+    }
+
+    if (isRecord(schema.if)) {
+      this.visitConditional(schema, pointer, value, refChain);
+    }
+  }
+
+  private visitConditional(
+    schema: Record<string, unknown>,
+    pointer: string,
+    value: unknown,
+    refChain: ReadonlySet<string>
+  ): void {
+    const ifPtr = `${pointer}/if`;
+    const taken = this.matches(ifPtr, value);
+    if (taken) this.visit(schema.if, ifPtr, value, refChain);
+    const keyword = taken ? 'then' : 'else';
+    if (!isRecord(schema[keyword])) return;
+    this.emit({
+      dimension: 'branches',
+      kind: 'CONDITIONAL_PATH',
+      canonPath: toCanonPath(pointer),
+      params: { pathKind: taken ? 'if+then' : 'if+else' },
+    });
+    this.visit(schema[keyword], `${pointer}/${keyword}`, value, refChain);
+  }
+
+  /**
+   * The branch an instance takes is the one AJV accepts; for a
+   * discriminated union the tag names it (and labels the event).
+   */
+  private visitOneOf(
+    schema: Record<string, unknown>,
+    pointer: string,
+    value: unknown,
+    refChain: ReadonlySet<string>
+  ): void {
+    const branches = schema.oneOf as unknown[];
+    const plan = resolveDiscriminator(schema);
+    const tag = plan && isRecord(value) ? value[plan.propertyName] : undefined;
+    const entry = plan?.entries.find((candidate) => candidate.value === tag);
+
+    const index = entry
+      ? entry.branchIndex
+      : branches.findIndex((_, candidate) =>
+          this.matches(`${pointer}/oneOf/${candidate}`, value)
+        );
+    const branchPtr = `${pointer}/oneOf/${index}`;
+    if (index < 0 || !this.matches(branchPtr, value)) return;
+    this.emit({
+      dimension: 'branches',
+      kind: 'ONEOF_BRANCH',
+      canonPath: toCanonPath(branchPtr),
+      params: entry ? { index, discriminatorValue: entry.value } : { index },
+    });
+    this.visit(branches[index], branchPtr, value, refChain);
+  }
+
+  private visitObject(
+    schema: Record<string, unknown>,
+    pointer: string,
+    value: Record<string, unknown>
+  ): void {
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    for (const [name, child] of Object.entries(value)) {
+      if (isRecord(schema.propertyNames)) {
+        this.visit(
+          schema.propertyNames,
+          `${pointer}/propertyNames`,
+          name,
+          new Set()
+        );
+      }
+      if (Object.prototype.hasOwnProperty.call(properties, name)) {
+        const propertyPtr = appendPointer(`${pointer}/properties`, name);
+        this.recordPropertyPresent(propertyPtr, name);
+        this.visit(properties[name], propertyPtr, child, new Set());
+      } else {
+        this.visitUndeclaredProperty(schema, pointer, name, child);
+      }
+    }
+  }
+
+  /**
+   * Names outside `properties` go through every matching patternProperties
+   * entry, else additionalProperties; presence lands on the first of them.
+   */
+  private visitUndeclaredProperty(
+    schema: Record<string, unknown>,
+    pointer: string,
+    name: string,
+    child: unknown
+  ): void {
+    const patterns = isRecord(schema.patternProperties)
+      ? Object.keys(schema.patternProperties)
+      : [];
+    const matched = patterns
+      .filter((pattern) => testPattern(pattern, name))
+      .map((pattern) => appendPointer(`${pointer}/patternProperties`, pattern));
+    for (const patternPtr of matched) {
+      const subschema = resolvePointer(this.root, patternPtr);
+      this.visit(subschema, patternPtr, child, new Set());
+    }
+    const additionalPtr = `${pointer}/additionalProperties`;
+    if (matched.length === 0 && isRecord(schema.additionalProperties)) {
+      this.visit(schema.additionalProperties, additionalPtr, child, new Set());
+    }
+    this.recordPropertyPresent(matched[0] ?? additionalPtr, name);
+  }
+
+  private visitArray(
+    schema: Record<string, unknown>,
+    pointer: string,
+    value: unknown[]
+  ): void {
+    const prefix = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    value.forEach((item, index) => {
+      if (index < prefix.length) {
+        this.visit(
+          prefix[index],
+          `${pointer}/prefixItems/${index}`,
+          item,
+          new Set()
+        );
+      } else if (isRecord(schema.items)) {
+        this.visit(schema.items, `${pointer}/items`, item, new Set());
+      }
+      const containsPtr = `${pointer}/contains`;
+      if (isRecord(schema.contains) && this.matches(containsPtr, item)) {
+        this.visit(schema.contains, containsPtr, item, new Set());
+      }
+    });
+  }
+
+  private recordPropertyPresent(pointer: string, propertyName: string): void {
+    this.emit({
+      dimension: 'structure',
+      kind: 'PROPERTY_PRESENT',
+      canonPath: toCanonPath(pointer),
+      params: { propertyName },
+    });
+  }
+
+  private recordEnum(
+    schema: Record<string, unknown>,
+    pointer: string,
+    value: unknown
+  ): void {
+    if (!Array.isArray(schema.enum)) return;
+    let keys = this.enumKeys.get(pointer);
+    if (!keys) {
+      keys = schema.enum.map((entry) => canonicalizeForHash(entry).text);
+      this.enumKeys.set(pointer, keys);
+    }
+    const enumIndex = keys.indexOf(canonicalizeForHash(value).text);
+    if (enumIndex < 0) return;
+    this.emit({
+      dimension: 'enum',
+      kind: 'ENUM_VALUE_HIT',
+      canonPath: toCanonPath(pointer),
+      params: { enumIndex, value },
+    });
+  }
+
+  /** Same hit rules as the generator's boundary events. */
+  private recordBoundaries(
+    schema: Record<string, unknown>,
+    pointer: string,
+    value: unknown
+  ): void {
+    const canonPath = toCanonPath(pointer);
+    const hit = (
+      kind: Extract<CoverageEvent, { dimension: 'boundaries' }>['kind'],
+      boundaryKind: string,
+      boundaryValue: number
+    ): void => {
+      this.emit({
+        dimension: 'boundaries',
+        kind,
+        canonPath,
+        params: { boundaryKind, boundaryValue },
+      } as CoverageEvent);
+    };
+
+    if (typeof value === 'number') {
+      if (Object.is(value, schema.minimum))
+        hit('NUMERIC_MIN_HIT', 'minimum', value);
+      if (Object.is(value, schema.maximum))
+        hit('NUMERIC_MAX_HIT', 'maximum', value);
+      if (
+        typeof schema.exclusiveMinimum === 'number' &&
+        value > schema.exclusiveMinimum
+      ) {
+        hit('NUMERIC_MIN_HIT', 'exclusiveMinimum', value);
+      }
+      if (
+        typeof schema.exclusiveMaximum === 'number' &&
+        value < schema.exclusiveMaximum
+      ) {
+        hit('NUMERIC_MAX_HIT', 'exclusiveMaximum', value);
+      }
+    } else if (typeof value === 'string') {
+      const length = codePointLength(value);
+      if (length === schema.minLength)
+        hit('STRING_MIN_LENGTH_HIT', 'minLength', length);
+      if (length === schema.maxLength)
+        hit('STRING_MAX_LENGTH_HIT', 'maxLength', length);
+    } else if (Array.isArray(value)) {
+      const length = value.length;
+      if (length === schema.minItems)
+        hit('ARRAY_MIN_ITEMS_HIT', 'minItems', length);
+      if (length === schema.maxItems)
+        hit('ARRAY_MAX_ITEMS_HIT', 'maxItems', length);
+    }
+  }
+}
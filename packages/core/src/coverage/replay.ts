@@ -0,0 +1,266 @@
+import type Ajv from 'ajv';
+import type { ValidateFunction } from 'ajv';
+import type {
+  CoverageDimension,
+  CoverageReport,
+  CoverageReportMode,
+  CoverageTarget,
+} from '@foundrydata/shared';
+
+import type { CoverageEvent } from './events.js';
+import {
+  createCoverageAccumulator,
+  createStreamingCoverageAccumulator,
+} from './events.js';
+import { InstanceCoverageWalker, REPLAY_SCHEMA_KEY } from './replay-walker.js';
+import {
+  evaluateCoverageAndBuildReport,
+  planCoverageForPipeline,
+  type CoverageRuntimePlanResult,
+} from './runtime.js';
+import type { CoverageWeightConfig } from './weights.js';
+import { normalize } from '../transform/schema-normalizer.js';
+import { compose } from '../transform/composition-engine.js';
+import {
+  createSourceAjv,
+  detectDialectFromSchema,
+  prepareSchemaForSourceAjv,
+} from '../util/ajv-source.js';
+import {
+  clonePlanningAjvWith,
+  createPlanningAjv,
+} from '../util/ajv-planning.js';
+import type { PlanOptions } from '../types/options.js';
+import type { PipelineOptions } from '../pipeline/types.js';
+import type { CustomFormats } from '../types/formats.js';
+import corePackageJson from '../../package.json' with { type: 'json' };
+
+/**
+ * Coverage replay: measure which coverage targets a set of existing
+ * instances (hand-written fixtures, captured payloads) reaches, without
+ * generating anything. Targets come from the same Normalize → Compose →
+ * Analyzer path as a generated run; each instance valid against the
+ * original schema is walked over the canonical schema, with AJV deciding
+ * which oneOf/anyOf branches and if/then/else paths it takes, and the
+ * resulting events feed the usual accumulator and evaluator.
+ */
+
+export interface InstanceCoverageOptions {
+  /** Defaults to ['structure', 'branches', 'enum']. */
+  dimensionsEnabled?: CoverageDimension[];
+  excludeUnreachable?: boolean;
+  /** Thresholds, as for generated runs. */
+  minCoverage?: number;
+  minCoverageByDimension?: Partial<Record<CoverageDimension, number>>;
+  minCoverageByOperation?: Record<string, number>;
+  reportMode?: CoverageReportMode;
+  weights?: CoverageWeightConfig;
+  /** Enable ajv-formats when validating instances. Defaults to false. */
+  validateFormats?: boolean;
+  formats?: CustomFormats;
+  planOptions?: Partial<PlanOptions>;
+}
+
+export interface RejectedInstance {
+  /** Position of the instance in the input. */
+  index: number;
+  /** AJV errors against the original schema. */
+  errors: unknown[];
+}
+
+export interface InstanceCoverageResult {
+  report: CoverageReport;
+  /** Instances that fail the original schema; they hit no targets. */
+  rejected: RejectedInstance[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const CORE_VERSION =
+  (corePackageJson as { version?: string }).version ?? '0.0.0';
+
+function createReplayAjv(
+  canonSchema: unknown,
+  options: InstanceCoverageOptions
+): Ajv {
+  // The canonical view keeps annotations and vendor keywords, so compile it
+  // without strict mode; `$schema` is dropped as the view is 2020-12-like.
+  const ajv = clonePlanningAjvWith(
+    createPlanningAjv(
+      { validateFormats: options.validateFormats, formats: options.formats },
+      options.planOptions
+    ),
+    { strictSchema: false, strictTypes: false }
+  );
+  if (isRecord(canonSchema)) {
+    const { $schema: _dialect, ...rest } = canonSchema;
+    ajv.addSchema(rest, REPLAY_SCHEMA_KEY);
+  } else {
+    ajv.addSchema({}, REPLAY_SCHEMA_KEY);
+  }
+  return ajv;
+}
+
+function createSourceValidator(
+  schema: unknown,
+  options: InstanceCoverageOptions
+): ValidateFunction {
+  const dialect = detectDialectFromSchema(schema);
+  const { schemaForAjv } = prepareSchemaForSourceAjv(schema, dialect);
+  const ajv = createSourceAjv(
+    {
+      dialect,
+      validateFormats: options.validateFormats ?? false,
+      formats: options.formats,
+    },
+    options.planOptions
+  );
+  return ajv.compile(schemaForAjv as object);
+}
+
+interface ReplayContext {
+  coverageOptions: NonNullable<PipelineOptions['coverage']>;
+  plan: CoverageRuntimePlanResult;
+  validateSource: ValidateFunction;
+  walk(instance: unknown, emit: (event: CoverageEvent) => void): void;
+}
+
+function createReplayContext(
+  schema: unknown,
+  options: InstanceCoverageOptions
+): ReplayContext {
+  const coverageOptions = {
+    mode: 'measure' as const,
+    dimensionsEnabled: options.dimensionsEnabled,
+    excludeUnreachable: options.excludeUnreachable,
+    minCoverage: options.minCoverage,
+    minCoverageByDimension: options.minCoverageByDimension,
+    minCoverageByOperation: options.minCoverageByOperation,
+    reportMode: options.reportMode,
+    weights: options.weights,
+  };
+  const normalizeResult = normalize(schema, {
+    rewriteConditionals: options.planOptions?.rewriteConditionals,
+    guards: options.planOptions?.guards,
+  });
+  const plan = planCoverageForPipeline({
+    canonicalSchema: normalizeResult.schema,
+    normalizeResult,
+    composeResult: compose(normalizeResult, {
+      planOptions: options.planOptions,
+    }),
+    coverageOptions,
+  })!;
+
+  let sink: (event: CoverageEvent) => void = () => {};
+  const walker = new InstanceCoverageWalker(
+    normalizeResult.schema,
+    createReplayAjv(normalizeResult.schema, options),
+    (event) => sink(event)
+  );
+  return {
+    coverageOptions,
+    plan,
+    validateSource: createSourceValidator(schema, options),
+    walk(instance, emit) {
+      sink = emit;
+      walker.walk(instance);
+    },
+  };
+}
+
+export type InstanceCoverageMeter = (
+  instances: readonly unknown[]
+) => InstanceCoverageResult;
+
+/**
+ * Plan targets and compile the validators for `schema` once, returning a
+ * function that measures any number of instance sets against them.
+ */
+export function createInstanceCoverageMeter(
+  schema: unknown,
+  options: InstanceCoverageOptions = {}
+): InstanceCoverageMeter {
+  const context = createReplayContext(schema, options);
+  const { plan, validateSource } = context;
+  return (instances) => {
+    const startedAt = Date.now();
+    const accumulator = createCoverageAccumulator(plan.targets);
+    const rejected: RejectedInstance[] = [];
+    instances.forEach((instance, index) => {
+      if (!validateSource(instance)) {
+        rejected.push({ index, errors: [...(validateSource.errors ?? [])] });
+        return;
+      }
+      context.walk(instance, (event) => accumulator.record(event));
+    });
+
+    const { report } = evaluateCoverageAndBuildReport({
+      mode: 'measure',
+      dimensionsEnabled: plan.dimensionsEnabled,
+      coverageOptions: context.coverageOptions,
+      targets: accumulator.toReport(plan.targets),
+      runInfo: {
+        seed: 0,
+        maxInstances: instances.length,
+        actualInstances: instances.length - rejected.length,
+        startedAtIso: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+      },
+      engineInfo: { foundryVersion: CORE_VERSION, ajvMajor: 8 },
+    });
+    return { report, rejected };
+  };
+}
+
+/**
+ * Measure the coverage reached by existing instances and build a
+ * coverage-report/v1 (engine.coverageMode 'measure'). Instances are
+ * validated against the original schema first; rejected ones are listed
+ * in `rejected` and do not count towards any target.
+ */
+export function measureInstanceCoverage(
+  schema: unknown,
+  instances: readonly unknown[],
+  options: InstanceCoverageOptions = {}
+): InstanceCoverageResult {
+  return createInstanceCoverageMeter(schema, options)(instances);
+}
+
+export interface InstanceTargetHits {
+  /** Targets planned for the schema, as in a measure run. */
+  targets: CoverageTarget[];
+  dimensionsEnabled: CoverageDimension[];
+  /**
+   * Target IDs each instance hits on its own, by input position;
+   * undefined for instances the original schema rejects.
+   */
+  hits: Array<ReadonlySet<string> | undefined>;
+}
+
+/**
+ * Per-instance variant of measureInstanceCoverage: which targets each
+ * instance reaches on its own, for callers choosing a subset of instances.
+ */
+export function collectInstanceTargetHits(
+  schema: unknown,
+  instances: readonly unknown[],
+  options: InstanceCoverageOptions = {}
+): InstanceTargetHits {
+  const context = createReplayContext(schema, options);
+  const { plan, validateSource } = context;
+  const accumulator = createStreamingCoverageAccumulator(plan.targets);
+  const hits = instances.map((instance) => {
+    if (!validateSource(instance)) return undefined;
+    const state = accumulator.createInstanceState();
+    context.walk(instance, (event) => state.record(event));
+    return new Set(state.getHitTargetIds());
+  });
+  return {
+    targets: plan.targets,
+    dimensionsEnabled: plan.dimensionsEnabled,
+    hits,
+  };
+}
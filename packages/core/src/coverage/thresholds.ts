@@ -0,0 +1,71 @@
+import type {
+  CoverageMetrics,
+  CoverageReportStatus,
+  CoverageThresholdFailure,
+  CoverageThresholds,
+} from '@foundrydata/shared';
+
+type ThresholdMetrics = Pick<
+  CoverageMetrics,
+  'overall' | 'byDimension' | 'byOperation' | 'weighted'
+>;
+
+export interface CoverageThresholdEvaluation {
+  coverageStatus: CoverageReportStatus;
+  thresholdFailures: CoverageThresholdFailure[];
+}
+
+/**
+ * Check overall, per-dimension and per-operation thresholds. Weighted
+ * ratios take precedence when the metrics carry them; dimensions and
+ * operations without a ratio have no targets and are skipped.
+ */
+export function evaluateCoverageThresholds(
+  metrics: ThresholdMetrics,
+  thresholds: CoverageThresholds | undefined
+): CoverageThresholdEvaluation {
+  const overall = metrics.weighted?.overall ?? metrics.overall;
+  const failures: CoverageThresholdFailure[] =
+    thresholds?.overall !== undefined && overall < thresholds.overall
+      ? [{ scope: 'overall', actual: overall, threshold: thresholds.overall }]
+      : [];
+  failures.push(
+    ...collectFailures(
+      'dimension',
+      metrics.weighted?.byDimension ?? metrics.byDimension,
+      thresholds?.byDimension
+    ),
+    ...collectFailures(
+      'operation',
+      metrics.byOperation,
+      thresholds?.byOperation
+    )
+  );
+
+  return {
+    coverageStatus: statusFor(failures),
+    thresholdFailures: failures,
+  };
+}
+
+function statusFor(failures: CoverageThresholdFailure[]): CoverageReportStatus {
+  if (failures.length === 0) return 'ok';
+  return failures[0]!.scope === 'overall'
+    ? 'minCoverageNotMet'
+    : 'thresholdsNotMet';
+}
+
+function collectFailures(
+  scope: 'dimension' | 'operation',
+  ratios: Record<string, number>,
+  minimums: Record<string, number> | undefined
+): CoverageThresholdFailure[] {
+  return Object.entries(minimums ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([key, threshold]) => {
+      const actual = ratios[key];
+      return actual !== undefined && actual < threshold
+        ? [{ scope, key, actual, threshold }]
+        : [];
+    });
+}
@@ -0,0 +1,111 @@
+import type { CoverageTarget, CoverageTargetKind } from '@foundrydata/shared';
+
+import { globToRegExp } from '../util/glob.js';
+
+/** Schema annotation carrying a node's coverage weight. */
+export const COVERAGE_WEIGHT_ANNOTATION = 'x-foundry-weight';
+
+/**
+ * Risk-based weighting of coverage targets. A target's weight is its path
+ * weight (first matching `byPath` glob, else the nearest enclosing
+ * `x-foundry-weight` annotation, else 1) times its `byKind` factor.
+ */
+export interface CoverageWeightConfig {
+  /**
+   * Weight by canonPath glob, e.g. `{ "#/properties/payment/**": 5 }`.
+   * `*` stays within one pointer segment, `**` spans segments.
+   */
+  byPath?: Record<string, number>;
+  /** Factor by target kind, e.g. `{ ONEOF_BRANCH: 2 }`. */
+  byKind?: Partial<Record<CoverageTargetKind, number>>;
+  /** Read `x-foundry-weight` annotations from the schema. Default: true. */
+  annotations?: boolean;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWeight(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/** Weight used in metrics and ordering for targets without one. */
+export function getCoverageTargetWeight(target: { weight?: number }): number {
+  return isWeight(target.weight) ? target.weight : 1;
+}
+
+export function assertCoverageWeightConfig(config: CoverageWeightConfig): void {
+  const entries = [
+    ...Object.entries(config.byPath ?? {}),
+    ...Object.entries(config.byKind ?? {}),
+  ];
+  for (const [key, weight] of entries) {
+    if (!isWeight(weight)) {
+      throw new Error(
+        `Invalid coverage weight for "${key}": expected a finite number >= 0, got ${JSON.stringify(weight)}`
+      );
+    }
+  }
+}
+
+/**
+ * Annotation weight of the deepest schema node on `canonPath` (the node
+ * itself or an ancestor) that declares one.
+ */
+function createAnnotationLookup(
+  canonSchema: unknown
+): (canonPath: string) => number | undefined {
+  const cache = new Map<string, number | undefined>();
+  const lookup = (pointer: string): number | undefined => {
+    if (cache.has(pointer)) return cache.get(pointer);
+    let node: unknown = canonSchema;
+    for (const token of pointer.split('/').slice(1)) {
+      node = isRecord(node)
+        ? node[token.replace(/~1/g, '/').replace(/~0/g, '~')]
+        : Array.isArray(node)
+          ? node[Number(token)]
+          : undefined;
+    }
+    const own = isRecord(node) ? node[COVERAGE_WEIGHT_ANNOTATION] : undefined;
+    const parent = pointer.lastIndexOf('/');
+    const weight = isWeight(own)
+      ? own
+      : parent >= 0
+        ? lookup(pointer.slice(0, parent))
+        : undefined;
+    cache.set(pointer, weight);
+    return weight;
+  };
+  return (canonPath) =>
+    lookup(canonPath.startsWith('#') ? canonPath.slice(1) : canonPath);
+}
+
+/**
+ * Set `weight` on targets covered by the config or by schema annotations.
+ * Targets nothing applies to are returned unchanged (no weight), so runs
+ * without any weighting keep unweighted metrics.
+ */
+export function applyCoverageWeights(
+  targets: CoverageTarget[],
+  canonSchema: unknown,
+  config: CoverageWeightConfig = {}
+): CoverageTarget[] {
+  assertCoverageWeightConfig(config);
+  const paths = Object.entries(config.byPath ?? {}).map(
+    ([glob, weight]) => [globToRegExp(glob), weight] as const
+  );
+  const annotationWeight =
+    config.annotations === false
+      ? () => undefined
+      : createAnnotationLookup(canonSchema);
+
+  return targets.map((target) => {
+    const pathWeight =
+      paths.find(([pattern]) => pattern.test(target.canonPath))?.[1] ??
+      annotationWeight(target.canonPath);
+    const kindFactor = config.byKind?.[target.kind];
+    if (pathWeight === undefined && kindFactor === undefined) return target;
+    return { ...target, weight: (pathWeight ?? 1) * (kindFactor ?? 1) };
+  });
+}
@@ -31,6 +31,7 @@ const DIAGNOSTIC_CODE_VALUES = {
   RESOLVER_STRATEGIES_APPLIED: 'RESOLVER_STRATEGIES_APPLIED',
   RESOLVER_CACHE_HIT: 'RESOLVER_CACHE_HIT',
   RESOLVER_CACHE_MISS_FETCHED: 'RESOLVER_CACHE_MISS_FETCHED',
+  RESOLVER_LOCAL_FILE_LOADED: 'RESOLVER_LOCAL_FILE_LOADED',
   RESOLVER_OFFLINE_UNAVAILABLE: 'RESOLVER_OFFLINE_UNAVAILABLE',
   RESOLVER_ADD_SCHEMA_SKIPPED_INCOMPATIBLE_DIALECT:
     'RESOLVER_ADD_SCHEMA_SKIPPED_INCOMPATIBLE_DIALECT',
@@ -51,6 +52,7 @@ const DIAGNOSTIC_CODE_VALUES = {
   OAS_NULLABLE_KEEP_ANNOT: 'OAS_NULLABLE_KEEP_ANNOT',
   ONEOF_SIMPLIFICATION_SKIPPED_UNEVALUATED:
     'ONEOF_SIMPLIFICATION_SKIPPED_UNEVALUATED',
+  PATTERN_SYNTHESIS_UNSUPPORTED: 'PATTERN_SYNTHESIS_UNSUPPORTED',
   PNAMES_COMPLEX: 'PNAMES_COMPLEX',
   PNAMES_REWRITE_APPLIED: 'PNAMES_REWRITE_APPLIED',
   RAT_DEN_CAPPED: 'RAT_DEN_CAPPED',
@@ -84,6 +86,7 @@ const DIAGNOSTIC_CODE_VALUES = {
   UNSAT_REQUIRED_VS_PROPERTYNAMES: 'UNSAT_REQUIRED_VS_PROPERTYNAMES',
   UNSAT_REQUIRED_PNAMES: 'UNSAT_REQUIRED_PNAMES',
   UNSAT_NUMERIC_BOUNDS: 'UNSAT_NUMERIC_BOUNDS',
+  UNSAT_PROPERTY_COUNT: 'UNSAT_PROPERTY_COUNT',
   SOLVER_TIMEOUT: 'SOLVER_TIMEOUT',
   VALIDATION_KEYWORD_FAILED: 'VALIDATION_KEYWORD_FAILED',
 } as const;
@@ -126,6 +129,7 @@ const generatorOnlyCodes = new Set<KnownDiagnosticCode>([
   DIAGNOSTIC_CODES.NAME_AUTOMATON_BEAM_APPLIED,
   DIAGNOSTIC_CODES.COMPLEXITY_CAP_PATTERNS,
   DIAGNOSTIC_CODES.EXCLUSIVITY_TWEAK_STRING,
+  DIAGNOSTIC_CODES.PATTERN_SYNTHESIS_UNSUPPORTED,
   DIAGNOSTIC_CODES.TARGET_ENUM_NEGATIVE_LOOKAHEADS,
   DIAGNOSTIC_CODES.TARGET_ENUM_ROUNDROBIN_PATTERNPROPS,
 ]);
@@ -154,6 +158,7 @@ const composeOnlyCodes = new Set<KnownDiagnosticCode>([
   DIAGNOSTIC_CODES.UNSAT_REQUIRED_PNAMES,
   DIAGNOSTIC_CODES.UNSAT_REQUIRED_VS_PROPERTYNAMES,
   DIAGNOSTIC_CODES.UNSAT_NUMERIC_BOUNDS,
+  DIAGNOSTIC_CODES.UNSAT_PROPERTY_COUNT,
   DIAGNOSTIC_CODES.SOLVER_TIMEOUT,
 ]);
 
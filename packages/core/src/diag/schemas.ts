@@ -258,7 +258,11 @@ export const DIAGNOSTIC_DETAIL_SCHEMAS: Partial<
   [DIAGNOSTIC_CODES.UNSAT_NUMERIC_BOUNDS]: {
     kind: 'object',
     required: {
-      reason: enumSchema(['rangeEmpty', 'integerDomainEmpty']),
+      reason: enumSchema([
+        'rangeEmpty',
+        'integerDomainEmpty',
+        'multipleOfDomainEmpty',
+      ]),
     },
     optional: {
       type: enumSchema(['integer', 'number']),
@@ -266,6 +270,15 @@ export const DIAGNOSTIC_DETAIL_SCHEMAS: Partial<
       maximum: numberOrNull,
       exclusiveMinimum: numberOrNull,
       exclusiveMaximum: numberOrNull,
+      multipleOf: { kind: 'number' },
+    },
+  },
+  [DIAGNOSTIC_CODES.UNSAT_PROPERTY_COUNT]: {
+    kind: 'object',
+    required: {
+      minProperties: numberOrNull,
+      maxProperties: numberOrNull,
+      requiredCount: { kind: 'number' },
     },
   },
   [DIAGNOSTIC_CODES.SOLVER_TIMEOUT]: {
@@ -276,6 +289,7 @@ export const DIAGNOSTIC_DETAIL_SCHEMAS: Partial<
     optional: {
       reason: enumSchema(['timeout', 'unknown']),
       problemKind: { kind: 'string' },
+      maxSteps: { kind: 'number' },
     },
   },
   [DIAGNOSTIC_CODES.CONTAINS_NEED_MIN_GT_MAX]: {
@@ -475,6 +489,24 @@ export const DIAGNOSTIC_DETAIL_SCHEMAS: Partial<
       char: enumSchema(['\u0000', 'a']),
     },
   },
+  [DIAGNOSTIC_CODES.PATTERN_SYNTHESIS_UNSUPPORTED]: {
+    kind: 'object',
+    required: {
+      pattern: { kind: 'string' },
+      reason: enumSchema([
+        'compileError',
+        'lookaround',
+        'backreference',
+        'unsupportedSyntax',
+        'complexityCap',
+        'lengthUnsatisfiable',
+      ]),
+    },
+    optional: {
+      minLength: { kind: 'number' },
+      maxLength: { kind: 'number' },
+    },
+  },
   [DIAGNOSTIC_CODES.EXTERNAL_REF_STUBBED]: {
     kind: 'object',
     required: {
@@ -500,7 +532,7 @@ export const DIAGNOSTIC_DETAIL_SCHEMAS: Partial<
     required: {
       strategies: {
         kind: 'array',
-        items: enumSchema(['local', 'remote', 'schemastore']),
+        items: enumSchema(['local', 'remote', 'schemastore', 'mapping']),
       },
       cacheDir: {
         kind: 'union',
@@ -523,6 +555,15 @@ export const DIAGNOSTIC_DETAIL_SCHEMAS: Partial<
       contentHash: { kind: 'string' },
     },
   },
+  [DIAGNOSTIC_CODES.RESOLVER_LOCAL_FILE_LOADED]: {
+    kind: 'object',
+    required: {
+      ref: { kind: 'string' },
+      path: { kind: 'string' },
+      via: enumSchema(['mapping', 'preload']),
+      contentHash: { kind: 'string' },
+    },
+  },
   [DIAGNOSTIC_CODES.RESOLVER_OFFLINE_UNAVAILABLE]: {
     kind: 'object',
     required: {
@@ -20,6 +20,7 @@ export enum ErrorCode {
   CONSTRAINT_VIOLATION = 'E100',
   GENERATION_LIMIT_EXCEEDED = 'E101',
   COVERAGE_THRESHOLD_NOT_MET = 'E102',
+  COVERAGE_DIMENSION_THRESHOLD_NOT_MET = 'E103',
 
   // Validation Errors (E200–E299)
   COMPLIANCE_VALIDATION_FAILED = 'E200',
@@ -45,6 +46,7 @@ export const EXIT_CODES = {
   [ErrorCode.CONSTRAINT_VIOLATION]: 30,
   [ErrorCode.GENERATION_LIMIT_EXCEEDED]: 31,
   [ErrorCode.COVERAGE_THRESHOLD_NOT_MET]: 70,
+  [ErrorCode.COVERAGE_DIMENSION_THRESHOLD_NOT_MET]: 71,
   [ErrorCode.COMPLIANCE_VALIDATION_FAILED]: 40,
   [ErrorCode.CONFIGURATION_ERROR]: 50,
   [ErrorCode.PARSE_ERROR]: 60,
@@ -65,6 +67,7 @@ export const HTTP_STATUS_BY_CODE = {
   [ErrorCode.CONFIGURATION_ERROR]: 500,
   [ErrorCode.PARSE_ERROR]: 400,
   [ErrorCode.COVERAGE_THRESHOLD_NOT_MET]: 422,
+  [ErrorCode.COVERAGE_DIMENSION_THRESHOLD_NOT_MET]: 422,
   [ErrorCode.INTERNAL_ERROR]: 500,
 } satisfies Record<ErrorCode, number>;
 
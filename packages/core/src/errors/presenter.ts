@@ -9,6 +9,7 @@ import type {
   FoundryError,
   SerializedError,
 } from '../types/errors';
+import type { SourceDocument } from '../util/source-document.js';
 
 export interface PresenterOptions {
   colors?: boolean;
@@ -16,6 +17,8 @@ export interface PresenterOptions {
   locale?: string;
   redactKeys?: string[];
   requestId?: string;
+  /** Parsed input document; maps schemaPath pointers to file:line:column. */
+  source?: SourceDocument;
 }
 
 export interface CLIErrorView {
@@ -108,10 +111,21 @@ export class ErrorPresenter {
 
   #formatLocation(ctx?: ErrorContext): string | undefined {
     if (!ctx) return undefined;
-    const loc =
-      (ctx.path as string | undefined) ??
-      (ctx.schemaPath as string | undefined);
-    return loc ? `Location: ${loc}` : undefined;
+    const path = ctx.path as string | undefined;
+    if (path) return `Location: ${path}`;
+    const schemaPath = ctx.schemaPath as string | undefined;
+    if (schemaPath) {
+      const source = this.options.source?.describe(schemaPath);
+      return source
+        ? `Location: ${schemaPath} (${source})`
+        : `Location: ${schemaPath}`;
+    }
+    // Parse errors carry the offending line/column of the input file.
+    if (typeof ctx.line === 'number' && typeof ctx.column === 'number') {
+      const input = typeof ctx.input === 'string' ? `${ctx.input}:` : '';
+      return `Location: ${input}${ctx.line}:${ctx.column}`;
+    }
+    return undefined;
   }
 
   #formatWorkaround(error: FoundryError): string | undefined {
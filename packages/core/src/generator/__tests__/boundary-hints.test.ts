@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+
+import { normalize } from '../../transform/schema-normalizer.js';
+import { compose } from '../../transform/composition-engine.js';
+import { generateFromCompose } from '../foundry-generator.js';
+import type { CoverageHint } from '../../coverage/index.js';
+import type { UnsatisfiedHint } from '@foundrydata/shared';
+
+function generateGuided(
+  schema: unknown,
+  hints: CoverageHint[],
+  count: number
+): { items: unknown[]; unsatisfied: UnsatisfiedHint[] } {
+  const unsatisfied: UnsatisfiedHint[] = [];
+  const output = generateFromCompose(compose(normalize(schema)), {
+    count,
+    coverage: {
+      mode: 'guided',
+      emit: () => {},
+      hints,
+      recordUnsatisfiedHint: (hint) => unsatisfied.push(hint),
+    },
+  });
+  return { items: output.items, unsatisfied };
+}
+
+describe('generator boundary coverage hints', () => {
+  it('rotates numeric boundary hints across instances respecting multipleOf', () => {
+    const schema = {
+      type: 'integer',
+      exclusiveMinimum: 0,
+      maximum: 70,
+      multipleOf: 7,
+    };
+    const { items, unsatisfied } = generateGuided(
+      schema,
+      [
+        {
+          kind: 'hitNumericBoundary',
+          canonPath: '#',
+          params: { boundaryKind: 'exclusiveMinimum' },
+        },
+        {
+          kind: 'hitNumericBoundary',
+          canonPath: '#',
+          params: { boundaryKind: 'maximum' },
+        },
+      ],
+      2
+    );
+
+    expect(items).toEqual([7, 70]);
+    expect(unsatisfied).toEqual([]);
+  });
+
+  it('steers numbers to the closest value below an exclusive maximum', () => {
+    const { items } = generateGuided(
+      { type: 'number', exclusiveMaximum: 1, multipleOf: 0.25 },
+      [
+        {
+          kind: 'hitNumericBoundary',
+          canonPath: '#',
+          params: { boundaryKind: 'exclusiveMaximum' },
+        },
+      ],
+      1
+    );
+
+    expect(items).toEqual([0.75]);
+  });
+
+  it('hits string length bounds through pattern generation', () => {
+    const schema = {
+      type: 'object',
+      required: ['code'],
+      properties: {
+        code: {
+          type: 'string',
+          pattern: '^[a-z]+$',
+          minLength: 2,
+          maxLength: 5,
+        },
+      },
+    };
+    const { items, unsatisfied } = generateGuided(
+      schema,
+      [
+        {
+          kind: 'hitStringLength',
+          canonPath: '#/properties/code',
+          params: { boundaryKind: 'maxLength' },
+        },
+        {
+          kind: 'hitStringLength',
+          canonPath: '#/properties/code',
+          params: { boundaryKind: 'minLength' },
+        },
+      ],
+      2
+    );
+
+    const lengths = items.map((item) => (item as { code: string }).code.length);
+    expect(lengths).toEqual([5, 2]);
+    expect(unsatisfied).toEqual([]);
+  });
+
+  it('fills arrays up to maxItems', () => {
+    const { items } = generateGuided(
+      { type: 'array', items: { type: 'integer' }, minItems: 1, maxItems: 3 },
+      [
+        {
+          kind: 'hitArraySize',
+          canonPath: '#',
+          params: { boundaryKind: 'maxItems' },
+        },
+      ],
+      1
+    );
+
+    expect(items[0]).toHaveLength(3);
+  });
+
+  it('records unreachable boundaries as unsatisfied hints', () => {
+    const { items, unsatisfied } = generateGuided(
+      { type: 'integer', maximum: 10, multipleOf: 3 },
+      [
+        {
+          kind: 'hitNumericBoundary',
+          canonPath: '#',
+          params: { boundaryKind: 'maximum' },
+        },
+      ],
+      1
+    );
+
+    expect(items[0]).not.toBe(10);
+    expect(unsatisfied).toEqual([
+      expect.objectContaining({
+        kind: 'hitNumericBoundary',
+        canonPath: '#',
+        params: { boundaryKind: 'maximum' },
+        reasonCode: 'CONFLICTING_CONSTRAINTS',
+      }),
+    ]);
+  });
+});
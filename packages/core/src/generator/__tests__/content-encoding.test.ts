@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { Generate, Validate } from '../../api';
+import { decodeContentPayload } from '../../util/content-codec';
+
+const payloadSchema = {
+  type: 'object',
+  required: ['id', 'tags'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    tags: { type: 'array', minItems: 1, items: { enum: ['a', 'b'] } },
+  },
+};
+
+function contentField(
+  encoding: string,
+  mediaType = 'application/json'
+): Record<string, unknown> {
+  return {
+    type: 'object',
+    required: ['payload'],
+    properties: {
+      payload: {
+        type: 'string',
+        contentEncoding: encoding,
+        contentMediaType: mediaType,
+        contentSchema: payloadSchema,
+      },
+    },
+  };
+}
+
+async function generatePayloads(schema: unknown, count = 3): Promise<string[]> {
+  const result = await Generate(count, 7, schema, {
+    validateContent: true,
+  }).result;
+  expect(result.status).toBe('completed');
+  const items = result.artifacts.repaired as Array<{ payload: string }>;
+  return items.map((item) => item.payload);
+}
+
+describe('Foundry generator - encoded content', () => {
+  it.each(['base64', 'base64url', 'quoted-printable'])(
+    'embeds a contentSchema instance encoded as %s',
+    async (encoding) => {
+      const payloads = await generatePayloads(contentField(encoding));
+      expect(payloads).toHaveLength(3);
+      for (const payload of payloads) {
+        const decoded = decodeContentPayload(
+          payload,
+          'application/json',
+          encoding
+        );
+        const check = Validate(decoded?.value, payloadSchema);
+        expect(check.valid).toBe(true);
+      }
+    }
+  );
+
+  it('serializes text/plain content as the string itself', async () => {
+    const schema = {
+      type: 'string',
+      contentEncoding: 'base64',
+      contentMediaType: 'text/plain',
+      contentSchema: { type: 'string', const: 'héllo wörld' },
+    };
+    const result = await Generate(1, 1, schema).result;
+    const [value] = result.artifacts.repaired as string[];
+    expect(Buffer.from(value!, 'base64').toString('utf8')).toBe('héllo wörld');
+  });
+
+  it('reports coverage for the nested contentSchema', async () => {
+    const result = await Generate(3, 7, contentField('base64'), {
+      coverage: { mode: 'measure', dimensionsEnabled: ['structure'] },
+    }).result;
+    const nested = (result.artifacts.coverageTargets ?? []).filter((target) =>
+      (target as { canonPath: string }).canonPath.includes('/contentSchema')
+    ) as Array<{ hit?: boolean }>;
+    expect(nested.length).toBeGreaterThan(0);
+    expect(nested.some((target) => target.hit)).toBe(true);
+  });
+});
+
+describe('Validate with validateContent', () => {
+  const schema = contentField('base64');
+  const encode = (value: unknown): string =>
+    Buffer.from(JSON.stringify(value), 'utf8').toString('base64');
+
+  it('rejects payloads that do not decode or violate contentSchema', () => {
+    const options = { validateContent: true };
+    expect(
+      Validate({ payload: encode({ id: 1, tags: ['a'] }) }, schema, options)
+        .valid
+    ).toBe(true);
+    expect(
+      Validate({ payload: encode({ id: 0, tags: [] }) }, schema, options).valid
+    ).toBe(false);
+    expect(Validate({ payload: 'not base64!' }, schema, options).valid).toBe(
+      false
+    );
+  });
+
+  it('keeps content keywords as annotations by default', () => {
+    expect(Validate({ payload: 'not base64!' }, schema).valid).toBe(true);
+  });
+});
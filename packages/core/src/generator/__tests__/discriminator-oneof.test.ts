@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+
+import { normalize } from '../../transform/schema-normalizer.js';
+import { compose } from '../../transform/composition-engine.js';
+import { resolveDiscriminator } from '../../transform/discriminator.js';
+import { generateFromCompose } from '../foundry-generator.js';
+import type { CoverageEvent, CoverageHint } from '../../coverage/index.js';
+
+function variant(
+  required: string,
+  extra: Record<string, unknown>
+): Record<string, unknown> {
+  return {
+    type: 'object',
+    additionalProperties: false,
+    required: ['petType', required],
+    properties: { petType: { type: 'string' }, ...extra },
+  };
+}
+
+const schema = {
+  oneOf: [
+    { $ref: '#/components/schemas/Cat' },
+    { $ref: '#/components/schemas/Dog' },
+    { $ref: '#/components/schemas/Lizard' },
+  ],
+  discriminator: {
+    propertyName: 'petType',
+    mapping: {
+      cat: '#/components/schemas/Cat',
+      kitty: '#/components/schemas/Cat',
+      dog: 'Dog',
+      bird: '#/components/schemas/Bird',
+    },
+  },
+  components: {
+    schemas: {
+      Cat: variant('name', { name: { type: 'string' } }),
+      Dog: variant('bark', { bark: { type: 'boolean' } }),
+      Lizard: variant('scales', { scales: { type: 'integer' } }),
+    },
+  },
+};
+
+describe('discriminated oneOf', () => {
+  it('resolves explicit, bare-name and implicit mapping entries', () => {
+    expect(resolveDiscriminator(schema)).toEqual({
+      propertyName: 'petType',
+      entries: [
+        { value: 'cat', branchIndex: 0, explicit: true },
+        { value: 'kitty', branchIndex: 0, explicit: true },
+        { value: 'dog', branchIndex: 1, explicit: true },
+        { value: 'Lizard', branchIndex: 2, explicit: false },
+      ],
+    });
+    expect(resolveDiscriminator({ oneOf: [{ type: 'string' }] })).toBe(
+      undefined
+    );
+  });
+
+  it('records the tag with the Compose branch decision', () => {
+    const node = compose(normalize(schema), { seed: 1 }).diag?.nodes?.[
+      '/oneOf'
+    ];
+    const entry = resolveDiscriminator(schema)!.entries.find(
+      (candidate) => candidate.value === node?.discriminator?.value
+    );
+    expect(node?.discriminator?.propertyName).toBe('petType');
+    expect(entry?.branchIndex).toBe(node?.chosenBranch?.index);
+  });
+
+  it('writes the Compose tag and labels coverage events with it', () => {
+    const effective = compose(normalize(schema), { seed: 1 });
+    const node = effective.diag!.nodes!['/oneOf']!;
+    const tag = node.discriminator!.value;
+    const index = node.chosenBranch!.index;
+    const events: CoverageEvent[] = [];
+    const output = generateFromCompose(effective, {
+      count: 2,
+      seed: 1,
+      coverage: { mode: 'measure', emit: (event) => events.push(event) },
+    });
+
+    for (const item of output.items) {
+      expect(item).toMatchObject({ petType: tag });
+    }
+    const branchEvents = events.filter(
+      (event) => event.kind === 'ONEOF_BRANCH'
+    );
+    expect(branchEvents).toHaveLength(2);
+    for (const event of branchEvents) {
+      expect(event).toMatchObject({
+        canonPath: `#/oneOf/${index}`,
+        params: { index, discriminatorValue: tag },
+      });
+    }
+  });
+
+  it('rotates guided preferBranch hints across mapping keys', () => {
+    const hints: CoverageHint[] = ['kitty', 'dog', 'Lizard'].map(
+      (discriminatorValue, index) => ({
+        kind: 'preferBranch',
+        canonPath: '#/oneOf',
+        params: { branchIndex: index, discriminatorValue },
+      })
+    );
+    const output = generateFromCompose(compose(normalize(schema)), {
+      count: 3,
+      coverage: { mode: 'guided', emit: () => {}, hints },
+    });
+
+    expect(
+      output.items.map((item) => (item as { petType: string }).petType)
+    ).toEqual(['kitty', 'dog', 'Lizard']);
+    expect(output.items[1]).toMatchObject({ bark: false });
+  });
+});
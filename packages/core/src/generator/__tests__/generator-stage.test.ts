@@ -153,8 +153,8 @@ describe('Foundry generator stage', () => {
     expect(email).toMatch(/^[^@\s]+@example\.test$/);
   });
 
-  it('applies minLength/maxLength bounds to formatted strings (trimming/padding)', () => {
-    // Trim a uuid to 8 chars via maxLength
+  it('applies minLength/maxLength bounds to formatted strings without breaking the format', () => {
+    // A uuid cannot fit 8 chars; fall back to a bounded plain string
     const trimmedSchema = { type: 'string', format: 'uuid', maxLength: 8 };
     const trimmed = generateFromCompose(composeSchema(trimmedSchema), {
       validateFormats: true,
@@ -163,7 +163,7 @@ describe('Foundry generator stage', () => {
     expect(typeof trimmed).toBe('string');
     expect(trimmed.length).toBeLessThanOrEqual(8);
 
-    // Pad an email-like string to minLength via repeat
+    // Grow the email local part to reach minLength, keeping the domain
     const paddedSchema = { type: 'string', format: 'email', minLength: 40 };
     const padded = generateFromCompose(composeSchema(paddedSchema), {
       validateFormats: true,
@@ -171,7 +171,7 @@ describe('Foundry generator stage', () => {
     }).items[0] as string;
     expect(typeof padded).toBe('string');
     expect(Array.from(padded).length).toBeGreaterThanOrEqual(40);
-    expect(padded.startsWith('user.')).toBe(true);
+    expect(padded).toMatch(/^[a-z0-9]+@example\.test$/);
   });
 
   it('enforces uniqueItems and preserves minimal length with stable fillers', () => {
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+
+import { normalize } from '../../transform/schema-normalizer.js';
+import { compose } from '../../transform/composition-engine.js';
+import { generateFromCompose } from '../foundry-generator.js';
+import {
+  generateLocaleString,
+  inferLocaleFieldKind,
+  resolveLocalePack,
+} from '../locale-packs.js';
+import { fr } from '../locales/fr.js';
+import { XorShift32 } from '../../util/rng.js';
+
+const schema = {
+  type: 'object',
+  required: ['firstName', 'city', 'currency', 'note', 'code'],
+  properties: {
+    firstName: { type: 'string' },
+    city: { type: 'string' },
+    currency: { type: 'string', minLength: 3, maxLength: 3 },
+    note: { type: 'string', minLength: 12, maxLength: 16 },
+    code: { type: 'string', pattern: '^[A-Z]{2}$' },
+  },
+};
+
+function generate(locale?: string, seed = 7): Array<Record<string, string>> {
+  const output = generateFromCompose(compose(normalize(schema)), {
+    count: 3,
+    seed,
+    locale,
+  });
+  return output.items as Array<Record<string, string>>;
+}
+
+describe('locale packs', () => {
+  it('keeps the minimal strings when no locale is set', () => {
+    const [first] = generate();
+    expect(first).toMatchObject({ firstName: '', city: '' });
+  });
+
+  it('fills unconstrained strings from the pack using property names', () => {
+    const items = generate('fr');
+    for (const item of items) {
+      expect(fr.firstNames).toContain(item.firstName);
+      expect(fr.cities).toContain(item.city);
+      expect(fr.currencies).toContain(item.currency);
+      expect(item.note!.length).toBeGreaterThanOrEqual(12);
+      expect(item.note!.length).toBeLessThanOrEqual(16);
+      expect(item.code).toMatch(/^[A-Z]{2}$/);
+    }
+  });
+
+  it('is reproducible for a given seed', () => {
+    expect(generate('de', 11)).toEqual(generate('de', 11));
+    expect(generate('de', 11)).not.toEqual(generate('de', 12));
+  });
+
+  it('resolves region subtags and rejects unknown locales', () => {
+    expect(resolveLocalePack('fr-CA')?.locale).toBe('fr');
+    expect(resolveLocalePack('ja_JP')?.locale).toBe('ja');
+    expect(resolveLocalePack('xx')).toBeUndefined();
+  });
+
+  it('maps property name spellings to field kinds', () => {
+    expect(inferLocaleFieldKind('first_name')).toBe('firstName');
+    expect(inferLocaleFieldKind('PhoneNumber')).toBe('phone');
+    expect(inferLocaleFieldKind('currencyCode')).toBe('currency');
+    expect(inferLocaleFieldKind('description')).toBe('text');
+  });
+
+  it('counts code points when fitting lengths', () => {
+    const ja = resolveLocalePack('ja')!;
+    const value = generateLocaleString(
+      ja,
+      'text',
+      new XorShift32(1, '#'),
+      5,
+      5
+    );
+    expect(Array.from(value)).toHaveLength(5);
+  });
+});
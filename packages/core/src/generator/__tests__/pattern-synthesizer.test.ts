@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+
+import { normalize } from '../../transform/schema-normalizer.js';
+import { compose } from '../../transform/composition-engine.js';
+import { generateFromCompose } from '../foundry-generator.js';
+import { createPatternSynthesizer } from '../pattern-synthesizer.js';
+import { DIAGNOSTIC_CODES } from '../../diag/codes.js';
+
+function composeSchema(schema: unknown): ReturnType<typeof compose> {
+  const normalized = normalize(schema);
+  return compose(normalized);
+}
+
+describe('PatternSynthesizer', () => {
+  it('walks class/quantifier/alternation patterns to matching values', () => {
+    const synthesizer = createPatternSynthesizer({ seed: 7 });
+    for (const pattern of [
+      '^[A-Z]{3}-\\d{4}$',
+      '^(foo|bar)+baz$',
+      '^\\w+@\\w+\\.com$',
+      '^.{5}$',
+    ]) {
+      const result = synthesizer.synthesize({
+        pattern,
+        canonPath: '/p',
+        minLength: 0,
+      });
+      expect(result.kind).toBe('ok');
+      if (result.kind === 'ok') {
+        expect(result.value).toMatch(new RegExp(pattern, 'u'));
+      }
+    }
+  });
+
+  it('starts from the minimal witness, then varies deterministically per seed', () => {
+    const draw = (seed: number): string[] => {
+      const synthesizer = createPatternSynthesizer({ seed });
+      return [0, 1, 2].map((): string => {
+        const result = synthesizer.synthesize({
+          pattern: '^[a-z]{8}$',
+          canonPath: '/p',
+          minLength: 0,
+        });
+        return result.kind === 'ok' ? result.value : '';
+      });
+    };
+    const first = draw(1);
+    expect(draw(1)).toEqual(first);
+    // The first draw is the minimal witness; later draws are walks.
+    expect(first[0]).toBe('aaaaaaaa');
+    expect(new Set(first).size).toBeGreaterThan(1);
+  });
+
+  it('honours minLength/maxLength and reports unsatisfiable windows', () => {
+    const synthesizer = createPatternSynthesizer({ seed: 3 });
+    const result = synthesizer.synthesize({
+      pattern: '^[a-z]+$',
+      canonPath: '/p',
+      minLength: 20,
+      maxLength: 22,
+    });
+    expect(result.kind).toBe('ok');
+    if (result.kind === 'ok') {
+      expect(result.value.length).toBeGreaterThanOrEqual(20);
+      expect(result.value.length).toBeLessThanOrEqual(22);
+    }
+
+    expect(
+      synthesizer.synthesize({
+        pattern: '^[a-z]{2}$',
+        canonPath: '/p',
+        minLength: 3,
+      })
+    ).toEqual({ kind: 'length-unsatisfiable' });
+  });
+
+  it('pads matches of unanchored patterns up to minLength', () => {
+    const synthesizer = createPatternSynthesizer({ seed: 5 });
+    const cases = [
+      { pattern: 'ab', minLength: 5, maxLength: 5 },
+      { pattern: '^x', minLength: 4 },
+      { pattern: '\\d{2}$', minLength: 6, maxLength: 8 },
+    ];
+    for (const { pattern, minLength, maxLength } of cases) {
+      for (let draw = 0; draw < 3; draw += 1) {
+        const result = synthesizer.synthesize({
+          pattern,
+          canonPath: `/${pattern}`,
+          minLength,
+          maxLength,
+        });
+        expect(result.kind).toBe('ok');
+        if (result.kind === 'ok') {
+          expect(result.value).toMatch(new RegExp(pattern, 'u'));
+          expect(result.value.length).toBeGreaterThanOrEqual(minLength);
+          expect(result.value.length).toBeLessThanOrEqual(
+            maxLength ?? Infinity
+          );
+        }
+      }
+    }
+    expect(
+      synthesizer.synthesize({
+        pattern: '^x',
+        canonPath: '/p',
+        minLength: 4,
+        maxLength: 3,
+      })
+    ).toEqual({ kind: 'length-unsatisfiable' });
+  });
+
+  it('classifies patterns outside the automaton subset', () => {
+    const synthesizer = createPatternSynthesizer({ seed: 3 });
+    const reasonOf = (pattern: string): string | undefined => {
+      const result = synthesizer.synthesize({
+        pattern,
+        canonPath: '/p',
+        minLength: 0,
+      });
+      return result.kind === 'unsupported' ? result.reason : undefined;
+    };
+    expect(reasonOf('^(?=a)a$')).toBe('lookaround');
+    expect(reasonOf('^(a)\\1$')).toBe('backreference');
+    expect(reasonOf('^[^a]$')).toBe('unsupportedSyntax');
+    expect(reasonOf('^\\bx$')).toBe('unsupportedSyntax');
+  });
+});
+
+describe('Generator — pattern strings', () => {
+  it('generates pattern-matching strings and reports unsupported patterns once', () => {
+    const schema = {
+      type: 'object',
+      required: ['code', 'guarded'],
+      properties: {
+        code: { type: 'string', pattern: '^[A-Z]{3}-\\d{4}$' },
+        guarded: { type: 'string', pattern: '^(?!x)[a-z]{2}$' },
+      },
+    };
+    const out = generateFromCompose(composeSchema(schema), {
+      count: 3,
+      seed: 11,
+    });
+    const codes = out.items.map(
+      (item) => (item as Record<string, string>).code
+    );
+    for (const code of codes) {
+      expect(code).toMatch(/^[A-Z]{3}-\d{4}$/);
+    }
+    expect(new Set(codes).size).toBeGreaterThan(1);
+
+    const diags = out.diagnostics.filter(
+      (d) => d.code === DIAGNOSTIC_CODES.PATTERN_SYNTHESIS_UNSUPPORTED
+    );
+    expect(diags).toHaveLength(1);
+    expect(diags[0]).toMatchObject({
+      phase: 'generate',
+      canonPath: '/properties/guarded',
+      details: { pattern: '^(?!x)[a-z]{2}$', reason: 'lookaround' },
+    });
+  });
+
+  it('generates unanchored patterns with minLength and reports unsatisfiable windows', () => {
+    const schema = {
+      type: 'object',
+      required: ['loose', 'prefixed', 'tight'],
+      properties: {
+        loose: { type: 'string', pattern: 'ab', minLength: 5 },
+        prefixed: { type: 'string', pattern: '^x', minLength: 4 },
+        tight: { type: 'string', pattern: '^[a-z]{2}$', minLength: 3 },
+      },
+    };
+    const out = generateFromCompose(composeSchema(schema), {
+      count: 2,
+      seed: 4,
+    });
+    for (const item of out.items as Array<Record<string, string>>) {
+      expect(item.loose).toMatch(/ab/);
+      expect(item.loose!.length).toBeGreaterThanOrEqual(5);
+      expect(item.prefixed).toMatch(/^x/);
+      expect(item.prefixed!.length).toBeGreaterThanOrEqual(4);
+    }
+
+    const diags = out.diagnostics.filter(
+      (d) => d.code === DIAGNOSTIC_CODES.PATTERN_SYNTHESIS_UNSUPPORTED
+    );
+    expect(diags).toHaveLength(1);
+    expect(diags[0]).toMatchObject({
+      canonPath: '/properties/tight',
+      details: {
+        pattern: '^[a-z]{2}$',
+        reason: 'lengthUnsatisfiable',
+        minLength: 3,
+      },
+    });
+  });
+
+  it('prefers a format value when it also matches the pattern', () => {
+    const schema = {
+      type: 'string',
+      format: 'uuid',
+      pattern: '^[0-9a-f-]+$',
+    };
+    const out = generateFromCompose(composeSchema(schema), {
+      count: 1,
+      validateFormats: true,
+    });
+    expect(out.items[0]).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    );
+  });
+});
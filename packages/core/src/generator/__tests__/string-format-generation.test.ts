@@ -5,7 +5,10 @@ import addFormats from 'ajv-formats';
 import { normalize } from '../../transform/schema-normalizer.js';
 import { compose, ComposeResult } from '../../transform/composition-engine.js';
 import { generateFromCompose } from '../foundry-generator.js';
-import { createFormatRegistry } from '../format-registry.js';
+import {
+  createFormatRegistry,
+  getNumericFormatRange,
+} from '../format-registry.js';
 
 function composeSchema(schema: unknown): ComposeResult {
   const normalized = normalize(schema);
@@ -41,13 +44,53 @@ describe('FormatRegistry internals', () => {
 
   it('returns unsupported errors for unknown formats', () => {
     const registry = createFormatRegistry({ seed: 55 });
-    const result = registry.generate('hostname');
+    const result = registry.generate('iban');
     expect(result.isErr()).toBe(true);
     expect(result.error).toEqual({
       kind: 'unsupported-format',
-      format: 'hostname',
+      format: 'iban',
     });
   });
+
+  it('fits values to the requested length window', () => {
+    const registry = createFormatRegistry({ seed: 7 });
+
+    const host = registry.generate('hostname', {
+      minLength: 120,
+      maxLength: 130,
+    });
+    expect(host.isOk()).toBe(true);
+    const hostLength = Array.from(host.value ?? '').length;
+    expect(hostLength).toBeGreaterThanOrEqual(120);
+    expect(hostLength).toBeLessThanOrEqual(130);
+
+    const bytes = registry.generate('byte', { minLength: 5, maxLength: 9 });
+    expect(bytes.value).toHaveLength(8);
+
+    const ipv6 = registry.generate('ipv6', { maxLength: 6 });
+    expect(ipv6.isOk()).toBe(true);
+    expect(Array.from(ipv6.value ?? '').length).toBeLessThanOrEqual(6);
+  });
+
+  it('reports length-unsatisfiable instead of truncating', () => {
+    const registry = createFormatRegistry({ seed: 7 });
+    const result = registry.generate('date', { maxLength: 8 });
+    expect(result.isErr()).toBe(true);
+    expect(result.error).toEqual({
+      kind: 'length-unsatisfiable',
+      format: 'date',
+    });
+  });
+
+  it('exposes numeric ranges for OpenAPI numeric formats', () => {
+    expect(getNumericFormatRange('int32')).toEqual({
+      integer: true,
+      minimum: -2147483648,
+      maximum: 2147483647,
+    });
+    expect(getNumericFormatRange('double')?.integer).toBe(false);
+    expect(getNumericFormatRange('email')).toBeUndefined();
+  });
 });
 
 describe('Generator integration with format registry', () => {
@@ -58,12 +101,24 @@ describe('Generator integration with format registry', () => {
   });
   addFormats(ajv);
 
-  const formats: Array<'email' | 'uri' | 'uuid' | 'date-time'> = [
+  const formats = [
     'email',
     'uri',
+    'uri-reference',
+    'uri-template',
     'uuid',
+    'date',
+    'time',
     'date-time',
-  ];
+    'duration',
+    'hostname',
+    'ipv4',
+    'ipv6',
+    'json-pointer',
+    'relative-json-pointer',
+    'regex',
+    'byte',
+  ] as const;
 
   it('produces strings that pass ajv-formats validation', () => {
     for (const format of formats) {
@@ -94,4 +149,34 @@ describe('Generator integration with format registry', () => {
     const value = output.items[0] as string;
     expect(Array.from(value).length).toBeGreaterThanOrEqual(48);
   });
+
+  it('keeps formatted strings valid under tight length bounds', () => {
+    const cases = [
+      { format: 'hostname', minLength: 70, maxLength: 80 },
+      { format: 'ipv4', minLength: 7, maxLength: 8 },
+      { format: 'date-time', maxLength: 20 },
+      { format: 'duration', minLength: 12 },
+      { format: 'email', maxLength: 10 },
+    ];
+    for (const entry of cases) {
+      const schema = { type: 'string', ...entry };
+      const effective = composeSchema(schema);
+      const output = generateFromCompose(effective, {
+        validateFormats: true,
+        seed: 2024,
+      });
+      const validate = ajv.compile(schema);
+      expect(validate(output.items[0])).toBe(true);
+    }
+  });
+
+  it('keeps integers within int32 when the schema bounds exceed it', () => {
+    const schema = { type: 'integer', format: 'int32', maximum: 2 ** 40 };
+    const effective = composeSchema(schema);
+    const output = generateFromCompose(effective, {
+      validateFormats: true,
+      seed: 5,
+    });
+    expect(ajv.compile(schema)(output.items[0])).toBe(true);
+  });
 });
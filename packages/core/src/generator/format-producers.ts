@@ -0,0 +1,307 @@
+import type { XorShift32 } from '../util/rng.js';
+import type { SupportedFormat } from './format-registry.js';
+
+/**
+ * A format producer builds a "natural" value and, when that value does not
+ * fit the requested length window, a value of an exact target length (or
+ * undefined when the format cannot be expressed with that many code points).
+ */
+export interface FormatProducer {
+  natural(rng: XorShift32): string;
+  fit(rng: XorShift32, length: number): string | undefined;
+}
+
+const ALNUM = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const DIGITS = '0123456789';
+const HEX = '0123456789abcdef';
+const BASE64 =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function randomToken(
+  rng: XorShift32,
+  length: number,
+  alphabet: string = ALNUM
+): string {
+  let out = '';
+  for (let idx = 0; idx < length; idx += 1) {
+    out += alphabet.charAt(rng.next() % alphabet.length);
+  }
+  return out;
+}
+
+function suffix36(rng: XorShift32): string {
+  return rng.next().toString(36).padStart(6, '0');
+}
+
+function randomDate(rng: XorShift32): Date {
+  const base = Date.UTC(2024, 0, 1, 0, 0, 0, 0);
+  const dayOffset = rng.next() % 365;
+  const secondOffset = rng.next() % 86400;
+  return new Date(base + dayOffset * 86_400_000 + secondOffset * 1_000);
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function isoTime(date: Date): string {
+  return date.toISOString().slice(11, 19);
+}
+
+function emailProducer(domain: string, shortDomain: string): FormatProducer {
+  return {
+    natural: (rng) => `user.${suffix36(rng)}@${domain}`,
+    fit: (rng, length) => {
+      const host = length >= codePointLength(domain) + 2 ? domain : shortDomain;
+      const localLength = length - codePointLength(host) - 1;
+      if (localLength < 1) return undefined;
+      return `${randomToken(rng, localLength)}@${host}`;
+    },
+  };
+}
+
+function absoluteIriProducer(
+  authority: string,
+  segment: string
+): FormatProducer {
+  const prefix = `https://${authority}/`;
+  return {
+    natural: (rng) => `${prefix}${segment}/${suffix36(rng)}`,
+    fit: (rng, length) => {
+      const prefixLength = codePointLength(prefix);
+      if (length >= prefixLength) {
+        return `${prefix}${randomToken(rng, length - prefixLength)}`;
+      }
+      // Short absolute form: scheme + rootless path (e.g. "urn:x").
+      if (length < 5) return undefined;
+      return `urn:${randomToken(rng, length - 4)}`;
+    },
+  };
+}
+
+function relativeReferenceProducer(segment: string): FormatProducer {
+  return {
+    natural: (rng) => `/${segment}/${suffix36(rng)}`,
+    fit: (rng, length) =>
+      length === 0 ? '' : `/${randomToken(rng, length - 1)}`,
+  };
+}
+
+function fitHostname(rng: XorShift32, length: number): string | undefined {
+  if (length < 1 || length > 253) return undefined;
+  const labels: string[] = [];
+  let remaining = length;
+  while (remaining > 0) {
+    // Leave room for "." plus a one-character label when splitting.
+    const labelLength =
+      remaining <= 63 ? remaining : Math.min(63, remaining - 2);
+    labels.push(randomToken(rng, labelLength));
+    remaining -= labelLength;
+    if (remaining > 0) remaining -= 1;
+  }
+  return labels.join('.');
+}
+
+/**
+ * Split `total` digits into `parts` groups of 1..`maxPerPart` digits each,
+ * front-loading the larger groups. Returns undefined when impossible.
+ */
+function distributeDigits(
+  total: number,
+  parts: number,
+  maxPerPart: number
+): number[] | undefined {
+  if (total < parts || total > parts * maxPerPart) return undefined;
+  const sizes = new Array<number>(parts).fill(1);
+  let extra = total - parts;
+  for (let idx = 0; idx < parts && extra > 0; idx += 1) {
+    const add = Math.min(maxPerPart - 1, extra);
+    sizes[idx] = (sizes[idx] ?? 1) + add;
+    extra -= add;
+  }
+  return sizes;
+}
+
+function octetWithDigits(rng: XorShift32, digits: number): string {
+  if (digits === 1) return String(rng.next() % 10);
+  if (digits === 2) return String(10 + (rng.next() % 90));
+  return String(100 + (rng.next() % 156));
+}
+
+function hexGroup(rng: XorShift32, digits: number): string {
+  // Leading zeros are legal in IPv6 groups; keep the exact digit count.
+  return randomToken(rng, digits, HEX);
+}
+
+function encodeBase64(bytes: number[]): string {
+  let out = '';
+  for (let idx = 0; idx < bytes.length; idx += 3) {
+    const b0 = bytes[idx] ?? 0;
+    const b1 = bytes[idx + 1];
+    const b2 = bytes[idx + 2];
+    const chunk = (b0 << 16) | ((b1 ?? 0) << 8) | (b2 ?? 0);
+    out += BASE64.charAt((chunk >>> 18) & 0x3f);
+    out += BASE64.charAt((chunk >>> 12) & 0x3f);
+    out += b1 === undefined ? '=' : BASE64.charAt((chunk >>> 6) & 0x3f);
+    out += b2 === undefined ? '=' : BASE64.charAt(chunk & 0x3f);
+  }
+  return out;
+}
+
+function randomBytes(rng: XorShift32, count: number): number[] {
+  const bytes: number[] = [];
+  for (let idx = 0; idx < count; idx += 1) {
+    bytes.push(rng.next() & 0xff);
+  }
+  return bytes;
+}
+
+function generateUuid(rng: XorShift32): string {
+  const bytes = new Uint8Array(16);
+  let buffer = 0;
+  let offset = 4;
+  for (let idx = 0; idx < bytes.length; idx += 1) {
+    if (offset >= 4) {
+      buffer = rng.next();
+      offset = 0;
+    }
+    bytes[idx] = (buffer >>> (offset * 8)) & 0xff;
+    offset += 1;
+  }
+  // Enforce RFC 4122 variant 4
+  const variant = bytes[6] ?? 0;
+  bytes[6] = ((variant & 0x0f) | 0x40) & 0xff;
+  const clockSeq = bytes[8] ?? 0;
+  bytes[8] = ((clockSeq & 0x3f) | 0x80) & 0xff;
+  return formatUuid(bytes);
+}
+
+export const FORMAT_PRODUCERS: Record<SupportedFormat, FormatProducer> = {
+  email: emailProducer('example.test', 'x.io'),
+  'idn-email': emailProducer('exämple.test', 'ä.io'),
+  uri: absoluteIriProducer('example.test', 'resource'),
+  iri: absoluteIriProducer('exämple.test', 'ressource'),
+  'uri-reference': relativeReferenceProducer('resource'),
+  'iri-reference': relativeReferenceProducer('résumé'),
+  'uri-template': {
+    natural: () => 'https://example.test/resource/{id}',
+    fit: (rng, length) =>
+      length >= 4
+        ? `${randomToken(rng, length - 4)}{id}`
+        : randomToken(rng, length),
+  },
+  uuid: {
+    natural: generateUuid,
+    fit: (rng, length) =>
+      length === 45 ? `urn:uuid:${generateUuid(rng)}` : undefined,
+  },
+  date: {
+    natural: (rng) => isoDate(randomDate(rng)),
+    fit: () => undefined,
+  },
+  time: {
+    natural: (rng) => `${isoTime(randomDate(rng))}Z`,
+    fit: (rng, length) => {
+      // HH:MM:SS + "." + fraction + "Z"
+      if (length < 11) return undefined;
+      const fraction = randomToken(rng, length - 10, DIGITS);
+      return `${isoTime(randomDate(rng))}.${fraction}Z`;
+    },
+  },
+  'date-time': {
+    natural: (rng) => randomDate(rng).toISOString(),
+    fit: (rng, length) => {
+      const date = randomDate(rng);
+      const stem = `${isoDate(date)}T${isoTime(date)}`;
+      if (length === 20) return `${stem}Z`;
+      if (length < 22) return undefined;
+      return `${stem}.${randomToken(rng, length - 21, DIGITS)}Z`;
+    },
+  },
+  duration: {
+    natural: (rng) => `P${1 + (rng.next() % 30)}DT${rng.next() % 24}H`,
+    fit: (rng, length) => {
+      if (length < 3) return undefined;
+      const digits = `${1 + (rng.next() % 9)}${randomToken(rng, length - 3, DIGITS)}`;
+      return `P${digits}D`;
+    },
+  },
+  hostname: {
+    natural: (rng) => `host-${suffix36(rng)}.example.test`,
+    fit: fitHostname,
+  },
+  'idn-hostname': {
+    natural: (rng) => `bücher-${suffix36(rng)}.example.test`,
+    fit: (rng, length) => {
+      const ascii = fitHostname(rng, length);
+      return ascii === undefined ? undefined : `ü${ascii.slice(1)}`;
+    },
+  },
+  ipv4: {
+    natural: (rng) =>
+      [0, 1, 2, 3].map(() => String(rng.next() % 256)).join('.'),
+    fit: (rng, length) => {
+      const sizes = distributeDigits(length - 3, 4, 3);
+      return sizes?.map((digits) => octetWithDigits(rng, digits)).join('.');
+    },
+  },
+  ipv6: {
+    natural: (rng) =>
+      [0, 1, 2, 3, 4, 5, 6, 7]
+        .map(() => (rng.next() & 0xffff).toString(16))
+        .join(':'),
+    fit: (rng, length) => {
+      if (length === 2) return '::';
+      if (length >= 15) {
+        const sizes = distributeDigits(length - 7, 8, 4);
+        return sizes?.map((digits) => hexGroup(rng, digits)).join(':');
+      }
+      if (length < 3) return undefined;
+      // Compressed form "::g1:g2..." with up to 7 trailing groups.
+      const remaining = length - 2;
+      const groups = Math.ceil((remaining + 1) / 5);
+      const sizes = distributeDigits(remaining - (groups - 1), groups, 4);
+      return sizes === undefined
+        ? undefined
+        : `::${sizes.map((digits) => hexGroup(rng, digits)).join(':')}`;
+    },
+  },
+  'json-pointer': relativeReferenceProducer('resource'),
+  'relative-json-pointer': {
+    natural: (rng) => `1/${suffix36(rng)}`,
+    fit: (rng, length) => {
+      if (length < 1) return undefined;
+      return length === 1 ? '0' : `0/${randomToken(rng, length - 2)}`;
+    },
+  },
+  regex: {
+    natural: (rng) => `^${suffix36(rng)}$`,
+    fit: (rng, length) => randomToken(rng, length),
+  },
+  byte: {
+    natural: (rng) => encodeBase64(randomBytes(rng, 6)),
+    fit: (rng, length) =>
+      length % 4 === 0
+        ? encodeBase64(randomBytes(rng, (length / 4) * 3))
+        : undefined,
+  },
+  binary: {
+    natural: (rng) => randomToken(rng, 8, HEX),
+    fit: (rng, length) => randomToken(rng, length, HEX),
+  },
+};
+
+export function codePointLength(value: string): number {
+  return Array.from(value).length;
+}
+
+function formatUuid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0'));
+  return [
+    hex.slice(0, 4).join(''),
+    hex.slice(4, 6).join(''),
+    hex.slice(6, 8).join(''),
+    hex.slice(8, 10).join(''),
+    hex.slice(10, 16).join(''),
+  ].join('-');
+}
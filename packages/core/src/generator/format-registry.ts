@@ -1,13 +1,69 @@
 import { XorShift32 } from '../util/rng.js';
+import type {
+  CustomFormatDefinition,
+  CustomFormats,
+} from '../types/formats.js';
+import {
+  FORMAT_PRODUCERS,
+  codePointLength,
+  type FormatProducer,
+} from './format-producers.js';
 
-export type SupportedFormat = 'email' | 'uri' | 'uuid' | 'date-time';
+export type SupportedFormat =
+  | 'email'
+  | 'idn-email'
+  | 'uri'
+  | 'uri-reference'
+  | 'iri'
+  | 'iri-reference'
+  | 'uri-template'
+  | 'uuid'
+  | 'date'
+  | 'time'
+  | 'date-time'
+  | 'duration'
+  | 'hostname'
+  | 'idn-hostname'
+  | 'ipv4'
+  | 'ipv6'
+  | 'json-pointer'
+  | 'relative-json-pointer'
+  | 'regex'
+  | 'byte'
+  | 'binary';
+
+/**
+ * OpenAPI numeric formats. These do not produce strings; they narrow the
+ * numeric range used by the generator (see getNumericFormatRange).
+ */
+export type NumericFormat = 'int32' | 'int64' | 'float' | 'double';
 
 export interface FormatRegistryOptions {
   seed: number;
+  /**
+   * Caller-registered format generators. They take precedence over the
+   * built-in producers for the same (case-insensitive) format name.
+   */
+  customFormats?: CustomFormats;
+  /**
+   * When false, only customFormats are generated and built-in formats
+   * report unsupported-format. Defaults to true.
+   */
+  includeBuiltins?: boolean;
+}
+
+/**
+ * Length window (in Unicode code points) the generated value must fit.
+ * Producers build a value of a compatible length instead of truncating,
+ * so the result stays valid for the format.
+ */
+export interface FormatLengthConstraints {
+  minLength?: number;
+  maxLength?: number;
 }
 
 export interface FormatGenerationError {
-  kind: 'unsupported-format';
+  kind: 'unsupported-format' | 'length-unsatisfiable';
   format: string;
 }
 
@@ -19,7 +75,16 @@ export interface FormatGenerationResult {
 }
 
 export interface FormatRegistry {
-  generate(format: string): FormatGenerationResult;
+  generate(
+    format: string,
+    constraints?: FormatLengthConstraints
+  ): FormatGenerationResult;
+}
+
+export interface NumericFormatRange {
+  integer: boolean;
+  minimum: number;
+  maximum: number;
 }
 
 class FormatGenerationSuccess implements FormatGenerationResult {
@@ -62,111 +127,169 @@ export function createFormatRegistry(
   return new DefaultFormatRegistry(options);
 }
 
+const NUMERIC_FORMAT_RANGES: Record<NumericFormat, NumericFormatRange> = {
+  int32: { integer: true, minimum: -(2 ** 31), maximum: 2 ** 31 - 1 },
+  // int64 is capped to the safe-integer window so values round-trip in JSON.
+  int64: {
+    integer: true,
+    minimum: Number.MIN_SAFE_INTEGER,
+    maximum: Number.MAX_SAFE_INTEGER,
+  },
+  float: {
+    integer: false,
+    minimum: -3.4028234663852886e38,
+    maximum: 3.4028234663852886e38,
+  },
+  double: {
+    integer: false,
+    minimum: -Number.MAX_VALUE,
+    maximum: Number.MAX_VALUE,
+  },
+};
+
+/**
+ * Return the representable range for an OpenAPI numeric format
+ * (int32/int64/float/double), or undefined for any other format.
+ */
+export function getNumericFormatRange(
+  format: string
+): NumericFormatRange | undefined {
+  const normalized = format.toLowerCase();
+  if (
+    !Object.prototype.hasOwnProperty.call(NUMERIC_FORMAT_RANGES, normalized)
+  ) {
+    return undefined;
+  }
+  return NUMERIC_FORMAT_RANGES[normalized as NumericFormat];
+}
+
+// Bound the number of target lengths probed when fitting a window.
+const FIT_PROBE_LIMIT = 8;
+
 class DefaultFormatRegistry implements FormatRegistry {
   private readonly seed: number;
 
-  private readonly counters: Record<SupportedFormat, number> = {
-    email: 0,
-    uri: 0,
-    uuid: 0,
-    'date-time': 0,
-  };
+  private readonly counters = new Map<string, number>();
+
+  private readonly customFormats: Map<string, CustomFormatDefinition>;
+
+  private readonly includeBuiltins: boolean;
 
   constructor(options: FormatRegistryOptions) {
     this.seed = options.seed >>> 0;
+    this.includeBuiltins = options.includeBuiltins !== false;
+    this.customFormats = new Map(
+      Object.entries(options.customFormats ?? {}).map(([name, def]) => [
+        name.toLowerCase(),
+        def,
+      ])
+    );
   }
 
-  generate(format: string): FormatGenerationResult {
+  generate(
+    format: string,
+    constraints: FormatLengthConstraints = {}
+  ): FormatGenerationResult {
     const normalized = format.toLowerCase();
-    if (!isSupportedFormat(normalized)) {
+    const custom = this.customFormats.get(normalized);
+    if (custom) {
+      return this.generateCustom(custom, normalized, format, constraints);
+    }
+    if (!this.includeBuiltins || !isSupportedFormat(normalized)) {
       return new FormatGenerationFailure({
         kind: 'unsupported-format',
         format,
       });
     }
 
-    switch (normalized) {
-      case 'email':
-        return new FormatGenerationSuccess(this.generateEmail());
-      case 'uri':
-        return new FormatGenerationSuccess(this.generateUri());
-      case 'uuid':
-        return new FormatGenerationSuccess(this.generateUuid());
-      case 'date-time':
-        return new FormatGenerationSuccess(this.generateDateTime());
-      default:
-        return new FormatGenerationFailure({
-          kind: 'unsupported-format',
-          format,
-        });
+    const producer = FORMAT_PRODUCERS[normalized];
+    const rng = this.nextRng(normalized);
+    const minLength = Math.max(0, Math.floor(constraints.minLength ?? 0));
+    const maxLength =
+      typeof constraints.maxLength === 'number'
+        ? Math.floor(constraints.maxLength)
+        : undefined;
+    if (maxLength !== undefined && maxLength < minLength) {
+      return new FormatGenerationFailure({
+        kind: 'length-unsatisfiable',
+        format,
+      });
+    }
+
+    const value = fitToWindow(producer, rng, minLength, maxLength);
+    if (value === undefined) {
+      return new FormatGenerationFailure({
+        kind: 'length-unsatisfiable',
+        format,
+      });
     }
+    return new FormatGenerationSuccess(value);
   }
 
-  private nextRng(format: SupportedFormat): XorShift32 {
-    const index = this.counters[format];
-    this.counters[format] = index + 1;
-    return new XorShift32(this.seed, `format:${format}:${index}`);
+  private generateCustom(
+    definition: CustomFormatDefinition,
+    normalized: string,
+    format: string,
+    constraints: FormatLengthConstraints
+  ): FormatGenerationResult {
+    const index = this.counters.get(normalized) ?? 0;
+    const value = definition.generate({
+      rng: this.nextRng(normalized),
+      index,
+      seed: this.seed,
+      minLength: constraints.minLength,
+      maxLength: constraints.maxLength,
+    });
+    const length = codePointLength(value);
+    if (
+      (constraints.minLength !== undefined && length < constraints.minLength) ||
+      (constraints.maxLength !== undefined && length > constraints.maxLength)
+    ) {
+      return new FormatGenerationFailure({
+        kind: 'length-unsatisfiable',
+        format,
+      });
+    }
+    return new FormatGenerationSuccess(value);
   }
 
-  private generateEmail(): string {
-    const rng = this.nextRng('email');
-    const suffix = rng.next().toString(36).padStart(6, '0');
-    return `user.${suffix}@example.test`;
+  private nextRng(format: string): XorShift32 {
+    const index = this.counters.get(format) ?? 0;
+    this.counters.set(format, index + 1);
+    return new XorShift32(this.seed, `format:${format}:${index}`);
   }
+}
 
-  private generateUri(): string {
-    const rng = this.nextRng('uri');
-    const segment = rng.next().toString(36).padStart(6, '0');
-    return `https://example.test/resource/${segment}`;
+function fitToWindow(
+  producer: FormatProducer,
+  rng: XorShift32,
+  minLength: number,
+  maxLength: number | undefined
+): string | undefined {
+  const natural = producer.natural(rng);
+  const naturalLength = codePointLength(natural);
+  if (
+    naturalLength >= minLength &&
+    (maxLength === undefined || naturalLength <= maxLength)
+  ) {
+    return natural;
   }
 
-  private generateUuid(): string {
-    const rng = this.nextRng('uuid');
-    const bytes = new Uint8Array(16);
-    let buffer = 0;
-    let offset = 4;
-    for (let idx = 0; idx < bytes.length; idx += 1) {
-      if (offset >= 4) {
-        buffer = rng.next();
-        offset = 0;
-      }
-      bytes[idx] = (buffer >>> (offset * 8)) & 0xff;
-      offset += 1;
+  // Probe towards the inside of the window, starting from the bound that
+  // the natural value violated.
+  const growing = naturalLength < minLength;
+  for (let step = 0; step < FIT_PROBE_LIMIT; step += 1) {
+    const target = growing ? minLength + step : (maxLength as number) - step;
+    if (target < minLength) break;
+    if (maxLength !== undefined && target > maxLength) break;
+    const value = producer.fit(rng, target);
+    if (value !== undefined && codePointLength(value) === target) {
+      return value;
     }
-    // Enforce RFC 4122 variant 4
-    const variant = bytes[6] ?? 0;
-    bytes[6] = ((variant & 0x0f) | 0x40) & 0xff;
-    const clockSeq = bytes[8] ?? 0;
-    bytes[8] = ((clockSeq & 0x3f) | 0x80) & 0xff;
-    return formatUuid(bytes);
   }
-
-  private generateDateTime(): string {
-    const rng = this.nextRng('date-time');
-    const base = Date.UTC(2024, 0, 1, 0, 0, 0, 0);
-    const dayOffset = rng.next() % 365;
-    const secondOffset = rng.next() % 86400;
-    const timestamp = base + dayOffset * 86_400_000 + secondOffset * 1_000;
-    return new Date(timestamp).toISOString();
-  }
-}
-
-function formatUuid(bytes: Uint8Array): string {
-  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0'));
-  return [
-    hex.slice(0, 4).join(''),
-    hex.slice(4, 6).join(''),
-    hex.slice(6, 8).join(''),
-    hex.slice(8, 10).join(''),
-    hex.slice(10, 16).join(''),
-  ].join('-');
+  return undefined;
 }
 
 function isSupportedFormat(value: string): value is SupportedFormat {
-  return (
-    value === 'email' ||
-    value === 'uri' ||
-    value === 'uuid' ||
-    value === 'date-time'
-  );
+  return Object.prototype.hasOwnProperty.call(FORMAT_PRODUCERS, value);
 }
@@ -21,6 +21,11 @@ import {
   type ContainsNeed,
 } from '../transform/arrays/contains-bag.js';
 import type { NormalizerNote } from '../transform/schema-normalizer.js';
+import {
+  resolveDiscriminator,
+  type DiscriminatorEntry,
+  type DiscriminatorPlan,
+} from '../transform/discriminator.js';
 import type { MetricsCollector } from '../util/metrics.js';
 import {
   resolveOptions,
@@ -28,18 +33,36 @@ import {
   type ResolvedOptions,
 } from '../types/options.js';
 import type { Schema } from '../types/schema.js';
+import type { CustomFormats } from '../types/formats.js';
 import { structuralHash } from '../util/struct-hash.js';
 import {
   createFormatRegistry,
+  getNumericFormatRange,
   type FormatRegistry,
 } from './format-registry.js';
+import {
+  createPatternSynthesizer,
+  type PatternSynthesizer,
+  type PatternUnsupportedReason,
+} from './pattern-synthesizer.js';
 import { XorShift32, normalizeSeed } from '../util/rng.js';
+import {
+  generateLocaleString,
+  inferLocaleFieldKind,
+  resolveLocalePack,
+  type LocalePack,
+} from './locale-packs.js';
 import {
   createSourceAjv,
   detectDialectFromSchema,
   type JsonSchemaDialect,
 } from '../util/ajv-source.js';
 import { resolveDynamicRefBinding } from '../util/draft.js';
+import {
+  encodeContent,
+  isSupportedContent,
+  serializeContent,
+} from '../util/content-codec.js';
 import { synthesizePatternExample } from '../util/pattern-literals.js';
 import {
   hydrateSourceAjvFromRegistry,
@@ -52,7 +75,11 @@ import {
 } from '../transform/g-valid-classifier.js';
 import type Ajv from 'ajv';
 import type { ValidateFunction } from 'ajv';
-import type { CoverageEvent, CoverageHint } from '../coverage/index.js';
+import type {
+  CoverageBoundaryHint,
+  CoverageEvent,
+  CoverageHint,
+} from '../coverage/index.js';
 import { resolveCoverageHintConflicts } from '../coverage/index.js';
 
 type JsonPointer = string;
@@ -142,6 +169,12 @@ interface GeneratorCoverageOptions {
    * and enum values without violating AJV validity.
    */
   hints?: CoverageHint[];
+  /**
+   * Rotate several hints of one kind on a node (e.g. two uncovered enum
+   * values) across instances instead of always applying the first one.
+   * Set for gap-fill runs, whose few instances must reach every gap.
+   */
+  rotateHints?: boolean;
   /**
    * Optional callback for recording unsatisfied hints in guided mode.
    * When provided, the generator may report hints that could not be
@@ -166,6 +199,11 @@ export interface FoundryGeneratorOptions {
   /** Mirror planning AJV flags to maintain parity per SPEC §§12–13 */
   validateFormats?: boolean;
   discriminator?: boolean;
+  /**
+   * Caller-registered formats. Their generators take precedence over the
+   * built-in FormatRegistry and are used even when validateFormats is off.
+   */
+  formats?: CustomFormats;
   /** Resolver registry documents for Source AJV hydration (Extension R1) */
   registryDocs?: RegistryDoc[];
   resolverHydrateFinalAjv?: boolean;
@@ -178,6 +216,13 @@ export interface FoundryGeneratorOptions {
    * when no example is present.
    */
   preferExamples?: boolean;
+  /**
+   * Locale for unconstrained strings (no pattern/format), e.g. 'fr' or
+   * 'de-AT'. Property names such as firstName, city or phone select the
+   * matching word list. Unset or unsupported locales keep the default
+   * minimal strings.
+   */
+  locale?: string;
   /**
    * Optional passive coverage hook for generator instrumentation.
    * When provided with mode 'measure' or 'guided', the generator
@@ -200,6 +245,28 @@ export function generateFromCompose(
   return engine.run();
 }
 
+/**
+ * Incremental generator used by streaming pipeline runs. `next(count)`
+ * continues the same deterministic sequence as generateFromCompose, and
+ * `finish()` returns diagnostics/metrics for everything produced (with an
+ * empty items list, since items were already handed out).
+ */
+export interface GeneratorSession {
+  next(count: number): unknown[];
+  finish(): GeneratorStageOutput;
+}
+
+export function createGeneratorSession(
+  effective: ComposeResult,
+  options: FoundryGeneratorOptions = {}
+): GeneratorSession {
+  const engine = new GeneratorEngine(effective, options);
+  return {
+    next: (count) => engine.generateItems(Math.max(0, Math.floor(count))),
+    finish: () => engine.finish([]),
+  };
+}
+
 class GeneratorEngine {
   private readonly resolved: ResolvedOptions;
 
@@ -232,10 +299,13 @@ class GeneratorEngine {
   private readonly conditionalBlocklist: Map<string, Set<string>> = new Map();
   private readonly shouldRecordEvalTrace: boolean;
   private readonly formatRegistry?: FormatRegistry;
+  private readonly patternSynthesizer: PatternSynthesizer;
+  private readonly unsupportedPatternPaths = new Set<JsonPointer>();
   private readonly pendingExclusivityRand = new Map<JsonPointer, number>();
   private readonly stringTweakOrder: ReadonlyArray<'\u0000' | 'a'>;
   private readonly multipleOfEpsilon: number;
   private readonly preferExamples: boolean;
+  private readonly localePack?: LocalePack;
   private readonly coverage?: GeneratorCoverageOptions;
   private readonly coverageHintsByPath?:
     | Map<JsonPointer, ResolvedCoverageHintsForPath>
@@ -434,11 +504,18 @@ class GeneratorEngine {
       this.resolved.patternWitness.alphabet
     );
     this.baseSeed = normalizeSeed(options.seed);
-    if (options.validateFormats === true) {
+    const hasCustomFormats =
+      options.formats !== undefined && Object.keys(options.formats).length > 0;
+    if (options.validateFormats === true || hasCustomFormats) {
       this.formatRegistry = createFormatRegistry({
         seed: this.baseSeed,
+        customFormats: options.formats,
+        includeBuiltins: options.validateFormats === true,
       });
     }
+    this.patternSynthesizer = createPatternSynthesizer({
+      seed: this.baseSeed,
+    });
     this.gValidIndex = options.gValidIndex;
     this.rootSchema = effective.canonical.schema;
     this.ptrMap = effective.canonical.ptrMap;
@@ -458,6 +535,7 @@ class GeneratorEngine {
       `1e-${this.resolved.rational.decimalPrecision}`
     );
     this.preferExamples = options.preferExamples === true;
+    this.localePack = resolveLocalePack(options.locale);
     this.coverage = options.coverage;
     this.coverageHintsByPath =
       this.coverage &&
@@ -478,14 +556,27 @@ class GeneratorEngine {
 
   private readonly rootSchema: Schema | unknown;
 
+  private nextItemIndex = 0;
+
   run(): GeneratorStageOutput {
     const count = Math.max(1, Math.floor(this.options.count ?? 1));
+    const items = this.generateItems(count);
+    return this.finish(items);
+  }
+
+  /**
+   * Generate the next `count` items, continuing the item index sequence
+   * from previous calls so chunked runs match a single run item-for-item.
+   */
+  generateItems(count: number): unknown[] {
     // Pre-warm Source AJV when original schema is provided so dialect is resolved eagerly.
-    if (this.sourceSchema !== undefined) {
+    if (this.nextItemIndex === 0 && this.sourceSchema !== undefined) {
       this.getOrCreateSourceAjv();
     }
     const items: unknown[] = [];
-    for (let index = 0; index < count; index += 1) {
+    for (let produced = 0; produced < count; produced += 1) {
+      const index = this.nextItemIndex;
+      this.nextItemIndex += 1;
       this.currentItemIndex = index;
       items.push(
         this.withInstancePath('', () =>
@@ -493,7 +584,10 @@ class GeneratorEngine {
         )
       );
     }
+    return items;
+  }
 
+  finish(items: unknown[]): GeneratorStageOutput {
     const metrics: GeneratorStageOutput['metrics'] = {};
     if (this.patternWitnessTrials > 0) {
       metrics.patternWitnessTried = this.patternWitnessTrials;
@@ -522,6 +616,22 @@ class GeneratorEngine {
     return result;
   }
 
+  /**
+   * Hint of `kind` for the current instance: the first one, or with
+   * coverage.rotateHints the next one for each instance.
+   */
+  private pickHint<K extends CoverageHint['kind']>(
+    hints: CoverageHint[],
+    kind: K
+  ): Extract<CoverageHint, { kind: K }> | undefined {
+    const candidates = hints.filter(
+      (hint): hint is Extract<CoverageHint, { kind: K }> => hint.kind === kind
+    );
+    if (candidates.length === 0) return undefined;
+    if (!this.coverage?.rotateHints) return candidates[0];
+    return candidates[(this.currentItemIndex ?? 0) % candidates.length];
+  }
+
   private getEnumHintIndex(
     canonPath: JsonPointer,
     values: unknown[]
@@ -533,10 +643,8 @@ class GeneratorEngine {
     const key = canonicalizeCoveragePath(canonPath);
     const resolved = this.coverageHintsByPath.get(key);
     if (!resolved) return undefined;
-    const enumHint = resolved.effective.find(
-      (hint) => hint.kind === 'coverEnumValue'
-    ) as CoverageHint | undefined;
-    if (!enumHint || enumHint.kind !== 'coverEnumValue') return undefined;
+    const enumHint = this.pickHint(resolved.effective, 'coverEnumValue');
+    if (!enumHint) return undefined;
     const index = enumHint.params.valueIndex;
     if (
       typeof index === 'number' &&
@@ -558,6 +666,51 @@ class GeneratorEngine {
     return undefined;
   }
 
+  /**
+   * Boundary hint of `kind` at canonPath for the current instance. Several
+   * hints on one node (e.g. minimum and maximum) rotate across instances so
+   * each bound is reached once the run has enough of them.
+   */
+  private takeBoundaryHint<K extends CoverageBoundaryHint['kind']>(
+    canonPath: JsonPointer | undefined,
+    kind: K
+  ):
+    | { hint: Extract<CoverageBoundaryHint, { kind: K }>; key: JsonPointer }
+    | undefined {
+    if (
+      canonPath === undefined ||
+      !this.coverage ||
+      this.coverage.mode !== 'guided'
+    ) {
+      return undefined;
+    }
+    if (!this.coverageHintsByPath) return undefined;
+    const key = canonicalizeCoveragePath(canonPath);
+    const resolved = this.coverageHintsByPath.get(key);
+    if (!resolved) return undefined;
+    const candidates = resolved.effective.filter(
+      (hint) => hint.kind === kind
+    ) as Array<Extract<CoverageBoundaryHint, { kind: K }>>;
+    if (candidates.length === 0) return undefined;
+    const itemIndex = this.currentItemIndex ?? 0;
+    return { hint: candidates[itemIndex % candidates.length]!, key };
+  }
+
+  private recordUnsatisfiedBoundaryHint(
+    hint: CoverageBoundaryHint,
+    key: JsonPointer,
+    reasonDetail: string,
+    reasonCode: UnsatisfiedHint['reasonCode'] = 'CONFLICTING_CONSTRAINTS'
+  ): void {
+    this.recordUnsatisfiedHint({
+      kind: hint.kind,
+      canonPath: key,
+      params: { ...hint.params },
+      reasonCode,
+      reasonDetail,
+    });
+  }
+
   private generateValue(
     schema: unknown,
     canonPath: JsonPointer,
@@ -609,7 +762,7 @@ class GeneratorEngine {
       case 'array':
         return this.generateArray(obj, effectiveCanonPath, itemIndex);
       case 'string':
-        return this.generateString(obj);
+        return this.generateString(obj, effectiveCanonPath);
       case 'integer':
         return this.generateInteger(obj);
       case 'number':
@@ -1428,10 +1581,8 @@ class GeneratorEngine {
     const key = canonicalizeCoveragePath(canonPath);
     const resolved = this.coverageHintsByPath.get(key);
     if (!resolved) return undefined;
-    const hint = resolved.effective.find(
-      (entry) => entry.kind === 'preferBranch'
-    ) as CoverageHint | undefined;
-    if (!hint || hint.kind !== 'preferBranch') return undefined;
+    const hint = this.pickHint(resolved.effective, 'preferBranch');
+    if (!hint) return undefined;
     const index = hint.params.branchIndex;
     if (
       typeof index === 'number' &&
@@ -1569,6 +1720,7 @@ class GeneratorEngine {
         dialect,
         validateFormats: Boolean(this.options.validateFormats),
         discriminator: Boolean(this.options.discriminator),
+        formats: this.options.formats,
         multipleOfPrecision:
           this.resolved.rational.fallback === 'decimal' ||
           this.resolved.rational.fallback === 'float'
@@ -2013,10 +2165,15 @@ class GeneratorEngine {
       prefixItems.length,
       containsContributions
     );
+    const sizeHint = this.takeArraySizeHint(schema, canonPath, hardCap);
+    const hintedBaseline =
+      sizeHint?.hint.params.boundaryKind === 'maxItems'
+        ? Math.max(uncappedBaseline, sizeHint.target)
+        : uncappedBaseline;
     const baseline =
       hardCap !== undefined
-        ? Math.min(uncappedBaseline, hardCap)
-        : uncappedBaseline;
+        ? Math.min(hintedBaseline, hardCap)
+        : hintedBaseline;
 
     if (schema.uniqueItems !== true) {
       while (
@@ -2071,10 +2228,70 @@ class GeneratorEngine {
       }
     }
 
+    if (sizeHint) {
+      if (result.length === sizeHint.target) {
+        this.recordHintApplication(sizeHint.hint, sizeHint.key);
+      } else {
+        this.recordUnsatisfiedBoundaryHint(
+          sizeHint.hint,
+          sizeHint.key,
+          `array at ${sizeHint.key} has ${result.length} items, expected ${sizeHint.target}`
+        );
+      }
+    }
+
     this.recordArrayBoundaryHits(schema, canonPath, result.length);
     return result;
   }
 
+  /**
+   * Pending hitArraySize hint at canonPath with the item count it asks for.
+   * Hints the generator cannot reach are recorded as unsatisfied up front.
+   */
+  private takeArraySizeHint(
+    schema: Record<string, unknown>,
+    canonPath: JsonPointer,
+    hardCap: number | undefined
+  ):
+    | {
+        hint: Extract<CoverageBoundaryHint, { kind: 'hitArraySize' }>;
+        key: JsonPointer;
+        target: number;
+      }
+    | undefined {
+    const taken = this.takeBoundaryHint(canonPath, 'hitArraySize');
+    if (!taken) return undefined;
+    const { hint, key } = taken;
+    const bound = schema[hint.params.boundaryKind];
+    if (typeof bound !== 'number') {
+      this.recordUnsatisfiedBoundaryHint(
+        hint,
+        key,
+        `${hint.params.boundaryKind} is not declared at ${key}`
+      );
+      return undefined;
+    }
+    const target = Math.max(0, Math.floor(bound));
+    if (target > BOUNDARY_HINT_SIZE_CAP) {
+      this.recordUnsatisfiedBoundaryHint(
+        hint,
+        key,
+        `${hint.params.boundaryKind}=${target} exceeds the boundary hint cap (${BOUNDARY_HINT_SIZE_CAP})`,
+        'PLANNER_CAP'
+      );
+      return undefined;
+    }
+    if (hardCap !== undefined && target > hardCap) {
+      this.recordUnsatisfiedBoundaryHint(
+        hint,
+        key,
+        `${hint.params.boundaryKind}=${target} exceeds the effective item cap ${hardCap}`
+      );
+      return undefined;
+    }
+    return { hint, key, target };
+  }
+
   private satisfyContainsNeeds(
     needs: ContainsNeed[],
     result: unknown[],
@@ -2513,7 +2730,47 @@ class GeneratorEngine {
     }
   }
 
-  private generateString(schema: Record<string, unknown>): string {
+  /**
+   * Encoded content (JSON Schema validation §8): an instance of
+   * contentSchema, serialized per contentMediaType and encoded per
+   * contentEncoding. contentSchema is only honoured next to
+   * contentMediaType; without one the payload is `{}` (JSON) or empty text.
+   * Undefined when the schema declares no content or an unsupported media
+   * type or encoding, so the caller falls back to plain strings.
+   */
+  private generateContentString(
+    schema: Record<string, unknown>,
+    canonPath: JsonPointer
+  ): string | undefined {
+    const mediaType =
+      typeof schema.contentMediaType === 'string'
+        ? schema.contentMediaType
+        : undefined;
+    const encoding =
+      typeof schema.contentEncoding === 'string'
+        ? schema.contentEncoding
+        : undefined;
+    if (mediaType === undefined && encoding === undefined) return undefined;
+    if (!isSupportedContent(mediaType, encoding)) return undefined;
+
+    let payload: unknown = mediaType === undefined ? '' : {};
+    if (mediaType !== undefined && schema.contentSchema !== undefined) {
+      payload = this.generateValue(
+        schema.contentSchema,
+        appendPointer(canonPath, 'contentSchema'),
+        this.currentItemIndex ?? 0
+      );
+    } else if (serializeContent(payload, mediaType) === undefined) {
+      payload = '';
+    }
+    const text = serializeContent(payload, mediaType);
+    return text === undefined ? undefined : encodeContent(text, encoding);
+  }
+
+  private generateString(
+    schema: Record<string, unknown>,
+    canonPath: JsonPointer
+  ): string {
     // const/enum outrank type
     if (schema.const !== undefined && typeof schema.const === 'string') {
       const value = schema.const as string;
@@ -2541,37 +2798,76 @@ class GeneratorEngine {
         : undefined;
     const padChar = this.normalizedAlphabet[0] ?? 'a';
 
+    const content = this.generateContentString(schema, canonPath);
+    if (
+      content !== undefined &&
+      codePointLength(content) >= minLength &&
+      (maxLength === undefined || codePointLength(content) <= maxLength)
+    ) {
+      this.recordStringBoundaryHits(schema, content);
+      return content;
+    }
+
+    const hinted = this.generateStringLengthBoundary(
+      schema,
+      canonPath,
+      minLength,
+      maxLength
+    );
+    if (hinted !== undefined) {
+      this.recordStringBoundaryHits(schema, hinted);
+      return hinted;
+    }
+
     if (typeof schema.pattern === 'string') {
-      const patternValue = synthesizePatternExample(schema.pattern);
-      if (patternValue !== undefined) {
-        const patternLength = codePointLength(patternValue);
-        if (
-          patternLength >= minLength &&
-          (maxLength === undefined || patternLength <= maxLength)
-        ) {
-          const value = patternValue;
-          this.recordStringBoundaryHits(schema, value);
-          return value;
-        }
+      const value = this.generatePatternString(
+        schema,
+        schema.pattern,
+        canonPath,
+        minLength,
+        maxLength
+      );
+      if (value !== undefined) {
+        this.recordStringBoundaryHits(schema, value);
+        return value;
       }
     }
 
     // format-aware generation (best-effort when formats are validated)
     if (this.formatRegistry && typeof schema.format === 'string') {
-      const res = this.formatRegistry.generate(schema.format);
+      // The registry fits the value to the length window itself; when it
+      // cannot, fall through to padding rather than truncating a formatted
+      // value into an invalid one.
+      const res = this.formatRegistry.generate(schema.format, {
+        minLength,
+        maxLength,
+      });
       if (res.isOk()) {
-        let value = res.value;
-        if (codePointLength(value) < minLength) {
-          value = ensureMinCodePoints(value, minLength, padChar);
-        }
-        if (maxLength !== undefined && codePointLength(value) > maxLength) {
-          value = truncateToCodePoints(value, maxLength);
-        }
+        const value = res.value;
         this.recordStringBoundaryHits(schema, value);
         return value;
       }
     }
 
+    if (
+      this.localePack &&
+      typeof schema.pattern !== 'string' &&
+      typeof schema.format !== 'string'
+    ) {
+      const value = generateLocaleString(
+        this.localePack,
+        inferLocaleFieldKind(lastPointerToken(this.currentInstancePath)),
+        new XorShift32(
+          this.baseSeed,
+          `locale:${canonPath}:${this.currentInstancePath}:${this.currentItemIndex ?? 0}`
+        ),
+        minLength,
+        maxLength
+      );
+      this.recordStringBoundaryHits(schema, value);
+      return value;
+    }
+
     let candidate = minLength === 0 ? '' : repeatCodePoint(padChar, minLength);
     if (maxLength !== undefined && codePointLength(candidate) > maxLength) {
       candidate = truncateToCodePoints(candidate, maxLength);
@@ -2580,6 +2876,127 @@ class GeneratorEngine {
     return candidate;
   }
 
+  /**
+   * String whose length sits on the bound named by a pending hitStringLength
+   * hint, produced through the same pattern / format / padding paths as
+   * regular generation. Returns undefined when no such string is found.
+   */
+  private generateStringLengthBoundary(
+    schema: Record<string, unknown>,
+    canonPath: JsonPointer,
+    minLength: number,
+    maxLength: number | undefined
+  ): string | undefined {
+    const taken = this.takeBoundaryHint(canonPath, 'hitStringLength');
+    if (!taken) return undefined;
+    const { hint, key } = taken;
+    const length =
+      hint.params.boundaryKind === 'minLength' ? minLength : maxLength;
+    if (length === undefined || length > BOUNDARY_HINT_SIZE_CAP) {
+      this.recordUnsatisfiedBoundaryHint(
+        hint,
+        key,
+        length === undefined
+          ? `maxLength is not declared at ${key}`
+          : `${hint.params.boundaryKind}=${length} exceeds the boundary hint cap (${BOUNDARY_HINT_SIZE_CAP})`,
+        length === undefined ? 'CONFLICTING_CONSTRAINTS' : 'PLANNER_CAP'
+      );
+      return undefined;
+    }
+    let value: string | undefined;
+    if (typeof schema.pattern === 'string') {
+      value = this.generatePatternString(
+        schema,
+        schema.pattern,
+        canonPath,
+        length,
+        length
+      );
+    } else if (this.formatRegistry && typeof schema.format === 'string') {
+      const res = this.formatRegistry.generate(schema.format, {
+        minLength: length,
+        maxLength: length,
+      });
+      value = res.isOk() ? res.value : undefined;
+    } else {
+      value = repeatCodePoint(this.normalizedAlphabet[0] ?? 'a', length);
+    }
+    if (value === undefined || codePointLength(value) !== length) {
+      this.recordUnsatisfiedBoundaryHint(
+        hint,
+        key,
+        `no string of length ${length} satisfies the constraints at ${key}`
+      );
+      return undefined;
+    }
+    this.recordHintApplication(hint, key);
+    return value;
+  }
+
+  private generatePatternString(
+    schema: Record<string, unknown>,
+    pattern: string,
+    canonPath: JsonPointer,
+    minLength: number,
+    maxLength: number | undefined
+  ): string | undefined {
+    // A formatted value that also matches the pattern satisfies both
+    // keywords; otherwise the pattern wins and the automaton walk decides.
+    if (this.formatRegistry && typeof schema.format === 'string') {
+      const res = this.formatRegistry.generate(schema.format, {
+        minLength,
+        maxLength,
+      });
+      if (res.isOk() && this.patternSynthesizer.matches(pattern, res.value)) {
+        return res.value;
+      }
+    }
+
+    const result = this.patternSynthesizer.synthesize({
+      pattern,
+      canonPath,
+      minLength,
+      maxLength,
+    });
+    if (result.kind === 'ok') {
+      return result.value;
+    }
+    if (result.kind === 'unsupported') {
+      this.recordUnsupportedPattern(canonPath, pattern, result.reason);
+    } else {
+      this.recordUnsupportedPattern(canonPath, pattern, 'lengthUnsatisfiable', {
+        minLength,
+        ...(maxLength !== undefined ? { maxLength } : {}),
+      });
+    }
+
+    const literal = synthesizePatternExample(pattern);
+    if (literal === undefined) {
+      return undefined;
+    }
+    const literalLength = codePointLength(literal);
+    return literalLength >= minLength &&
+      (maxLength === undefined || literalLength <= maxLength)
+      ? literal
+      : undefined;
+  }
+
+  private recordUnsupportedPattern(
+    canonPath: JsonPointer,
+    pattern: string,
+    reason: PatternUnsupportedReason | 'lengthUnsatisfiable',
+    window?: { minLength: number; maxLength?: number }
+  ): void {
+    if (this.unsupportedPatternPaths.has(canonPath)) return;
+    this.unsupportedPatternPaths.add(canonPath);
+    this.diagnostics.push({
+      code: DIAGNOSTIC_CODES.PATTERN_SYNTHESIS_UNSUPPORTED,
+      phase: DIAGNOSTIC_PHASES.GENERATE,
+      canonPath,
+      details: { pattern, reason, ...window },
+    });
+  }
+
   private generateInteger(schema: Record<string, unknown>): number {
     if (
       schema.const !== undefined &&
@@ -2597,6 +3014,11 @@ class GeneratorEngine {
         return value;
       }
     }
+    const hinted = this.generateNumericBoundaryValue(schema, true);
+    if (hinted !== undefined) {
+      this.recordNumericBoundaryHits(schema, hinted);
+      return hinted;
+    }
     let value = 0;
     if (typeof schema.minimum === 'number') {
       value = Math.max(value, Math.ceil(schema.minimum));
@@ -2610,6 +3032,7 @@ class GeneratorEngine {
     if (typeof schema.exclusiveMaximum === 'number') {
       value = Math.min(value, Math.ceil(schema.exclusiveMaximum) - 1);
     }
+    value = clampToNumericFormat(schema, value);
     if (typeof schema.multipleOf === 'number' && schema.multipleOf !== 0) {
       value = alignToMultiple(value, schema.multipleOf);
       if (typeof schema.exclusiveMinimum === 'number') {
@@ -2643,6 +3066,11 @@ class GeneratorEngine {
         return value;
       }
     }
+    const hinted = this.generateNumericBoundaryValue(schema, false);
+    if (hinted !== undefined) {
+      this.recordNumericBoundaryHits(schema, hinted);
+      return hinted;
+    }
     const multiple =
       typeof schema.multipleOf === 'number' && schema.multipleOf !== 0
         ? (schema.multipleOf as number)
@@ -2667,6 +3095,7 @@ class GeneratorEngine {
     if (typeof schema.exclusiveMaximum === 'number') {
       value = Math.min(value, schema.exclusiveMaximum - this.multipleOfEpsilon);
     }
+    value = clampToNumericFormat(schema, value);
     if (multiple) {
       value = alignToMultiple(value, multiple);
       if (typeof schema.exclusiveMinimum === 'number') {
@@ -2702,6 +3131,103 @@ class GeneratorEngine {
     return value;
   }
 
+  /**
+   * Value on the bound named by a pending hitNumericBoundary hint. Exclusive
+   * bounds yield the closest admissible value; multipleOf is honoured by
+   * walking the aligned grid. Returns undefined (recording the hint as
+   * unsatisfied) when no admissible value sits on the requested bound.
+   */
+  private generateNumericBoundaryValue(
+    schema: Record<string, unknown>,
+    integer: boolean
+  ): number | undefined {
+    const taken = this.takeBoundaryHint(
+      getPointerFromIndex(this.pointerIndex, schema),
+      'hitNumericBoundary'
+    );
+    if (!taken) return undefined;
+    const { hint, key } = taken;
+    const { boundaryKind } = hint.params;
+    const bound = schema[boundaryKind];
+    if (typeof bound !== 'number') {
+      this.recordUnsatisfiedBoundaryHint(
+        hint,
+        key,
+        `${boundaryKind} is not declared at ${key}`
+      );
+      return undefined;
+    }
+    const towardsMin =
+      boundaryKind === 'minimum' || boundaryKind === 'exclusiveMinimum';
+    const multiple =
+      typeof schema.multipleOf === 'number' && schema.multipleOf > 0
+        ? schema.multipleOf
+        : undefined;
+    const step = multiple ?? (integer ? 1 : undefined);
+    let value: number | undefined;
+    if (step !== undefined) {
+      value = this.generateMultipleAlignedNumber(
+        schema,
+        step,
+        towardsMin ? Number.MIN_SAFE_INTEGER : Number.MAX_SAFE_INTEGER
+      );
+    } else {
+      const edge = towardsMin
+        ? this.resolveLowerNumericBound(schema)
+        : this.resolveUpperNumericBound(schema);
+      const offset = edge?.exclusive ? this.multipleOfEpsilon : 0;
+      value = edge && (towardsMin ? edge.value + offset : edge.value - offset);
+    }
+    const onBound =
+      value !== undefined &&
+      (boundaryKind.startsWith('exclusive') || value === bound);
+    if (
+      value === undefined ||
+      !onBound ||
+      !this.isWithinNumericBounds(schema, value, integer)
+    ) {
+      this.recordUnsatisfiedBoundaryHint(
+        hint,
+        key,
+        `no admissible ${integer ? 'integer' : 'number'} on ${boundaryKind}=${bound} at ${key}`
+      );
+      return undefined;
+    }
+    this.recordHintApplication(hint, key);
+    return value;
+  }
+
+  private isWithinNumericBounds(
+    schema: Record<string, unknown>,
+    value: number,
+    integer: boolean
+  ): boolean {
+    if (!Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+      return false;
+    }
+    if (clampToNumericFormat(schema, value) !== value) return false;
+    const lower = this.resolveLowerNumericBound(schema);
+    if (
+      lower &&
+      (lower.exclusive ? value <= lower.value : value < lower.value)
+    ) {
+      return false;
+    }
+    const upper = this.resolveUpperNumericBound(schema);
+    if (
+      upper &&
+      (upper.exclusive ? value >= upper.value : value > upper.value)
+    ) {
+      return false;
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const ratio = value / schema.multipleOf;
+      const distance = Math.abs(ratio - Math.round(ratio)) * schema.multipleOf;
+      return distance <= this.computeMultipleOfTolerance(value);
+    }
+    return true;
+  }
+
   private generateMultipleAlignedNumber(
     schema: Record<string, unknown>,
     multipleOf: number,
@@ -2878,10 +3404,13 @@ class GeneratorEngine {
       : [];
     const fallbackIndex = 0;
     const unionPointer = appendPointer(canonPath, 'oneOf');
-    const hintedIndex = this.getPreferredBranchIndex(
-      unionPointer,
-      branches.length
-    );
+    const discriminator = resolveDiscriminator(schema);
+    const hintedTag = discriminator
+      ? this.takeDiscriminatorHint(discriminator, unionPointer)
+      : undefined;
+    const hintedIndex = discriminator
+      ? hintedTag?.branchIndex
+      : this.getPreferredBranchIndex(unionPointer, branches.length);
     let chosen =
       hintedIndex !== undefined && branches[hintedIndex] !== undefined
         ? hintedIndex
@@ -2900,18 +3429,28 @@ class GeneratorEngine {
         chosen = selectedIndex;
       }
     }
+    const tag = discriminator
+      ? (hintedTag ??
+        this.selectDiscriminatorEntry(discriminator, unionPointer, chosen))
+      : undefined;
+    if (tag) chosen = tag.branchIndex;
     const branchPath = this.buildOneOfBranchPointer(canonPath, chosen);
     this.recordBranchSelection(
       'ONEOF_BRANCH',
       branches[chosen],
       branchPath,
-      chosen
+      chosen,
+      tag?.value
     );
     const generated = this.generateValue(
       branches[chosen],
       branchPath,
       itemIndex
     );
+    if (discriminator && tag && isRecord(generated)) {
+      // The tag decides the branch; write it before exclusivity checks.
+      generated[discriminator.propertyName] = tag.value;
+    }
     return this.enforceOneOfExclusivity(
       generated,
       branches,
@@ -2922,6 +3461,62 @@ class GeneratorEngine {
     );
   }
 
+  /**
+   * Tag for a discriminated oneOf outside guided hints: the one Compose
+   * chose for the union, else the first tag selecting `branchIndex`.
+   */
+  private selectDiscriminatorEntry(
+    plan: DiscriminatorPlan,
+    unionPointer: JsonPointer,
+    branchIndex: number
+  ): DiscriminatorEntry {
+    const composedValue = this.diagNodes?.[unionPointer]?.discriminator?.value;
+    return (
+      plan.entries.find((entry) => entry.value === composedValue) ??
+      plan.entries.find((entry) => entry.branchIndex === branchIndex) ??
+      plan.entries[0]!
+    );
+  }
+
+  /**
+   * Guided preferBranch hint on a discriminated oneOf, as a tag. Hints
+   * rotate across instances so every mapping key is written once the run
+   * has enough of them; hints without a mapping key take the branch's
+   * first tag.
+   */
+  private takeDiscriminatorHint(
+    plan: DiscriminatorPlan,
+    unionPointer: JsonPointer
+  ): DiscriminatorEntry | undefined {
+    if (this.coverage?.mode !== 'guided' || !this.coverageHintsByPath) {
+      return undefined;
+    }
+    const key = canonicalizeCoveragePath(unionPointer);
+    const candidates = (this.coverageHintsByPath.get(key)?.effective ?? [])
+      .filter((hint) => hint.kind === 'preferBranch')
+      .map((hint) => hint as Extract<CoverageHint, { kind: 'preferBranch' }>);
+    if (candidates.length === 0) return undefined;
+    const hint = candidates[(this.currentItemIndex ?? 0) % candidates.length]!;
+    const { branchIndex, discriminatorValue } = hint.params;
+    const entry = plan.entries.find((candidate) =>
+      discriminatorValue !== undefined
+        ? candidate.value === discriminatorValue
+        : candidate.branchIndex === branchIndex
+    );
+    if (entry) {
+      this.recordHintApplication(hint, key);
+      return entry;
+    }
+    this.recordUnsatisfiedHint({
+      kind: 'preferBranch',
+      canonPath: key,
+      params: { ...hint.params },
+      reasonCode: 'CONFLICTING_CONSTRAINTS',
+      reasonDetail: 'preferBranch does not match a discriminator mapping entry',
+    });
+    return undefined;
+  }
+
   private enforceOneOfExclusivity(
     value: unknown,
     branches: unknown[],
@@ -3619,7 +4214,8 @@ class GeneratorEngine {
     kind: 'ONEOF_BRANCH' | 'ANYOF_BRANCH',
     branchSchema: unknown,
     branchPointer: JsonPointer,
-    index: number
+    index: number,
+    discriminatorValue?: string
   ): void {
     const pointerFromIndex =
       branchSchema && typeof branchSchema === 'object'
@@ -3627,6 +4223,15 @@ class GeneratorEngine {
         : undefined;
     const canonPtr = pointerFromIndex ?? branchPointer;
     const canonPath = canonicalizeCoveragePath(canonPtr);
+    if (kind === 'ONEOF_BRANCH' && discriminatorValue !== undefined) {
+      this.emitCoverageEvent({
+        dimension: 'branches',
+        kind,
+        canonPath,
+        params: { index, discriminatorValue },
+      });
+      return;
+    }
     this.emitCoverageEvent({
       dimension: 'branches',
       kind,
@@ -4068,6 +4673,8 @@ const REF_METADATA_KEYS = new Set([
   '$comment',
   '$defs',
   'definitions',
+  // OpenAPI components attached next to a selected response/request schema.
+  'components',
   'description',
   'title',
   'default',
@@ -4076,8 +4683,6 @@ const REF_METADATA_KEYS = new Set([
   'readOnly',
   'writeOnly',
   'format',
-  'contentEncoding',
-  'contentMediaType',
 ]);
 
 function hasRefSiblings(schema: Record<string, unknown>): boolean {
@@ -4111,6 +4716,12 @@ function determineType(schema: Record<string, unknown>): string | undefined {
   }
   if (schema.properties || schema.patternProperties) return 'object';
   if (schema.items || schema.prefixItems) return 'array';
+  if (
+    schema.contentMediaType !== undefined ||
+    schema.contentEncoding !== undefined
+  ) {
+    return 'string';
+  }
   return undefined;
 }
 
@@ -4144,22 +4755,40 @@ function truncateToCodePoints(value: string, max: number): string {
   return arr.slice(0, max).join('');
 }
 
+/** Unescaped last token of a JSON Pointer, or undefined for the root. */
+function lastPointerToken(pointer: string): string | undefined {
+  const index = pointer.lastIndexOf('/');
+  if (index < 0) return undefined;
+  return pointer
+    .slice(index + 1)
+    .replace(/~1/g, '/')
+    .replace(/~0/g, '~');
+}
+
+/**
+ * Largest string length / item count a boundary hint may ask the generator
+ * to materialize; larger bounds are reported as PLANNER_CAP.
+ */
+const BOUNDARY_HINT_SIZE_CAP = 1024;
+
 function repeatCodePoint(char: string, count: number): string {
   if (count <= 0) return '';
   return Array(count).fill(char).join('');
 }
 
-function ensureMinCodePoints(
-  value: string,
-  min: number,
-  padChar: string
-): string {
-  const current = codePointLength(value);
-  if (current >= min) return value;
-  const normalizedPad =
-    padChar && padChar.length > 0 ? (Array.from(padChar)[0] ?? 'a') : 'a';
-  const deficit = min - current;
-  return value + repeatCodePoint(normalizedPad, deficit);
+/**
+ * Keep a numeric value inside the range implied by an OpenAPI numeric
+ * format (int32/int64/float/double). Other formats leave the value as is.
+ */
+function clampToNumericFormat(
+  schema: Record<string, unknown>,
+  value: number
+): number {
+  if (typeof schema.format !== 'string') return value;
+  const range = getNumericFormatRange(schema.format);
+  if (!range) return value;
+  const clamped = Math.min(range.maximum, Math.max(range.minimum, value));
+  return range.integer ? Math.trunc(clamped) : clamped;
 }
 
 function normalizeAlphabet(input: string): string[] {
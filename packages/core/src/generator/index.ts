@@ -8,3 +8,9 @@ export {
   type GeneratorStageOutput,
   type FoundryGeneratorOptions,
 } from './foundry-generator.js';
+export {
+  SUPPORTED_LOCALES,
+  resolveLocalePack,
+  type LocalePack,
+  type SupportedLocale,
+} from './locale-packs.js';
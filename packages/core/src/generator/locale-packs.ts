@@ -0,0 +1,185 @@
+import { de } from './locales/de.js';
+import { en } from './locales/en.js';
+import { es } from './locales/es.js';
+import { fr } from './locales/fr.js';
+import { ja } from './locales/ja.js';
+
+/**
+ * Bundled word lists used to produce readable strings for a locale.
+ * Packs are static data: selection is driven by the generator RNG only,
+ * so output stays deterministic and offline.
+ */
+export interface LocalePack {
+  /** Primary language subtag, e.g. 'fr'. */
+  locale: string;
+  /** Separator placed between words ('' for scripts written without spaces). */
+  wordSeparator: string;
+  words: readonly string[];
+  firstNames: readonly string[];
+  lastNames: readonly string[];
+  /** '{first}' / '{last}' template for full names. */
+  fullNameTemplate: string;
+  cities: readonly string[];
+  countries: readonly string[];
+  streets: readonly string[];
+  /** '{number}' / '{street}' template for street addresses. */
+  streetTemplate: string;
+  /** Phone number layouts; every '#' is replaced by a digit. */
+  phoneFormats: readonly string[];
+  /** ISO 4217 codes in use for the locale. */
+  currencies: readonly string[];
+}
+
+export type LocaleFieldKind =
+  | 'firstName'
+  | 'lastName'
+  | 'fullName'
+  | 'city'
+  | 'country'
+  | 'street'
+  | 'phone'
+  | 'currency'
+  | 'text';
+
+export const SUPPORTED_LOCALES = ['en', 'fr', 'de', 'es', 'ja'] as const;
+
+export type SupportedLocale = (typeof SUPPORTED_LOCALES)[number];
+
+const LOCALE_PACKS: Readonly<Record<SupportedLocale, LocalePack>> = {
+  en,
+  fr,
+  de,
+  es,
+  ja,
+};
+
+/**
+ * Pack for a BCP 47 tag ('fr', 'fr-CA', 'de_AT'), matched on the primary
+ * language subtag. Returns undefined for unsupported locales.
+ */
+export function resolveLocalePack(
+  locale: string | undefined
+): LocalePack | undefined {
+  if (typeof locale !== 'string') return undefined;
+  const language = locale.trim().toLowerCase().split(/[-_]/)[0];
+  return (SUPPORTED_LOCALES as readonly string[]).includes(language ?? '')
+    ? LOCALE_PACKS[language as SupportedLocale]
+    : undefined;
+}
+
+const FIELD_KIND_BY_NAME: Readonly<Record<string, LocaleFieldKind>> = {
+  firstname: 'firstName',
+  givenname: 'firstName',
+  forename: 'firstName',
+  lastname: 'lastName',
+  surname: 'lastName',
+  familyname: 'lastName',
+  name: 'fullName',
+  fullname: 'fullName',
+  displayname: 'fullName',
+  city: 'city',
+  town: 'city',
+  locality: 'city',
+  country: 'country',
+  countryname: 'country',
+  street: 'street',
+  streetaddress: 'street',
+  address: 'street',
+  addressline1: 'street',
+  phone: 'phone',
+  phonenumber: 'phone',
+  telephone: 'phone',
+  tel: 'phone',
+  mobile: 'phone',
+  currency: 'currency',
+  currencycode: 'currency',
+};
+
+/**
+ * Field kind suggested by a property name (`firstName`, `first_name` and
+ * `FirstName` all map to 'firstName'); 'text' when nothing matches.
+ */
+export function inferLocaleFieldKind(
+  propertyName: string | undefined
+): LocaleFieldKind {
+  if (!propertyName) return 'text';
+  const key = propertyName.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return FIELD_KIND_BY_NAME[key] ?? 'text';
+}
+
+/** Source of uint32 values; the generator passes its XorShift32. */
+export interface LocaleRandom {
+  next(): number;
+}
+
+function pick<T>(values: readonly T[], rng: LocaleRandom): T {
+  return values[rng.next() % values.length]!;
+}
+
+function fillTemplate(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? values[name]! : match
+  );
+}
+
+function produceField(
+  pack: LocalePack,
+  kind: LocaleFieldKind,
+  rng: LocaleRandom
+): string {
+  switch (kind) {
+    case 'firstName':
+      return pick(pack.firstNames, rng);
+    case 'lastName':
+      return pick(pack.lastNames, rng);
+    case 'fullName':
+      return fillTemplate(pack.fullNameTemplate, {
+        first: pick(pack.firstNames, rng),
+        last: pick(pack.lastNames, rng),
+      });
+    case 'city':
+      return pick(pack.cities, rng);
+    case 'country':
+      return pick(pack.countries, rng);
+    case 'street':
+      return fillTemplate(pack.streetTemplate, {
+        number: String(1 + (rng.next() % 199)),
+        street: pick(pack.streets, rng),
+      });
+    case 'phone':
+      return pick(pack.phoneFormats, rng).replace(/#/g, () =>
+        String(rng.next() % 10)
+      );
+    case 'currency':
+      return pick(pack.currencies, rng);
+    case 'text':
+      return pick(pack.words, rng);
+  }
+}
+
+/**
+ * Localized string of `kind` whose length (in code points) lies within
+ * [minLength, maxLength]: short values are extended with words from the
+ * pack, long ones are truncated.
+ */
+export function generateLocaleString(
+  pack: LocalePack,
+  kind: LocaleFieldKind,
+  rng: LocaleRandom,
+  minLength: number,
+  maxLength: number | undefined
+): string {
+  const chars = Array.from(produceField(pack, kind, rng));
+  while (chars.length < minLength) {
+    chars.push(...Array.from(pack.wordSeparator + pick(pack.words, rng)));
+  }
+  const fitted = chars.slice(0, maxLength ?? chars.length);
+  // Do not leave a dangling separator where truncation cut a word.
+  while (fitted.length > minLength && fitted[fitted.length - 1] === ' ') {
+    fitted.pop();
+  }
+  return fitted.join('');
+}
@@ -0,0 +1,106 @@
+import type { LocalePack } from '../locale-packs.js';
+
+export const de: LocalePack = {
+  locale: 'de',
+  wordSeparator: ' ',
+  words: [
+    'Apfel',
+    'Fluss',
+    'Garten',
+    'Fenster',
+    'Silber',
+    'Hafen',
+    'Wiese',
+    'Laterne',
+    'Tal',
+    'Donner',
+    'Obstgarten',
+    'Kiesel',
+    'Gipfel',
+    'Leinwand',
+    'Brise',
+    'Marmor',
+    'Kompass',
+    'Weide',
+    'Glut',
+    'Reise',
+  ],
+  firstNames: [
+    'Lukas',
+    'Anna',
+    'Maximilian',
+    'Sophie',
+    'Felix',
+    'Marie',
+    'Jonas',
+    'Lena',
+    'Paul',
+    'Hannah',
+    'Leon',
+    'Laura',
+    'Finn',
+    'Julia',
+    'Tobias',
+    'Katharina',
+    'Jan',
+    'Sarah',
+    'Moritz',
+    'Johanna',
+  ],
+  lastNames: [
+    'Müller',
+    'Schmidt',
+    'Schneider',
+    'Fischer',
+    'Weber',
+    'Meyer',
+    'Wagner',
+    'Becker',
+    'Schulz',
+    'Hoffmann',
+    'Schäfer',
+    'Koch',
+    'Bauer',
+    'Richter',
+    'Klein',
+    'Wolf',
+    'Schröder',
+    'Neumann',
+    'Schwarz',
+    'Zimmermann',
+  ],
+  fullNameTemplate: '{first} {last}',
+  cities: [
+    'Berlin',
+    'Hamburg',
+    'München',
+    'Köln',
+    'Frankfurt',
+    'Stuttgart',
+    'Düsseldorf',
+    'Leipzig',
+    'Dresden',
+    'Hannover',
+    'Nürnberg',
+    'Bremen',
+    'Wien',
+    'Graz',
+    'Zürich',
+  ],
+  countries: ['Deutschland', 'Österreich', 'Schweiz', 'Liechtenstein'],
+  streets: [
+    'Hauptstraße',
+    'Schulstraße',
+    'Gartenstraße',
+    'Bahnhofstraße',
+    'Dorfstraße',
+    'Bergstraße',
+    'Lindenstraße',
+    'Kirchweg',
+    'Am Markt',
+    'Goethestraße',
+  ],
+  streetTemplate: '{street} {number}',
+  phoneFormats: ['+49 ### #######', '0### #######', '+43 1 ### ####'],
+  currencies: ['EUR', 'CHF'],
+};
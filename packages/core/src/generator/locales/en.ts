@@ -0,0 +1,113 @@
+import type { LocalePack } from '../locale-packs.js';
+
+export const en: LocalePack = {
+  locale: 'en',
+  wordSeparator: ' ',
+  words: [
+    'apple',
+    'river',
+    'garden',
+    'window',
+    'silver',
+    'harbor',
+    'meadow',
+    'lantern',
+    'valley',
+    'thunder',
+    'orchard',
+    'pebble',
+    'summit',
+    'canvas',
+    'breeze',
+    'marble',
+    'compass',
+    'willow',
+    'ember',
+    'journey',
+  ],
+  firstNames: [
+    'James',
+    'Mary',
+    'Robert',
+    'Patricia',
+    'John',
+    'Jennifer',
+    'Michael',
+    'Linda',
+    'David',
+    'Elizabeth',
+    'William',
+    'Susan',
+    'Richard',
+    'Jessica',
+    'Thomas',
+    'Sarah',
+    'Daniel',
+    'Emily',
+    'Oliver',
+    'Grace',
+  ],
+  lastNames: [
+    'Smith',
+    'Johnson',
+    'Williams',
+    'Brown',
+    'Jones',
+    'Miller',
+    'Davis',
+    'Wilson',
+    'Anderson',
+    'Taylor',
+    'Thomas',
+    'Moore',
+    'Jackson',
+    'Martin',
+    'Lee',
+    'Thompson',
+    'White',
+    'Harris',
+    'Clark',
+    'Lewis',
+  ],
+  fullNameTemplate: '{first} {last}',
+  cities: [
+    'New York',
+    'London',
+    'Chicago',
+    'Toronto',
+    'Sydney',
+    'Boston',
+    'Seattle',
+    'Manchester',
+    'Dublin',
+    'Denver',
+    'Austin',
+    'Melbourne',
+    'Vancouver',
+    'Edinburgh',
+    'Portland',
+  ],
+  countries: [
+    'United States',
+    'United Kingdom',
+    'Canada',
+    'Australia',
+    'Ireland',
+    'New Zealand',
+  ],
+  streets: [
+    'Main Street',
+    'Oak Avenue',
+    'Maple Drive',
+    'Park Road',
+    'High Street',
+    'Cedar Lane',
+    'Elm Street',
+    'Lake View Road',
+    'Church Street',
+    'Washington Avenue',
+  ],
+  streetTemplate: '{number} {street}',
+  phoneFormats: ['+1 ###-###-####', '(###) ###-####', '+44 20 #### ####'],
+  currencies: ['USD', 'GBP', 'CAD', 'AUD'],
+};
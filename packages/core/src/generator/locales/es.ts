@@ -0,0 +1,106 @@
+import type { LocalePack } from '../locale-packs.js';
+
+export const es: LocalePack = {
+  locale: 'es',
+  wordSeparator: ' ',
+  words: [
+    'manzana',
+    'río',
+    'jardín',
+    'ventana',
+    'plata',
+    'puerto',
+    'pradera',
+    'linterna',
+    'valle',
+    'trueno',
+    'huerto',
+    'guijarro',
+    'cumbre',
+    'lienzo',
+    'brisa',
+    'mármol',
+    'brújula',
+    'sauce',
+    'brasa',
+    'viaje',
+  ],
+  firstNames: [
+    'Antonio',
+    'María',
+    'José',
+    'Carmen',
+    'Manuel',
+    'Lucía',
+    'Francisco',
+    'Isabel',
+    'David',
+    'Laura',
+    'Javier',
+    'Marta',
+    'Carlos',
+    'Sofía',
+    'Alejandro',
+    'Elena',
+    'Pablo',
+    'Paula',
+    'Diego',
+    'Valentina',
+  ],
+  lastNames: [
+    'García',
+    'Rodríguez',
+    'González',
+    'Fernández',
+    'López',
+    'Martínez',
+    'Sánchez',
+    'Pérez',
+    'Gómez',
+    'Martín',
+    'Jiménez',
+    'Ruiz',
+    'Hernández',
+    'Díaz',
+    'Moreno',
+    'Muñoz',
+    'Álvarez',
+    'Romero',
+    'Navarro',
+    'Torres',
+  ],
+  fullNameTemplate: '{first} {last}',
+  cities: [
+    'Madrid',
+    'Barcelona',
+    'Valencia',
+    'Sevilla',
+    'Zaragoza',
+    'Málaga',
+    'Bilbao',
+    'Granada',
+    'Salamanca',
+    'Ciudad de México',
+    'Guadalajara',
+    'Buenos Aires',
+    'Bogotá',
+    'Lima',
+    'Santiago',
+  ],
+  countries: ['España', 'México', 'Argentina', 'Colombia', 'Perú', 'Chile'],
+  streets: [
+    'Calle Mayor',
+    'Avenida de la Constitución',
+    'Calle del Sol',
+    'Paseo de Gracia',
+    'Calle Real',
+    'Plaza de España',
+    'Calle Nueva',
+    'Avenida Libertad',
+    'Calle de la Iglesia',
+    'Gran Vía',
+  ],
+  streetTemplate: '{street} {number}',
+  phoneFormats: ['+34 ### ### ###', '+52 ## #### ####', '6## ### ###'],
+  currencies: ['EUR', 'MXN', 'ARS', 'COP'],
+};
@@ -0,0 +1,106 @@
+import type { LocalePack } from '../locale-packs.js';
+
+export const fr: LocalePack = {
+  locale: 'fr',
+  wordSeparator: ' ',
+  words: [
+    'pomme',
+    'rivière',
+    'jardin',
+    'fenêtre',
+    'argent',
+    'port',
+    'prairie',
+    'lanterne',
+    'vallée',
+    'tonnerre',
+    'verger',
+    'galet',
+    'sommet',
+    'toile',
+    'brise',
+    'marbre',
+    'boussole',
+    'saule',
+    'braise',
+    'voyage',
+  ],
+  firstNames: [
+    'Jean',
+    'Marie',
+    'Pierre',
+    'Camille',
+    'Louis',
+    'Léa',
+    'Nicolas',
+    'Chloé',
+    'Julien',
+    'Manon',
+    'Antoine',
+    'Sophie',
+    'Hugo',
+    'Élodie',
+    'Mathieu',
+    'Inès',
+    'François',
+    'Juliette',
+    'Théo',
+    'Margaux',
+  ],
+  lastNames: [
+    'Martin',
+    'Bernard',
+    'Dubois',
+    'Thomas',
+    'Robert',
+    'Richard',
+    'Petit',
+    'Durand',
+    'Leroy',
+    'Moreau',
+    'Simon',
+    'Laurent',
+    'Lefèvre',
+    'Michel',
+    'Garcia',
+    'David',
+    'Bertrand',
+    'Roux',
+    'Vincent',
+    'Fournier',
+  ],
+  fullNameTemplate: '{first} {last}',
+  cities: [
+    'Paris',
+    'Lyon',
+    'Marseille',
+    'Toulouse',
+    'Nice',
+    'Nantes',
+    'Strasbourg',
+    'Montpellier',
+    'Bordeaux',
+    'Lille',
+    'Rennes',
+    'Grenoble',
+    'Dijon',
+    'Angers',
+    'Québec',
+  ],
+  countries: ['France', 'Belgique', 'Suisse', 'Canada', 'Luxembourg', 'Monaco'],
+  streets: [
+    'rue de la Paix',
+    'avenue Victor Hugo',
+    'rue du Moulin',
+    'boulevard Saint-Michel',
+    'rue des Lilas',
+    'place de la République',
+    'rue Pasteur',
+    'avenue Jean Jaurès',
+    'rue de l’Église',
+    'quai Voltaire',
+  ],
+  streetTemplate: '{number} {street}',
+  phoneFormats: ['+33 # ## ## ## ##', '0# ## ## ## ##'],
+  currencies: ['EUR', 'CHF', 'CAD'],
+};
@@ -0,0 +1,106 @@
+import type { LocalePack } from '../locale-packs.js';
+
+export const ja: LocalePack = {
+  locale: 'ja',
+  wordSeparator: '',
+  words: [
+    'りんご',
+    '川',
+    '庭',
+    '窓',
+    '銀',
+    '港',
+    '草原',
+    '提灯',
+    '谷',
+    '雷',
+    '果樹園',
+    '小石',
+    '頂上',
+    '画布',
+    'そよ風',
+    '大理石',
+    '羅針盤',
+    '柳',
+    '残り火',
+    '旅',
+  ],
+  firstNames: [
+    '翔太',
+    '陽菜',
+    '大輝',
+    '結衣',
+    '蓮',
+    'さくら',
+    '悠斗',
+    '美咲',
+    '拓海',
+    '葵',
+    '健太',
+    '愛',
+    '直樹',
+    '由美',
+    '一郎',
+    '花子',
+    '太郎',
+    '真央',
+    '亮',
+    '奈々',
+  ],
+  lastNames: [
+    '佐藤',
+    '鈴木',
+    '高橋',
+    '田中',
+    '伊藤',
+    '渡辺',
+    '山本',
+    '中村',
+    '小林',
+    '加藤',
+    '吉田',
+    '山田',
+    '佐々木',
+    '山口',
+    '松本',
+    '井上',
+    '木村',
+    '林',
+    '清水',
+    '斎藤',
+  ],
+  fullNameTemplate: '{last} {first}',
+  cities: [
+    '東京',
+    '大阪',
+    '横浜',
+    '名古屋',
+    '札幌',
+    '福岡',
+    '神戸',
+    '京都',
+    '川崎',
+    'さいたま',
+    '広島',
+    '仙台',
+    '千葉',
+    '北九州',
+    '那覇',
+  ],
+  countries: ['日本'],
+  streets: [
+    '銀座',
+    '本町',
+    '栄町',
+    '中央通り',
+    '駅前',
+    '桜町',
+    '緑町',
+    '松原',
+    '若葉台',
+    '旭町',
+  ],
+  streetTemplate: '{street}{number}丁目',
+  phoneFormats: ['+81 ##-####-####', '0#-####-####', '090-####-####'],
+  currencies: ['JPY'],
+};
@@ -0,0 +1,386 @@
+import { analyzeRegex } from '../transform/name-automata/regex.js';
+import { buildThompsonNfa } from '../transform/name-automata/nfa.js';
+import { buildDfaFromNfa } from '../transform/name-automata/dfa.js';
+import { XorShift32 } from '../util/rng.js';
+
+/**
+ * Pattern-value synthesis over the name-automata toolchain.
+ *
+ * A `pattern` is compiled once (regex → Thompson NFA → DFA) and every value
+ * is a seeded random walk through the DFA whose length is drawn from the
+ * lengths the automaton can actually accept inside the requested
+ * minLength/maxLength window. The first draw per canonPath is instead the
+ * shortest word built from the lowest usable code units. `pattern` is not
+ * anchored: when no match fits the window on its own, a shorter match is
+ * padded on an unanchored side up to minLength. Walk results are
+ * re-checked with the unicode-mode RegExp so anything the automaton subset
+ * approximates (anchors inside alternations, unknown escapes) is rejected
+ * rather than emitted.
+ */
+
+export type PatternUnsupportedReason =
+  | 'compileError'
+  | 'lookaround'
+  | 'backreference'
+  | 'unsupportedSyntax'
+  | 'complexityCap';
+
+export interface PatternSynthesisRequest {
+  pattern: string;
+  /** Canonical pointer of the string schema; keys the RNG stream. */
+  canonPath: string;
+  minLength: number;
+  maxLength?: number;
+}
+
+export type PatternSynthesisResult =
+  | { kind: 'ok'; value: string }
+  /** The pattern lies outside the supported automaton subset. */
+  | { kind: 'unsupported'; reason: PatternUnsupportedReason }
+  /** No accepted word fits the length window (within the walk bound). */
+  | { kind: 'length-unsatisfiable' };
+
+export interface PatternSynthesizer {
+  synthesize(request: PatternSynthesisRequest): PatternSynthesisResult;
+  /** Unicode-mode `pattern` test; false when the pattern does not compile. */
+  matches(pattern: string, value: string): boolean;
+}
+
+export interface PatternSynthesizerOptions {
+  seed: number;
+  /** Cap for NFA and DFA state counts (default: 4096). */
+  maxStates?: number;
+}
+
+export function createPatternSynthesizer(
+  options: PatternSynthesizerOptions
+): PatternSynthesizer {
+  return new AutomatonPatternSynthesizer(options);
+}
+
+// Same default score cap as the regex policy (pattern length + quantifiers).
+const MAX_PATTERN_COMPLEXITY = 512;
+// Longest word a walk may produce, in UTF-16 code units.
+const MAX_WALK_LENGTH = 256;
+// Walk lengths are drawn from the shortest feasible length up to this many
+// extra code units, so unbounded quantifiers stay readable.
+const LENGTH_SPREAD = 16;
+// Walks re-drawn before a RegExp mismatch is attributed to the pattern.
+const WALK_ATTEMPTS = 4;
+// Padding of the minimal witness; walks pad with seeded lowercase letters.
+const PAD_CODE_UNIT = 0x61;
+const PAD_LETTERS = 26;
+const PRINTABLE_FROM = 0x20;
+const PRINTABLE_TO = 0x7e;
+const SURROGATE_FROM = 0xd800;
+const SURROGATE_TO = 0xdfff;
+
+interface WalkEdge {
+  from: number;
+  to: number;
+  target: number;
+}
+
+interface CompiledPattern {
+  regex: RegExp;
+  /** Side a match may be padded on; undefined when fully anchored. */
+  pad?: 'start' | 'end';
+  start: number;
+  edges: WalkEdge[][];
+  /** reach[k][s] === 1 when state s reaches acceptance in exactly k steps. */
+  reach: Uint8Array[];
+}
+
+/** Length of the automaton walk and of the padding around it. */
+interface WalkPlan {
+  body: number;
+  padding: number;
+}
+
+type CompileOutcome =
+  | { kind: 'compiled'; pattern: CompiledPattern }
+  | { kind: 'unsupported'; reason: PatternUnsupportedReason };
+
+class AutomatonPatternSynthesizer implements PatternSynthesizer {
+  private readonly seed: number;
+
+  private readonly maxStates: number;
+
+  private readonly compiled = new Map<string, CompileOutcome>();
+
+  private readonly regexes = new Map<string, RegExp | null>();
+
+  private readonly draws = new Map<string, number>();
+
+  constructor(options: PatternSynthesizerOptions) {
+    this.seed = options.seed >>> 0;
+    this.maxStates = options.maxStates ?? 4096;
+  }
+
+  synthesize(request: PatternSynthesisRequest): PatternSynthesisResult {
+    const outcome = this.compile(request.pattern);
+    if (outcome.kind === 'unsupported') {
+      return outcome;
+    }
+    const compiled = outcome.pattern;
+    const plans = walkPlans(compiled, request);
+    if (plans.length === 0) {
+      return { kind: 'length-unsatisfiable' };
+    }
+
+    const draw = this.draws.get(request.canonPath) ?? 0;
+    this.draws.set(request.canonPath, draw + 1);
+    if (draw === 0) {
+      // Like other keywords, the first value is the minimal witness.
+      const plan = plans[0]!;
+      const value = padMatch(
+        compiled,
+        minimalWalk(compiled, plan.body),
+        plan.padding
+      );
+      if (compiled.regex.test(value)) {
+        return { kind: 'ok', value };
+      }
+    }
+    const rng = new XorShift32(
+      this.seed,
+      `${request.canonPath}#pattern:${draw}`
+    );
+    for (let attempt = 0; attempt < WALK_ATTEMPTS; attempt += 1) {
+      const plan = plans[rng.next() % plans.length]!;
+      const body = walk(compiled, plan.body, rng);
+      const value = padMatch(compiled, body, plan.padding, rng);
+      if (compiled.regex.test(value)) {
+        return { kind: 'ok', value };
+      }
+    }
+    return { kind: 'unsupported', reason: 'unsupportedSyntax' };
+  }
+
+  matches(pattern: string, value: string): boolean {
+    let regex = this.regexes.get(pattern);
+    if (regex === undefined) {
+      try {
+        regex = new RegExp(pattern, 'u');
+      } catch {
+        regex = null;
+      }
+      this.regexes.set(pattern, regex);
+    }
+    return regex !== null && regex.test(value);
+  }
+
+  private compile(pattern: string): CompileOutcome {
+    const cached = this.compiled.get(pattern);
+    if (cached) return cached;
+    const outcome = compilePattern(pattern, this.maxStates);
+    this.compiled.set(pattern, outcome);
+    return outcome;
+  }
+}
+
+function compilePattern(pattern: string, maxStates: number): CompileOutcome {
+  const analysis = analyzeRegex(pattern, { context: 'coverage' });
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, 'u');
+  } catch {
+    return { kind: 'unsupported', reason: 'compileError' };
+  }
+  if (analysis.compileError) {
+    return { kind: 'unsupported', reason: 'compileError' };
+  }
+  if (analysis.hasLookaround) {
+    return { kind: 'unsupported', reason: 'lookaround' };
+  }
+  if (analysis.hasBackreference) {
+    return { kind: 'unsupported', reason: 'backreference' };
+  }
+  // Quantified groups only cap coverage proofs; walks are bounded by the
+  // NFA/DFA state caps below, so only the length score applies here.
+  if (analysis.complexityScore > MAX_PATTERN_COMPLEXITY) {
+    return { kind: 'unsupported', reason: 'complexityCap' };
+  }
+
+  let nfaResult: ReturnType<typeof buildThompsonNfa>;
+  try {
+    nfaResult = buildThompsonNfa(pattern, { maxStates });
+  } catch {
+    return { kind: 'unsupported', reason: 'unsupportedSyntax' };
+  }
+  if (nfaResult.capped) {
+    return { kind: 'unsupported', reason: 'complexityCap' };
+  }
+  const dfaResult = buildDfaFromNfa(nfaResult.nfa, { maxDfaStates: maxStates });
+  if (dfaResult.capped) {
+    return { kind: 'unsupported', reason: 'complexityCap' };
+  }
+
+  const edges = dfaResult.dfa.states.map((state) => {
+    const out: WalkEdge[] = [];
+    for (const [from, target] of state.transitions) {
+      const range = usableRange(from, state.segmentEnds?.get(from) ?? from);
+      if (range) out.push({ ...range, target });
+    }
+    return out;
+  });
+  const accepting = dfaResult.dfa.states.map((state) => state.accepting);
+  return {
+    kind: 'compiled',
+    pattern: {
+      regex,
+      pad: paddableSide(pattern),
+      start: dfaResult.dfa.start,
+      edges,
+      reach: buildReachTable(edges, accepting),
+    },
+  };
+}
+
+/**
+ * Restrict a transition segment to the code units a walk may emit:
+ * printable ASCII when the segment overlaps it, otherwise the segment
+ * minus lone surrogates.
+ */
+function usableRange(
+  from: number,
+  to: number
+): { from: number; to: number } | undefined {
+  const printableFrom = Math.max(from, PRINTABLE_FROM);
+  const printableTo = Math.min(to, PRINTABLE_TO);
+  if (printableFrom <= printableTo) {
+    return { from: printableFrom, to: printableTo };
+  }
+  if (to < SURROGATE_FROM || from > SURROGATE_TO) {
+    return { from, to };
+  }
+  if (from < SURROGATE_FROM) {
+    return { from, to: SURROGATE_FROM - 1 };
+  }
+  if (to > SURROGATE_TO) {
+    return { from: SURROGATE_TO + 1, to };
+  }
+  return undefined;
+}
+
+function buildReachTable(
+  edges: WalkEdge[][],
+  accepting: boolean[]
+): Uint8Array[] {
+  const reach: Uint8Array[] = [Uint8Array.from(accepting, (a) => (a ? 1 : 0))];
+  for (let k = 1; k <= MAX_WALK_LENGTH; k += 1) {
+    const previous = reach[k - 1]!;
+    const row = new Uint8Array(edges.length);
+    let any = false;
+    edges.forEach((out, state) => {
+      if (out.some((edge) => previous[edge.target] === 1)) {
+        row[state] = 1;
+        any = true;
+      }
+    });
+    reach.push(row);
+    // Rows depend only on their predecessor: once empty, all later rows are.
+    if (!any) break;
+  }
+  return reach;
+}
+
+/**
+ * Side on which text may surround a match: the automaton is built from the
+ * pattern without its top-level anchors, but `pattern` itself only anchors
+ * where it says so.
+ */
+function paddableSide(pattern: string): 'start' | 'end' | undefined {
+  const anchoredStart = pattern.startsWith('^');
+  const anchoredEnd = pattern.endsWith('$') && !pattern.endsWith('\\$');
+  if (anchoredStart && anchoredEnd) return undefined;
+  return anchoredStart ? 'end' : anchoredEnd ? 'start' : 'end';
+}
+
+/**
+ * Walks whose length fits the window; failing that, for a pattern with an
+ * unanchored side, shorter walks padded up to minLength.
+ */
+function walkPlans(
+  compiled: CompiledPattern,
+  request: PatternSynthesisRequest
+): WalkPlan[] {
+  const { minLength, maxLength } = request;
+  const fitting = feasibleLengths(compiled, minLength, maxLength);
+  const padded =
+    compiled.pad !== undefined &&
+    (maxLength === undefined || minLength <= maxLength);
+  if (fitting.length > 0 || !padded) {
+    return fitting.map((body) => ({ body, padding: 0 }));
+  }
+  return feasibleLengths(compiled, 0, maxLength)
+    .filter((body) => body < minLength)
+    .map((body) => ({ body, padding: minLength - body }));
+}
+
+function feasibleLengths(
+  compiled: CompiledPattern,
+  minLength: number,
+  maxLength: number | undefined
+): number[] {
+  const upper = Math.min(
+    maxLength ?? MAX_WALK_LENGTH,
+    compiled.reach.length - 1
+  );
+  const lengths: number[] = [];
+  for (let k = Math.max(0, minLength); k <= upper; k += 1) {
+    if (compiled.reach[k]![compiled.start] !== 1) continue;
+    if (lengths.length > 0 && k > lengths[0]! + LENGTH_SPREAD) break;
+    lengths.push(k);
+  }
+  return lengths;
+}
+
+function walk(
+  compiled: CompiledPattern,
+  length: number,
+  rng: XorShift32
+): string {
+  const codeUnits: number[] = [];
+  let state = compiled.start;
+  for (let remaining = length; remaining > 0; remaining -= 1) {
+    const next = compiled.reach[remaining - 1]!;
+    const options = compiled.edges[state]!.filter(
+      (edge) => next[edge.target] === 1
+    );
+    const edge = options[rng.next() % options.length]!;
+    codeUnits.push(edge.from + (rng.next() % (edge.to - edge.from + 1)));
+    state = edge.target;
+  }
+  return String.fromCharCode(...codeUnits);
+}
+
+function padMatch(
+  compiled: CompiledPattern,
+  match: string,
+  padding: number,
+  rng?: XorShift32
+): string {
+  let pad = '';
+  for (let i = 0; i < padding; i += 1) {
+    const offset = rng ? rng.next() % PAD_LETTERS : 0;
+    pad += String.fromCharCode(PAD_CODE_UNIT + offset);
+  }
+  return compiled.pad === 'start' ? pad + match : match + pad;
+}
+
+function minimalWalk(compiled: CompiledPattern, length: number): string {
+  const codeUnits: number[] = [];
+  let state = compiled.start;
+  for (let remaining = length; remaining > 0; remaining -= 1) {
+    const next = compiled.reach[remaining - 1]!;
+    let best: WalkEdge | undefined;
+    for (const edge of compiled.edges[state]!) {
+      if (next[edge.target] !== 1) continue;
+      if (!best || edge.from < best.from) best = edge;
+    }
+    codeUnits.push(best!.from);
+    state = best!.target;
+  }
+  return String.fromCharCode(...codeUnits);
+}
@@ -30,10 +30,18 @@ export {
 // Generator (Task 9)
 export {
   generateFromCompose,
+  createGeneratorSession,
+  type GeneratorSession,
   type GeneratorStageOutput,
   type GeneratorDiagnostic,
   type FoundryGeneratorOptions,
 } from './generator/foundry-generator.js';
+export {
+  SUPPORTED_LOCALES,
+  resolveLocalePack,
+  type LocalePack,
+  type SupportedLocale,
+} from './generator/locale-packs.js';
 
 // Errors
 export {
@@ -48,6 +56,21 @@ export {
   type APIErrorView,
   type ProductionView,
 } from './errors/presenter.js';
+export {
+  SourceDocument,
+  SOURCE_FILE_PATTERN,
+  detectSourceFormat,
+  loadSourceDocument,
+  parseSourceDocument,
+  type SourceFormat,
+  type SourcePosition,
+} from './util/source-document.js';
+
+export {
+  stableHash,
+  type StableHashOptions,
+  type StableHashResult,
+} from './util/stable-hash.js';
 
 // AJV utilities (Task 2)
 export {
@@ -55,6 +78,7 @@ export {
   createRepairOnlyValidatorAjv,
   getAjvClassLabel,
   extractAjvFlags,
+  registerCustomFormats,
 } from './util/ajv-source.js';
 export {
   createPlanningAjv,
@@ -100,6 +124,10 @@ export {
   type CoverageIndex,
 } from './transform/composition-engine.js';
 export type { ContainsNeed } from './transform/arrays/contains-bag.js';
+export {
+  projectSchemaForContext,
+  type SchemaAccessContext,
+} from './transform/access-context.js';
 export { executePipeline } from './pipeline/orchestrator.js';
 export {
   PipelineStageError,
@@ -109,7 +137,23 @@ export {
   type PipelineStageName,
   type PipelineStageStatus,
   type PipelineStageOverrides,
+  type PipelineStreamOptions,
+  type PipelineSharedResources,
 } from './pipeline/types.js';
+export {
+  fillCoverageGaps,
+  type CoverageGapFillOptions,
+  type CoverageGapFillResult,
+} from './pipeline/coverage-gap-fill.js';
+export {
+  resolvePlanCacheDir,
+  getPlanCacheStats,
+  prunePlanCache,
+  clearPlanCache,
+  type PlanCacheStats,
+  type PlanCacheRemoval,
+  type PlanCachePruneOptions,
+} from './pipeline/plan-cache.js';
 
 // Options system (Task 3, used by CLI and API)
 export {
@@ -144,13 +188,61 @@ export {
   type RepairCtx,
 } from './repair/repair-engine.js';
 
+// Negative (invalid) instances
+export {
+  generateNegativeInstances,
+  buildNegativeCoverageTargets,
+  type NegativeInstance,
+  type NegativeInstancesInput,
+  type NegativeKeyword,
+  type ExpectedValidationError,
+} from './negative/negative-instances.js';
+
 // OpenAPI driver (Task 17)
 export {
   selectResponseSchemaAndExample,
+  selectRequestSchema,
+  listOpenApiResponseTargets,
   type OpenApiDriverOptions,
   type OpenApiSchemaSelection,
   type OpenApiSchemaSelectionMeta,
+  type OpenApiParameterLocation,
+  type OpenApiRequestParameter,
+  type OpenApiRequestSelection,
+  type OpenApiRequestSelectionMeta,
+  type OpenApiResponseTarget,
 } from './openapi/driver.js';
+export {
+  serializeRequestFixture,
+  type OpenApiRequestFixture,
+} from './openapi/request-serializer.js';
+export {
+  generateOpenApiSpecFixtures,
+  type OpenApiSpecFixturesOptions,
+  type OpenApiSpecFixturesResult,
+  type OpenApiSpecTargetOutcome,
+} from './openapi/spec-runner.js';
+export {
+  upgradeOpenApiDocument,
+  detectOpenApiVersion,
+  OPENAPI_UPGRADE_NOTE_CODES,
+  type OpenApiSourceVersion,
+  type OpenApiUpgradeNote,
+  type OpenApiUpgradeNoteCode,
+  type OpenApiUpgradeResult,
+} from './openapi/upgrade.js';
+
+// Resolver snapshots (offline external $ref registries)
+export {
+  collectResolverSnapshot,
+  serializeResolverSnapshot,
+  verifyResolverSnapshot,
+  type ResolverSnapshotBuildOptions,
+  type ResolverSnapshotBuildResult,
+  type ResolverSnapshotDrift,
+  type ResolverSnapshotSource,
+  type ResolverSnapshotUnresolved,
+} from './resolver/snapshot-builder.js';
 
 // Corpus harness (real-world schema runs)
 export {
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import Ajv2020 from 'ajv/dist/2020';
+
+import {
+  buildNegativeCoverageTargets,
+  generateNegativeInstances,
+} from '../negative-instances.js';
+
+const schema = {
+  type: 'object',
+  required: ['id', 'status'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'integer', minimum: 1, maximum: 10 },
+    status: { enum: ['open', 'closed'] },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+const items = [
+  { id: 3, status: 'open', tags: ['a'] },
+  { id: 5, status: 'closed', tags: [] },
+  { id: 7, status: 'open', tags: ['b', 'c'] },
+  { id: 9, status: 'closed' },
+  { id: 2, status: 'open' },
+  { id: 4, status: 'closed' },
+  { id: 6, status: 'open' },
+  { id: 8, status: 'closed', tags: ['d'] },
+];
+
+function validatorFor(target: unknown): ReturnType<Ajv2020['compile']> {
+  const ajv = new Ajv2020({ allErrors: true, strict: false });
+  return ajv.compile(target as object);
+}
+
+describe('generateNegativeInstances', () => {
+  it('emits one single-error mutation per item, labelled with the AJV error', () => {
+    const validate = validatorFor(schema);
+    const negatives = generateNegativeInstances({
+      canonSchema: schema,
+      items,
+      validate,
+    });
+
+    expect(negatives).toHaveLength(items.length);
+    for (const negative of negatives) {
+      expect(validate(negative.instance)).toBe(false);
+      expect(validate.errors).toHaveLength(1);
+      expect(validate.errors?.[0]).toMatchObject(negative.expected);
+    }
+    // Valid inputs are never mutated in place.
+    expect(items[0]).toEqual({ id: 3, status: 'open', tags: ['a'] });
+
+    const keywords = new Set(negatives.map((n) => n.expected.keyword));
+    for (const keyword of [
+      'required',
+      'additionalProperties',
+      'minimum',
+      'maximum',
+      'enum',
+      'type',
+    ]) {
+      expect(keywords).toContain(keyword);
+    }
+  });
+
+  it('labels nested mutations with their instancePath and owning schema node', () => {
+    const negatives = generateNegativeInstances({
+      canonSchema: schema,
+      items,
+      validate: validatorFor(schema),
+    });
+    const minimum = negatives.find((n) => n.expected.keyword === 'minimum');
+    expect(minimum).toMatchObject({
+      canonPath: '/properties/id',
+      expected: {
+        instancePath: '/id',
+        schemaPath: '#/properties/id/minimum',
+      },
+    });
+    expect((minimum?.instance as { id: number }).id).toBe(0);
+
+    const required = negatives.find((n) => n.expected.keyword === 'required');
+    expect(required?.canonPath).toBe('');
+    expect(required?.expected.instancePath).toBe('');
+    expect(required?.instance).not.toHaveProperty(required?.property ?? '');
+  });
+
+  it('prefers nested mutations over replacing the whole instance', () => {
+    const counter = {
+      type: 'object',
+      properties: { n: { type: 'integer', minimum: 0 } },
+    };
+    const negatives = generateNegativeInstances({
+      canonSchema: counter,
+      items: [{ n: 1 }],
+      validate: validatorFor(counter),
+    });
+    expect(negatives[0]?.expected.instancePath).toBe('/n');
+    expect(typeof negatives[0]?.instance).toBe('object');
+  });
+});
+
+describe('buildNegativeCoverageTargets', () => {
+  it('creates one negative KEYWORD_VIOLATION target per constraint', () => {
+    const negatives = generateNegativeInstances({
+      canonSchema: schema,
+      items: items.slice(0, 2),
+      validate: validatorFor(schema),
+    });
+    const targets = buildNegativeCoverageTargets(schema, negatives, [
+      'structure',
+      'boundaries',
+      'enum',
+    ]);
+
+    expect(targets.every((t) => t.kind === 'KEYWORD_VIOLATION')).toBe(true);
+    expect(targets.every((t) => t.polarity === 'negative')).toBe(true);
+    expect(
+      targets.filter((t) => t.params?.keyword === 'required')
+    ).toHaveLength(2);
+    expect(targets.filter((t) => t.hit)).toHaveLength(2);
+
+    const boundariesOnly = buildNegativeCoverageTargets(schema, negatives, [
+      'boundaries',
+    ]);
+    expect(boundariesOnly.map((t) => t.params?.keyword).sort()).toEqual([
+      'maximum',
+      'minimum',
+    ]);
+  });
+});
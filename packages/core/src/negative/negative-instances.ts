@@ -0,0 +1,564 @@
+/* eslint-disable max-lines */
+import type {
+  CoverageDimension,
+  CoverageTarget,
+  CoverageTargetReport,
+} from '@foundrydata/shared';
+import type { ValidateFunction } from 'ajv';
+import {
+  computeCoverageTargetId,
+  createCoverageTargetIdContext,
+  COVERAGE_ID_ENGINE_VERSION,
+} from '../coverage/id-generator.js';
+
+/**
+ * Negative (invalid) instance generation.
+ *
+ * Each negative instance is a copy of a valid instance with exactly one
+ * mutation applied. A mutation is kept only when the all-errors Source AJV
+ * reports a single error for the mutated keyword, so `expected` is the
+ * error a conforming validator must raise. Mutation sites follow the
+ * instance through `properties`, `items` and `prefixItems` (local `$ref`s
+ * are followed); keywords nested under applicators are not mutated.
+ */
+
+export type NegativeKeyword =
+  | 'required'
+  | 'type'
+  | 'minimum'
+  | 'maximum'
+  | 'exclusiveMinimum'
+  | 'exclusiveMaximum'
+  | 'additionalProperties'
+  | 'enum';
+
+export interface ExpectedValidationError {
+  keyword: string;
+  instancePath: string;
+  schemaPath: string;
+}
+
+export interface NegativeInstance {
+  instance: unknown;
+  expected: ExpectedValidationError;
+  /** Canonical pointer of the schema node that owns the violated keyword. */
+  canonPath: string;
+  /** Required property removed by a `required` mutation. */
+  property?: string;
+  /** Index of the valid instance the mutation was applied to. */
+  sourceIndex: number;
+}
+
+export interface NegativeInstancesInput {
+  /** Canonical schema (Normalize output) used to locate mutation sites. */
+  canonSchema: unknown;
+  /** Valid instances to mutate; at most one negative per instance. */
+  items: unknown[];
+  /** Source AJV validator compiled with allErrors:true. */
+  validate: ValidateFunction;
+}
+
+type PathToken = string | number;
+
+interface Mutation {
+  keyword: NegativeKeyword;
+  canonPath: string;
+  property?: string;
+  path: PathToken[];
+  /** Replacement value; undefined deletes `path`. */
+  value?: unknown;
+}
+
+interface ConstraintSite {
+  keyword: NegativeKeyword;
+  canonPath: string;
+  property?: string;
+}
+
+const EXTRA_PROPERTY_NAME = '__fd_unexpected';
+
+export function generateNegativeInstances(
+  input: NegativeInstancesInput
+): NegativeInstance[] {
+  const covered = new Set<string>();
+  const out: NegativeInstance[] = [];
+  input.items.forEach((item, sourceIndex) => {
+    const mutations: Mutation[] = [];
+    collectMutations(
+      { node: input.canonSchema, canonPath: '', value: item, path: [] },
+      { root: input.canonSchema, mutations, seen: new Set() }
+    );
+    // Replacing the whole instance is the least minimal mutation: try last.
+    mutations.sort(
+      (a, b) => Number(isWholeInstance(a)) - Number(isWholeInstance(b))
+    );
+    // Prefer constraints no earlier instance has violated, then rotate.
+    const ordered = [
+      ...mutations.filter((m) => !covered.has(siteKey(m))),
+      ...rotate(
+        mutations.filter((m) => covered.has(siteKey(m))),
+        sourceIndex
+      ),
+    ];
+    for (const mutation of ordered) {
+      const negative = tryMutation(input.validate, item, mutation);
+      if (!negative) continue;
+      covered.add(siteKey(mutation));
+      out.push({ ...negative, sourceIndex });
+      break;
+    }
+  });
+  return out;
+}
+
+/**
+ * Coverage targets for negative runs: one KEYWORD_VIOLATION target per
+ * mutable constraint (per property for `required`), hit when a negative
+ * instance violating that constraint was emitted.
+ */
+export function buildNegativeCoverageTargets(
+  canonSchema: unknown,
+  negatives: NegativeInstance[],
+  dimensionsEnabled: CoverageDimension[]
+): CoverageTargetReport[] {
+  const idContext = createCoverageTargetIdContext({
+    engineVersion: COVERAGE_ID_ENGINE_VERSION,
+  });
+  const enabled = new Set(dimensionsEnabled);
+  const hit = new Set(
+    negatives.map((n) =>
+      siteKey({
+        keyword: n.expected.keyword as NegativeKeyword,
+        canonPath: n.canonPath,
+        property: n.property,
+      })
+    )
+  );
+  const sites: ConstraintSite[] = [];
+  collectConstraintSites(canonSchema, '', {
+    root: canonSchema,
+    sites,
+    seen: new Set(),
+  });
+
+  const targets: CoverageTargetReport[] = [];
+  for (const site of sites) {
+    const dimension = dimensionForKeyword(site.keyword);
+    if (!enabled.has(dimension)) continue;
+    const base: CoverageTarget = {
+      id: '',
+      dimension,
+      kind: 'KEYWORD_VIOLATION',
+      canonPath: site.canonPath === '' ? '#' : `#${site.canonPath}`,
+      polarity: 'negative',
+      params: {
+        keyword: site.keyword,
+        ...(site.property !== undefined ? { property: site.property } : {}),
+      },
+    };
+    targets.push({
+      ...base,
+      id: computeCoverageTargetId(base, idContext),
+      hit: hit.has(siteKey(site)),
+    });
+  }
+  return targets;
+}
+
+function dimensionForKeyword(keyword: NegativeKeyword): CoverageDimension {
+  if (keyword === 'enum') return 'enum';
+  if (
+    keyword === 'minimum' ||
+    keyword === 'maximum' ||
+    keyword === 'exclusiveMinimum' ||
+    keyword === 'exclusiveMaximum'
+  ) {
+    return 'boundaries';
+  }
+  return 'structure';
+}
+
+function siteKey(site: ConstraintSite): string {
+  return `${site.keyword}|${site.canonPath}|${site.property ?? ''}`;
+}
+
+function isWholeInstance(mutation: Mutation): boolean {
+  return mutation.path.length === 0 && mutation.value !== undefined;
+}
+
+function rotate<T>(values: T[], offset: number): T[] {
+  if (values.length === 0) return values;
+  const shift = offset % values.length;
+  return [...values.slice(shift), ...values.slice(0, shift)];
+}
+
+function tryMutation(
+  validate: ValidateFunction,
+  item: unknown,
+  mutation: Mutation
+): Omit<NegativeInstance, 'sourceIndex'> | undefined {
+  const instance = applyMutation(item, mutation);
+  if (validate(instance)) return undefined;
+  const errors = validate.errors ?? [];
+  const error = errors[0];
+  if (errors.length !== 1 || !error || error.keyword !== mutation.keyword) {
+    return undefined;
+  }
+  return {
+    instance,
+    expected: {
+      keyword: error.keyword,
+      instancePath: error.instancePath,
+      schemaPath: error.schemaPath,
+    },
+    canonPath: mutation.canonPath,
+    ...(mutation.property !== undefined ? { property: mutation.property } : {}),
+  };
+}
+
+function applyMutation(item: unknown, mutation: Mutation): unknown {
+  if (mutation.path.length === 0) {
+    return cloneJson(mutation.value);
+  }
+  const root = cloneJson(item);
+  let parent = root as Record<PathToken, unknown>;
+  for (const token of mutation.path.slice(0, -1)) {
+    parent = parent[token] as Record<PathToken, unknown>;
+  }
+  const last = mutation.path[mutation.path.length - 1]!;
+  if (mutation.value === undefined) {
+    delete parent[last];
+  } else {
+    parent[last] = cloneJson(mutation.value);
+  }
+  return root;
+}
+
+function cloneJson<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
+
+interface CollectState {
+  root: unknown;
+  mutations: Mutation[];
+  /** Guards `$ref` cycles per instance location. */
+  seen: Set<string>;
+}
+
+/** A schema node paired with the instance value it governs. */
+interface MutationCursor {
+  node: unknown;
+  canonPath: string;
+  value: unknown;
+  path: PathToken[];
+}
+
+interface ResolvedCursor {
+  schema: Record<string, unknown>;
+  pointer: string;
+  value: unknown;
+  path: PathToken[];
+}
+
+function collectMutations(cursor: MutationCursor, state: CollectState): void {
+  const resolved = resolveLocalRef(state.root, cursor.node, cursor.canonPath);
+  if (!resolved) return;
+  const guard = `${resolved.pointer}@${cursor.path.join('/')}`;
+  if (state.seen.has(guard)) return;
+  state.seen.add(guard);
+
+  const at: ResolvedCursor = {
+    ...resolved,
+    value: cursor.value,
+    path: cursor.path,
+  };
+  collectValueMutations(at, state);
+  if (isPlainObject(at.value)) {
+    collectObjectMutations(at, at.value, state);
+  } else if (Array.isArray(at.value)) {
+    collectArrayMutations(at, at.value, state);
+  }
+}
+
+function pushMutation(
+  at: ResolvedCursor,
+  state: CollectState,
+  mutation: Pick<Mutation, 'keyword' | 'value' | 'property'> & {
+    path?: PathToken[];
+  }
+): void {
+  state.mutations.push({
+    ...mutation,
+    canonPath: at.pointer,
+    path: mutation.path ?? at.path,
+  });
+}
+
+/** Mutations that replace the value itself (enum, type, numeric bounds). */
+function collectValueMutations(at: ResolvedCursor, state: CollectState): void {
+  const { schema } = at;
+  if (Array.isArray(schema.enum)) {
+    const miss = enumMiss(schema.enum as unknown[]);
+    if (miss !== undefined)
+      pushMutation(at, state, { keyword: 'enum', value: miss });
+  }
+  const wrongType = wrongTypeValue(schema.type);
+  if (wrongType !== undefined)
+    pushMutation(at, state, { keyword: 'type', value: wrongType });
+  if (typeof at.value === 'number') {
+    for (const [keyword, replacement] of numericViolations(schema)) {
+      pushMutation(at, state, { keyword, value: replacement });
+    }
+  }
+}
+
+function collectObjectMutations(
+  at: ResolvedCursor,
+  record: Record<string, unknown>,
+  state: CollectState
+): void {
+  const { schema, pointer, path } = at;
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  for (const name of required as unknown[]) {
+    if (typeof name !== 'string' || !(name in record)) continue;
+    pushMutation(at, state, {
+      keyword: 'required',
+      property: name,
+      path: [...path, name],
+    });
+  }
+  if (
+    schema.additionalProperties === false &&
+    !(EXTRA_PROPERTY_NAME in record)
+  ) {
+    pushMutation(at, state, {
+      keyword: 'additionalProperties',
+      value: true,
+      path: [...path, EXTRA_PROPERTY_NAME],
+    });
+  }
+  const properties = asRecord(schema.properties) ?? {};
+  for (const name of Object.keys(record).sort()) {
+    if (!(name in properties)) continue;
+    collectMutations(
+      {
+        node: properties[name],
+        canonPath: `${pointer}/properties/${escapePointerToken(name)}`,
+        value: record[name],
+        path: [...path, name],
+      },
+      state
+    );
+  }
+}
+
+function collectArrayMutations(
+  at: ResolvedCursor,
+  entries: unknown[],
+  state: CollectState
+): void {
+  const { schema, pointer, path } = at;
+  const prefix = Array.isArray(schema.prefixItems)
+    ? (schema.prefixItems as unknown[])
+    : [];
+  entries.forEach((entry, index) => {
+    const tuple = index < prefix.length;
+    const child = tuple ? prefix[index] : schema.items;
+    if (child === undefined || typeof child === 'boolean') return;
+    collectMutations(
+      {
+        node: child,
+        canonPath: tuple
+          ? `${pointer}/prefixItems/${index}`
+          : `${pointer}/items`,
+        value: entry,
+        path: [...path, index],
+      },
+      state
+    );
+  });
+}
+
+const NUMERIC_KEYWORDS = [
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+] as const;
+
+interface SiteState {
+  root: unknown;
+  sites: ConstraintSite[];
+  seen: Set<string>;
+}
+
+function collectConstraintSites(
+  node: unknown,
+  canonPath: string,
+  state: SiteState
+): void {
+  const resolved = resolveLocalRef(state.root, node, canonPath);
+  if (!resolved || state.seen.has(resolved.pointer)) return;
+  const { schema, pointer } = resolved;
+  state.seen.add(pointer);
+  state.sites.push(...constraintSitesOf(schema, pointer));
+  for (const [child, childPath] of childSchemas(schema, pointer)) {
+    collectConstraintSites(child, childPath, state);
+  }
+}
+
+function constraintSitesOf(
+  schema: Record<string, unknown>,
+  pointer: string
+): ConstraintSite[] {
+  const sites: ConstraintSite[] = [];
+  if (Array.isArray(schema.enum) && enumMiss(schema.enum) !== undefined) {
+    sites.push({ keyword: 'enum', canonPath: pointer });
+  }
+  if (wrongTypeValue(schema.type) !== undefined) {
+    sites.push({ keyword: 'type', canonPath: pointer });
+  }
+  for (const keyword of NUMERIC_KEYWORDS) {
+    if (typeof schema[keyword] === 'number') {
+      sites.push({ keyword, canonPath: pointer });
+    }
+  }
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  for (const name of required as unknown[]) {
+    if (typeof name !== 'string') continue;
+    sites.push({ keyword: 'required', canonPath: pointer, property: name });
+  }
+  if (schema.additionalProperties === false) {
+    sites.push({ keyword: 'additionalProperties', canonPath: pointer });
+  }
+  return sites;
+}
+
+/** Subschemas that mutation walks descend into, with their pointers. */
+function childSchemas(
+  schema: Record<string, unknown>,
+  pointer: string
+): Array<[unknown, string]> {
+  const children: Array<[unknown, string]> = [];
+  const properties = asRecord(schema.properties) ?? {};
+  for (const name of Object.keys(properties).sort()) {
+    children.push([
+      properties[name],
+      `${pointer}/properties/${escapePointerToken(name)}`,
+    ]);
+  }
+  if (Array.isArray(schema.prefixItems)) {
+    (schema.prefixItems as unknown[]).forEach((child, index) =>
+      children.push([child, `${pointer}/prefixItems/${index}`])
+    );
+  }
+  if (schema.items !== undefined && typeof schema.items !== 'boolean') {
+    children.push([schema.items, `${pointer}/items`]);
+  }
+  return children;
+}
+
+function numericViolations(
+  schema: Record<string, unknown>
+): Array<[NegativeKeyword, number]> {
+  const step = typeof schema.multipleOf === 'number' ? schema.multipleOf : 1;
+  const out: Array<[NegativeKeyword, number]> = [];
+  if (typeof schema.minimum === 'number') {
+    out.push(['minimum', schema.minimum - step]);
+  }
+  if (typeof schema.maximum === 'number') {
+    out.push(['maximum', schema.maximum + step]);
+  }
+  if (typeof schema.exclusiveMinimum === 'number') {
+    out.push(['exclusiveMinimum', schema.exclusiveMinimum]);
+  }
+  if (typeof schema.exclusiveMaximum === 'number') {
+    out.push(['exclusiveMaximum', schema.exclusiveMaximum]);
+  }
+  return out;
+}
+
+/** A JSON value of a type the `type` keyword rejects, if one exists. */
+function wrongTypeValue(type: unknown): unknown {
+  const types = Array.isArray(type) ? type : [type];
+  if (types.length === 0 || !types.every((t) => typeof t === 'string')) {
+    return undefined;
+  }
+  const allowed = new Set(types as string[]);
+  if (allowed.has('integer')) allowed.add('number');
+  const candidates: Array<[string, unknown]> = [
+    ['string', 'not-a-string'],
+    ['number', 0],
+    ['boolean', true],
+    ['null', null],
+    ['object', {}],
+    ['array', []],
+  ];
+  for (const [name, value] of candidates) {
+    if (!allowed.has(name)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/** A value of the enum's leading type that is not one of its members. */
+function enumMiss(values: unknown[]): unknown {
+  const seen = new Set(values.map((v) => JSON.stringify(v)));
+  const first = values[0];
+  let candidate: unknown;
+  if (typeof first === 'string') {
+    candidate = `${first}_invalid`;
+  } else if (typeof first === 'number') {
+    const numbers = values.filter((v): v is number => typeof v === 'number');
+    candidate = Math.max(...numbers) + 1;
+  } else {
+    candidate = '__fd_not_in_enum';
+  }
+  return seen.has(JSON.stringify(candidate)) ? undefined : candidate;
+}
+
+function resolveLocalRef(
+  root: unknown,
+  node: unknown,
+  canonPath: string
+): { schema: Record<string, unknown>; pointer: string } | undefined {
+  let schema = node;
+  let pointer = canonPath;
+  const visited = new Set<string>();
+  while (isPlainObject(schema) && typeof schema.$ref === 'string') {
+    const ref = schema.$ref;
+    if (!ref.startsWith('#') || visited.has(ref)) break;
+    visited.add(ref);
+    const target = getByPointer(root, ref.slice(1));
+    if (target === undefined) break;
+    schema = target;
+    pointer = ref.slice(1);
+  }
+  return isPlainObject(schema) ? { schema, pointer } : undefined;
+}
+
+function getByPointer(root: unknown, pointer: string): unknown {
+  if (pointer === '') return root;
+  let current: unknown = root;
+  for (const raw of pointer.split('/').slice(1)) {
+    const token = decodeURIComponent(raw)
+      .replace(/~1/g, '/')
+      .replace(/~0/g, '~');
+    if (!isPlainObject(current) && !Array.isArray(current)) return undefined;
+    current = (current as Record<string, unknown>)[token];
+  }
+  return current;
+}
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return isPlainObject(value) ? value : undefined;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
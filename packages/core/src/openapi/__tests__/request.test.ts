@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'vitest';
+import { ParseError } from '../../types/errors.js';
+import { executePipeline } from '../../pipeline/orchestrator.js';
+import {
+  selectRequestSchema,
+  type OpenApiRequestParameter,
+  type OpenApiRequestSelection,
+} from '../driver.js';
+import { serializeRequestFixture } from '../request-serializer.js';
+
+const doc = {
+  openapi: '3.1.0',
+  components: {
+    parameters: {
+      Trace: {
+        name: 'X-Trace',
+        in: 'header',
+        required: true,
+        schema: { type: 'string', const: 'abc' },
+      },
+    },
+  },
+  paths: {
+    '/users/{id}': {
+      parameters: [
+        { name: 'id', in: 'path', schema: { type: 'string' } },
+        { name: 'verbose', in: 'query', schema: { type: 'boolean' } },
+      ],
+      post: {
+        operationId: 'updateUser',
+        parameters: [
+          { name: 'id', in: 'path', schema: { type: 'integer', const: 7 } },
+          { $ref: '#/components/parameters/Trace' },
+          { name: 'Accept', in: 'header', schema: { type: 'string' } },
+          {
+            name: 'session',
+            in: 'cookie',
+            required: true,
+            schema: { const: 's1' },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['name'],
+                properties: { name: { type: 'string', const: 'Ada' } },
+              },
+            },
+          },
+        },
+        responses: { '204': { description: 'No Content' } },
+      },
+    },
+  },
+} as const;
+
+function param(
+  overrides: Partial<OpenApiRequestParameter> & { name: string }
+): OpenApiRequestParameter {
+  return {
+    in: 'query',
+    required: false,
+    style: 'form',
+    explode: true,
+    ...overrides,
+  };
+}
+
+function selectionOf(
+  parameters: OpenApiRequestParameter[],
+  path = '/items'
+): OpenApiRequestSelection {
+  return {
+    schema: {},
+    parameters,
+    meta: {
+      path,
+      method: 'get',
+      operationKey: 'GET /items',
+      operationPath: '#/paths/~1items/get',
+      context: 'request',
+    },
+  };
+}
+
+describe('OpenAPI driver - selectRequestSchema', () => {
+  it('merges path- and operation-level parameters with the request body', () => {
+    const selection = selectRequestSchema(doc, { operationId: 'updateUser' });
+
+    expect(selection.meta).toEqual({
+      path: '/users/{id}',
+      method: 'post',
+      operationKey: 'updateUser',
+      operationPath: '#/paths/~1users~1{id}/post',
+      contentType: 'application/json',
+      context: 'request',
+    });
+    expect(
+      selection.parameters.map((p) => `${p.in}:${p.name}:${p.style}`)
+    ).toEqual([
+      'path:id:simple',
+      'query:verbose:form',
+      'header:X-Trace:simple',
+      'cookie:session:form',
+    ]);
+
+    const properties = selection.schema.properties as Record<string, any>;
+    // Operation-level `id` overrides the path-level declaration.
+    expect(properties.path.properties.id).toEqual({
+      type: 'integer',
+      const: 7,
+    });
+    expect(properties.path.required).toEqual(['id']);
+    expect(properties.query.required).toEqual([]);
+    expect(properties.header.properties).not.toHaveProperty('Accept');
+    expect(selection.schema.required).toEqual([
+      'path',
+      'header',
+      'cookie',
+      'body',
+    ]);
+  });
+
+  it('throws ParseError when the operation has nothing to send', () => {
+    const bare = {
+      openapi: '3.1.0',
+      paths: { '/ping': { get: { responses: {} } } },
+    };
+    expect(() => selectRequestSchema(bare, {})).toThrow(ParseError);
+  });
+});
+
+describe('serializeRequestFixture', () => {
+  it('serializes path styles with percent-encoding', () => {
+    const fixture = serializeRequestFixture(
+      selectionOf(
+        [
+          param({ name: 'a', in: 'path', style: 'simple', explode: false }),
+          param({ name: 'b', in: 'path', style: 'label', explode: true }),
+          param({ name: 'c', in: 'path', style: 'matrix', explode: false }),
+        ],
+        '/x/{a}/{b}/{c}'
+      ),
+      { path: { a: 'a b', b: [1, 2], c: { r: 1, g: 2 } } }
+    );
+    expect(fixture.path).toBe('/x/a%20b/.1.2/;c=r,1,g,2');
+  });
+
+  it('serializes query styles, headers and cookies', () => {
+    const fixture = serializeRequestFixture(
+      selectionOf([
+        param({ name: 'ids', explode: true }),
+        param({ name: 'tags', explode: false }),
+        param({ name: 'p', style: 'pipeDelimited', explode: false }),
+        param({ name: 'f', style: 'deepObject', explode: true }),
+        param({ name: 'X-Ids', in: 'header', style: 'simple', explode: false }),
+        param({ name: 'sid', in: 'cookie' }),
+        param({ name: 'lang', in: 'cookie' }),
+      ]),
+      {
+        query: {
+          ids: [1, 2],
+          tags: ['a', 'b'],
+          p: ['x', 'y'],
+          f: { color: 'red' },
+        },
+        header: { 'X-Ids': [3, 4] },
+        cookie: { sid: 's1', lang: 'en' },
+      }
+    );
+    expect(fixture.query).toEqual({
+      ids: ['1', '2'],
+      tags: 'a,b',
+      p: 'x|y',
+      'f[color]': 'red',
+    });
+    expect(fixture.headers).toEqual({
+      'X-Ids': '3,4',
+      cookie: 'sid=s1; lang=en',
+    });
+    expect(fixture).not.toHaveProperty('body');
+  });
+
+  it('emits full request fixtures through the pipeline and hits OP_REQUEST_COVERED', async () => {
+    const selection = selectRequestSchema(doc, { operationId: 'updateUser' });
+    const result = await executePipeline(
+      { ...selection.schema, components: doc.components },
+      {
+        generate: { count: 2, seed: 3 },
+        coverage: {
+          mode: 'measure',
+          dimensionsEnabled: ['structure', 'operations'],
+          requestOperation: {
+            operationKey: selection.meta.operationKey,
+            canonPath: selection.meta.operationPath,
+          },
+        },
+      }
+    );
+    expect(result.status).toBe('completed');
+
+    const fixture = serializeRequestFixture(
+      selection,
+      result.artifacts.repaired?.[0]
+    );
+    expect(fixture).toMatchObject({
+      path: '/users/7',
+      headers: {
+        'X-Trace': 'abc',
+        cookie: 'session=s1',
+        'content-type': 'application/json',
+      },
+      body: { name: 'Ada' },
+    });
+
+    const opTarget = result.artifacts.coverageReport?.targets.find(
+      (target) => target.kind === 'OP_REQUEST_COVERED'
+    );
+    expect(opTarget).toMatchObject({
+      operationKey: 'updateUser',
+      canonPath: '#/paths/~1users~1{id}/post',
+      hit: true,
+    });
+    expect(
+      result.artifacts.coverageReport?.metrics.byOperation?.updateUser
+    ).toBeDefined();
+  });
+});
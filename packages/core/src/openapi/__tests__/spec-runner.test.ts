@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { executePipeline } from '../../pipeline/orchestrator.js';
+import type { PipelineSharedResources } from '../../pipeline/types.js';
+import { listOpenApiResponseTargets } from '../driver.js';
+import { generateOpenApiSpecFixtures } from '../spec-runner.js';
+
+const doc = {
+  openapi: '3.1.0',
+  components: {
+    schemas: {
+      User: {
+        type: 'object',
+        required: ['id'],
+        properties: { id: { type: 'integer', minimum: 1 } },
+      },
+    },
+  },
+  paths: {
+    '/users/{id}': {
+      get: {
+        operationId: 'getUser',
+        responses: {
+          '200': {
+            description: 'OK',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/User' },
+              },
+            },
+          },
+          '404': {
+            description: 'Not Found',
+            content: {
+              'application/problem+json': {
+                schema: {
+                  type: 'object',
+                  required: ['title'],
+                  properties: { title: { type: 'string' } },
+                },
+              },
+            },
+          },
+        },
+      },
+      delete: { responses: { '204': { description: 'No Content' } } },
+    },
+    '/users': {
+      get: {
+        responses: {
+          '200': {
+            description: 'OK',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/User' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
+
+describe('OpenAPI driver - listOpenApiResponseTargets', () => {
+  it('lists every response with a schema in a stable order', () => {
+    const targets = listOpenApiResponseTargets(doc);
+    expect(
+      targets.map((t) => [t.operationKey, t.status, t.contentType])
+    ).toEqual([
+      ['GET /users', '200', 'application/json'],
+      ['getUser', '200', 'application/json'],
+      ['getUser', '404', 'application/problem+json'],
+    ]);
+    expect(targets[2]).toMatchObject({
+      operationId: 'getUser',
+      method: 'get',
+      path: '/users/{id}',
+      operationPath: '#/paths/~1users~1{id}/get',
+      schemaPath:
+        '#/paths/~1users~1{id}/get/responses/404/content/application~1problem+json/schema',
+    });
+  });
+});
+
+describe('generateOpenApiSpecFixtures', () => {
+  it('runs every response and folds coverage into one report', async () => {
+    const seen: Array<[string, string, unknown[]]> = [];
+    const result = await generateOpenApiSpecFixtures(doc, {
+      count: 2,
+      seed: 5,
+      coverage: {
+        mode: 'measure',
+        dimensionsEnabled: ['structure', 'operations'],
+        minCoverage: 1,
+      },
+      onTarget: (target, items) => {
+        seen.push([target.operationKey, target.status, items]);
+      },
+    });
+
+    expect(result.targets.map((t) => t.status)).toEqual([
+      'completed',
+      'completed',
+      'completed',
+    ]);
+    expect(seen.map(([key, status]) => `${key} ${status}`)).toEqual([
+      'GET /users 200',
+      'getUser 200',
+      'getUser 404',
+    ]);
+    // A root $ref into the attached components resolves like a nested one.
+    expect(seen[1]![2]).toEqual([{ id: 1 }, { id: 1 }]);
+
+    const report = result.coverageReport!;
+    expect(report.run.actualInstances).toBe(6);
+    expect(Object.keys(report.metrics.byOperation).sort()).toEqual([
+      'GET /users',
+      'getUser',
+    ]);
+    const titleTarget = report.targets.find(
+      (t) =>
+        t.kind === 'SCHEMA_NODE' &&
+        t.canonPath ===
+          '#/paths/~1users~1{id}/get/responses/404/content/application~1problem+json/schema/properties/title'
+    );
+    expect(titleTarget).toMatchObject({
+      hit: true,
+      meta: { operationKeys: ['getUser'] },
+    });
+    expect(
+      report.targets
+        .filter((t) => t.kind === 'OP_RESPONSE_COVERED')
+        .map((t) => [t.operationKey, t.hit])
+    ).toEqual([
+      ['GET /users', true],
+      ['getUser', true],
+    ]);
+    // minCoverage applies to the combined report only.
+    expect(report.metrics.thresholds?.overall).toBe(1);
+  });
+});
+
+describe('executePipeline - shared resources', () => {
+  it('reuses one resolver result and Source AJV across runs', async () => {
+    const shared: PipelineSharedResources = { resolverRoot: doc };
+    const first = await executePipeline(
+      { type: 'object', properties: { a: { type: 'string' } } },
+      { generate: { count: 1, seed: 1 }, shared }
+    );
+    const resolver = shared.resolver;
+    const sourceAjv = shared.sourceAjv;
+    expect(first.status).toBe('completed');
+    expect(resolver).toBeDefined();
+    expect(sourceAjv).toBeDefined();
+
+    const second = await executePipeline(
+      { type: 'array', items: { type: 'integer' } },
+      { generate: { count: 1, seed: 1 }, shared }
+    );
+    expect(second.status).toBe('completed');
+    expect(shared.resolver).toBe(resolver);
+    expect(shared.sourceAjv).toBe(sourceAjv);
+  });
+
+  it('keeps a private Source AJV for schemas declaring $id', async () => {
+    const shared: PipelineSharedResources = {};
+    const schema = { $id: 'https://example.test/s.json', type: 'string' };
+    for (let run = 0; run < 2; run += 1) {
+      const result = await executePipeline(schema, {
+        generate: { count: 1, seed: 1 },
+        shared,
+      });
+      expect(result.status).toBe('completed');
+    }
+    expect(shared.sourceAjv).toBeUndefined();
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  selectRequestSchema,
+  selectResponseSchemaAndExample,
+} from '../driver.js';
+import { generateOpenApiSpecFixtures } from '../spec-runner.js';
+import { upgradeOpenApiDocument } from '../upgrade.js';
+
+const swagger = {
+  swagger: '2.0',
+  info: { title: 'Pets', version: '1' },
+  host: 'api.example.com',
+  basePath: '/v1',
+  schemes: ['https'],
+  produces: ['application/json'],
+  definitions: {
+    Pet: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'integer', minimum: 0, exclusiveMinimum: true },
+        tag: { type: 'string', 'x-nullable': true },
+        owner: { $ref: '#/definitions/Owner' },
+      },
+    },
+    Owner: { type: 'object', properties: { name: { type: 'string' } } },
+  },
+  parameters: {
+    Limit: { name: 'limit', in: 'query', type: 'integer', maximum: 50 },
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'listPets',
+        parameters: [
+          { $ref: '#/parameters/Limit' },
+          {
+            name: 'ids',
+            in: 'query',
+            type: 'array',
+            items: { type: 'integer' },
+            collectionFormat: 'csv',
+          },
+          {
+            name: 'X-Tags',
+            in: 'header',
+            type: 'array',
+            items: { type: 'string' },
+            collectionFormat: 'tsv',
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'OK',
+            schema: { type: 'array', items: { $ref: '#/definitions/Pet' } },
+            examples: { 'application/json': [{ id: 1 }] },
+          },
+        },
+      },
+      post: {
+        operationId: 'createPet',
+        consumes: ['application/json', 'application/xml'],
+        parameters: [
+          {
+            name: 'pet',
+            in: 'body',
+            required: true,
+            schema: { $ref: '#/definitions/Pet' },
+          },
+        ],
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+    '/pets/{id}/photo': {
+      put: {
+        operationId: 'uploadPhoto',
+        consumes: ['multipart/form-data'],
+        parameters: [
+          { name: 'id', in: 'path', required: true, type: 'integer' },
+          { name: 'file', in: 'formData', required: true, type: 'file' },
+          { name: 'caption', in: 'formData', type: 'string' },
+        ],
+        responses: { '204': { description: 'No Content' } },
+      },
+    },
+  },
+};
+
+describe('upgradeOpenApiDocument', () => {
+  it('moves Swagger 2.0 definitions, parameters and servers to 3.1 places', () => {
+    const { document, sourceVersion } = upgradeOpenApiDocument(swagger);
+    const upgraded = document as Record<string, any>;
+
+    expect(sourceVersion).toBe('2.0');
+    expect(upgraded.openapi).toBe('3.1.0');
+    expect(upgraded).not.toHaveProperty('swagger');
+    expect(upgraded).not.toHaveProperty('definitions');
+    expect(upgraded.servers).toEqual([{ url: 'https://api.example.com/v1' }]);
+    expect(upgraded.components.schemas.Pet.properties).toEqual({
+      id: { type: 'integer', exclusiveMinimum: 0 },
+      tag: { type: ['string', 'null'] },
+      owner: { $ref: '#/components/schemas/Owner' },
+    });
+    expect(upgraded.components.parameters.Limit).toEqual({
+      name: 'limit',
+      in: 'query',
+      schema: { type: 'integer', maximum: 50 },
+    });
+    expect(upgraded.paths['/pets'].get.parameters.slice(0, 2)).toEqual([
+      { $ref: '#/components/parameters/Limit' },
+      {
+        name: 'ids',
+        in: 'query',
+        style: 'form',
+        explode: false,
+        schema: { type: 'array', items: { type: 'integer' } },
+      },
+    ]);
+    expect(swagger.definitions.Pet.properties.id).toHaveProperty(
+      'exclusiveMinimum',
+      true
+    );
+  });
+
+  it('turns body, formData and response schemas into content maps', () => {
+    const upgraded = upgradeOpenApiDocument(swagger).document as Record<
+      string,
+      any
+    >;
+    const pets = upgraded.paths['/pets'];
+
+    expect(pets.post.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/json': { schema: { $ref: '#/components/schemas/Pet' } },
+        'application/xml': { schema: { $ref: '#/components/schemas/Pet' } },
+      },
+    });
+    expect(pets.get.responses['200'].content).toEqual({
+      'application/json': {
+        schema: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/Pet' },
+        },
+        example: [{ id: 1 }],
+      },
+    });
+    expect(upgraded.paths['/pets/{id}/photo'].put.requestBody.content).toEqual({
+      'multipart/form-data': {
+        schema: {
+          type: 'object',
+          required: ['file'],
+          properties: {
+            file: { type: 'string', format: 'binary' },
+            caption: { type: 'string' },
+          },
+        },
+      },
+    });
+  });
+
+  it('records a note for every lossy rewrite', () => {
+    expect(upgradeOpenApiDocument(swagger).notes).toEqual([
+      {
+        code: 'OAS_UPGRADE_COLLECTION_FORMAT',
+        path: '#/paths/~1pets/get/parameters/2/collectionFormat',
+        details: { collectionFormat: 'tsv', in: 'header' },
+      },
+      {
+        code: 'OAS_UPGRADE_FILE_TYPE',
+        path: '#/paths/~1pets~1{id}~1photo/put/parameters/1',
+      },
+    ]);
+  });
+
+  it('rewrites OpenAPI 3.0 nullable and boolean exclusive bounds', () => {
+    const input = {
+      openapi: '3.0.3',
+      paths: {},
+      components: {
+        schemas: {
+          Size: {
+            type: 'string',
+            enum: ['S', 'M'],
+            nullable: true,
+          },
+          Ratio: {
+            type: 'number',
+            maximum: 1,
+            exclusiveMaximum: true,
+            exclusiveMinimum: true,
+          },
+          Wrapped: {
+            allOf: [{ $ref: '#/components/schemas/Size' }],
+            nullable: true,
+          },
+        },
+      },
+    };
+    const { document, sourceVersion, notes } = upgradeOpenApiDocument(input);
+
+    expect(sourceVersion).toBe('3.0');
+    expect((document as Record<string, any>).components.schemas).toEqual({
+      Size: { type: ['string', 'null'], enum: ['S', 'M', null] },
+      Ratio: { type: 'number', exclusiveMaximum: 1 },
+      Wrapped: { allOf: [{ $ref: '#/components/schemas/Size' }] },
+    });
+    expect(notes.map((note) => [note.code, note.path])).toEqual([
+      [
+        'OAS_UPGRADE_EXCLUSIVE_BOUND_WITHOUT_LIMIT',
+        '#/components/schemas/Ratio/exclusiveMinimum',
+      ],
+      ['OAS_UPGRADE_NULLABLE_WITHOUT_TYPE', '#/components/schemas/Wrapped'],
+    ]);
+  });
+
+  it('returns 3.1 documents untouched', () => {
+    const input = { openapi: '3.1.0', paths: {} };
+    expect(upgradeOpenApiDocument(input)).toEqual({
+      document: input,
+      sourceVersion: '3.1',
+      notes: [],
+    });
+    expect(upgradeOpenApiDocument(input).document).toBe(input);
+  });
+
+  it('lets the driver select from the upgraded view', () => {
+    const upgraded = upgradeOpenApiDocument(swagger).document;
+    const request = selectRequestSchema(upgraded, { operationId: 'createPet' });
+    const response = selectResponseSchemaAndExample(upgraded, {
+      operationId: 'listPets',
+      preferExamples: true,
+    });
+
+    expect(request.meta.contentType).toBe('application/json');
+    expect(request.schema.required).toEqual(['body']);
+    expect(response.example).toEqual([{ id: 1 }]);
+  });
+
+  it('generates spec fixtures straight from a Swagger 2.0 document', async () => {
+    const result = await generateOpenApiSpecFixtures(swagger, {
+      count: 2,
+      seed: 7,
+    });
+    expect(result.targets.map((outcome) => outcome.status)).toEqual([
+      'completed',
+    ]);
+    expect(result.upgradeNotes).toHaveLength(2);
+  });
+});
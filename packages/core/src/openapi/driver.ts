@@ -1,8 +1,11 @@
 /* eslint-disable max-depth */
 /* eslint-disable complexity */
 /* eslint-disable max-lines-per-function */
+/* eslint-disable max-lines */
 
 import { ParseError } from '../types/errors.js';
+import type { SchemaAccessContext } from '../transform/access-context.js';
+import { deriveOperationKey } from '../coverage/coverage-analyzer-openapi.js';
 
 const HTTP_METHODS = [
   'get',
@@ -45,6 +48,12 @@ export interface OpenApiDriverOptions {
    * candidate example (when present) so callers can make that decision.
    */
   preferExamples?: boolean;
+  /**
+   * Access context reported in the selection meta, for callers to pass to
+   * Generate. Defaults to 'response' for response selections and 'request'
+   * for request selections.
+   */
+  context?: SchemaAccessContext;
 }
 
 export interface OpenApiSchemaSelectionMeta {
@@ -52,6 +61,8 @@ export interface OpenApiSchemaSelectionMeta {
   method: HttpMethod;
   status: string;
   contentType: string;
+  /** Generate with this context to honour readOnly/writeOnly. */
+  context: SchemaAccessContext;
 }
 
 export interface OpenApiSchemaSelection {
@@ -210,13 +221,14 @@ function selectResponse(
 }
 
 function selectContent(
-  response: Record<string, unknown>,
-  opts: OpenApiDriverOptions
+  owner: Record<string, unknown>,
+  opts: OpenApiDriverOptions,
+  label = 'Response'
 ): { contentType: string; mediaType: Record<string, unknown> } {
-  const content = response.content;
+  const content = owner.content;
   if (!isRecord(content)) {
     throw new ParseError({
-      message: 'Response has no content object',
+      message: `${label} has no content object`,
       context: { section: 'content' },
     });
   }
@@ -224,7 +236,7 @@ function selectContent(
   const contentTypes = Object.keys(content);
   if (contentTypes.length === 0) {
     throw new ParseError({
-      message: 'Response content is empty',
+      message: `${label} content is empty`,
       context: { section: 'content' },
     });
   }
@@ -343,6 +355,373 @@ export function selectResponseSchemaAndExample(
       method,
       status,
       contentType,
+      context: opts.context ?? 'response',
+    },
+  };
+}
+
+export type OpenApiParameterLocation = 'path' | 'query' | 'header' | 'cookie';
+
+export interface OpenApiRequestParameter {
+  name: string;
+  in: OpenApiParameterLocation;
+  required: boolean;
+  /** Serialization style, defaulted per location (simple or form). */
+  style: string;
+  explode: boolean;
+  /** Parameter declared via `content`; its value is serialized as JSON. */
+  json?: boolean;
+}
+
+export interface OpenApiRequestSelectionMeta {
+  path: string;
+  method: HttpMethod;
+  /** Operation key as used by coverage targets (operationId or "METHOD path"). */
+  operationKey: string;
+  /** Canonical pointer of the operation, e.g. "#/paths/~1users/post". */
+  operationPath: string;
+  /** Selected requestBody content type when the operation has a body. */
+  contentType?: string;
+  /** Generate with this context to honour readOnly/writeOnly. */
+  context: SchemaAccessContext;
+}
+
+export interface OpenApiRequestSelection {
+  /**
+   * Object schema holding raw parameter values under `path`, `query`,
+   * `header` and `cookie` plus the request body under `body`. Generated
+   * instances become request fixtures via serializeRequestFixture.
+   */
+  schema: Record<string, unknown>;
+  parameters: OpenApiRequestParameter[];
+  meta: OpenApiRequestSelectionMeta;
+}
+
+const PARAMETER_LOCATIONS: readonly OpenApiParameterLocation[] = [
+  'path',
+  'query',
+  'header',
+  'cookie',
+];
+
+// Header parameters OpenAPI says tooling must ignore.
+const IGNORED_HEADER_PARAMETERS = new Set([
+  'accept',
+  'content-type',
+  'authorization',
+]);
+
+function resolveLocalRef(
+  document: Record<string, unknown>,
+  value: unknown
+): unknown {
+  let current = value;
+  const seen = new Set<string>();
+  while (isRecord(current) && typeof current.$ref === 'string') {
+    const ref = current.$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) {
+      throw new ParseError({
+        message: `Cannot resolve reference "${ref}"`,
+        context: { ref },
+      });
+    }
+    seen.add(ref);
+    let target: unknown = document;
+    for (const raw of ref.slice(2).split('/')) {
+      const token = decodeURIComponent(raw)
+        .replace(/~1/g, '/')
+        .replace(/~0/g, '~');
+      target = isRecord(target) ? target[token] : undefined;
+    }
+    if (target === undefined) {
+      throw new ParseError({
+        message: `Cannot resolve reference "${ref}"`,
+        context: { ref },
+      });
+    }
+    current = target;
+  }
+  return current;
+}
+
+function readParameter(
+  document: Record<string, unknown>,
+  raw: unknown
+): { parameter: OpenApiRequestParameter; schema: unknown } | undefined {
+  const param = resolveLocalRef(document, raw);
+  if (!isRecord(param) || typeof param.name !== 'string') return undefined;
+  const location = param.in as OpenApiParameterLocation;
+  if (!PARAMETER_LOCATIONS.includes(location)) return undefined;
+  if (
+    location === 'header' &&
+    IGNORED_HEADER_PARAMETERS.has(param.name.toLowerCase())
+  ) {
+    return undefined;
+  }
+
+  let schema = param.schema;
+  let json = false;
+  if (schema === undefined && isRecord(param.content)) {
+    const [mediaType] = Object.values(param.content);
+    schema = isRecord(mediaType) ? mediaType.schema : undefined;
+    json = true;
+  }
+  if (schema === undefined) {
+    throw new ParseError({
+      message: `Parameter "${param.name}" has no schema or content`,
+      context: { parameter: param.name, in: location },
+    });
+  }
+
+  const style =
+    typeof param.style === 'string'
+      ? param.style
+      : location === 'path' || location === 'header'
+        ? 'simple'
+        : 'form';
+  return {
+    parameter: {
+      name: param.name,
+      in: location,
+      // Path parameters are always required.
+      required: location === 'path' || param.required === true,
+      style,
+      explode:
+        typeof param.explode === 'boolean' ? param.explode : style === 'form',
+      ...(json ? { json } : {}),
+    },
+    schema,
+  };
+}
+
+function collectParameters(
+  document: Record<string, unknown>,
+  pathItem: Record<string, unknown>,
+  operation: Record<string, unknown>
+): Array<{ parameter: OpenApiRequestParameter; schema: unknown }> {
+  // Operation-level parameters override path-level ones by (in, name).
+  const merged = new Map<
+    string,
+    { parameter: OpenApiRequestParameter; schema: unknown }
+  >();
+  for (const list of [pathItem.parameters, operation.parameters]) {
+    if (!Array.isArray(list)) continue;
+    for (const raw of list) {
+      const entry = readParameter(document, raw);
+      if (!entry) continue;
+      merged.set(`${entry.parameter.in}:${entry.parameter.name}`, entry);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+function buildRequestSchema(
+  parameters: Array<{ parameter: OpenApiRequestParameter; schema: unknown }>,
+  body: { schema: unknown; required: boolean } | undefined
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  const required: string[] = [];
+  for (const location of PARAMETER_LOCATIONS) {
+    const group = parameters.filter((p) => p.parameter.in === location);
+    if (group.length === 0) continue;
+    const groupRequired = group
+      .filter((p) => p.parameter.required)
+      .map((p) => p.parameter.name);
+    properties[location] = {
+      type: 'object',
+      properties: Object.fromEntries(
+        group.map((p) => [p.parameter.name, p.schema])
+      ),
+      required: groupRequired,
+      additionalProperties: false,
+    };
+    if (groupRequired.length > 0) required.push(location);
+  }
+  if (body) {
+    properties.body = body.schema;
+    if (body.required) required.push('body');
+  }
+  return {
+    type: 'object',
+    properties,
+    required,
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Select the request side of an operation: path- and operation-level
+ * parameters (merged, `$ref`s resolved) and the requestBody schema for the
+ * selected content type, combined into one object schema.
+ *
+ * Like selectResponseSchemaAndExample, this never performs I/O and throws
+ * ParseError for invalid or ambiguous inputs.
+ */
+export function selectRequestSchema(
+  document: unknown,
+  opts: OpenApiDriverOptions
+): OpenApiRequestSelection {
+  if (!isRecord(document)) {
+    throw new ParseError({
+      message: 'Invalid OpenAPI document: expected an object',
+      context: { section: 'root' },
+    });
+  }
+
+  const { pathKey, method, operation } = selectOperation(document, opts);
+  const pathItem = (document.paths as Record<string, unknown>)[pathKey];
+  const parameters = collectParameters(
+    document,
+    isRecord(pathItem) ? pathItem : {},
+    operation
+  );
+
+  let body: { schema: unknown; required: boolean } | undefined;
+  let contentType: string | undefined;
+  const requestBody = resolveLocalRef(document, operation.requestBody);
+  if (isRecord(requestBody)) {
+    const selected = selectContent(requestBody, opts, 'Request body');
+    if (selected.mediaType.schema === undefined) {
+      throw new ParseError({
+        message: 'Selected request body content entry has no schema',
+        context: { path: pathKey, method, contentType: selected.contentType },
+      });
+    }
+    contentType = selected.contentType;
+    body = {
+      schema: selected.mediaType.schema,
+      required: requestBody.required === true,
+    };
+  }
+
+  if (parameters.length === 0 && !body) {
+    throw new ParseError({
+      message: 'Operation has no request parameters or request body',
+      context: { path: pathKey, method },
+    });
+  }
+
+  const { operationKey, operationPtr } = deriveOperationKey({
+    pathKey,
+    method,
+    operation,
+  });
+  return {
+    schema: buildRequestSchema(parameters, body),
+    parameters: parameters.map((p) => p.parameter),
+    meta: {
+      path: pathKey,
+      method,
+      operationKey,
+      operationPath: `#${operationPtr}`,
+      ...(contentType !== undefined ? { contentType } : {}),
+      context: opts.context ?? 'request',
     },
   };
 }
+
+export interface OpenApiResponseTarget {
+  /** Operation key as used by coverage targets (operationId or "METHOD path"). */
+  operationKey: string;
+  operationId?: string;
+  path: string;
+  method: HttpMethod;
+  status: string;
+  contentType: string;
+  /** Canonical operation pointer, e.g. "#/paths/~1users/get". */
+  operationPath: string;
+  /** Canonical pointer of the response schema within the document. */
+  schemaPath: string;
+  schema: unknown;
+}
+
+function appendPointerToken(base: string, token: string): string {
+  return `${base}/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function collectResponseTargets(
+  document: Record<string, unknown>,
+  operation: Record<string, unknown>,
+  context: Pick<
+    OpenApiResponseTarget,
+    'operationKey' | 'operationId' | 'path' | 'method' | 'operationPath'
+  >
+): OpenApiResponseTarget[] {
+  const targets: OpenApiResponseTarget[] = [];
+  const responses = operation.responses;
+  if (!isRecord(responses)) return targets;
+  for (const status of Object.keys(responses)) {
+    const response = resolveLocalRef(document, responses[status]);
+    if (!isRecord(response) || !isRecord(response.content)) continue;
+    // Responses declared via $ref keep their pointer under the operation so
+    // each (status, contentType) pair stays addressable on its own.
+    const responsePath = appendPointerToken(
+      appendPointerToken(context.operationPath, 'responses'),
+      status
+    );
+    for (const [contentType, mediaType] of Object.entries(response.content)) {
+      if (!isRecord(mediaType) || mediaType.schema === undefined) continue;
+      targets.push({
+        ...context,
+        status,
+        contentType,
+        schemaPath: appendPointerToken(
+          appendPointerToken(
+            appendPointerToken(responsePath, 'content'),
+            contentType
+          ),
+          'schema'
+        ),
+        schema: mediaType.schema,
+      });
+    }
+  }
+  return targets;
+}
+
+/**
+ * List every (operation, status, contentType) response that declares a
+ * schema. Paths are sorted, methods follow the HTTP_METHODS order, and
+ * statuses and content types keep document order, so the list is stable for
+ * a given document.
+ */
+export function listOpenApiResponseTargets(
+  document: unknown
+): OpenApiResponseTarget[] {
+  if (!isRecord(document) || !isRecord(document.paths)) {
+    throw new ParseError({
+      message: 'Invalid OpenAPI document: missing or invalid "paths" object',
+      context: { section: 'paths' },
+    });
+  }
+
+  const paths = document.paths;
+  const targets: OpenApiResponseTarget[] = [];
+  for (const pathKey of Object.keys(paths).sort()) {
+    const pathItem = paths[pathKey];
+    if (!isRecord(pathItem)) continue;
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!isRecord(operation)) continue;
+      const { operationKey, operationPtr } = deriveOperationKey({
+        pathKey,
+        method,
+        operation,
+      });
+      const operationId =
+        typeof operation.operationId === 'string'
+          ? operation.operationId
+          : undefined;
+      targets.push(
+        ...collectResponseTargets(document, operation, {
+          operationKey,
+          ...(operationId !== undefined ? { operationId } : {}),
+          path: pathKey,
+          method,
+          operationPath: `#${operationPtr}`,
+        })
+      );
+    }
+  }
+  return targets;
+}
@@ -0,0 +1,215 @@
+import type {
+  OpenApiRequestParameter,
+  OpenApiRequestSelection,
+} from './driver.js';
+
+/**
+ * Request fixture emitted for an OpenAPI request selection: the path
+ * template with serialized path parameters, query parameters keyed by their
+ * serialized names (repeated keys collect into arrays), header values
+ * (cookies folded into a `cookie` header) and the body when present.
+ */
+export interface OpenApiRequestFixture {
+  path: string;
+  query: Record<string, string | string[]>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+type Encode = (value: string) => string;
+
+const identity: Encode = (value) => value;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function scalar(value: unknown, encode: Encode): string {
+  if (value === null) return encode('null');
+  return encode(
+    typeof value === 'object' ? JSON.stringify(value) : String(value)
+  );
+}
+
+/** Object members as [key, value] pairs; `k=v` when exploded. */
+function members(
+  value: Record<string, unknown>,
+  explode: boolean,
+  encode: Encode
+): string[] {
+  return Object.entries(value).flatMap(([key, member]) =>
+    explode
+      ? [`${encode(key)}=${scalar(member, encode)}`]
+      : [encode(key), scalar(member, encode)]
+  );
+}
+
+function parts(value: unknown, explode: boolean, encode: Encode): string[] {
+  if (Array.isArray(value)) return value.map((item) => scalar(item, encode));
+  if (isRecord(value)) return members(value, explode, encode);
+  return [scalar(value, encode)];
+}
+
+/** simple (path, header), label and matrix styles. */
+function serializeSegment(
+  param: OpenApiRequestParameter,
+  value: unknown,
+  encode: Encode
+): string {
+  const values = parts(value, param.explode, encode);
+  const composite = Array.isArray(value) || isRecord(value);
+  switch (param.style) {
+    case 'label':
+      return `.${values.join(param.explode && composite ? '.' : ',')}`;
+    case 'matrix': {
+      const name = encode(param.name);
+      if (!param.explode || !composite) return `;${name}=${values.join(',')}`;
+      return Array.isArray(value)
+        ? values.map((item) => `;${name}=${item}`).join('')
+        : values.map((member) => `;${member}`).join('');
+    }
+    default:
+      return values.join(',');
+  }
+}
+
+/** form, spaceDelimited, pipeDelimited and deepObject styles. */
+function formPairs(
+  param: OpenApiRequestParameter,
+  value: unknown
+): Array<[string, string]> {
+  const { name } = param;
+  if (param.json) return [[name, JSON.stringify(value)]];
+  if (param.style === 'deepObject' && isRecord(value)) {
+    return Object.entries(value).map(([key, member]) => [
+      `${name}[${key}]`,
+      scalar(member, identity),
+    ]);
+  }
+  if (Array.isArray(value) && param.explode) {
+    return value.map((item) => [name, scalar(item, identity)]);
+  }
+  if (isRecord(value) && param.explode) {
+    return Object.entries(value).map(([key, member]) => [
+      key,
+      scalar(member, identity),
+    ]);
+  }
+  const separator =
+    param.style === 'spaceDelimited'
+      ? ' '
+      : param.style === 'pipeDelimited'
+        ? '|'
+        : ',';
+  return [[name, parts(value, false, identity).join(separator)]];
+}
+
+function substitutePath(
+  template: string,
+  params: OpenApiRequestParameter[],
+  values: Record<string, unknown>
+): string {
+  let path = template;
+  for (const param of params) {
+    if (!(param.name in values)) continue;
+    const serialized = param.json
+      ? encodeURIComponent(JSON.stringify(values[param.name]))
+      : serializeSegment(param, values[param.name], encodeURIComponent);
+    path = path.split(`{${param.name}}`).join(serialized);
+  }
+  return path;
+}
+
+function groupValues(
+  value: Record<string, unknown>,
+  location: string
+): Record<string, unknown> {
+  const group = value[location];
+  return isRecord(group) ? group : {};
+}
+
+function serializeQuery(
+  params: OpenApiRequestParameter[],
+  values: Record<string, unknown>
+): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const param of params) {
+    if (!(param.name in values)) continue;
+    for (const [key, item] of formPairs(param, values[param.name])) {
+      const existing = query[key];
+      query[key] =
+        existing === undefined
+          ? item
+          : [...(Array.isArray(existing) ? existing : [existing]), item];
+    }
+  }
+  return query;
+}
+
+function serializeHeaders(
+  params: OpenApiRequestParameter[],
+  values: Record<string, unknown>
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const param of params) {
+    if (!(param.name in values)) continue;
+    headers[param.name] = param.json
+      ? JSON.stringify(values[param.name])
+      : serializeSegment(param, values[param.name], identity);
+  }
+  return headers;
+}
+
+function serializeCookies(
+  params: OpenApiRequestParameter[],
+  values: Record<string, unknown>
+): string | undefined {
+  const cookies = params
+    .filter((param) => param.name in values)
+    .flatMap((param) => formPairs(param, values[param.name]))
+    .map(([key, item]) => `${key}=${item}`);
+  return cookies.length > 0 ? cookies.join('; ') : undefined;
+}
+
+/**
+ * Serialize a generated request instance (the shape described by
+ * OpenApiRequestSelection.schema) into a fixture, honouring each
+ * parameter's `style`/`explode`.
+ */
+export function serializeRequestFixture(
+  selection: OpenApiRequestSelection,
+  instance: unknown
+): OpenApiRequestFixture {
+  const value = isRecord(instance) ? instance : {};
+  const byLocation = (
+    location: OpenApiRequestParameter['in']
+  ): OpenApiRequestParameter[] =>
+    selection.parameters.filter((param) => param.in === location);
+
+  const headers = serializeHeaders(
+    byLocation('header'),
+    groupValues(value, 'header')
+  );
+  const cookie = serializeCookies(
+    byLocation('cookie'),
+    groupValues(value, 'cookie')
+  );
+  if (cookie !== undefined) headers.cookie = cookie;
+
+  const fixture: OpenApiRequestFixture = {
+    path: substitutePath(
+      selection.meta.path,
+      byLocation('path'),
+      groupValues(value, 'path')
+    ),
+    query: serializeQuery(byLocation('query'), groupValues(value, 'query')),
+    headers,
+  };
+  if ('body' in value) {
+    if (selection.meta.contentType !== undefined) {
+      headers['content-type'] = selection.meta.contentType;
+    }
+    fixture.body = value.body;
+  }
+  return fixture;
+}
@@ -0,0 +1,292 @@
+import type {
+  CoverageReport,
+  CoverageTargetReport,
+  PlannerCapHit,
+  UnsatisfiedHint,
+} from '@foundrydata/shared';
+import { Generate, type GenerateOptions } from '../api.js';
+import type {
+  PipelineResult,
+  PipelineSharedResources,
+} from '../pipeline/types.js';
+import {
+  evaluateCoverageAndBuildReport,
+  resolveCoverageDimensions,
+  shouldRunCoverageAnalyzer,
+} from '../coverage/runtime.js';
+import { buildOperationTarget } from '../coverage/coverage-analyzer-openapi.js';
+import {
+  computeCoverageTargetId,
+  createCoverageTargetIdContext,
+  COVERAGE_ID_ENGINE_VERSION,
+} from '../coverage/id-generator.js';
+import {
+  listOpenApiResponseTargets,
+  type OpenApiResponseTarget,
+} from './driver.js';
+import { upgradeOpenApiDocument, type OpenApiUpgradeNote } from './upgrade.js';
+import corePackageJson from '../../package.json' with { type: 'json' };
+
+export interface OpenApiSpecFixturesOptions
+  extends Omit<GenerateOptions, 'stream' | 'shared'> {
+  /** Instances generated per response target. */
+  count: number;
+  seed: number;
+  /**
+   * Called once per response target, in listing order, with the emitted
+   * items. Awaited before the next target runs.
+   */
+  onTarget?: (
+    target: OpenApiResponseTarget,
+    items: unknown[],
+    result: PipelineResult
+  ) => void | Promise<void>;
+}
+
+export interface OpenApiSpecTargetOutcome {
+  target: OpenApiResponseTarget;
+  status: PipelineResult['status'];
+  itemCount: number;
+  /** First stage error when the run failed. */
+  error?: Error;
+}
+
+export interface OpenApiSpecFixturesResult {
+  targets: OpenApiSpecTargetOutcome[];
+  /**
+   * One report over every response run: schema targets rebased onto their
+   * document pointers and tagged with the operations that reach them, plus
+   * an OP_RESPONSE_COVERED target per operation when the 'operations'
+   * dimension is enabled. Undefined when coverage is off.
+   */
+  coverageReport?: CoverageReport;
+  /** Lossy rewrites made while upgrading a Swagger 2.0 / OpenAPI 3.0 input. */
+  upgradeNotes: OpenApiUpgradeNote[];
+}
+
+interface CoverageRun {
+  target: OpenApiResponseTarget;
+  report: CoverageReport;
+  targets: CoverageTargetReport[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Attach the document components so local references such as
+ * "#/components/schemas/User" stay resolvable in the per-response run.
+ */
+function withComponents(schema: unknown, document: unknown): unknown {
+  if (!isRecord(schema) || !isRecord(document)) return schema;
+  if (!isRecord(document.components) || 'components' in schema) return schema;
+  return { ...schema, components: document.components };
+}
+
+/**
+ * Map a per-run canonPath onto the OpenAPI document: paths under the
+ * attached components already match the document, everything else lives
+ * under the response schema pointer.
+ */
+function rebaseCanonPath(canonPath: string, schemaPath: string): string {
+  const pointer = canonPath.startsWith('#') ? canonPath.slice(1) : canonPath;
+  if (pointer === '/components' || pointer.startsWith('/components/')) {
+    return `#${pointer}`;
+  }
+  return `${schemaPath}${pointer}`;
+}
+
+function mergeKey(target: CoverageTargetReport): string {
+  return JSON.stringify([
+    target.dimension,
+    target.kind,
+    target.canonPath,
+    target.params ?? null,
+  ]);
+}
+
+function operationKeysOf(target: CoverageTargetReport): Set<string> {
+  const keys = (target.meta as { operationKeys?: unknown } | undefined)
+    ?.operationKeys;
+  return new Set(Array.isArray(keys) ? (keys as string[]) : []);
+}
+
+function mergeRunTargets(runs: CoverageRun[]): CoverageTargetReport[] {
+  const merged = new Map<string, CoverageTargetReport>();
+  for (const run of runs) {
+    for (const raw of run.targets) {
+      const rebased: CoverageTargetReport = {
+        ...raw,
+        canonPath: rebaseCanonPath(raw.canonPath, run.target.schemaPath),
+      };
+      const key = mergeKey(rebased);
+      const existing = merged.get(key);
+      const operationKeys = operationKeysOf(existing ?? rebased);
+      operationKeys.add(run.target.operationKey);
+      merged.set(key, {
+        ...(existing ?? rebased),
+        hit: (existing?.hit ?? false) || rebased.hit,
+        meta: {
+          ...(existing ?? rebased).meta,
+          operationKeys: Array.from(operationKeys).sort(),
+        },
+      });
+    }
+  }
+
+  const idContext = createCoverageTargetIdContext({
+    engineVersion: COVERAGE_ID_ENGINE_VERSION,
+  });
+  return Array.from(merged.values()).map((target) => ({
+    ...target,
+    id: computeCoverageTargetId(target, idContext),
+  }));
+}
+
+function buildResponseOperationTargets(
+  outcomes: OpenApiSpecTargetOutcome[]
+): CoverageTargetReport[] {
+  const emittedByOperation = new Map<
+    string,
+    { canonPath: string; emitted: number }
+  >();
+  for (const { target, itemCount } of outcomes) {
+    const entry = emittedByOperation.get(target.operationKey) ?? {
+      canonPath: target.operationPath,
+      emitted: 0,
+    };
+    entry.emitted += itemCount;
+    emittedByOperation.set(target.operationKey, entry);
+  }
+  return Array.from(emittedByOperation.entries()).map(
+    ([operationKey, { canonPath, emitted }]) =>
+      buildOperationTarget(
+        'OP_RESPONSE_COVERED',
+        { operationKey, canonPath },
+        emitted
+      )
+  );
+}
+
+function buildCombinedCoverageReport(
+  options: OpenApiSpecFixturesOptions,
+  runs: CoverageRun[],
+  outcomes: OpenApiSpecTargetOutcome[],
+  startedAt: Date
+): CoverageReport {
+  const dimensionsEnabled = resolveCoverageDimensions(
+    options.coverage?.dimensionsEnabled
+  );
+  const targets = mergeRunTargets(runs);
+  if (dimensionsEnabled.includes('operations')) {
+    targets.push(...buildResponseOperationTargets(outcomes));
+  }
+  const plannerCapsHit: PlannerCapHit[] = [];
+  const unsatisfiedHints: UnsatisfiedHint[] = [];
+  for (const { report } of runs) {
+    plannerCapsHit.push(...report.diagnostics.plannerCapsHit);
+    unsatisfiedHints.push(...report.unsatisfiedHints);
+  }
+
+  return evaluateCoverageAndBuildReport({
+    mode: options.coverage?.mode ?? 'off',
+    dimensionsEnabled,
+    coverageOptions: options.coverage,
+    targets,
+    plannerCapsHit,
+    unsatisfiedHints,
+    runInfo: {
+      seed: options.seed,
+      maxInstances: options.count * outcomes.length,
+      actualInstances: outcomes.reduce((sum, o) => sum + o.itemCount, 0),
+      startedAtIso: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+    },
+    engineInfo: {
+      foundryVersion:
+        (corePackageJson as { version?: string }).version ?? '0.0.0',
+      ajvMajor: 8,
+    },
+  }).report;
+}
+
+async function runResponseTarget(
+  document: unknown,
+  target: OpenApiResponseTarget,
+  options: OpenApiSpecFixturesOptions,
+  shared: PipelineSharedResources
+): Promise<PipelineResult> {
+  const { count, seed, onTarget: _onTarget, ...generateOptions } = options;
+  // The threshold applies to the combined report, not to each response.
+  const coverage = options.coverage
+    ? { ...options.coverage, minCoverage: undefined }
+    : undefined;
+  return Generate(count, seed, withComponents(target.schema, document), {
+    ...generateOptions,
+    // Response fixtures leave out writeOnly properties unless told otherwise.
+    context: options.context ?? 'response',
+    coverage,
+    shared,
+  }).result;
+}
+
+/**
+ * Generate response fixtures for every (operation, status, contentType) of
+ * an OpenAPI document. All runs share one resolver registry (built from the
+ * whole document) and one Source AJV, and their coverage is folded into a
+ * single report keyed by operationKey.
+ *
+ * Swagger 2.0 and OpenAPI 3.0 inputs are upgraded to their 3.1 view first,
+ * so targets, schemaPaths and coverage pointers refer to that view.
+ *
+ * A failing response does not stop the remaining ones; check each outcome's
+ * status.
+ */
+export async function generateOpenApiSpecFixtures(
+  input: unknown,
+  options: OpenApiSpecFixturesOptions
+): Promise<OpenApiSpecFixturesResult> {
+  const startedAt = new Date();
+  const { document, notes: upgradeNotes } = upgradeOpenApiDocument(input);
+  const shared: PipelineSharedResources = {
+    resolverRoot: isRecord(document) ? document : undefined,
+  };
+  const outcomes: OpenApiSpecTargetOutcome[] = [];
+  const runs: CoverageRun[] = [];
+
+  for (const target of listOpenApiResponseTargets(document)) {
+    const result = await runResponseTarget(document, target, options, shared);
+    const items =
+      result.status === 'completed'
+        ? (result.artifacts.negativeInstances ??
+          result.artifacts.repaired ??
+          [])
+        : [];
+    outcomes.push({
+      target,
+      status: result.status,
+      itemCount: items.length,
+      ...(result.errors[0] ? { error: result.errors[0] } : {}),
+    });
+    const { coverageReport, coverageTargets } = result.artifacts;
+    if (coverageReport && coverageTargets) {
+      runs.push({
+        target,
+        report: coverageReport,
+        targets: coverageTargets as CoverageTargetReport[],
+      });
+    }
+    if (result.status === 'completed') {
+      await options.onTarget?.(target, items, result);
+    }
+  }
+
+  return {
+    targets: outcomes,
+    coverageReport: shouldRunCoverageAnalyzer(options.coverage)
+      ? buildCombinedCoverageReport(options, runs, outcomes, startedAt)
+      : undefined,
+    upgradeNotes,
+  };
+}
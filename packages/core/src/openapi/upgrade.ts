@@ -0,0 +1,899 @@
+/* eslint-disable complexity */
+/* eslint-disable max-lines */
+
+/**
+ * In-memory upgrade of Swagger 2.0 and OpenAPI 3.0.x documents to an
+ * OpenAPI 3.1 view, so that the driver, the spec runner and the coverage
+ * analyzer only ever see 3.1 shapes (`components/schemas`, `content` maps,
+ * `requestBody`, JSON Schema 2020-12 keywords).
+ *
+ * The input document is never mutated. Every rewrite that cannot be
+ * expressed faithfully in 3.1 is recorded as an OpenApiUpgradeNote whose
+ * `path` points into the input document.
+ */
+
+export type OpenApiSourceVersion = '2.0' | '3.0' | '3.1';
+
+export const OPENAPI_UPGRADE_NOTE_CODES = {
+  /** `nullable: true` without `type` has no effect in 3.0 and was dropped. */
+  NULLABLE_WITHOUT_TYPE: 'OAS_UPGRADE_NULLABLE_WITHOUT_TYPE',
+  /** Boolean `exclusiveMinimum`/`exclusiveMaximum` without its bound. */
+  EXCLUSIVE_BOUND_WITHOUT_LIMIT: 'OAS_UPGRADE_EXCLUSIVE_BOUND_WITHOUT_LIMIT',
+  /** Swagger `type: file` rewritten to a binary string. */
+  FILE_TYPE: 'OAS_UPGRADE_FILE_TYPE',
+  /** `collectionFormat` without a 3.1 style/explode equivalent. */
+  COLLECTION_FORMAT: 'OAS_UPGRADE_COLLECTION_FORMAT',
+  /** `consumes` listed no media type usable for the request body. */
+  REQUEST_MEDIA_TYPE: 'OAS_UPGRADE_REQUEST_MEDIA_TYPE',
+  /** A `$ref` to a global body/formData parameter that does not exist. */
+  UNRESOLVED_PARAMETER_REF: 'OAS_UPGRADE_UNRESOLVED_PARAMETER_REF',
+} as const;
+
+export type OpenApiUpgradeNoteCode =
+  (typeof OPENAPI_UPGRADE_NOTE_CODES)[keyof typeof OPENAPI_UPGRADE_NOTE_CODES];
+
+export interface OpenApiUpgradeNote {
+  code: OpenApiUpgradeNoteCode;
+  /** JSON Pointer ('#/definitions/User/properties/id') into the input. */
+  path: string;
+  details?: Record<string, unknown>;
+}
+
+export interface OpenApiUpgradeResult {
+  /** The 3.1 view; the input itself when it already is 3.1 (or unknown). */
+  document: unknown;
+  sourceVersion: OpenApiSourceVersion;
+  notes: OpenApiUpgradeNote[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface UpgradeContext {
+  notes: OpenApiUpgradeNote[];
+}
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+] as const;
+
+const SCHEMA_MAP_KEYWORDS = [
+  'properties',
+  'patternProperties',
+  'definitions',
+  '$defs',
+  'dependentSchemas',
+] as const;
+
+const SCHEMA_KEYWORDS = [
+  'items',
+  'additionalItems',
+  'additionalProperties',
+  'not',
+  'if',
+  'then',
+  'else',
+  'contains',
+  'propertyNames',
+  'unevaluatedItems',
+  'unevaluatedProperties',
+] as const;
+
+const SCHEMA_ARRAY_KEYWORDS = ['allOf', 'anyOf', 'oneOf', 'prefixItems'];
+
+/** Swagger 2.0 parameter/header/items fields that carry schema meaning. */
+const PARAMETER_SCHEMA_FIELDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'enum',
+  'multipleOf',
+  'x-nullable',
+] as const;
+
+const FORM_MEDIA_TYPES = [
+  'application/x-www-form-urlencoded',
+  'multipart/form-data',
+];
+
+const DEFAULT_MEDIA_TYPE = 'application/json';
+
+/** Swagger 2.0 local reference prefixes and their 3.1 homes. */
+const REF_PREFIXES: ReadonlyArray<readonly [string, string]> = [
+  ['#/definitions/', '#/components/schemas/'],
+  ['#/parameters/', '#/components/parameters/'],
+  ['#/responses/', '#/components/responses/'],
+];
+
+function isRecord(value: unknown): value is JsonObject {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function cloneJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function child(pointer: string, token: string | number): string {
+  return `${pointer}/${escapePointerToken(String(token))}`;
+}
+
+function addNote(
+  ctx: UpgradeContext,
+  code: OpenApiUpgradeNoteCode,
+  pointer: string,
+  details?: Record<string, unknown>
+): void {
+  const path = `#${pointer}`;
+  if (ctx.notes.some((note) => note.code === code && note.path === path)) {
+    return;
+  }
+  ctx.notes.push(
+    details === undefined ? { code, path } : { code, path, details }
+  );
+}
+
+/**
+ * Version of an OpenAPI/Swagger document: '2.0' for `swagger: "2.0"`,
+ * '3.0' for any `openapi: "3.0.x"`, '3.1' for everything else.
+ */
+export function detectOpenApiVersion(document: unknown): OpenApiSourceVersion {
+  if (!isRecord(document)) return '3.1';
+  if (
+    typeof document.swagger === 'string' &&
+    document.swagger.startsWith('2')
+  ) {
+    return '2.0';
+  }
+  if (
+    typeof document.openapi === 'string' &&
+    /^3\.0(?:\.|$)/.test(document.openapi)
+  ) {
+    return '3.0';
+  }
+  return '3.1';
+}
+
+// ---------------------------------------------------------------------------
+// Schema objects (shared by 2.0 and 3.0)
+// ---------------------------------------------------------------------------
+
+function rewriteNullable(
+  schema: JsonObject,
+  pointer: string,
+  ctx: UpgradeContext
+): void {
+  const flag = schema.nullable ?? schema['x-nullable'];
+  delete schema.nullable;
+  delete schema['x-nullable'];
+  if (flag !== true) return;
+
+  const type = schema.type;
+  if (typeof type === 'string') {
+    schema.type = type === 'null' ? type : [type, 'null'];
+  } else if (Array.isArray(type)) {
+    if (!type.includes('null')) schema.type = [...type, 'null'];
+  } else {
+    addNote(ctx, OPENAPI_UPGRADE_NOTE_CODES.NULLABLE_WITHOUT_TYPE, pointer);
+    return;
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+    schema.enum = [...schema.enum, null];
+  }
+}
+
+const EXCLUSIVE_BOUNDS = [
+  ['exclusiveMinimum', 'minimum'],
+  ['exclusiveMaximum', 'maximum'],
+] as const;
+
+function rewriteExclusiveBound(
+  schema: JsonObject,
+  pointer: string,
+  ctx: UpgradeContext,
+  [keyword, bound]: (typeof EXCLUSIVE_BOUNDS)[number]
+): void {
+  const flag = schema[keyword];
+  if (typeof flag !== 'boolean') return;
+  delete schema[keyword];
+  if (!flag) return;
+  if (typeof schema[bound] !== 'number') {
+    addNote(
+      ctx,
+      OPENAPI_UPGRADE_NOTE_CODES.EXCLUSIVE_BOUND_WITHOUT_LIMIT,
+      child(pointer, keyword)
+    );
+    return;
+  }
+  schema[keyword] = schema[bound];
+  delete schema[bound];
+}
+
+function forEachSubschema(
+  schema: JsonObject,
+  pointer: string,
+  visit: (value: JsonObject, pointer: string) => void
+): void {
+  for (const keyword of SCHEMA_MAP_KEYWORDS) {
+    const map = schema[keyword];
+    if (!isRecord(map)) continue;
+    for (const [name, value] of Object.entries(map)) {
+      if (isRecord(value)) visit(value, child(child(pointer, keyword), name));
+    }
+  }
+  for (const keyword of SCHEMA_KEYWORDS) {
+    const value = schema[keyword];
+    if (isRecord(value)) visit(value, child(pointer, keyword));
+    else if (keyword === 'items' && Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (isRecord(item)) visit(item, child(child(pointer, keyword), index));
+      });
+    }
+  }
+  for (const keyword of SCHEMA_ARRAY_KEYWORDS) {
+    const list = schema[keyword];
+    if (!Array.isArray(list)) continue;
+    list.forEach((item, index) => {
+      if (isRecord(item)) visit(item, child(child(pointer, keyword), index));
+    });
+  }
+}
+
+/**
+ * Rewrite one (already cloned) schema object and its subschemas in place:
+ * `nullable`/`x-nullable` become type unions, boolean exclusive bounds
+ * become numeric ones, `type: file` becomes a binary string and Swagger's
+ * string `discriminator` becomes `{ propertyName }`.
+ */
+function upgradeSchema(
+  schema: JsonObject,
+  pointer: string,
+  ctx: UpgradeContext
+): void {
+  rewriteNullable(schema, pointer, ctx);
+  for (const pair of EXCLUSIVE_BOUNDS) {
+    rewriteExclusiveBound(schema, pointer, ctx, pair);
+  }
+  if (schema.type === 'file') {
+    schema.type = 'string';
+    schema.format = 'binary';
+    addNote(ctx, OPENAPI_UPGRADE_NOTE_CODES.FILE_TYPE, pointer);
+  }
+  if (typeof schema.discriminator === 'string') {
+    schema.discriminator = { propertyName: schema.discriminator };
+  }
+  forEachSubschema(schema, pointer, (value, subPointer) =>
+    upgradeSchema(value, subPointer, ctx)
+  );
+}
+
+function rewriteRef(node: JsonObject): void {
+  const ref = node.$ref as string;
+  for (const [from, to] of REF_PREFIXES) {
+    if (ref.startsWith(from)) {
+      node.$ref = `${to}${ref.slice(from.length)}`;
+      return;
+    }
+  }
+}
+
+/**
+ * Walk a 3.0 document and upgrade every Schema Object: component schemas
+ * and the `schema` of parameters, headers and media types. Example
+ * payloads and extensions are left untouched.
+ */
+function upgradeDocumentSchemas(
+  node: unknown,
+  pointer: string,
+  ctx: UpgradeContext
+): void {
+  if (Array.isArray(node)) {
+    node.forEach((item, index) =>
+      upgradeDocumentSchemas(item, child(pointer, index), ctx)
+    );
+    return;
+  }
+  if (!isRecord(node)) return;
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'example' || key === 'examples' || key.startsWith('x-')) {
+      continue;
+    }
+    const valuePointer = child(pointer, key);
+    if (key === 'schema' && isRecord(value)) {
+      upgradeSchema(value, valuePointer, ctx);
+    } else if (key === 'schemas' && pointer === '/components') {
+      upgradeSchemaMap(value, valuePointer, ctx);
+    } else {
+      upgradeDocumentSchemas(value, valuePointer, ctx);
+    }
+  }
+}
+
+function upgradeSchemaMap(
+  map: unknown,
+  pointer: string,
+  ctx: UpgradeContext
+): void {
+  if (!isRecord(map)) return;
+  for (const [name, schema] of Object.entries(map)) {
+    if (isRecord(schema)) upgradeSchema(schema, child(pointer, name), ctx);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Swagger 2.0 structure
+// ---------------------------------------------------------------------------
+
+interface SwaggerScope {
+  consumes: string[];
+  produces: string[];
+  /** Global `parameters` of the input, for resolving body/formData refs. */
+  globalParameters: JsonObject;
+}
+
+function stringList(value: unknown, fallback: string[]): string[] {
+  if (!Array.isArray(value)) return fallback;
+  const types = value.filter(
+    (entry): entry is string => typeof entry === 'string'
+  );
+  return types.length > 0 ? types : fallback;
+}
+
+/** Schema built from the schema fields of a non-body parameter or header. */
+function parameterSchema(
+  source: JsonObject,
+  pointer: string,
+  ctx: UpgradeContext
+): JsonObject {
+  const schema: JsonObject = {};
+  for (const field of PARAMETER_SCHEMA_FIELDS) {
+    if (source[field] !== undefined) schema[field] = source[field];
+  }
+  if (isRecord(schema.items)) {
+    const items = schema.items;
+    if (items.collectionFormat !== undefined) {
+      addNote(
+        ctx,
+        OPENAPI_UPGRADE_NOTE_CODES.COLLECTION_FORMAT,
+        child(child(pointer, 'items'), 'collectionFormat'),
+        { collectionFormat: items.collectionFormat }
+      );
+    }
+    schema.items = parameterSchema(items, child(pointer, 'items'), ctx);
+  }
+  upgradeSchema(schema, pointer, ctx);
+  return schema;
+}
+
+function applyCollectionFormat(
+  parameter: JsonObject,
+  source: JsonObject,
+  pointer: string,
+  ctx: UpgradeContext
+): void {
+  const format = source.collectionFormat;
+  if (format === undefined || source.type !== 'array') return;
+  const location = source.in;
+  const queryLike = location === 'query' || location === 'cookie';
+  if (format === 'csv') {
+    if (queryLike) Object.assign(parameter, { style: 'form', explode: false });
+    return;
+  }
+  if (format === 'multi' && queryLike) {
+    Object.assign(parameter, { style: 'form', explode: true });
+    return;
+  }
+  if (format === 'ssv' && location === 'query') {
+    Object.assign(parameter, { style: 'spaceDelimited', explode: false });
+    return;
+  }
+  if (format === 'pipes' && location === 'query') {
+    Object.assign(parameter, { style: 'pipeDelimited', explode: false });
+    return;
+  }
+  addNote(
+    ctx,
+    OPENAPI_UPGRADE_NOTE_CODES.COLLECTION_FORMAT,
+    child(pointer, 'collectionFormat'),
+    { collectionFormat: format, in: location }
+  );
+}
+
+function convertParameter(
+  source: JsonObject,
+  pointer: string,
+  ctx: UpgradeContext
+): JsonObject {
+  const parameter: JsonObject = {};
+  for (const [key, value] of Object.entries(source)) {
+    if (key === 'collectionFormat') continue;
+    if ((PARAMETER_SCHEMA_FIELDS as readonly string[]).includes(key)) continue;
+    parameter[key] = value;
+  }
+  applyCollectionFormat(parameter, source, pointer, ctx);
+  parameter.schema = parameterSchema(source, pointer, ctx);
+  return parameter;
+}
+
+function bodyContent(
+  schema: unknown,
+  types: string[]
+): Record<string, JsonObject> {
+  const content: Record<string, JsonObject> = {};
+  for (const type of types) {
+    content[type] = isRecord(schema) ? { schema: cloneJson(schema) } : {};
+  }
+  return content;
+}
+
+function convertBodyParameter(
+  source: JsonObject,
+  consumes: string[]
+): JsonObject {
+  const requestBody: JsonObject = {
+    content: bodyContent(source.schema, consumes),
+  };
+  if (typeof source.description === 'string') {
+    requestBody.description = source.description;
+  }
+  if (source.required === true) requestBody.required = true;
+  return requestBody;
+}
+
+interface FormField {
+  source: JsonObject;
+  pointer: string;
+}
+
+function convertFormParameters(
+  fields: FormField[],
+  consumes: string[],
+  ctx: UpgradeContext
+): JsonObject {
+  const properties: JsonObject = {};
+  const required: string[] = [];
+  for (const { source, pointer } of fields) {
+    const name = String(source.name);
+    const property = parameterSchema(source, pointer, ctx);
+    if (typeof source.description === 'string') {
+      property.description = source.description;
+    }
+    if (source.collectionFormat !== undefined) {
+      addNote(
+        ctx,
+        OPENAPI_UPGRADE_NOTE_CODES.COLLECTION_FORMAT,
+        child(pointer, 'collectionFormat'),
+        { collectionFormat: source.collectionFormat, in: 'formData' }
+      );
+    }
+    properties[name] = property;
+    if (source.required === true) required.push(name);
+  }
+  const schema: JsonObject = { type: 'object', properties };
+  if (required.length > 0) schema.required = required;
+
+  const hasFile = fields.some(({ source }) => source.type === 'file');
+  const formTypes = consumes.filter((type) => FORM_MEDIA_TYPES.includes(type));
+  if (formTypes.length === 0) {
+    const fallback = hasFile ? 'multipart/form-data' : FORM_MEDIA_TYPES[0]!;
+    addNote(
+      ctx,
+      OPENAPI_UPGRADE_NOTE_CODES.REQUEST_MEDIA_TYPE,
+      fields[0]!.pointer,
+      { consumes, mediaType: fallback }
+    );
+    formTypes.push(fallback);
+  }
+  const requestBody: JsonObject = { content: bodyContent(schema, formTypes) };
+  if (required.length > 0) requestBody.required = true;
+  return requestBody;
+}
+
+interface ResolvedParameter {
+  source: JsonObject;
+  pointer: string;
+  /** The original `$ref` node when `source` was looked up through one. */
+  ref?: JsonObject;
+}
+
+function resolveParameter(
+  entry: unknown,
+  pointer: string,
+  scope: SwaggerScope,
+  ctx: UpgradeContext
+): ResolvedParameter | undefined {
+  if (!isRecord(entry)) return undefined;
+  if (typeof entry.$ref !== 'string') return { source: entry, pointer };
+  const prefix = '#/parameters/';
+  if (!entry.$ref.startsWith(prefix)) return { source: entry, pointer };
+  const name = entry.$ref
+    .slice(prefix.length)
+    .replace(/~1/g, '/')
+    .replace(/~0/g, '~');
+  const target = scope.globalParameters[name];
+  if (!isRecord(target)) {
+    addNote(ctx, OPENAPI_UPGRADE_NOTE_CODES.UNRESOLVED_PARAMETER_REF, pointer, {
+      $ref: entry.$ref,
+    });
+    return undefined;
+  }
+  return { source: target, pointer: child('/parameters', name), ref: entry };
+}
+
+/** 2.0 allows a single body parameter, whatever its name. */
+function parameterKey(parameter: JsonObject): string {
+  if (parameter.in === 'body') return 'body';
+  return `${String(parameter.in)}:${String(parameter.name)}`;
+}
+
+interface OperationSite {
+  operation: JsonObject;
+  pointer: string;
+}
+
+/**
+ * Split an operation's effective parameters (path-level ones overridden by
+ * operation-level ones, as in 2.0) into 3.1 parameters and a requestBody.
+ */
+function convertOperationParameters(
+  site: OperationSite,
+  inherited: ResolvedParameter[],
+  scope: SwaggerScope,
+  ctx: UpgradeContext
+): void {
+  const { operation, pointer: operationPointer } = site;
+  const resolved = new Map<string, ResolvedParameter>();
+  for (const parameter of inherited) {
+    resolved.set(parameterKey(parameter.source), parameter);
+  }
+  const own = Array.isArray(operation.parameters) ? operation.parameters : [];
+  own.forEach((entry, index) => {
+    const pointer = child(child(operationPointer, 'parameters'), index);
+    const parameter = resolveParameter(entry, pointer, scope, ctx);
+    if (parameter) resolved.set(parameterKey(parameter.source), parameter);
+  });
+
+  const consumes = stringList(operation.consumes, scope.consumes);
+  const parameters: JsonObject[] = [];
+  const formFields: FormField[] = [];
+  let requestBody: JsonObject | undefined;
+  for (const parameter of resolved.values()) {
+    const { source, pointer, ref } = parameter;
+    if (source.in === 'body') {
+      requestBody ??= convertBodyParameter(source, consumes);
+    } else if (source.in === 'formData') {
+      formFields.push({ source, pointer });
+    } else if (ref) {
+      parameters.push({ $ref: ref.$ref });
+    } else {
+      parameters.push(convertParameter(source, pointer, ctx));
+    }
+  }
+  if (!requestBody && formFields.length > 0) {
+    requestBody = convertFormParameters(formFields, consumes, ctx);
+  }
+
+  if (parameters.length > 0) operation.parameters = parameters;
+  else delete operation.parameters;
+  if (requestBody) operation.requestBody = requestBody;
+  delete operation.consumes;
+}
+
+function convertHeaders(
+  headers: JsonObject,
+  pointer: string,
+  ctx: UpgradeContext
+): JsonObject {
+  const converted: JsonObject = {};
+  for (const [name, header] of Object.entries(headers)) {
+    if (!isRecord(header)) continue;
+    const headerPointer = child(pointer, name);
+    const next: JsonObject = {
+      schema: parameterSchema(header, headerPointer, ctx),
+    };
+    if (typeof header.description === 'string') {
+      next.description = header.description;
+    }
+    converted[name] = next;
+  }
+  return converted;
+}
+
+function convertResponse(
+  response: JsonObject,
+  produces: string[],
+  pointer: string,
+  ctx: UpgradeContext
+): JsonObject {
+  if (typeof response.$ref === 'string') return response;
+  const converted: JsonObject = {};
+  for (const [key, value] of Object.entries(response)) {
+    if (key === 'schema' || key === 'examples' || key === 'headers') continue;
+    converted[key] = value;
+  }
+  if (typeof converted.description !== 'string') converted.description = '';
+
+  const content: Record<string, JsonObject> = isRecord(response.schema)
+    ? bodyContent(response.schema, produces)
+    : {};
+  if (isRecord(response.examples)) {
+    for (const [type, example] of Object.entries(response.examples)) {
+      const media =
+        content[type] ??
+        (isRecord(response.schema)
+          ? { schema: cloneJson(response.schema) }
+          : {});
+      media.example = example;
+      content[type] = media;
+    }
+  }
+  if (Object.keys(content).length > 0) converted.content = content;
+  if (isRecord(response.headers)) {
+    converted.headers = convertHeaders(
+      response.headers,
+      child(pointer, 'headers'),
+      ctx
+    );
+  }
+  return converted;
+}
+
+function convertResponses(
+  responses: unknown,
+  produces: string[],
+  pointer: string,
+  ctx: UpgradeContext
+): JsonObject | undefined {
+  if (!isRecord(responses)) return undefined;
+  const converted: JsonObject = {};
+  for (const [status, response] of Object.entries(responses)) {
+    converted[status] = isRecord(response)
+      ? convertResponse(response, produces, child(pointer, status), ctx)
+      : response;
+  }
+  return converted;
+}
+
+function convertOperationResponses(
+  site: OperationSite,
+  scope: SwaggerScope,
+  ctx: UpgradeContext
+): void {
+  const { operation, pointer } = site;
+  const produces = stringList(operation.produces, scope.produces);
+  const responses = convertResponses(
+    operation.responses,
+    produces,
+    child(pointer, 'responses'),
+    ctx
+  );
+  if (responses) operation.responses = responses;
+  delete operation.produces;
+}
+
+function convertPathItem(
+  pathItem: JsonObject,
+  pointer: string,
+  scope: SwaggerScope,
+  ctx: UpgradeContext
+): void {
+  const shared: ResolvedParameter[] = [];
+  const kept: JsonObject[] = [];
+  const entries = Array.isArray(pathItem.parameters) ? pathItem.parameters : [];
+  entries.forEach((entry, index) => {
+    const entryPointer = child(child(pointer, 'parameters'), index);
+    const parameter = resolveParameter(entry, entryPointer, scope, ctx);
+    if (!parameter) return;
+    shared.push(parameter);
+    const location = parameter.source.in;
+    if (location === 'body' || location === 'formData') return;
+    kept.push(
+      parameter.ref
+        ? { $ref: parameter.ref.$ref }
+        : convertParameter(parameter.source, entryPointer, ctx)
+    );
+  });
+
+  // Path-level non-body parameters stay on the path item; body and
+  // formData ones move into every operation's requestBody.
+  const inherited = shared.filter(
+    ({ source }) => source.in === 'body' || source.in === 'formData'
+  );
+  for (const method of HTTP_METHODS) {
+    const operation = pathItem[method];
+    if (!isRecord(operation)) continue;
+    const site = { operation, pointer: child(pointer, method) };
+    convertOperationParameters(site, inherited, scope, ctx);
+    convertOperationResponses(site, scope, ctx);
+  }
+
+  if (kept.length > 0) pathItem.parameters = kept;
+  else delete pathItem.parameters;
+}
+
+function convertSecurityScheme(scheme: JsonObject): JsonObject {
+  const { type, flow, authorizationUrl, tokenUrl, scopes, ...rest } = scheme;
+  if (type === 'basic') return { ...rest, type: 'http', scheme: 'basic' };
+  if (type !== 'oauth2') return scheme;
+  const flowName =
+    flow === 'application'
+      ? 'clientCredentials'
+      : flow === 'accessCode'
+        ? 'authorizationCode'
+        : String(flow);
+  const converted: JsonObject = { scopes: isRecord(scopes) ? scopes : {} };
+  if (authorizationUrl !== undefined) {
+    converted.authorizationUrl = authorizationUrl;
+  }
+  if (tokenUrl !== undefined) converted.tokenUrl = tokenUrl;
+  return { ...rest, type: 'oauth2', flows: { [flowName]: converted } };
+}
+
+function convertServers(document: JsonObject): JsonObject[] | undefined {
+  const host = typeof document.host === 'string' ? document.host : undefined;
+  const basePath =
+    typeof document.basePath === 'string' ? document.basePath : '';
+  if (host === undefined) {
+    return basePath ? [{ url: basePath }] : undefined;
+  }
+  const schemes = stringList(document.schemes, ['https']);
+  return schemes.map((scheme) => ({ url: `${scheme}://${host}${basePath}` }));
+}
+
+function convertComponents(
+  document: JsonObject,
+  scope: SwaggerScope,
+  ctx: UpgradeContext
+): JsonObject {
+  const components: JsonObject = {};
+  if (isRecord(document.definitions)) {
+    upgradeSchemaMap(document.definitions, '/definitions', ctx);
+    components.schemas = document.definitions;
+  }
+
+  const parameters: JsonObject = {};
+  const requestBodies: JsonObject = {};
+  for (const [name, parameter] of Object.entries(scope.globalParameters)) {
+    if (!isRecord(parameter)) continue;
+    const pointer = child('/parameters', name);
+    if (parameter.in === 'body') {
+      requestBodies[name] = convertBodyParameter(parameter, scope.consumes);
+    } else if (parameter.in !== 'formData') {
+      parameters[name] = convertParameter(parameter, pointer, ctx);
+    }
+  }
+  if (Object.keys(parameters).length > 0) components.parameters = parameters;
+  if (Object.keys(requestBodies).length > 0) {
+    components.requestBodies = requestBodies;
+  }
+
+  const responses = convertResponses(
+    document.responses,
+    scope.produces,
+    '/responses',
+    ctx
+  );
+  if (responses) components.responses = responses;
+
+  if (isRecord(document.securityDefinitions)) {
+    const schemes: JsonObject = {};
+    for (const [name, scheme] of Object.entries(document.securityDefinitions)) {
+      schemes[name] = isRecord(scheme) ? convertSecurityScheme(scheme) : scheme;
+    }
+    components.securitySchemes = schemes;
+  }
+  return components;
+}
+
+/** Point Swagger 2.0 `$ref`s at their new `components` locations. */
+function rewriteRefs(node: unknown): void {
+  if (Array.isArray(node)) {
+    node.forEach(rewriteRefs);
+    return;
+  }
+  if (!isRecord(node)) return;
+  if (typeof node.$ref === 'string') rewriteRef(node);
+  Object.values(node).forEach(rewriteRefs);
+}
+
+const SWAGGER_ONLY_FIELDS = new Set([
+  'swagger',
+  'host',
+  'basePath',
+  'schemes',
+  'consumes',
+  'produces',
+  'definitions',
+  'parameters',
+  'responses',
+  'securityDefinitions',
+]);
+
+function upgradeSwagger2(
+  document: JsonObject,
+  ctx: UpgradeContext
+): JsonObject {
+  const scope: SwaggerScope = {
+    consumes: stringList(document.consumes, [DEFAULT_MEDIA_TYPE]),
+    produces: stringList(document.produces, [DEFAULT_MEDIA_TYPE]),
+    globalParameters: isRecord(document.parameters) ? document.parameters : {},
+  };
+
+  // Body and response schemas are Schema Objects already; upgrade them in
+  // place first so their notes point at the input document.
+  upgradeDocumentSchemas(scope.globalParameters, '/parameters', ctx);
+  if (isRecord(document.paths)) {
+    upgradeDocumentSchemas(document.paths, '/paths', ctx);
+    for (const [path, pathItem] of Object.entries(document.paths)) {
+      if (!isRecord(pathItem)) continue;
+      convertPathItem(pathItem, child('/paths', path), scope, ctx);
+    }
+  }
+  const components = convertComponents(document, scope, ctx);
+  const servers = convertServers(document);
+
+  const upgraded: JsonObject = { openapi: '3.1.0' };
+  for (const [key, value] of Object.entries(document)) {
+    if (SWAGGER_ONLY_FIELDS.has(key)) continue;
+    upgraded[key] = value;
+  }
+  if (servers) upgraded.servers = servers;
+  if (Object.keys(components).length > 0) upgraded.components = components;
+  rewriteRefs(upgraded);
+  return upgraded;
+}
+
+/**
+ * Upgrade a Swagger 2.0 or OpenAPI 3.0.x document to an equivalent
+ * OpenAPI 3.1 view:
+ *
+ * - `definitions`, global `parameters`/`responses` and
+ *   `securityDefinitions` move under `components` (refs follow);
+ * - body and formData parameters become `requestBody`, keyed by
+ *   `consumes`; response schemas become `content`, keyed by `produces`;
+ * - `nullable`/`x-nullable` become type unions and boolean
+ *   `exclusiveMinimum`/`exclusiveMaximum` become numeric bounds.
+ *
+ * 3.1 documents (and anything that is not an OpenAPI document) are
+ * returned as-is.
+ */
+export function upgradeOpenApiDocument(
+  document: unknown
+): OpenApiUpgradeResult {
+  const sourceVersion = detectOpenApiVersion(document);
+  if (sourceVersion === '3.1' || !isRecord(document)) {
+    return { document, sourceVersion, notes: [] };
+  }
+  const ctx: UpgradeContext = { notes: [] };
+  const copy = cloneJson(document);
+  if (sourceVersion === '2.0') {
+    return {
+      document: upgradeSwagger2(copy, ctx),
+      sourceVersion,
+      notes: ctx.notes,
+    };
+  }
+  upgradeDocumentSchemas(copy, '', ctx);
+  copy.openapi = '3.1.0';
+  return { document: copy, sourceVersion, notes: ctx.notes };
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+
+import { fillCoverageGaps } from '../coverage-gap-fill.js';
+import { executePipeline } from '../orchestrator.js';
+import { measureInstanceCoverage } from '../../coverage/replay.js';
+
+function schemaWith(kinds: string[]): Record<string, unknown> {
+  return {
+    type: 'object',
+    required: ['kind', 'payload'],
+    properties: {
+      kind: { enum: kinds },
+      payload: { oneOf: [{ type: 'string' }, { type: 'integer' }] },
+      note: { type: 'string' },
+    },
+  };
+}
+
+const fixtures = [{ kind: 'a', payload: 'x', note: 'n' }];
+const dimensionsEnabled = ['structure', 'branches', 'enum'] as const;
+
+describe('fillCoverageGaps', () => {
+  it('generates only what the baseline misses, including new enum values', async () => {
+    const { report: baseline } = measureInstanceCoverage(
+      schemaWith(['a', 'b']),
+      fixtures,
+      { dimensionsEnabled: [...dimensionsEnabled] }
+    );
+    expect(baseline.metrics.overall).toBeLessThan(1);
+
+    const schema = schemaWith(['a', 'b', 'c']);
+    const result = await fillCoverageGaps(schema, baseline, { seed: 3 });
+
+    const kinds = result.items.map((item) => (item as { kind: string }).kind);
+    expect(kinds).not.toContain('a');
+    expect(new Set(kinds)).toEqual(new Set(['b', 'c']));
+    expect(result.items.length).toBeLessThanOrEqual(2);
+    expect(result.report.engine.coverageMode).toBe('guided');
+    expect(result.report.run.actualInstances).toBe(result.items.length);
+    expect(result.report.metrics.overall).toBe(1);
+    expect(result.filledTargetIds.length).toBeGreaterThan(0);
+
+    const merged = measureInstanceCoverage(
+      schema,
+      [...fixtures, ...result.items],
+      { dimensionsEnabled: [...dimensionsEnabled] }
+    ).report;
+    expect(merged.metrics.overall).toBe(1);
+  });
+
+  it('returns no instances when the baseline already covers every target', async () => {
+    const schema = schemaWith(['a']);
+    const { report: baseline } = measureInstanceCoverage(
+      schema,
+      [...fixtures, { kind: 'a', payload: 1 }],
+      { dimensionsEnabled: [...dimensionsEnabled] }
+    );
+    const result = await fillCoverageGaps(schema, baseline);
+    expect(result.items).toEqual([]);
+    expect(result.filledTargetIds).toEqual([]);
+    expect(result.unfilledTargetIds).toEqual([]);
+    expect(result.report.metrics.overall).toBe(1);
+  });
+
+  it('lists the targets the candidate budget left open', async () => {
+    const { report: baseline } = measureInstanceCoverage(
+      schemaWith(['a', 'b', 'c', 'd']),
+      fixtures,
+      { dimensionsEnabled: [...dimensionsEnabled] }
+    );
+    const result = await fillCoverageGaps(
+      schemaWith(['a', 'b', 'c', 'd']),
+      baseline,
+      { seed: 3, maxInstances: 1 }
+    );
+
+    expect(result.items).toHaveLength(1);
+    expect(result.unfilledTargetIds.length).toBeGreaterThan(0);
+    const open = result.report.targets
+      .filter((target) => !target.hit)
+      .map((target) => target.id)
+      .sort();
+    expect(result.unfilledTargetIds).toEqual(open);
+  });
+
+  it('rejects summary reports', async () => {
+    const { report } = measureInstanceCoverage(schemaWith(['a']), fixtures, {
+      reportMode: 'summary',
+    });
+    await expect(fillCoverageGaps(schemaWith(['a']), report)).rejects.toThrow(
+      /full coverage report/
+    );
+  });
+
+  it('rotates enum hints across instances only for gap-fill runs', async () => {
+    const schema = {
+      type: 'object',
+      required: ['kind'],
+      properties: { kind: { enum: ['a', 'b', 'c', 'd'] } },
+    };
+    const kinds = async (coveredTargetIds?: string[]): Promise<string[]> => {
+      const result = await executePipeline(schema, {
+        coverage: {
+          mode: 'guided',
+          dimensionsEnabled: ['structure', 'enum'],
+          coveredTargetIds,
+        },
+        generate: { count: 4, seed: 7 },
+      });
+      const items = (result.artifacts.repaired ?? []) as Array<{
+        kind: string;
+      }>;
+      return items.map((item) => item.kind);
+    };
+
+    expect(new Set(await kinds()).size).toBe(1);
+    expect(new Set(await kinds([])).size).toBe(4);
+  });
+});
@@ -792,4 +792,109 @@ describe('executePipeline', () => {
     expect(metrics).toBeDefined();
     expect(report?.metrics.overall).toBe(metrics?.overall);
   });
+
+  it('streams validated chunks that match a batch run item-for-item', async () => {
+    const schema = {
+      type: 'object',
+      required: ['id', 'tag'],
+      properties: {
+        id: { type: 'integer', minimum: 0, maximum: 99 },
+        tag: { enum: ['a', 'b', 'c'] },
+      },
+    };
+    const batch = await executePipeline(schema, {
+      generate: { count: 10, seed: 11 },
+    });
+
+    const starts: number[] = [];
+    const streamed: unknown[] = [];
+    const result = await executePipeline(schema, {
+      generate: { count: 10, seed: 11 },
+      stream: {
+        chunkSize: 4,
+        onItems(items, startIndex) {
+          starts.push(startIndex);
+          streamed.push(...items);
+        },
+      },
+    });
+
+    expect(result.status).toBe('completed');
+    expect(starts).toEqual([0, 4, 8]);
+    expect(streamed).toEqual(batch.artifacts.repaired);
+    expect(result.artifacts.repaired).toEqual([]);
+    expect(result.stages.validate.output?.valid).toBe(true);
+    expect(result.timeline).toEqual(batch.timeline);
+  });
+
+  it('does not emit a streamed chunk that fails final validation', async () => {
+    const emitted: unknown[] = [];
+    let validateCalls = 0;
+    const result = await executePipeline(
+      { type: 'string' },
+      {
+        generate: { count: 6 },
+        stream: {
+          chunkSize: 2,
+          onItems(items) {
+            emitted.push(...items);
+          },
+        },
+      },
+      {
+        generate: () => ({
+          items: ['a', 'b', 'c', 'd', 'e', 'f'],
+          diagnostics: [],
+          metrics: {},
+          seed: 0,
+        }),
+        repair: (items) => items,
+        validate: () => {
+          validateCalls += 1;
+          return { valid: validateCalls < 2 };
+        },
+      }
+    );
+
+    expect(result.status).toBe('failed');
+    expect(emitted).toEqual(['a', 'b']);
+    expect(validateCalls).toBe(2);
+    expect(result.errors.map((err) => err.message)).toContain(
+      'FINAL_VALIDATION_FAILED'
+    );
+  });
+
+  it('derives labelled negative instances and negative coverage targets', async () => {
+    const schema = {
+      type: 'object',
+      required: ['id'],
+      additionalProperties: false,
+      properties: {
+        id: { type: 'integer', minimum: 0, maximum: 99 },
+      },
+    };
+    const result = await executePipeline(schema, {
+      generate: { count: 4, seed: 5 },
+      polarity: 'negative',
+      coverage: {
+        mode: 'measure',
+        dimensionsEnabled: ['structure', 'boundaries'],
+      },
+    });
+
+    expect(result.status).toBe('completed');
+    const negatives = result.artifacts.negativeInstances ?? [];
+    expect(negatives).toHaveLength(4);
+    // Each instance violates a constraint no earlier instance covered.
+    expect(new Set(negatives.map((n) => n.expected.keyword)).size).toBe(4);
+
+    const violations = (result.artifacts.coverageReport?.targets ?? []).filter(
+      (target) => target.kind === 'KEYWORD_VIOLATION'
+    );
+    expect(violations.length).toBeGreaterThan(0);
+    expect(violations.every((target) => target.polarity === 'negative')).toBe(
+      true
+    );
+    expect(violations.filter((target) => target.hit)).toHaveLength(4);
+  });
 });
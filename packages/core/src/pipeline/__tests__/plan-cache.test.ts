@@ -0,0 +1,127 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import corePackageJson from '../../../package.json' with { type: 'json' };
+import { executePipeline } from '../orchestrator';
+import {
+  clearPlanCache,
+  getPlanCacheStats,
+  prunePlanCache,
+  resolvePlanCacheDir,
+} from '../plan-cache';
+import type { PipelineOptions, PipelineResult } from '../types';
+import { compose } from '../../transform/composition-engine';
+import { normalize } from '../../transform/schema-normalizer';
+import {
+  restoreComposeResult,
+  snapshotComposeResult,
+} from '../../transform/compose-snapshot';
+
+const schema = {
+  type: 'object',
+  required: ['id', 'kind'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    kind: { oneOf: [{ const: 'a' }, { const: 'b' }] },
+  },
+  patternProperties: { '^x-[a-z]+$': { type: 'string' } },
+};
+
+describe('persistent plan cache', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fd-plan-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  function run(input: unknown, persistent = true): Promise<PipelineResult> {
+    const options: PipelineOptions = {
+      coverage: { mode: 'measure', dimensionsEnabled: ['structure'] },
+      generate: {
+        count: 3,
+        seed: 11,
+        planOptions: { cache: { persistent }, resolver: { cacheDir } },
+      },
+    };
+    return executePipeline(input, options);
+  }
+
+  it('reuses normalize/compose results and coverage targets across runs', async () => {
+    const first = await run(schema);
+    const second = await run(schema);
+
+    expect(first.metrics.planCacheMisses).toBe(2);
+    expect(first.metrics.planCacheHits).toBeUndefined();
+    expect(second.metrics.planCacheHits).toBe(2);
+    expect(second.status).toBe('completed');
+    expect(second.artifacts.repaired).toEqual(first.artifacts.repaired);
+    expect(second.artifacts.coverageTargets).toEqual(
+      first.artifacts.coverageTargets
+    );
+    expect(second.artifacts.canonical?.schema).toEqual(
+      first.artifacts.canonical?.schema
+    );
+  });
+
+  it('misses when the schema changes and stays off unless enabled', async () => {
+    await run(schema);
+    const changed = await run({ ...schema, minProperties: 2 });
+    expect(changed.metrics.planCacheHits).toBeUndefined();
+
+    const disabled = await run(schema, false);
+    expect(disabled.metrics.planCacheHits).toBeUndefined();
+    expect(disabled.metrics.planCacheMisses).toBeUndefined();
+  });
+
+  it('reports, prunes and clears entries', async () => {
+    await run(schema);
+    const dir = resolvePlanCacheDir(cacheDir);
+    const stats = await getPlanCacheStats(dir);
+    expect(stats.entries).toBe(2);
+    expect(stats.byKind).toEqual({ coverage: 1, plan: 1 });
+    expect(stats.bytes).toBeGreaterThan(0);
+
+    const stale = path.join(dir, `plan-0.0.0-${'0'.repeat(64)}.json`);
+    fs.writeFileSync(stale, '{}');
+    // Same package version, planner revision predating the current one.
+    const bare = path.join(
+      dir,
+      `plan-${corePackageJson.version}-${'1'.repeat(64)}.json`
+    );
+    fs.writeFileSync(bare, '{}');
+    expect((await prunePlanCache(dir)).removed).toBe(2);
+    expect((await prunePlanCache(dir, { maxAgeDays: 1 })).removed).toBe(0);
+    const future = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+    expect(
+      (await prunePlanCache(dir, { maxAgeDays: 1, now: future })).removed
+    ).toBe(2);
+
+    await run(schema);
+    expect((await clearPlanCache(dir)).removed).toBe(2);
+    expect((await getPlanCacheStats(dir)).entries).toBe(0);
+  });
+});
+
+describe('compose snapshots', () => {
+  it('restores coverage predicates and enumerations', () => {
+    const composed = compose(normalize(schema));
+    const snapshot = snapshotComposeResult(composed);
+    expect(snapshot).toBeDefined();
+    const restored = restoreComposeResult(JSON.parse(JSON.stringify(snapshot)));
+
+    const original = composed.coverageIndex.get('')!;
+    const entry = restored.coverageIndex.get('')!;
+    for (const name of ['id', 'kind', 'x-foo', 'x-1', 'other']) {
+      expect(entry.has(name)).toBe(original.has(name));
+    }
+    expect(entry.enumerate?.(2)).toEqual(original.enumerate?.(2));
+    expect(restored.canonical.ptrMap).toEqual(composed.canonical.ptrMap);
+  });
+});
@@ -17,6 +17,11 @@ import {
   isUnsatOrFailFastCode,
 } from './diagnostic-collector.js';
 import { dedupeDiagnosticsForCorpus } from './corpus-diagnostics.js';
+import {
+  SOURCE_FILE_PATTERN,
+  detectSourceFormat,
+  parseSourceDocument,
+} from '../util/source-document.js';
 
 export type CorpusMode = 'strict' | 'lax';
 
@@ -181,15 +186,19 @@ export async function discoverCorpusSchemasFromDir(
   options: { filePattern?: RegExp } = {}
 ): Promise<CorpusSchemaConfig[]> {
   const root = resolve(corpusDir);
-  const pattern = options.filePattern ?? /\.json$/i;
+  const pattern = options.filePattern ?? SOURCE_FILE_PATTERN;
   const entries: CorpusSchemaConfig[] = [];
 
   await walkDir(root, async (filePath) => {
     if (!pattern.test(filePath)) return;
     const raw = await readFile(filePath, 'utf8');
-    const schema = JSON.parse(raw) as unknown;
+    const schema = parseSourceDocument(
+      raw,
+      detectSourceFormat(filePath),
+      filePath
+    ).value;
     const rel = relative(root, filePath).split('\\').join('/');
-    const id = rel.replace(/\.json$/i, '');
+    const id = rel.replace(SOURCE_FILE_PATTERN, '');
     entries.push({
       id,
       schema,
@@ -0,0 +1,277 @@
+import type {
+  CoverageDimension,
+  CoverageReport,
+  CoverageReportMode,
+  CoverageTarget,
+  CoverageTargetReport,
+} from '@foundrydata/shared';
+
+import { executePipeline } from './orchestrator.js';
+import type { PipelineOptions } from './types.js';
+import {
+  collectInstanceTargetHits,
+  type InstanceCoverageOptions,
+} from '../coverage/replay.js';
+import { evaluateCoverageAndBuildReport } from '../coverage/runtime.js';
+import type {
+  CoveragePlannerUserOptions,
+  CoverageWeightConfig,
+} from '../coverage/index.js';
+import type { PlanOptions } from '../types/options.js';
+import type { CustomFormats } from '../types/formats.js';
+import corePackageJson from '../../package.json' with { type: 'json' };
+
+const CORE_VERSION =
+  (corePackageJson as { version?: string }).version ?? '0.0.0';
+
+// Generation rounds; each later round targets what earlier ones left open.
+const GAP_FILL_ROUNDS = 3;
+
+export interface CoverageGapFillOptions {
+  seed?: number;
+  mode?: 'strict' | 'lax';
+  /**
+   * Upper bound on generated candidates before pruning, across all rounds.
+   * Defaults to one per uncovered target in each round.
+   */
+  maxInstances?: number;
+  /** Defaults to the baseline's run.dimensionsEnabled. */
+  dimensionsEnabled?: CoverageDimension[];
+  excludeUnreachable?: boolean;
+  minCoverage?: number;
+  minCoverageByDimension?: Partial<Record<CoverageDimension, number>>;
+  minCoverageByOperation?: Record<string, number>;
+  reportMode?: CoverageReportMode;
+  planner?: CoveragePlannerUserOptions;
+  weights?: CoverageWeightConfig;
+  validateFormats?: boolean;
+  formats?: CustomFormats;
+  planOptions?: Partial<PlanOptions>;
+}
+
+export interface CoverageGapFillResult {
+  /**
+   * Additional instances in generation order; each one hits at least one
+   * target the baseline missed.
+   */
+  items: unknown[];
+  /** Baseline hits merged with those of `items` (coverageMode 'guided'). */
+  report: CoverageReport;
+  /** Previously uncovered targets that `items` now hit. */
+  filledTargetIds: string[];
+  /** Previously uncovered targets that no generated instance hit. */
+  unfilledTargetIds: string[];
+}
+
+interface GapFillRun {
+  covered: ReadonlySet<string>;
+  open: Set<string>;
+  replayOptions: InstanceCoverageOptions;
+}
+
+/**
+ * Generate only the instances needed to close the gaps of a baseline
+ * coverage report. Guided planning skips every target the baseline hit,
+ * the run produces one candidate per remaining target, and candidates are
+ * then pruned greedily (most new targets first) to a minimal covering set.
+ * Targets still open after a round get another guided run with a derived
+ * seed, up to GAP_FILL_ROUNDS; the rest are listed in `unfilledTargetIds`.
+ * Target IDs are stable for an unchanged schema node, so a baseline taken
+ * before the schema gained an enum value or branch is still usable.
+ */
+export async function fillCoverageGaps(
+  schema: unknown,
+  baseline: CoverageReport,
+  options: CoverageGapFillOptions = {}
+): Promise<CoverageGapFillResult> {
+  const startedAt = Date.now();
+  const covered = readCoveredTargetIds(baseline);
+  const replayOptions: InstanceCoverageOptions = {
+    ...options,
+    dimensionsEnabled:
+      options.dimensionsEnabled ?? baseline.run.dimensionsEnabled,
+  };
+  const { targets, dimensionsEnabled } = collectInstanceTargetHits(
+    schema,
+    [],
+    replayOptions
+  );
+  const open = new Set(
+    targets
+      .filter((t) => t.status !== 'unreachable' && !covered.has(t.id))
+      .map((t) => t.id)
+  );
+  const uncovered = new Set(open);
+  const { items, generated } = await generateRounds(schema, options, {
+    covered,
+    open,
+    replayOptions,
+  });
+  const filled = new Set([...uncovered].filter((id) => !open.has(id)));
+
+  return {
+    items,
+    report: buildMergedReport(options, {
+      dimensionsEnabled,
+      targets: mergeHits(targets, covered, filled),
+      maxInstances: options.maxInstances ?? generated,
+      actualInstances: items.length,
+      startedAt,
+    }),
+    filledTargetIds: [...filled].sort(),
+    unfilledTargetIds: [...open].sort(),
+  };
+}
+
+/**
+ * Run guided generation rounds until every open target is hit, the
+ * candidate budget is spent or GAP_FILL_ROUNDS is reached. `run.open` is
+ * consumed; kept instances are returned in generation order.
+ */
+async function generateRounds(
+  schema: unknown,
+  options: CoverageGapFillOptions,
+  run: GapFillRun
+): Promise<{ items: unknown[]; generated: number }> {
+  const items: unknown[] = [];
+  const hitSoFar = new Set(run.covered);
+  let budget = options.maxInstances ?? Number.POSITIVE_INFINITY;
+  let generated = 0;
+  for (let round = 0; round < GAP_FILL_ROUNDS; round += 1) {
+    const count = Math.min(budget, run.open.size);
+    if (count <= 0) break;
+    const candidates = await generateCandidates(schema, hitSoFar, count, {
+      ...options,
+      dimensionsEnabled: run.replayOptions.dimensionsEnabled,
+      seed: round === 0 ? options.seed : (options.seed ?? 0) + round,
+    });
+    budget -= candidates.length;
+    generated += candidates.length;
+    const { hits } = collectInstanceTargetHits(
+      schema,
+      candidates,
+      run.replayOptions
+    );
+    for (const index of selectCoveringInstances(hits, run.open)) {
+      items.push(candidates[index]);
+      for (const id of hits[index]!) hitSoFar.add(id);
+    }
+    if (candidates.length === 0) break;
+  }
+  return { items, generated };
+}
+
+function readCoveredTargetIds(baseline: CoverageReport): Set<string> {
+  if (baseline.reportMode === 'summary') {
+    throw new Error(
+      'Coverage gap filling needs a full coverage report: summary reports omit covered targets.'
+    );
+  }
+  return new Set(
+    baseline.targets.filter((target) => target.hit).map((target) => target.id)
+  );
+}
+
+async function generateCandidates(
+  schema: unknown,
+  covered: ReadonlySet<string>,
+  count: number,
+  options: CoverageGapFillOptions
+): Promise<unknown[]> {
+  const pipelineOptions: PipelineOptions = {
+    mode: options.mode,
+    formats: options.formats,
+    compose: { planOptions: options.planOptions },
+    generate: {
+      count,
+      seed: options.seed,
+      planOptions: options.planOptions,
+    },
+    validate: { validateFormats: options.validateFormats },
+    coverage: {
+      mode: 'guided',
+      dimensionsEnabled: options.dimensionsEnabled,
+      planner: options.planner,
+      weights: options.weights,
+      coveredTargetIds: [...covered],
+    },
+  };
+  const result = await executePipeline(schema, pipelineOptions);
+  if (result.status !== 'completed') {
+    throw result.errors[0] ?? new Error('Generation pipeline failed');
+  }
+  return result.artifacts.repaired ?? [];
+}
+
+/**
+ * Greedy set cover: repeatedly keep the instance hitting the most targets
+ * still open (lowest index on ties); `open` is consumed. Returns indexes
+ * in input order.
+ */
+function selectCoveringInstances(
+  hits: ReadonlyArray<ReadonlySet<string> | undefined>,
+  open: Set<string>
+): number[] {
+  const chosen: number[] = [];
+  for (;;) {
+    let best = -1;
+    let bestGain = 0;
+    hits.forEach((instanceHits, index) => {
+      let gain = 0;
+      for (const id of instanceHits ?? []) {
+        if (open.has(id)) gain += 1;
+      }
+      if (gain > bestGain) {
+        best = index;
+        bestGain = gain;
+      }
+    });
+    if (best < 0) break;
+    chosen.push(best);
+    for (const id of hits[best]!) open.delete(id);
+  }
+  return chosen.sort((a, b) => a - b);
+}
+
+function buildMergedReport(
+  options: CoverageGapFillOptions,
+  run: {
+    dimensionsEnabled: CoverageDimension[];
+    targets: CoverageTargetReport[];
+    maxInstances: number;
+    actualInstances: number;
+    startedAt: number;
+  }
+): CoverageReport {
+  return evaluateCoverageAndBuildReport({
+    mode: 'guided',
+    dimensionsEnabled: run.dimensionsEnabled,
+    coverageOptions: {
+      excludeUnreachable: options.excludeUnreachable,
+      minCoverage: options.minCoverage,
+      minCoverageByDimension: options.minCoverageByDimension,
+      minCoverageByOperation: options.minCoverageByOperation,
+      reportMode: options.reportMode,
+    },
+    targets: run.targets,
+    runInfo: {
+      seed: options.seed ?? 0,
+      maxInstances: run.maxInstances,
+      actualInstances: run.actualInstances,
+      startedAtIso: new Date(run.startedAt).toISOString(),
+      durationMs: Date.now() - run.startedAt,
+    },
+    engineInfo: { foundryVersion: CORE_VERSION, ajvMajor: 8 },
+  }).report;
+}
+
+function mergeHits(
+  targets: CoverageTarget[],
+  covered: ReadonlySet<string>,
+  filled: ReadonlySet<string>
+): CoverageTargetReport[] {
+  return targets.map((target) => ({
+    ...target,
+    hit: covered.has(target.id) || filled.has(target.id),
+  }));
+}
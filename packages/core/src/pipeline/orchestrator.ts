@@ -18,6 +18,7 @@ import {
 } from '../transform/g-valid-classifier.js';
 import { createPlanningAjv } from '../util/ajv-planning.js';
 import {
+  createRepairOnlyValidatorAjv,
   createSourceAjv,
   extractAjvFlags,
   prepareSchemaForSourceAjv,
@@ -27,12 +28,18 @@ import {
 } from '../util/ajv-source.js';
 import type { Dialect } from '../dialect/detectDialect.js';
 import { checkAjvStartupParity } from '../util/ajv-gate.js';
-import { MetricsCollector, type MetricPhase } from '../util/metrics.js';
+import {
+  MetricsCollector,
+  type MetricPhase,
+  type MetricsVerbosity,
+} from '../util/metrics.js';
 import { resolveOptions, type ResolvedOptions } from '../types/options.js';
 import type Ajv from 'ajv';
 import type { ErrorObject, ValidateFunction } from 'ajv';
 import {
+  createGeneratorSession,
   generateFromCompose,
+  type GeneratorSession,
   type GeneratorStageOutput,
   type FoundryGeneratorOptions,
 } from '../generator/foundry-generator.js';
@@ -45,9 +52,16 @@ import {
   type PipelineStages,
   type PipelineStatus,
   type PipelineArtifacts,
+  type PipelineStreamOptions,
+  type PipelineSharedResources,
   type ValidateStageResult,
 } from './types.js';
 import { repairItemsAjvDriven } from '../repair/repair-engine.js';
+import {
+  buildNegativeCoverageTargets,
+  generateNegativeInstances,
+  type NegativeInstance,
+} from '../negative/negative-instances.js';
 import {
   assertDiagnosticEnvelope,
   assertDiagnosticsForPhase,
@@ -66,6 +80,7 @@ import { buildExternalRefProbeSchema } from '../util/modes.js';
 import { ResolutionRegistry } from '../resolver/registry.js';
 import {
   resolveAllExternalRefs,
+  type ResolveAllExternalRefsResult,
   type ResolverDiagnosticNote,
   type ResolverOptions as ResolverExtensionOptions,
 } from '../resolver/options.js';
@@ -91,12 +106,14 @@ import {
   planCoverageForPipeline,
   evaluateCoverageAndBuildReport,
 } from '../coverage/runtime.js';
+import { buildOperationTarget } from '../coverage/coverage-analyzer-openapi.js';
 import {
   type CoverageMode,
   type PlannerCapHit,
   type UnsatisfiedHint,
 } from '@foundrydata/shared';
 import corePackageJson from '../../package.json' with { type: 'json' };
+import { openPlanCache } from './plan-cache.js';
 
 const STAGE_SEQUENCE: PipelineStageName[] = [
   'normalize',
@@ -106,6 +123,8 @@ const STAGE_SEQUENCE: PipelineStageName[] = [
   'validate',
 ];
 
+export const DEFAULT_STREAM_CHUNK_SIZE = 64;
+
 const METRIC_PHASE_BY_STAGE: Record<PipelineStageName, MetricPhase> = {
   normalize: 'NORMALIZE',
   compose: 'COMPOSE',
@@ -139,6 +158,7 @@ interface StageRunners {
       schema: unknown;
       effective: ReturnType<typeof compose>;
       gValidIndex?: GValidClassificationIndex;
+      startIndex?: number;
     },
     options?: PipelineOptions['repair']
   ) =>
@@ -181,6 +201,7 @@ type CoverageHookOptions = {
   emit: (event: CoverageEvent) => void;
   emitForItem?: (itemIndex: number, event: CoverageEvent) => void;
   hints?: CoverageHint[];
+  rotateHints?: boolean;
   recordUnsatisfiedHint?: (hint: UnsatisfiedHint) => void;
   hintTrace?: HintTrace;
 };
@@ -224,6 +245,21 @@ function collectSchemaIds(schema: unknown, acc: Set<string>): void {
   visit(schema);
 }
 
+function resolveExternalRefsOnce(
+  schema: unknown,
+  resolverOptions: ResolverExtensionOptions,
+  shared: PipelineSharedResources | undefined
+): Promise<ResolveAllExternalRefsResult> {
+  if (!shared) {
+    return resolveAllExternalRefs(schema as object, resolverOptions);
+  }
+  shared.resolver ??= resolveAllExternalRefs(
+    shared.resolverRoot ?? (schema as object),
+    resolverOptions
+  );
+  return shared.resolver;
+}
+
 function createInitialStages(): PipelineStages {
   return {
     normalize: { status: 'pending' },
@@ -306,17 +342,23 @@ export async function executePipeline(
     mode: PipelineOptions['mode'];
   }): void => {
     if (ajvParityChecked || pendingAjvMismatch) return;
-    const sourceAjv = createSourceAjv(
-      {
-        dialect: sourceDialect,
-        validateFormats: args.validateFormats,
-        discriminator: args.discriminator,
-        multipleOfPrecision: args.expectedMoP,
-        tolerateInvalidPatterns: args.mode === 'lax',
-      },
-      planOptions
-    );
+    const shared = rootIds.size === 0 ? options.shared : undefined;
+    const sourceAjv =
+      shared?.sourceAjv ??
+      createSourceAjv(
+        {
+          dialect: sourceDialect,
+          validateFormats: args.validateFormats,
+          discriminator: args.discriminator,
+          multipleOfPrecision: args.expectedMoP,
+          tolerateInvalidPatterns: args.mode === 'lax',
+          formats: options.formats,
+          validateContent: Boolean(options.validate?.validateContent),
+        },
+        planOptions
+      );
     if (
+      shared?.sourceAjv === undefined &&
       registryDocs &&
       resolverRegistry &&
       resolvedPlanOptions.resolver.hydrateFinalAjv === true
@@ -333,9 +375,11 @@ export async function executePipeline(
         validateFormats: args.validateFormats,
         discriminator: args.discriminator,
         multipleOfPrecision: args.expectedMoP,
+        formats: options.formats,
       },
       planOptions
     );
+    if (shared) shared.sourceAjv = sourceAjv;
     sourceAjvForRun = sourceAjv;
     planningAjvForRun = planningAjv;
     const sourceClass =
@@ -367,6 +411,8 @@ export async function executePipeline(
     const resolverOptions: ResolverExtensionOptions = {
       strategies: resolverPlan.strategies ?? ['local'],
       cacheDir: resolverPlan.cacheDir,
+      uriMappings: resolverPlan.uriMappings,
+      preload: resolverPlan.preload,
       hydrateFinalAjv: resolverPlan.hydrateFinalAjv,
       stubUnresolved:
         resolverPlan.stubUnresolved === 'emptySchema'
@@ -381,9 +427,10 @@ export async function executePipeline(
       followRedirects: resolverPlan.followRedirects,
       acceptYaml: resolverPlan.acceptYaml,
     };
-    const resolverResult = await resolveAllExternalRefs(
-      schema as object,
-      resolverOptions
+    const resolverResult = await resolveExternalRefsOnce(
+      schema,
+      resolverOptions,
+      options.shared
     );
     resolverRunDiags = resolverResult.notes;
     registryFingerprint = resolverResult.registryFingerprint;
@@ -479,11 +526,23 @@ export async function executePipeline(
         mode: coverageMode,
         emit,
         emitForItem,
+        // Gap-fill runs (baseline-covered targets) spread hints per instance.
+        rotateHints: options.coverage?.coveredTargetIds !== undefined,
         recordUnsatisfiedHint,
         ...(hintTrace ? { hintTrace } : {}),
       };
     }
   }
+  const generatorContext: DefaultGeneratorContext = {
+    registryDocs,
+    resolverHydrateFinalAjv: resolvedPlanOptions.resolver.hydrateFinalAjv,
+    resolverNotes: resolverRunDiags,
+    resolverSeenSchemaIds: seenSchemaIds,
+    sourceDialect,
+  };
+  // Offset of the current validate batch within the run, so per-instance
+  // coverage states stay aligned when items are validated in chunks.
+  let validateIndexOffset = 0;
   const runners: StageRunners = {
     normalize: overrides.normalize ?? normalize,
     compose: overrides.compose ?? compose,
@@ -493,13 +552,7 @@ export async function executePipeline(
         metrics,
         schema,
         options,
-        {
-          registryDocs,
-          resolverHydrateFinalAjv: resolvedPlanOptions.resolver.hydrateFinalAjv,
-          resolverNotes: resolverRunDiags,
-          resolverSeenSchemaIds: seenSchemaIds,
-          sourceDialect,
-        },
+        generatorContext,
         coverageHookOptions
       ),
     repair:
@@ -525,7 +578,7 @@ export async function executePipeline(
           if (!streamingCoverageAccumulator || !perInstanceCoverageStates) {
             return;
           }
-          const state = perInstanceCoverageStates[index];
+          const state = perInstanceCoverageStates[validateIndexOffset + index];
           if (!state) {
             return;
           }
@@ -544,11 +597,26 @@ export async function executePipeline(
   const artifacts: PipelineArtifacts = {};
   let status: PipelineStatus = 'completed';
 
+  // Persistent plan cache (PlanOptions.cache.persistent); custom
+  // normalize/compose runners bypass it.
+  let planCache =
+    overrides.normalize || overrides.compose
+      ? undefined
+      : openPlanCache({
+          schema,
+          options,
+          resolvedPlanOptions,
+          registryFingerprint,
+          metrics,
+        });
+  const cachedPlan = await planCache?.readPlan();
+
   // Normalize stage
   let normalizeResult: NormalizeResult | undefined;
   metrics.begin(METRIC_PHASE_BY_STAGE.normalize);
   try {
-    normalizeResult = runners.normalize(schema, options.normalize);
+    normalizeResult =
+      cachedPlan?.canonical ?? runners.normalize(schema, options.normalize);
     stages.normalize = {
       status: 'completed',
       output: normalizeResult,
@@ -651,6 +719,8 @@ export async function executePipeline(
             discriminator,
             multipleOfPrecision: expectedMoP,
             tolerateInvalidPatterns: mode === 'lax',
+            formats: options.formats,
+            validateContent: Boolean(options.validate?.validateContent),
           },
           planOptions
         );
@@ -734,6 +804,7 @@ export async function executePipeline(
           validateFormats,
           discriminator,
           multipleOfPrecision: expectedMoP,
+          formats: options.formats,
         },
         planOptions
       );
@@ -803,7 +874,15 @@ export async function executePipeline(
         // ignore
       }
     }
-    const composeResult = runners.compose(composeInput, composeOptions);
+    if (stubbedRefs && stubbedRefs.length > 0) {
+      // The effective view was planned against a stubbed probe schema.
+      planCache = undefined;
+    }
+    const composeResult =
+      cachedPlan ?? runners.compose(composeInput, composeOptions);
+    if (!cachedPlan) {
+      await planCache?.writePlan(composeResult);
+    }
     if (stubbedRefs && stubbedRefs.length > 0) {
       composeResult.diag = composeResult.diag ?? {};
       const warn = composeResult.diag.warn ?? [];
@@ -856,6 +935,13 @@ export async function executePipeline(
         artifacts.gValidIndex = index;
       }
 
+      const coverageCacheDimensions =
+        planCache && shouldRunCoverageAnalyzer(options.coverage)
+          ? resolveCoverageDimensions(options.coverage?.dimensionsEnabled)
+          : undefined;
+      const cachedAnalysis = coverageCacheDimensions
+        ? await planCache?.readCoverage(coverageCacheDimensions)
+        : undefined;
       const coveragePlan = planCoverageForPipeline({
         canonicalSchema,
         normalizeResult,
@@ -863,7 +949,14 @@ export async function executePipeline(
         coverageOptions: options.coverage,
         generateOptions: options.generate,
         testOverrides: overrides.coverageTestOverrides,
+        analysis: cachedAnalysis,
       });
+      if (coveragePlan && coverageCacheDimensions && !cachedAnalysis) {
+        await planCache?.writeCoverage(
+          coverageCacheDimensions,
+          coveragePlan.analysis
+        );
+      }
 
       if (coveragePlan) {
         artifacts.coverageGraph = coveragePlan.graph;
@@ -993,6 +1086,135 @@ export async function executePipeline(
     };
   }
 
+  // Coverage report is built once per run, after the last validate pass.
+  const finalizeCoverage = (actualInstances: number): void => {
+    if (
+      coverageAccumulator &&
+      shouldRunCoverageAnalyzer(options.coverage) &&
+      Array.isArray(artifacts.coverageTargets) &&
+      status === 'completed'
+    ) {
+      const coverageDimensions = resolveCoverageDimensions(
+        options.coverage?.dimensionsEnabled
+      );
+
+      const reportTargets = coverageAccumulator.toReport(
+        artifacts.coverageTargets
+      );
+      if (artifacts.negativeInstances) {
+        reportTargets.push(
+          ...buildNegativeCoverageTargets(
+            artifacts.canonical?.schema,
+            artifacts.negativeInstances,
+            coverageDimensions
+          )
+        );
+      }
+      const requestOperation = options.coverage?.requestOperation;
+      if (requestOperation && coverageDimensions.includes('operations')) {
+        reportTargets.push(
+          buildOperationTarget(
+            'OP_REQUEST_COVERED',
+            requestOperation,
+            actualInstances
+          )
+        );
+      }
+      artifacts.coverageTargets = reportTargets;
+
+      const generateOutput = stages.generate.output;
+      const seed =
+        (generateOutput && typeof generateOutput.seed === 'number'
+          ? generateOutput.seed
+          : options.generate?.seed) ?? 0;
+      const maxInstances =
+        options.generate?.count ??
+        (Array.isArray(generateOutput?.items)
+          ? generateOutput.items.length
+          : 0);
+
+      const coverageMode = options.coverage?.mode ?? 'off';
+
+      const evaluation = evaluateCoverageAndBuildReport({
+        mode: coverageMode,
+        dimensionsEnabled: coverageDimensions,
+        coverageOptions: options.coverage,
+        targets: reportTargets,
+        plannerCapsHit,
+        unsatisfiedHints,
+        runInfo: {
+          seed,
+          maxInstances,
+          actualInstances,
+          startedAtIso: runStartedAtIso,
+          durationMs: Date.now() - runStartTimeMs,
+        },
+        engineInfo: {
+          foundryVersion:
+            (corePackageJson as { version?: string }).version ?? '0.0.0',
+          ajvMajor: 8,
+        },
+      });
+
+      artifacts.coverageMetrics = evaluation.metrics;
+      artifacts.coverageReport = evaluation.report;
+    }
+  };
+
+  if (options.stream && options.polarity !== 'negative') {
+    const streamed = await runStreamingStages({
+      schema,
+      effective: stages.compose.output!,
+      gValidIndex,
+      options,
+      stream: options.stream,
+      createSession: () =>
+        overrides.generate
+          ? bufferGeneratorOutput(
+              runners.generate(
+                stages.compose.output!,
+                options.generate,
+                coverageHookOptions,
+                gValidIndex
+              )
+            )
+          : createGeneratorSession(
+              stages.compose.output!,
+              buildGeneratorOptions(
+                metrics,
+                schema,
+                options,
+                options.generate,
+                generatorContext,
+                coverageHookOptions,
+                gValidIndex
+              )
+            ),
+      runners,
+      metrics,
+      stages,
+      artifacts,
+      errors,
+      timeline,
+      setValidateIndexOffset: (offset) => {
+        validateIndexOffset = offset;
+      },
+    });
+    status = streamed.status;
+    finalizeCoverage(streamed.emitted);
+    return {
+      status,
+      schema,
+      stages,
+      metrics: metrics.snapshotMetrics({
+        verbosity: options.snapshotVerbosity,
+      }),
+      timeline,
+      errors,
+      artifacts,
+    };
+  }
+
   // Generate stage
   let generated: GeneratorStageOutput | undefined;
   metrics.begin(METRIC_PHASE_BY_STAGE.generate);
@@ -1005,36 +1227,7 @@ export async function executePipeline(
     artifacts.generated = generated;
 
     // Runtime self-check: generator diagnostics must be allowed only in generate phase
-    const genDiags: DiagnosticEnvelope[] = (generated?.diagnostics ?? []).map(
-      (d) => {
-        const budget = d.budget
-          ? {
-              tried: d.budget.tried,
-              limit: d.budget.limit,
-              skipped: d.budget.skipped,
-              reason:
-                d.budget.reason === 'candidateBudget' ||
-                d.budget.reason === 'witnessDomainExhausted'
-                  ? 'complexityCap'
-                  : d.budget.reason,
-            }
-          : undefined;
-        return {
-          code: d.code,
-          canonPath: d.canonPath,
-          phase: DIAGNOSTIC_PHASES.GENERATE,
-          details: d.details,
-          budget,
-          scoreDetails: d.scoreDetails,
-        };
-      }
-    );
-    if (genDiags.length > 0) {
-      assertDiagnosticsForPhase(DIAGNOSTIC_PHASES.GENERATE, genDiags);
-      for (const env of genDiags) {
-        assertDiagnosticEnvelope(env);
-      }
-    }
+    assertGeneratorDiagnostics(generated);
   } catch (error) {
     const stageError = toPipelineStageError('generate', error);
     stages.generate = { status: 'failed', error: stageError };
@@ -1076,60 +1269,17 @@ export async function executePipeline(
         options.repair
       )
     );
-    type RepairActions = {
-      action: string;
-      canonPath: string;
-      origPath?: string;
-      instancePath?: string;
-      details?: Record<string, unknown>;
-    };
-    type RepairObject = {
-      items: unknown[];
-      diagnostics?: DiagnosticEnvelope[];
-      actions?: RepairActions[];
-    };
-    const isRepairObject = (v: unknown): v is RepairObject =>
-      typeof v === 'object' &&
-      v !== null &&
-      'items' in (v as Record<string, unknown>) &&
-      Array.isArray((v as { items?: unknown[] }).items);
-    const normalizedItems = Array.isArray(out)
-      ? out
-      : isRepairObject(out)
-        ? out.items
-        : [];
-    repaired = normalizedItems;
+    const normalized = normalizeRepairOutput(out);
+    repaired = normalized.items;
     stages.repair = { status: 'completed', output: repaired };
-    artifacts.repaired = normalizedItems;
-    if (isRepairObject(out) && out.diagnostics)
-      artifacts.repairDiagnostics = out.diagnostics;
-    // Runtime self-check: repair diagnostics must be allowed only in repair phase
-    if (
-      isRepairObject(out) &&
-      Array.isArray(out.diagnostics) &&
-      out.diagnostics.length > 0
-    ) {
-      const repairDiags: DiagnosticEnvelope[] = out.diagnostics.map(
-        (d: DiagnosticEnvelope) => ({
-          code: d.code,
-          canonPath: d.canonPath,
-          phase: DIAGNOSTIC_PHASES.REPAIR,
-          details: d.details,
-          metrics: d.metrics,
-          budget: d.budget,
-          scoreDetails: d.scoreDetails,
-        })
-      );
-      assertDiagnosticsForPhase(DIAGNOSTIC_PHASES.REPAIR, repairDiags);
-      for (const env of repairDiags) {
-        assertDiagnosticEnvelope(env);
-      }
-      artifacts.repairDiagnostics = repairDiags;
+    artifacts.repaired = normalized.items;
+    if (normalized.diagnostics) {
+      artifacts.repairDiagnostics = normalized.diagnostics;
     }
-    if (isRepairObject(out) && out.actions) {
-      artifacts.repairActions = out.actions;
+    if (normalized.actions) {
+      artifacts.repairActions = normalized.actions;
       // Aggregate metrics: total repair actions applied across all items
-      metrics.addRepairActions(out.actions.length);
+      metrics.addRepairActions(normalized.actions.length);
     }
   } catch (error) {
     const stageError = toPipelineStageError('repair', error);
@@ -1181,22 +1331,10 @@ export async function executePipeline(
       Array.isArray(validation.diagnostics) &&
       validation.diagnostics.length > 0
     ) {
-      const diagList: DiagnosticEnvelope[] = validation.diagnostics.map(
-        (d: DiagnosticEnvelope) => ({
-          code: d.code,
-          canonPath: d.canonPath,
-          phase: DIAGNOSTIC_PHASES.VALIDATE,
-          details: d.details,
-          metrics: d.metrics,
-          budget: d.budget,
-          scoreDetails: d.scoreDetails,
-        })
+      artifacts.validationDiagnostics = toPhaseDiagnostics(
+        DIAGNOSTIC_PHASES.VALIDATE,
+        validation.diagnostics
       );
-      assertDiagnosticsForPhase(DIAGNOSTIC_PHASES.VALIDATE, diagList);
-      for (const env of diagList) {
-        assertDiagnosticEnvelope(env);
-      }
-      artifacts.validationDiagnostics = diagList;
     }
     // Expose AJV flags used during validation if provided by the validate runner
     if (validation.flags) {
@@ -1209,44 +1347,13 @@ export async function executePipeline(
       metrics.addValidationCount(items.length);
     }
   } catch (error) {
-    // If startup parity failed, mirror SPEC-required diagnostic AJV_FLAGS_MISMATCH
-    if (error instanceof AjvFlagsMismatchError) {
-      const snapshotForDiag = metrics.snapshotMetrics({
-        verbosity: options.snapshotVerbosity,
-      });
-      const diag: DiagnosticEnvelope = {
-        code: DIAGNOSTIC_CODES.AJV_FLAGS_MISMATCH,
-        canonPath: '',
-        phase: DIAGNOSTIC_PHASES.VALIDATE,
-        details: error.details as unknown,
-        metrics: {
-          validationsPerRow: snapshotForDiag.validationsPerRow,
-          repairPassesPerRow: snapshotForDiag.repairPassesPerRow,
-          p50LatencyMs: snapshotForDiag.p50LatencyMs,
-          p95LatencyMs: snapshotForDiag.p95LatencyMs,
-          memoryPeakMB: snapshotForDiag.memoryPeakMB,
-        },
-      };
-      try {
-        assertDiagnosticEnvelope(diag);
-        assertDiagnosticsForPhase(DIAGNOSTIC_PHASES.VALIDATE, [diag]);
-      } catch {
-        // If envelope assertion itself throws, continue to stage error
-      }
-      artifacts.validationDiagnostics = [diag];
-    }
-    if (error instanceof ExternalRefValidationError) {
-      const diag: DiagnosticEnvelope = {
-        ...error.diagnostic,
-        phase: DIAGNOSTIC_PHASES.VALIDATE,
-      };
-      try {
-        assertDiagnosticEnvelope(diag);
-        assertDiagnosticsForPhase(DIAGNOSTIC_PHASES.VALIDATE, [diag]);
-      } catch {
-        // continue to stage error even if assertion throws
-      }
-      artifacts.validationDiagnostics = [diag];
+    const failureDiagnostics = validateFailureDiagnostics(
+      error,
+      metrics,
+      options.snapshotVerbosity
+    );
+    if (failureDiagnostics) {
+      artifacts.validationDiagnostics = failureDiagnostics;
     }
     const stageError = toPipelineStageError('validate', error);
     stages.validate = { status: 'failed', error: stageError };
@@ -1257,62 +1364,43 @@ export async function executePipeline(
     timeline.push('validate');
   }
 
-  if (
-    coverageAccumulator &&
-    shouldRunCoverageAnalyzer(options.coverage) &&
-    Array.isArray(artifacts.coverageTargets) &&
-    status === 'completed'
-  ) {
-    const coverageDimensions = resolveCoverageDimensions(
-      options.coverage?.dimensionsEnabled
-    );
-
-    const reportTargets = coverageAccumulator.toReport(
-      artifacts.coverageTargets
-    );
-    artifacts.coverageTargets = reportTargets;
-
-    const generateOutput = stages.generate.output;
-    const seed =
-      (generateOutput && typeof generateOutput.seed === 'number'
-        ? generateOutput.seed
-        : options.generate?.seed) ?? 0;
-    const maxInstances =
-      options.generate?.count ??
-      (Array.isArray(generateOutput?.items) ? generateOutput.items.length : 0);
-    const actualInstances = Array.isArray(artifacts.repaired)
-      ? artifacts.repaired.length
-      : Array.isArray(generateOutput?.items)
-        ? generateOutput.items.length
-        : 0;
-
-    const coverageMode = options.coverage?.mode ?? 'off';
-
-    const evaluation = evaluateCoverageAndBuildReport({
-      mode: coverageMode,
-      dimensionsEnabled: coverageDimensions,
-      coverageOptions: options.coverage,
-      targets: reportTargets,
-      plannerCapsHit,
-      unsatisfiedHints,
-      runInfo: {
-        seed,
-        maxInstances,
-        actualInstances,
-        startedAtIso: runStartedAtIso,
-        durationMs: Date.now() - runStartTimeMs,
-      },
-      engineInfo: {
-        foundryVersion:
-          (corePackageJson as { version?: string }).version ?? '0.0.0',
-        ajvMajor: 8,
-      },
-    });
-
-    artifacts.coverageMetrics = evaluation.metrics;
-    artifacts.coverageReport = evaluation.report;
+  if (options.polarity === 'negative' && status === 'completed') {
+    try {
+      artifacts.negativeInstances = buildNegativeInstances(
+        {
+          schema,
+          canonSchema: artifacts.canonical?.schema,
+          items: (stages.repair.output as unknown[] | undefined) ?? [],
+        },
+        options,
+        registryDocs &&
+          resolverRegistry &&
+          resolvedPlanOptions.resolver.hydrateFinalAjv === true
+          ? {
+              docs: registryDocs,
+              notes: resolverRunDiags,
+              seenSchemaIds: new Map(seenSchemaIds),
+            }
+          : undefined
+      );
+    } catch (error) {
+      const stageError = toPipelineStageError('validate', error);
+      stages.validate = { status: 'failed', error: stageError };
+      errors.push(stageError);
+      status = 'failed';
+    }
   }
 
+  finalizeCoverage(
+    artifacts.negativeInstances
+      ? artifacts.negativeInstances.length
+      : Array.isArray(artifacts.repaired)
+        ? artifacts.repaired.length
+        : Array.isArray(stages.generate.output?.items)
+          ? stages.generate.output.items.length
+          : 0
+  );
+
   return {
     status,
     schema,
@@ -1326,39 +1414,315 @@ export async function executePipeline(
   };
 }
 
+interface StreamingStageContext {
+  schema: unknown;
+  effective: ReturnType<typeof compose>;
+  gValidIndex?: GValidClassificationIndex;
+  options: PipelineOptions;
+  stream: PipelineStreamOptions;
+  createSession: () => GeneratorSession | Promise<GeneratorSession>;
+  runners: StageRunners;
+  metrics: MetricsCollector;
+  stages: PipelineStages;
+  artifacts: PipelineArtifacts;
+  errors: PipelineStageError[];
+  timeline: PipelineStageName[];
+  setValidateIndexOffset: (offset: number) => void;
+}
+
+/**
+ * Streaming variant of the Generate → Repair → Validate stages. Items are
+ * produced, repaired and validated chunk by chunk and handed to
+ * stream.onItems as soon as their chunk validates; a failing chunk is never
+ * emitted and stops the run. Stage reports aggregate diagnostics, repair
+ * actions and validation results across chunks without retaining items.
+ */
+async function runStreamingStages(
+  ctx: StreamingStageContext
+): Promise<{ status: PipelineStatus; emitted: number }> {
+  const { schema, effective, gValidIndex, options, stream, runners } = ctx;
+  const { metrics, stages, artifacts, errors } = ctx;
+  const total = Math.max(1, Math.floor(options.generate?.count ?? 1));
+  const chunkSize = Math.max(
+    1,
+    Math.floor(stream.chunkSize ?? DEFAULT_STREAM_CHUNK_SIZE)
+  );
+
+  let status: PipelineStatus = 'completed';
+  let failedStage: PipelineStageName | undefined;
+  const reached = new Set<PipelineStageName>();
+  const fail = (stage: PipelineStageName, error: unknown): PipelineStatus => {
+    const stageError = toPipelineStageError(stage, error);
+    stages[stage] = { status: 'failed', error: stageError };
+    errors.push(stageError);
+    failedStage = stage;
+    return 'failed';
+  };
+
+  let session: GeneratorSession | undefined;
+  let emitted = 0;
+  const repairDiagnostics: DiagnosticEnvelope[] = [];
+  const repairActions: RepairActionRecord[] = [];
+  const validation: ValidateStageResult = { valid: true };
+  const validationErrors: unknown[] = [];
+  const validationDiagnostics: DiagnosticEnvelope[] = [];
+
+  for (let start = 0; start < total; start += chunkSize) {
+    if (stream.signal?.aborted) break;
+    const count = Math.min(chunkSize, total - start);
+    let items: unknown[] = [];
+
+    reached.add('generate');
+    metrics.begin(METRIC_PHASE_BY_STAGE.generate);
+    try {
+      session ??= await ctx.createSession();
+      items = session.next(count);
+    } catch (error) {
+      status = fail('generate', error);
+    } finally {
+      metrics.end(METRIC_PHASE_BY_STAGE.generate);
+    }
+    if (status === 'failed') break;
+
+    reached.add('repair');
+    metrics.begin(METRIC_PHASE_BY_STAGE.repair);
+    try {
+      const out = await Promise.resolve(
+        runners.repair(
+          items,
+          { schema, effective, gValidIndex, startIndex: start },
+          options.repair
+        )
+      );
+      const normalized = normalizeRepairOutput(out);
+      items = normalized.items;
+      if (normalized.diagnostics) {
+        repairDiagnostics.push(...normalized.diagnostics);
+      }
+      if (normalized.actions) {
+        repairActions.push(...normalized.actions);
+        metrics.addRepairActions(normalized.actions.length);
+      }
+    } catch (error) {
+      status = fail('repair', error);
+    } finally {
+      metrics.end(METRIC_PHASE_BY_STAGE.repair);
+    }
+    if (status === 'failed') break;
+
+    reached.add('validate');
+    ctx.setValidateIndexOffset(start);
+    metrics.begin(METRIC_PHASE_BY_STAGE.validate);
+    try {
+      const result = await Promise.resolve(
+        runners.validate(items, schema, options.validate)
+      );
+      validation.flags ??= result.flags;
+      if (result.skippedValidation === true) {
+        validation.skippedValidation = true;
+      }
+      if (Array.isArray(result.errors)) {
+        validationErrors.push(...result.errors);
+      }
+      if (Array.isArray(result.diagnostics) && result.diagnostics.length > 0) {
+        validationDiagnostics.push(
+          ...toPhaseDiagnostics(DIAGNOSTIC_PHASES.VALIDATE, result.diagnostics)
+        );
+      }
+      metrics.addValidationCount(
+        result.skippedValidation === true ? 0 : items.length
+      );
+      // If final validation fails, the pipeline must fail per SPEC (§6 Phases)
+      if (result.valid === false && result.skippedValidation !== true) {
+        validation.valid = false;
+        status = 'failed';
+        errors.push(
+          new PipelineStageError('validate', 'FINAL_VALIDATION_FAILED')
+        );
+      }
+    } catch (error) {
+      const failureDiagnostics = validateFailureDiagnostics(
+        error,
+        metrics,
+        options.snapshotVerbosity
+      );
+      if (failureDiagnostics) {
+        artifacts.validationDiagnostics = failureDiagnostics;
+      }
+      status = fail('validate', error);
+    } finally {
+      metrics.end(METRIC_PHASE_BY_STAGE.validate);
+      ctx.setValidateIndexOffset(0);
+    }
+    if (status === 'failed') break;
+
+    await stream.onItems(items, start);
+    emitted += items.length;
+  }
+
+  if (session && failedStage !== 'generate') {
+    try {
+      const summary = session.finish();
+      // Runtime self-check: generator diagnostics must be allowed only in generate phase
+      assertGeneratorDiagnostics(summary);
+      stages.generate = { status: 'completed', output: summary };
+      artifacts.generated = summary;
+    } catch (error) {
+      status = fail('generate', error);
+    }
+  }
+  if (reached.has('repair') && failedStage !== 'repair') {
+    stages.repair = { status: 'completed', output: [] };
+    artifacts.repaired = [];
+    if (repairDiagnostics.length > 0) {
+      artifacts.repairDiagnostics = repairDiagnostics;
+    }
+    if (repairActions.length > 0) {
+      artifacts.repairActions = repairActions;
+    }
+  }
+  if (reached.has('validate') && failedStage !== 'validate') {
+    if (validationErrors.length > 0) validation.errors = validationErrors;
+    if (validationDiagnostics.length > 0) {
+      validation.diagnostics = validationDiagnostics;
+      artifacts.validationDiagnostics = validationDiagnostics;
+    }
+    stages.validate = { status: 'completed', output: validation };
+    artifacts.validation = validation;
+    if (validation.flags) {
+      artifacts.validationFlags = validation.flags;
+    }
+  }
+
+  for (const stage of STAGE_SEQUENCE) {
+    if (reached.has(stage)) ctx.timeline.push(stage);
+  }
+  // Stages never reached (failure or abort before they ran) are skipped.
+  markRemainingStagesAsSkipped(stages, 'compose');
+  return { status, emitted };
+}
+
+interface NegativeAjvRegistry {
+  docs: RegistryDoc[];
+  notes?: ResolverDiagnosticNote[];
+  seenSchemaIds: Map<string, string>;
+}
+
+/**
+ * Mutate validated items into negative instances, checked against an
+ * all-errors Source AJV configured and hydrated like the validate stage.
+ */
+function buildNegativeInstances(
+  input: { schema: unknown; canonSchema: unknown; items: unknown[] },
+  options: PipelineOptions,
+  registry: NegativeAjvRegistry | undefined
+): NegativeInstance[] {
+  const dialect = detectDialectFromSchema(input.schema);
+  const { schemaForAjv } = prepareSchemaForSourceAjv(input.schema, dialect);
+  const ajv = createRepairOnlyValidatorAjv(
+    {
+      dialect,
+      validateFormats: Boolean(options.validate?.validateFormats),
+      discriminator: Boolean(options.validate?.discriminator),
+      tolerateInvalidPatterns: options.mode === 'lax',
+      formats: options.formats,
+      validateContent: Boolean(options.validate?.validateContent),
+    },
+    options.generate?.planOptions
+  );
+  if (registry) {
+    hydrateSourceAjvFromRegistry(ajv, registry.docs, {
+      ignoreIncompatible: true,
+      notes: registry.notes,
+      seenSchemaIds: registry.seenSchemaIds,
+      targetDialect: dialect,
+    });
+  }
+  return generateNegativeInstances({
+    canonSchema: input.canonSchema,
+    items: input.items,
+    validate: ajv.compile(schemaForAjv as object),
+  });
+}
+
+/**
+ * Adapt a batch generate override to the session interface so streaming
+ * runs can still slice its items into chunks.
+ */
+async function bufferGeneratorOutput(
+  output: Promise<GeneratorStageOutput> | GeneratorStageOutput
+): Promise<GeneratorSession> {
+  const generated = await Promise.resolve(output);
+  const items = Array.isArray(generated.items) ? generated.items : [];
+  let cursor = 0;
+  return {
+    next: (count) => {
+      const chunk = items.slice(cursor, cursor + count);
+      cursor += chunk.length;
+      return chunk;
+    },
+    finish: () => ({ ...generated, items: [] }),
+  };
+}
+
+interface DefaultGeneratorContext {
+  registryDocs?: RegistryDoc[];
+  resolverHydrateFinalAjv?: boolean;
+  resolverNotes?: ResolverDiagnosticNote[];
+  resolverSeenSchemaIds?: Map<string, string>;
+  sourceDialect?: JsonSchemaDialect;
+}
+
+function buildGeneratorOptions(
+  metrics: MetricsCollector,
+  sourceSchema: unknown,
+  pipelineOptions: PipelineOptions,
+  options: PipelineOptions['generate'],
+  opts?: DefaultGeneratorContext,
+  coverage?: CoverageHookOptions,
+  gValidIndex?: GValidClassificationIndex
+): FoundryGeneratorOptions {
+  return {
+    count: options?.count,
+    seed: options?.seed,
+    planOptions: options?.planOptions,
+    preferExamples: pipelineOptions.generate?.preferExamples,
+    locale: pipelineOptions.generate?.locale,
+    metrics,
+    sourceSchema,
+    validateFormats: pipelineOptions.validate?.validateFormats,
+    discriminator: pipelineOptions.validate?.discriminator,
+    formats: pipelineOptions.formats,
+    registryDocs: opts?.registryDocs,
+    resolverHydrateFinalAjv: opts?.resolverHydrateFinalAjv,
+    resolverNotes: opts?.resolverNotes,
+    resolverSeenSchemaIds: opts?.resolverSeenSchemaIds,
+    sourceDialect: opts?.sourceDialect,
+    coverage: coverage && coverage.mode !== 'off' ? coverage : undefined,
+    gValidIndex,
+  };
+}
+
 function createDefaultGenerate(
   metrics: MetricsCollector,
   sourceSchema: unknown,
   pipelineOptions: PipelineOptions,
-  opts?: {
-    registryDocs?: RegistryDoc[];
-    resolverHydrateFinalAjv?: boolean;
-    resolverNotes?: ResolverDiagnosticNote[];
-    resolverSeenSchemaIds?: Map<string, string>;
-    sourceDialect?: JsonSchemaDialect;
-  },
+  opts?: DefaultGeneratorContext,
   coverage?: CoverageHookOptions
 ): StageRunners['generate'] {
-  return (effective, options, _coverageHooks, gValidIndex) => {
-    const generatorOptions: FoundryGeneratorOptions = {
-      count: options?.count,
-      seed: options?.seed,
-      planOptions: options?.planOptions,
-      preferExamples: pipelineOptions.generate?.preferExamples,
-      metrics,
-      sourceSchema,
-      validateFormats: pipelineOptions.validate?.validateFormats,
-      discriminator: pipelineOptions.validate?.discriminator,
-      registryDocs: opts?.registryDocs,
-      resolverHydrateFinalAjv: opts?.resolverHydrateFinalAjv,
-      resolverNotes: opts?.resolverNotes,
-      resolverSeenSchemaIds: opts?.resolverSeenSchemaIds,
-      sourceDialect: opts?.sourceDialect,
-      coverage: coverage && coverage.mode !== 'off' ? coverage : undefined,
-      gValidIndex,
-    };
-    return generateFromCompose(effective, generatorOptions);
-  };
+  return (effective, options, _coverageHooks, gValidIndex) =>
+    generateFromCompose(
+      effective,
+      buildGeneratorOptions(
+        metrics,
+        sourceSchema,
+        pipelineOptions,
+        options,
+        opts,
+        coverage,
+        gValidIndex
+      )
+    );
 }
 
 function createDefaultRepair(
@@ -1371,6 +1735,7 @@ function createDefaultRepair(
     schema: unknown;
     effective: ReturnType<typeof compose>;
     gValidIndex?: GValidClassificationIndex;
+    startIndex?: number;
   },
   _options?: PipelineOptions['repair']
 ) => Promise<
@@ -1387,6 +1752,7 @@ function createDefaultRepair(
           attempts: _options?.attempts,
           metrics,
           coverage: coverage && coverage.mode !== 'off' ? coverage : undefined,
+          startIndex: _args.startIndex,
         }
       );
     } catch {
@@ -1457,6 +1823,8 @@ function createDefaultValidate(
           discriminator,
           multipleOfPrecision: expectedMoP,
           tolerateInvalidPatterns: mode === 'lax',
+          formats: pipelineOptions.formats,
+          validateContent: Boolean(options?.validateContent),
           onInvalidPatternDraft06:
             mode === 'lax'
               ? ({ pattern }) => {
@@ -1490,7 +1858,12 @@ function createDefaultValidate(
     const planningAjv =
       getPlanningAjvForRun?.() ??
       createPlanningAjv(
-        { validateFormats, discriminator, multipleOfPrecision: expectedMoP },
+        {
+          validateFormats,
+          discriminator,
+          multipleOfPrecision: expectedMoP,
+          formats: pipelineOptions.formats,
+        },
         planOptions
       );
     const flags = {
@@ -1684,3 +2057,153 @@ function ajvErrorsToDiagnostics(
   }
   return diagnostics;
 }
+
+function assertGeneratorDiagnostics(
+  generated: GeneratorStageOutput | undefined
+): void {
+  const genDiags: DiagnosticEnvelope[] = (generated?.diagnostics ?? []).map(
+    (d) => {
+      const budget = d.budget
+        ? {
+            tried: d.budget.tried,
+            limit: d.budget.limit,
+            skipped: d.budget.skipped,
+            reason:
+              d.budget.reason === 'candidateBudget' ||
+              d.budget.reason === 'witnessDomainExhausted'
+                ? 'complexityCap'
+                : d.budget.reason,
+          }
+        : undefined;
+      return {
+        code: d.code,
+        canonPath: d.canonPath,
+        phase: DIAGNOSTIC_PHASES.GENERATE,
+        details: d.details,
+        budget,
+        scoreDetails: d.scoreDetails,
+      };
+    }
+  );
+  if (genDiags.length > 0) {
+    assertDiagnosticsForPhase(DIAGNOSTIC_PHASES.GENERATE, genDiags);
+    for (const env of genDiags) {
+      assertDiagnosticEnvelope(env);
+    }
+  }
+}
+
+/**
+ * Re-stamp diagnostics with the phase that surfaced them and run the
+ * runtime self-checks for that phase.
+ */
+function toPhaseDiagnostics(
+  phase: typeof DIAGNOSTIC_PHASES.REPAIR | typeof DIAGNOSTIC_PHASES.VALIDATE,
+  diagnostics: DiagnosticEnvelope[]
+): DiagnosticEnvelope[] {
+  const mapped: DiagnosticEnvelope[] = diagnostics.map((d) => ({
+    code: d.code,
+    canonPath: d.canonPath,
+    phase,
+    details: d.details,
+    metrics: d.metrics,
+    budget: d.budget,
+    scoreDetails: d.scoreDetails,
+  }));
+  assertDiagnosticsForPhase(phase, mapped);
+  for (const env of mapped) {
+    assertDiagnosticEnvelope(env);
+  }
+  return mapped;
+}
+
+type RepairActionRecord = NonNullable<
+  PipelineArtifacts['repairActions']
+>[number];
+
+interface NormalizedRepairOutput {
+  items: unknown[];
+  diagnostics?: DiagnosticEnvelope[];
+  actions?: RepairActionRecord[];
+}
+
+function normalizeRepairOutput(out: unknown): NormalizedRepairOutput {
+  type RepairObject = {
+    items: unknown[];
+    diagnostics?: DiagnosticEnvelope[];
+    actions?: RepairActionRecord[];
+  };
+  const isRepairObject = (v: unknown): v is RepairObject =>
+    typeof v === 'object' &&
+    v !== null &&
+    'items' in (v as Record<string, unknown>) &&
+    Array.isArray((v as { items?: unknown[] }).items);
+  if (Array.isArray(out)) {
+    return { items: out };
+  }
+  if (!isRepairObject(out)) {
+    return { items: [] };
+  }
+  const normalized: NormalizedRepairOutput = { items: out.items };
+  if (out.diagnostics) {
+    // Runtime self-check: repair diagnostics must be allowed only in repair phase
+    normalized.diagnostics =
+      Array.isArray(out.diagnostics) && out.diagnostics.length > 0
+        ? toPhaseDiagnostics(DIAGNOSTIC_PHASES.REPAIR, out.diagnostics)
+        : out.diagnostics;
+  }
+  if (out.actions) {
+    normalized.actions = out.actions;
+  }
+  return normalized;
+}
+
+/**
+ * Diagnostics surfaced when the validate runner throws: AJV startup parity
+ * mismatches (AJV_FLAGS_MISMATCH) and external/internal $ref failures.
+ */
+function validateFailureDiagnostics(
+  error: unknown,
+  metrics: MetricsCollector,
+  verbosity: MetricsVerbosity | undefined
+): DiagnosticEnvelope[] | undefined {
+  let diagnostics: DiagnosticEnvelope[] | undefined;
+  // If startup parity failed, mirror SPEC-required diagnostic AJV_FLAGS_MISMATCH
+  if (error instanceof AjvFlagsMismatchError) {
+    const snapshotForDiag = metrics.snapshotMetrics({ verbosity });
+    const diag: DiagnosticEnvelope = {
+      code: DIAGNOSTIC_CODES.AJV_FLAGS_MISMATCH,
+      canonPath: '',
+      phase: DIAGNOSTIC_PHASES.VALIDATE,
+      details: error.details as unknown,
+      metrics: {
+        validationsPerRow: snapshotForDiag.validationsPerRow,
+        repairPassesPerRow: snapshotForDiag.repairPassesPerRow,
+        p50LatencyMs: snapshotForDiag.p50LatencyMs,
+        p95LatencyMs: snapshotForDiag.p95LatencyMs,
+        memoryPeakMB: snapshotForDiag.memoryPeakMB,
+      },
+    };
+    try {
+      assertDiagnosticEnvelope(diag);
+      assertDiagnosticsForPhase(DIAGNOSTIC_PHASES.VALIDATE, [diag]);
+    } catch {
+      // If envelope assertion itself throws, continue to stage error
+    }
+    diagnostics = [diag];
+  }
+  if (error instanceof ExternalRefValidationError) {
+    const diag: DiagnosticEnvelope = {
+      ...error.diagnostic,
+      phase: DIAGNOSTIC_PHASES.VALIDATE,
+    };
+    try {
+      assertDiagnosticEnvelope(diag);
+      assertDiagnosticsForPhase(DIAGNOSTIC_PHASES.VALIDATE, [diag]);
+    } catch {
+      // continue to stage error even if assertion throws
+    }
+    diagnostics = [diag];
+  }
+  return diagnostics;
+}
@@ -0,0 +1,352 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+
+import corePackageJson from '../../package.json' with { type: 'json' };
+import type { CoverageAnalyzerResult } from '../coverage/analyzer.js';
+import { canonicalizeCacheDir } from '../resolver/cache-store.js';
+import type { ComposeResult } from '../transform/composition-engine.js';
+import {
+  restoreComposeResult,
+  snapshotComposeResult,
+  type ComposeSnapshot,
+} from '../transform/compose-snapshot.js';
+import type { ResolvedOptions } from '../types/options.js';
+import { createPlanOptionsSubKey } from '../util/cache.js';
+import type { MetricsCollector } from '../util/metrics.js';
+import { stableHash } from '../util/stable-hash.js';
+import type { PipelineOptions } from './types.js';
+
+/**
+ * Persistent, content-addressed cache for normalize/compose results and
+ * coverage analyzer output (PlanOptions.cache.persistent).
+ *
+ * Entries live under `<resolver.cacheDir>/plans` as
+ * `<kind>-<engine>-<sha256>.json`. The key covers the canonical schema hash,
+ * the PlanOptionsSubKey, the remaining planning settings and the engine
+ * version, so an entry is only reused by a run that would plan the same
+ * schema identically. I/O failures never fail a run: reads miss and writes
+ * are dropped.
+ */
+
+export const PLAN_CACHE_FORMAT = 'foundrydata-plan-cache/v1';
+
+/**
+ * Revision of the planner output stored in entries. Bump it with any change
+ * to Normalize, Compose or the coverage analyzer that alters their result
+ * for the same input, so entries written by earlier builds of the same
+ * package version stop hitting.
+ */
+export const PLAN_CACHE_PLANNER_REVISION = 1;
+
+const ENGINE_VERSION = `${
+  (corePackageJson as { version?: string }).version ?? '0.0.0'
+}+planner.${PLAN_CACHE_PLANNER_REVISION}`;
+
+const ENTRY_FILE = /^(plan|coverage)-(.+)-([0-9a-f]{64})\.json$/;
+
+type PlanCacheKind = 'plan' | 'coverage';
+
+interface PlanCacheKey {
+  schemaHash: string;
+  planOptionsSubKey: string;
+  settings: string;
+  dimensions?: string[];
+}
+
+interface PlanCacheFile<T> {
+  format: typeof PLAN_CACHE_FORMAT;
+  kind: PlanCacheKind;
+  engine: string;
+  createdAt: string;
+  key: PlanCacheKey;
+  payload: T;
+}
+
+export interface PlanCacheContext {
+  schema: unknown;
+  options: PipelineOptions;
+  resolvedPlanOptions: ResolvedOptions;
+  registryFingerprint: string;
+  metrics?: MetricsCollector;
+}
+
+/** Directory holding plan cache entries for a resolver cache directory. */
+export function resolvePlanCacheDir(cacheDir: string): string {
+  return path.join(canonicalizeCacheDir(cacheDir), 'plans');
+}
+
+function sha256Hex(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+/**
+ * Everything besides the schema and the PlanOptionsSubKey that feeds
+ * normalize/compose. Resolver, cache and metrics settings are excluded:
+ * the resolver contributes through the registry fingerprint.
+ */
+function digestPlanSettings(context: PlanCacheContext): string | undefined {
+  const { options, resolvedPlanOptions } = context;
+  const {
+    resolver: _resolver,
+    cache: _cache,
+    metrics: _metrics,
+    ...planOptions
+  } = resolvedPlanOptions;
+  const {
+    memoCache: _memoCache,
+    metrics: _composeMetrics,
+    ...compose
+  } = options.compose ?? {};
+  return stableHash({
+    mode: options.mode ?? 'strict',
+    normalize: options.normalize,
+    compose,
+    planOptions,
+    stubUnresolved: resolvedPlanOptions.resolver.stubUnresolved,
+    validateFormats: Boolean(options.validate?.validateFormats),
+    discriminator: Boolean(options.validate?.discriminator),
+    formats: options.formats,
+    registryFingerprint: context.registryFingerprint,
+  })?.digest;
+}
+
+export class PlanCache {
+  private readonly dir: string;
+  private readonly key: PlanCacheKey;
+  private readonly metrics?: MetricsCollector;
+
+  constructor(dir: string, key: PlanCacheKey, metrics?: MetricsCollector) {
+    this.dir = dir;
+    this.key = key;
+    this.metrics = metrics;
+  }
+
+  public async readPlan(): Promise<ComposeResult | undefined> {
+    const snapshot = await this.read<ComposeSnapshot>('plan', this.key);
+    return snapshot ? restoreComposeResult(snapshot) : undefined;
+  }
+
+  /**
+   * Store a compose result. The snapshot is taken before the first await so
+   * later diagnostics appended by the pipeline are not persisted.
+   */
+  public async writePlan(result: ComposeResult): Promise<void> {
+    const snapshot = snapshotComposeResult(result);
+    if (!snapshot) return;
+    await this.write('plan', this.key, snapshot);
+  }
+
+  public async readCoverage(
+    dimensions: string[]
+  ): Promise<CoverageAnalyzerResult | undefined> {
+    return this.read<CoverageAnalyzerResult>(
+      'coverage',
+      this.coverageKey(dimensions)
+    );
+  }
+
+  public async writeCoverage(
+    dimensions: string[],
+    analysis: CoverageAnalyzerResult
+  ): Promise<void> {
+    await this.write('coverage', this.coverageKey(dimensions), analysis);
+  }
+
+  private coverageKey(dimensions: string[]): PlanCacheKey {
+    return { ...this.key, dimensions: [...dimensions].sort() };
+  }
+
+  private entryPath(kind: PlanCacheKind, key: PlanCacheKey): string {
+    const digest = sha256Hex(JSON.stringify(key));
+    return path.join(this.dir, `${kind}-${ENGINE_VERSION}-${digest}.json`);
+  }
+
+  private async read<T>(
+    kind: PlanCacheKind,
+    key: PlanCacheKey
+  ): Promise<T | undefined> {
+    let payload: T | undefined;
+    try {
+      const raw = await fs.readFile(this.entryPath(kind, key), 'utf8');
+      const file = JSON.parse(raw) as PlanCacheFile<T>;
+      if (
+        file.format === PLAN_CACHE_FORMAT &&
+        file.engine === ENGINE_VERSION &&
+        JSON.stringify(file.key) === JSON.stringify(key)
+      ) {
+        payload = file.payload;
+      }
+    } catch {
+      // Missing or unreadable entries are plain misses.
+    }
+    this.metrics?.recordPlanCacheLookup(payload !== undefined);
+    return payload;
+  }
+
+  private async write<T>(
+    kind: PlanCacheKind,
+    key: PlanCacheKey,
+    payload: T
+  ): Promise<void> {
+    const file: PlanCacheFile<T> = {
+      format: PLAN_CACHE_FORMAT,
+      kind,
+      engine: ENGINE_VERSION,
+      createdAt: new Date().toISOString(),
+      key,
+      payload,
+    };
+    const target = this.entryPath(kind, key);
+    const temp = `${target}.${process.pid}.tmp`;
+    try {
+      const text = JSON.stringify(file);
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(temp, text, 'utf8');
+      await fs.rename(temp, target);
+    } catch {
+      await fs.rm(temp, { force: true }).catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Open the plan cache for a run, or undefined when
+ * PlanOptions.cache.persistent is off or the schema cannot be hashed.
+ */
+export function openPlanCache(
+  context: PlanCacheContext
+): PlanCache | undefined {
+  const { resolvedPlanOptions } = context;
+  if (!resolvedPlanOptions.cache.persistent) return undefined;
+  try {
+    const schemaHash = stableHash(context.schema)?.digest;
+    const settings = digestPlanSettings(context);
+    if (!schemaHash || !settings) return undefined;
+    const key: PlanCacheKey = {
+      schemaHash,
+      planOptionsSubKey: createPlanOptionsSubKey(resolvedPlanOptions),
+      settings,
+    };
+    const dir = resolvePlanCacheDir(resolvedPlanOptions.resolver.cacheDir);
+    return new PlanCache(dir, key, context.metrics);
+  } catch {
+    return undefined;
+  }
+}
+
+export interface PlanCacheEntryInfo {
+  file: string;
+  kind: PlanCacheKind;
+  engine: string;
+  bytes: number;
+  modifiedAt: Date;
+}
+
+export interface PlanCacheStats {
+  dir: string;
+  entries: number;
+  bytes: number;
+  byKind: Record<string, number>;
+  byEngine: Record<string, number>;
+}
+
+export interface PlanCacheRemoval {
+  removed: number;
+  bytes: number;
+}
+
+export async function listPlanCacheEntries(
+  dir: string
+): Promise<PlanCacheEntryInfo[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+  const entries: PlanCacheEntryInfo[] = [];
+  for (const name of names.sort()) {
+    const match = ENTRY_FILE.exec(name);
+    if (!match) continue;
+    const file = path.join(dir, name);
+    try {
+      const stat = await fs.stat(file);
+      entries.push({
+        file,
+        kind: match[1] as PlanCacheKind,
+        engine: match[2] as string,
+        bytes: stat.size,
+        modifiedAt: stat.mtime,
+      });
+    } catch {
+      // Entry removed concurrently.
+    }
+  }
+  return entries;
+}
+
+export async function getPlanCacheStats(dir: string): Promise<PlanCacheStats> {
+  const entries = await listPlanCacheEntries(dir);
+  const stats: PlanCacheStats = {
+    dir,
+    entries: entries.length,
+    bytes: 0,
+    byKind: {},
+    byEngine: {},
+  };
+  for (const entry of entries) {
+    stats.bytes += entry.bytes;
+    stats.byKind[entry.kind] = (stats.byKind[entry.kind] ?? 0) + 1;
+    stats.byEngine[entry.engine] = (stats.byEngine[entry.engine] ?? 0) + 1;
+  }
+  return stats;
+}
+
+async function removeEntries(
+  entries: PlanCacheEntryInfo[]
+): Promise<PlanCacheRemoval> {
+  const result: PlanCacheRemoval = { removed: 0, bytes: 0 };
+  for (const entry of entries) {
+    try {
+      await fs.rm(entry.file);
+      result.removed += 1;
+      result.bytes += entry.bytes;
+    } catch {
+      // Already gone.
+    }
+  }
+  return result;
+}
+
+export interface PlanCachePruneOptions {
+  /** Also drop entries last written more than this many days ago. */
+  maxAgeDays?: number;
+  now?: Date;
+}
+
+/**
+ * Remove entries written by other engine versions, which can never hit
+ * again, and optionally entries older than `maxAgeDays`.
+ */
+export async function prunePlanCache(
+  dir: string,
+  options: PlanCachePruneOptions = {}
+): Promise<PlanCacheRemoval> {
+  const now = (options.now ?? new Date()).getTime();
+  const maxAgeMs =
+    options.maxAgeDays !== undefined
+      ? options.maxAgeDays * 24 * 60 * 60 * 1000
+      : undefined;
+  const entries = await listPlanCacheEntries(dir);
+  const stale = entries.filter(
+    (entry) =>
+      entry.engine !== ENGINE_VERSION ||
+      (maxAgeMs !== undefined && now - entry.modifiedAt.getTime() > maxAgeMs)
+  );
+  return removeEntries(stale);
+}
+
+export async function clearPlanCache(dir: string): Promise<PlanCacheRemoval> {
+  return removeEntries(await listPlanCacheEntries(dir));
+}
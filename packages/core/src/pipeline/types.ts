@@ -1,3 +1,5 @@
+/* global AbortSignal */
+import type Ajv from 'ajv';
 import type {
   NormalizeOptions,
   NormalizeResult,
@@ -15,10 +17,14 @@ import type {
   MetricsVerbosity,
 } from '../util/metrics.js';
 import type { PlanOptions } from '../types/options.js';
+import type { CustomFormats } from '../types/formats.js';
 import type { DiagnosticEnvelope } from '../diag/validate.js';
+import type { NegativeInstance } from '../negative/negative-instances.js';
+import type { ResolveAllExternalRefsResult } from '../resolver/options.js';
 import type {
   CoverageDimension,
   CoverageMode,
+  CoveragePolarity,
   CoverageTarget,
   CoverageReport,
   CoverageReportMode,
@@ -28,6 +34,7 @@ import type {
   CoverageMetrics,
   CoveragePlannerUserOptions,
   CoverageHint,
+  CoverageWeightConfig,
 } from '../coverage/index.js';
 import type { GValidClassificationIndex } from '../transform/g-valid-classifier.js';
 
@@ -116,6 +123,12 @@ export interface PipelineArtifacts {
    * canonical/Compose view when the G_valid feature flag is enabled.
    */
   gValidIndex?: GValidClassificationIndex;
+  /**
+   * Invalid instances derived from the validated items when
+   * options.polarity is 'negative', each labelled with the AJV error it
+   * must trigger.
+   */
+  negativeInstances?: NegativeInstance[];
 }
 
 export interface PipelineStageOverrides {
@@ -133,6 +146,8 @@ export interface PipelineStageOverrides {
       schema: unknown;
       effective: ComposeResult;
       gValidIndex?: GValidClassificationIndex;
+      /** Pipeline index of items[0] when items are repaired in chunks */
+      startIndex?: number;
     },
     options?: PipelineOptions['repair']
   ) =>
@@ -185,6 +200,11 @@ export interface PipelineOptions {
   collector?: MetricsCollector;
   snapshotVerbosity?: MetricsVerbosity;
   mode?: 'strict' | 'lax';
+  /**
+   * Caller-registered formats. The same definitions drive generation and
+   * are added to the Source and planning AJV instances via addFormat.
+   */
+  formats?: CustomFormats;
   coverage?: {
     mode?: CoverageMode;
     dimensionsEnabled?: CoverageDimension[];
@@ -196,6 +216,13 @@ export interface PipelineOptions {
      * 'minCoverageNotMet' when metrics.overall < minCoverage.
      */
     minCoverage?: number;
+    /**
+     * Per-dimension thresholds (e.g. { branches: 1 }). A miss sets
+     * coverageStatus to 'thresholdsNotMet' unless minCoverage also fails.
+     */
+    minCoverageByDimension?: Partial<Record<CoverageDimension, number>>;
+    /** Per-operation thresholds keyed by operationKey (OpenAPI runs). */
+    minCoverageByOperation?: Record<string, number>;
     /**
      * Optional planner configuration for coverage=guided.
      * When present, it refines how the planner uses the
@@ -206,6 +233,27 @@ export interface PipelineOptions {
      * Report mode for the coverage-report/v1 output.
      */
     reportMode?: CoverageReportMode;
+    /**
+     * Operation whose request fixtures the run generates (OpenAPI request
+     * selection). Adds its OP_REQUEST_COVERED target when the 'operations'
+     * dimension is enabled.
+     */
+    requestOperation?: {
+      operationKey: string;
+      /** Canonical operation pointer, e.g. '#/paths/~1users/post'. */
+      canonPath: string;
+    };
+    /**
+     * Target IDs already hit elsewhere (e.g. by a baseline report). Guided
+     * planning builds test units for the remaining targets only; the
+     * report still lists every target.
+     */
+    coveredTargetIds?: readonly string[];
+    /**
+     * Risk-based target weights (canonPath globs, kind factors). Schema
+     * `x-foundry-weight` annotations apply even without this option.
+     */
+    weights?: CoverageWeightConfig;
   };
   generate?: {
     count?: number;
@@ -215,18 +263,77 @@ export interface PipelineOptions {
      * Prefer schema-level examples when present for the root instance.
      */
     preferExamples?: boolean;
+    /**
+     * Locale pack for unconstrained strings ('en', 'fr', 'de', 'es', 'ja').
+     * Unset by default.
+     */
+    locale?: string;
   };
   repair?: {
     attempts?: number;
   };
+  /**
+   * Streaming mode. When set, Generate → Repair → Validate run per chunk
+   * of `chunkSize` items and each validated chunk is handed to `onItems`
+   * (awaited, so a slow consumer applies backpressure). Streamed items are
+   * not retained: `artifacts.repaired` stays empty and the generate stage
+   * output carries diagnostics/metrics only. Coverage and metrics are
+   * still finalized on the returned PipelineResult.
+   */
+  stream?: PipelineStreamOptions;
+  /**
+   * 'negative' mutates each validated item so it violates exactly one
+   * keyword (artifacts.negativeInstances) and adds KEYWORD_VIOLATION
+   * targets to the coverage report. Streaming is not applied in this mode.
+   * Defaults to 'positive'.
+   */
+  polarity?: CoveragePolarity;
+  /**
+   * Resources shared by several runs over one document (e.g. every
+   * response of an OpenAPI spec). Pass the same object to each run.
+   */
+  shared?: PipelineSharedResources;
   validate?: {
     /** When true, apply ajv-formats to both instances */
     validateFormats?: boolean;
     /** Enable discriminator support on both instances */
     discriminator?: boolean;
+    /**
+     * When true, the Source AJV decodes string content and validates it
+     * against contentSchema (planning AJV keeps it as an annotation)
+     */
+    validateContent?: boolean;
   };
 }
 
+/**
+ * Cache filled by the first run that receives it and reused by later runs.
+ * Runs sharing it must use the same mode, formats and validate options so
+ * the Source AJV flags stay identical.
+ */
+export interface PipelineSharedResources {
+  /**
+   * Document scanned by the resolver pre-phase instead of the run's schema,
+   * so one registry covers every run.
+   */
+  resolverRoot?: object;
+  resolver?: Promise<ResolveAllExternalRefsResult>;
+  /**
+   * Source AJV used by the startup parity gate and the validate stage. Runs
+   * whose schema declares `$id` keep a private instance, since compiling
+   * the same `$id` twice into one AJV fails.
+   */
+  sourceAjv?: Ajv;
+}
+
+export interface PipelineStreamOptions {
+  /** Items per generate/repair/validate pass. Defaults to 64. */
+  chunkSize?: number;
+  onItems: (items: unknown[], startIndex: number) => void | Promise<void>;
+  /** Stops generating further chunks once aborted. */
+  signal?: AbortSignal;
+}
+
 export interface PipelineResult {
   status: PipelineStatus;
   schema: unknown;
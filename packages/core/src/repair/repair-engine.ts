@@ -716,6 +716,8 @@ export function repairItemsAjvDriven(
     attempts?: number;
     metrics?: MetricsCollector;
     coverage?: RepairCoverageOptions;
+    /** Pipeline index of items[0]; chunked runs keep coverage indices global */
+    startIndex?: number;
   }
 ): RepairItemsResult {
   const { schema, effective } = args;
@@ -793,7 +795,7 @@ export function repairItemsAjvDriven(
     effective.canonical
   );
   let actionsCursor = 0;
-  let itemIndex = 0;
+  let itemIndex = options?.startIndex ?? 0;
 
   const maxTierAllowed = REPAIR_TIER.Tier2;
 
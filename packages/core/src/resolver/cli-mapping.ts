@@ -7,6 +7,14 @@ export interface ResolverCliOptions {
    * Comma-separated resolver strategies, e.g. "local,remote,schemastore".
    */
   resolve?: string;
+  /**
+   * URI prefix -> local directory rewrites; implies the 'mapping' strategy.
+   */
+  uriMappings?: Record<string, string>;
+  /**
+   * Glob patterns of schema files indexed by `$id`; implies 'mapping'.
+   */
+  preload?: string[];
   /**
    * Resolver cache directory; supports POSIX ~ expansion.
    */
@@ -53,13 +61,26 @@ export function mapResolverCliOptionsToPlanOptions(
       .split(',')
       .map((token) => token.trim())
       .filter((token) => token.length > 0) as Array<
-      'local' | 'remote' | 'schemastore'
+      'local' | 'remote' | 'schemastore' | 'mapping'
     >;
     if (parts.length > 0) {
       resolver.strategies = parts;
     }
   }
 
+  if (cli.uriMappings && Object.keys(cli.uriMappings).length > 0) {
+    resolver.uriMappings = { ...cli.uriMappings };
+  }
+  if (Array.isArray(cli.preload) && cli.preload.length > 0) {
+    resolver.preload = cli.preload.slice();
+  }
+  if (resolver.uriMappings || resolver.preload) {
+    const strategies = resolver.strategies ?? ['local'];
+    if (!strategies.includes('mapping')) {
+      resolver.strategies = [...strategies, 'mapping'];
+    }
+  }
+
   if (typeof cli.cacheDir === 'string' && cli.cacheDir.trim().length > 0) {
     resolver.cacheDir = cli.cacheDir;
   }
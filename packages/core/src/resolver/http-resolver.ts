@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 /* eslint-disable max-depth */
 /* eslint-disable complexity */
 /* eslint-disable max-lines-per-function */
@@ -15,20 +16,31 @@ import {
   readFromCache,
   writeToCache,
 } from './cache-store.js';
+import { createMappedFileLoader } from './local-files.js';
 import { summarizeExternalRefs } from '../util/modes.js';
 import { detectDialect } from '../dialect/detectDialect.js';
 import { stableHash } from '../util/stable-hash.js';
 
 export interface ResolverOptions {
-  strategies?: Array<'local' | 'remote' | 'schemastore'>;
+  strategies?: Array<'local' | 'remote' | 'schemastore' | 'mapping'>;
   cacheDir?: string;
+  /**
+   * URI prefix -> local directory rewrites used by the 'mapping' strategy,
+   * e.g. { "https://schemas.acme.io/": "./shared-schemas/" }.
+   */
+  uriMappings?: Record<string, string>;
+  /**
+   * Glob patterns of schema files indexed by `$id` for the 'mapping'
+   * strategy, e.g. ["./shared-schemas/**\/*.json"].
+   */
+  preload?: string[];
   stubUnresolved?: 'none' | 'emptySchema';
   maxDocs?: number;
   maxRefDepth?: number;
   maxBytesPerDoc?: number; // bytes
   timeoutMs?: number;
   followRedirects?: number;
-  acceptYaml?: boolean; // reserved; JSON only here
+  acceptYaml?: boolean; // local .yaml/.yml files; remote documents are JSON only
   /**
    * Legacy allow-list of additional hosts (by hostname).
    */
@@ -121,6 +133,23 @@ function safeStableHash(value: unknown): { digest: string; bytes: number } {
   };
 }
 
+function registryEntryFor(
+  uri: string,
+  schema: unknown,
+  contentHash: string
+): RegistryEntry {
+  const dialect = detectDialect(schema);
+  return {
+    uri,
+    schema,
+    contentHash,
+    meta: {
+      contentHash,
+      dialect: dialect === 'unknown' ? undefined : dialect,
+    },
+  };
+}
+
 const ASYNCAPI_ALIAS_PATH = new URL(
   '../../../../profiles/real-world/asyncapi-3.0.schema.json',
   import.meta.url
@@ -152,16 +181,7 @@ function loadAsyncapiAliases(): Map<string, RegistryEntry> {
       if (!value || typeof value !== 'object') continue;
       const uri = stripFragment(key);
       const { digest } = safeStableHash(value);
-      const dialect = detectDialect(value);
-      map.set(uri, {
-        uri,
-        schema: value,
-        contentHash: digest,
-        meta: {
-          contentHash: digest,
-          dialect: dialect === 'unknown' ? undefined : dialect,
-        },
-      });
+      map.set(uri, registryEntryFor(uri, value, digest));
     }
   } catch {
     // Best-effort aliasing only when the bundled AsyncAPI schema is available.
@@ -237,10 +257,24 @@ export async function prefetchAndBuildRegistry(
     const doc = stripFragment(ref);
     if (doc) queue.push({ doc, depth: 0 });
   }
-  const enqueueNested = (schema: unknown, depth: number): void => {
+  const mappedFiles = strategies.includes('mapping')
+    ? await createMappedFileLoader(options)
+    : undefined;
+  diags.push(...(mappedFiles?.diagnostics ?? []));
+
+  // Relative refs inside a document without its own $id resolve against the
+  // document URI (same base AJV uses when the registry entry is added).
+  const enqueueNested = (schema: unknown, depth: number, doc: string): void => {
     if (depth >= maxDepth) return;
     try {
-      const nested = summarizeExternalRefs(schema).extRefs;
+      const scoped =
+        schema &&
+        typeof schema === 'object' &&
+        !Array.isArray(schema) &&
+        typeof (schema as Record<string, unknown>).$id !== 'string'
+          ? { ...(schema as Record<string, unknown>), $id: doc }
+          : schema;
+      const nested = summarizeExternalRefs(scoped).extRefs;
       for (const r of nested) {
         const child = stripFragment(r);
         if (child && !seenDocs.has(child)) {
@@ -272,7 +306,7 @@ export async function prefetchAndBuildRegistry(
           });
         }
         // Alias entries are not bounded by maxDocs (network budget).
-        enqueueNested(aliasEntry.schema, depth);
+        enqueueNested(aliasEntry.schema, depth, doc);
         continue;
       }
 
@@ -285,22 +319,40 @@ export async function prefetchAndBuildRegistry(
         continue;
       }
 
+      if (mappedFiles) {
+        const local = await mappedFiles.load(doc);
+        if (local) {
+          const { schema } = local.file;
+          const { digest } = safeStableHash(schema);
+          if (registry.add(registryEntryFor(doc, schema, digest))) {
+            fetchedCount += 1;
+          }
+          diags.push({
+            code: 'RESOLVER_LOCAL_FILE_LOADED',
+            canonPath: '#',
+            details: {
+              ref: doc,
+              path: local.file.path,
+              via: local.via,
+              contentHash: digest,
+            },
+          });
+          enqueueNested(schema, depth, doc);
+          continue;
+        }
+      }
+
       const url = new URL(doc);
       // Try cache first
       if (cacheDir) {
         const cached = await readFromCache(doc, { cacheDir });
         if (cached) {
-          const dialect = detectDialect(cached.schema);
-          const added = registry.add({
-            uri: doc,
-            schema: cached.schema,
-            contentHash: cached.contentHash,
-            meta: {
-              contentHash: cached.contentHash,
-              dialect: dialect === 'unknown' ? undefined : dialect,
-            },
-          });
-          if (added) {
+          const entry = registryEntryFor(
+            doc,
+            cached.schema,
+            cached.contentHash
+          );
+          if (registry.add(entry)) {
             fetchedCount += 1;
           }
           diags.push({
@@ -308,7 +360,7 @@ export async function prefetchAndBuildRegistry(
             canonPath: '#',
             details: { ref: doc, contentHash: cached.contentHash },
           });
-          enqueueNested(cached.schema, depth);
+          enqueueNested(cached.schema, depth, doc);
           continue;
         }
       }
@@ -333,17 +385,9 @@ export async function prefetchAndBuildRegistry(
       const cached = cacheDir
         ? await writeToCache(doc, schema, { cacheDir })
         : { schema, contentHash: '' };
-      const dialect = detectDialect(cached.schema);
-      const added = registry.add({
-        uri: doc,
-        schema: cached.schema,
-        contentHash: cached.contentHash,
-        meta: {
-          contentHash: cached.contentHash,
-          dialect: dialect === 'unknown' ? undefined : dialect,
-        },
-      });
-      if (added) {
+      if (
+        registry.add(registryEntryFor(doc, cached.schema, cached.contentHash))
+      ) {
         fetchedCount += 1;
       }
       diags.push({
@@ -355,7 +399,7 @@ export async function prefetchAndBuildRegistry(
           contentHash: cached.contentHash,
         },
       });
-      enqueueNested(schema, depth);
+      enqueueNested(schema, depth, doc);
     } catch (error) {
       diags.push({
         code: 'RESOLVER_OFFLINE_UNAVAILABLE',
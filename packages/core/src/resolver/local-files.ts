@@ -0,0 +1,246 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+
+import { stripFragment } from './registry.js';
+import { globToRegExp } from '../util/glob.js';
+
+export interface LocalFileOptions {
+  /** Parse `.yaml` / `.yml` files (JSON otherwise). Default: true. */
+  acceptYaml?: boolean;
+  maxBytesPerDoc?: number;
+}
+
+export interface LocalSchemaFile {
+  path: string;
+  schema: unknown;
+  bytes: number;
+}
+
+export interface PreloadedSchemas {
+  /** Absolute `$id` (fragment stripped) -> file. */
+  byId: Map<string, LocalSchemaFile>;
+  diagnostics: Array<{ code: string; canonPath: string; details?: unknown }>;
+}
+
+const YAML_EXTENSIONS = new Set(['.yaml', '.yml']);
+
+function expandHome(p: string): string {
+  return /^~(?=\/|$)/.test(p) ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+/**
+ * Local file for `uri` under the longest matching prefix of `mappings`
+ * (`{ "https://schemas.acme.io/": "./shared-schemas/" }`). Relative targets
+ * resolve against `cwd`. Throws when the decoded remainder (e.g. `%2e%2e%2f`)
+ * would leave the mapped directory.
+ */
+export function mapUriToLocalPath(
+  uri: string,
+  mappings: Record<string, string>,
+  cwd: string = process.cwd()
+): string | undefined {
+  const doc = stripFragment(uri);
+  let best: string | undefined;
+  for (const prefix of Object.keys(mappings)) {
+    if (doc.startsWith(prefix) && (!best || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+  if (best === undefined) return undefined;
+  const root = path.resolve(cwd, expandHome(mappings[best]!));
+  const filePath = path.resolve(
+    root,
+    decodeURIComponent(doc.slice(best.length))
+  );
+  const relative = path.relative(root, filePath);
+  if (
+    relative === '..' ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new Error(`Mapped $ref escapes ${root}: ${doc}`);
+  }
+  return filePath;
+}
+
+/** Read a JSON (or, with acceptYaml, YAML) schema document from disk. */
+export async function readLocalSchemaFile(
+  filePath: string,
+  options: LocalFileOptions = {}
+): Promise<LocalSchemaFile> {
+  const text = await fs.readFile(filePath, 'utf8');
+  const bytes = Buffer.byteLength(text, 'utf8');
+  const maxBytes = options.maxBytesPerDoc ?? 5 * 1024 * 1024;
+  if (bytes > maxBytes) {
+    const error = new Error('MAX_BYTES_EXCEEDED');
+    error.name = 'MAX_BYTES_EXCEEDED';
+    throw error;
+  }
+  const isYaml = YAML_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+  if (isYaml && options.acceptYaml === false) {
+    throw new Error(`YAML document rejected (acceptYaml=false): ${filePath}`);
+  }
+  const schema: unknown = isYaml ? parseYaml(text) : JSON.parse(text);
+  return { path: filePath, schema, bytes };
+}
+
+/** Leading path segments without glob syntax, and the remaining pattern. */
+function splitGlob(pattern: string): { base: string; rest: string } {
+  const segments = pattern.split('/');
+  const index = segments.findIndex((segment) => /[*?{]/.test(segment));
+  if (index < 0) {
+    return {
+      base: segments.slice(0, -1).join('/') || '.',
+      rest: segments.at(-1)!,
+    };
+  }
+  return {
+    base: segments.slice(0, index).join('/') || '.',
+    rest: segments.slice(index).join('/'),
+  };
+}
+
+async function walkFiles(dir: string, prefix = ''): Promise<string[]> {
+  let dirents: Array<{ name: string; isDirectory(): boolean }>;
+  try {
+    dirents = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const out: string[] = [];
+  for (const dirent of dirents) {
+    const rel = prefix ? `${prefix}/${dirent.name}` : dirent.name;
+    if (dirent.isDirectory()) {
+      out.push(...(await walkFiles(path.join(dir, dirent.name), rel)));
+    } else {
+      out.push(rel);
+    }
+  }
+  return out;
+}
+
+/** Files matching `patterns` (relative to `cwd`), sorted and de-duplicated. */
+export async function expandGlobs(
+  patterns: string[],
+  cwd: string = process.cwd()
+): Promise<string[]> {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    const { base, rest } = splitGlob(
+      expandHome(pattern).split(path.sep).join('/')
+    );
+    const root = path.resolve(cwd, base);
+    const matcher = globToRegExp(rest);
+    for (const rel of await walkFiles(root)) {
+      if (matcher.test(rel)) files.add(path.join(root, rel));
+    }
+  }
+  return Array.from(files).sort();
+}
+
+/**
+ * Index every schema file matched by `patterns` by its absolute `$id`.
+ * Files without an absolute `$id` are ignored; a second file declaring an
+ * `$id` already seen is skipped with RESOLVER_ADD_SCHEMA_SKIPPED_DUPLICATE_ID.
+ */
+export async function preloadSchemaFiles(
+  patterns: string[],
+  options: LocalFileOptions & { cwd?: string } = {}
+): Promise<PreloadedSchemas> {
+  const byId = new Map<string, LocalSchemaFile>();
+  const diagnostics: PreloadedSchemas['diagnostics'] = [];
+  for (const filePath of await expandGlobs(patterns, options.cwd)) {
+    const ext = path.extname(filePath).toLowerCase();
+    if (ext !== '.json' && !YAML_EXTENSIONS.has(ext)) continue;
+    if (YAML_EXTENSIONS.has(ext) && options.acceptYaml === false) continue;
+    let file: LocalSchemaFile;
+    try {
+      file = await readLocalSchemaFile(filePath, options);
+    } catch (error) {
+      diagnostics.push({
+        code: 'RESOLVER_OFFLINE_UNAVAILABLE',
+        canonPath: '#',
+        details: {
+          ref: filePath,
+          reason: 'preload-error',
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      continue;
+    }
+    const id = absoluteId(file.schema);
+    if (!id) continue;
+    const existing = byId.get(id);
+    if (existing) {
+      diagnostics.push({
+        code: 'RESOLVER_ADD_SCHEMA_SKIPPED_DUPLICATE_ID',
+        canonPath: '#',
+        details: {
+          ref: filePath,
+          id,
+          existingRef: existing.path,
+          reason: 'preload-duplicate-id',
+        },
+      });
+      continue;
+    }
+    byId.set(id, file);
+  }
+  return { byId, diagnostics };
+}
+
+function absoluteId(schema: unknown): string | undefined {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return undefined;
+  }
+  const id = (schema as Record<string, unknown>).$id;
+  if (typeof id !== 'string') return undefined;
+  try {
+    return stripFragment(new URL(id).href);
+  } catch {
+    return undefined;
+  }
+}
+
+export interface MappedFileLoader {
+  /** File for `doc` from the `$id` index, else from the URI mappings. */
+  load(
+    doc: string
+  ): Promise<{ file: LocalSchemaFile; via: 'preload' | 'mapping' } | undefined>;
+  /** Diagnostics collected while preloading. */
+  diagnostics: PreloadedSchemas['diagnostics'];
+}
+
+/** Document loader backing the resolver 'mapping' strategy. */
+export async function createMappedFileLoader(
+  options: LocalFileOptions & {
+    uriMappings?: Record<string, string>;
+    preload?: string[];
+  }
+): Promise<MappedFileLoader> {
+  const { byId, diagnostics } =
+    options.preload && options.preload.length > 0
+      ? await preloadSchemaFiles(options.preload, options)
+      : { byId: new Map<string, LocalSchemaFile>(), diagnostics: [] };
+  return {
+    diagnostics,
+    async load(doc) {
+      const hit = byId.get(doc);
+      if (hit) return { file: hit, via: 'preload' };
+      const filePath = mapUriToLocalPath(doc, options.uriMappings ?? {});
+      if (filePath === undefined) return undefined;
+      try {
+        return {
+          file: await readLocalSchemaFile(filePath, options),
+          via: 'mapping',
+        };
+      } catch (error) {
+        // A missing mapped file falls through to the cache/remote strategies.
+        if ((error as { code?: string }).code === 'ENOENT') return undefined;
+        throw error;
+      }
+    },
+  };
+}
@@ -25,8 +25,10 @@ export interface ResolverDiagnosticNote {
  * These options are a normalized view derived from PlanOptions.resolver.
  */
 export interface ResolverOptions {
-  strategies: Array<'local' | 'remote' | 'schemastore'>;
+  strategies: Array<'local' | 'remote' | 'schemastore' | 'mapping'>;
   cacheDir: string;
+  uriMappings?: Record<string, string>;
+  preload?: string[];
   hydrateFinalAjv: boolean;
   stubUnresolved?: 'emptySchema';
   snapshotPath?: string;
@@ -80,7 +82,8 @@ function anonymizeCacheDirForDiagnostics(
  *
  * - Computes external $ref targets from the original schema.
  * - Optionally fetches remote documents with HTTP(S) under the configured
- *   strategies and host allow-list.
+ *   strategies and host allow-list, or reads them from disk through URI
+ *   mappings and preloaded schema directories ('mapping' strategy).
  * - Populates an in-memory ResolutionRegistry and on-disk cache.
  * - Emits run-level resolver notes for observability.
  *
@@ -106,9 +109,10 @@ export async function resolveAllExternalRefs(
     options.strategies && options.strategies.length > 0
       ? options.strategies.slice()
       : (['local'] as Array<'local'>);
-  const strategiesForPrefetch =
+  // A snapshot disables network strategies; disk-only mapping stays active.
+  const strategiesForPrefetch: ResolverOptions['strategies'] =
     snapshotPathResolved !== undefined
-      ? (['local'] as Array<'local'>)
+      ? ['local', ...strategies.filter((s) => s === 'mapping')]
       : strategies;
 
   const hasExternal = schemaHasExternalRefs(original);
@@ -186,6 +190,8 @@ export async function resolveAllExternalRefs(
         followRedirects: options.followRedirects,
         acceptYaml: options.acceptYaml,
         allowHosts: options.allowHosts,
+        uriMappings: options.uriMappings,
+        preload: options.preload,
       };
       const pre = await prefetchAndBuildRegistry(extRefs, httpOptions);
       // Use the registry from the HTTP resolver; its fingerprint is based on
@@ -0,0 +1,372 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { canonicalizeCacheDir, readFromCache } from './cache-store.js';
+import {
+  ResolutionRegistry,
+  stripFragment,
+  type RegistryEntry,
+} from './registry.js';
+import { loadSnapshotFromFile } from './snapshot-loader.js';
+import { detectDialect } from '../dialect/detectDialect.js';
+import { stableHash } from '../util/stable-hash.js';
+import { SYNTHETIC_ROOT_BASE, summarizeExternalRefs } from '../util/modes.js';
+
+export interface ResolverSnapshotBuildOptions {
+  /**
+   * Directory of the root schema file. Refs on the same host as the
+   * referencing document's base URI (relative refs included) are read from
+   * disk, relative to the directory of the file that references them.
+   */
+  baseDir: string;
+  /** Resolver cache directory consulted for every other URI (supports ~). */
+  cacheDir?: string;
+  /** Defaults to 64. */
+  maxDocs?: number;
+  /** Defaults to 16. */
+  maxRefDepth?: number;
+}
+
+export type ResolverSnapshotSource =
+  | { kind: 'file'; path: string }
+  | { kind: 'cache' };
+
+export interface ResolverSnapshotUnresolved {
+  uri: string;
+  reason: 'not-found' | 'read-error' | 'max-docs';
+  message?: string;
+}
+
+export interface ResolverSnapshotBuildResult {
+  /** Sorted by uri. */
+  entries: RegistryEntry[];
+  /** Where each entry was read from, keyed by uri. */
+  sources: Map<string, ResolverSnapshotSource>;
+  /** Same value as ResolutionRegistry.fingerprint() over the entries. */
+  fingerprint: string;
+  unresolved: ResolverSnapshotUnresolved[];
+}
+
+/** Base URI of a document read from disk, and the directory it lives in. */
+interface DocumentLocation {
+  base: string;
+  dir: string;
+}
+
+interface PendingDocument {
+  uri: string;
+  referrer: DocumentLocation;
+}
+
+interface WalkState {
+  options: ResolverSnapshotBuildOptions;
+  root: DocumentLocation;
+  cacheDir?: string;
+  registry: ResolutionRegistry;
+  sources: Map<string, ResolverSnapshotSource>;
+  unresolved: ResolverSnapshotUnresolved[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Base URI the resolver uses for refs of `schema`, given its own URI. */
+function documentBase(schema: unknown, fallback: string): string {
+  if (isRecord(schema) && typeof schema.$id === 'string') {
+    try {
+      return new URL(schema.$id, fallback).href;
+    } catch {
+      return fallback;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * External documents referenced by `schema`, as the canonical URIs used by
+ * the resolver pre-phase (relative refs resolved against `base`).
+ */
+function referencedDocuments(schema: unknown, base: string): string[] {
+  const scoped = isRecord(schema) ? { ...schema, $id: base } : schema;
+  const docs = new Set<string>();
+  for (const ref of summarizeExternalRefs(scoped).extRefs) {
+    const doc = stripFragment(ref);
+    if (doc && doc !== base) docs.add(doc);
+  }
+  return Array.from(docs).sort();
+}
+
+function localPathFor(
+  uri: string,
+  referrer: DocumentLocation
+): string | undefined {
+  if (uri.startsWith('file:')) return fileURLToPath(uri);
+  const target = new URL(uri);
+  const base = new URL(referrer.base);
+  if (target.protocol !== base.protocol || target.host !== base.host) {
+    return undefined;
+  }
+  const relative = path.posix.relative(
+    path.posix.dirname(base.pathname),
+    target.pathname
+  );
+  return path.resolve(referrer.dir, decodeURIComponent(relative));
+}
+
+async function readLocalDocument(filePath: string): Promise<unknown> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') return undefined;
+    throw error;
+  }
+  return JSON.parse(raw) as unknown;
+}
+
+async function loadDocument(
+  { uri, referrer }: PendingDocument,
+  state: WalkState
+): Promise<{ schema: unknown; source: ResolverSnapshotSource } | undefined> {
+  const filePath = localPathFor(uri, referrer);
+  if (filePath !== undefined) {
+    const schema = await readLocalDocument(filePath);
+    if (schema !== undefined) {
+      return { schema, source: { kind: 'file', path: filePath } };
+    }
+  }
+  if (state.cacheDir) {
+    const cached = await readFromCache(uri, { cacheDir: state.cacheDir });
+    if (cached) return { schema: cached.schema, source: { kind: 'cache' } };
+  }
+  return undefined;
+}
+
+function toRegistryEntry(uri: string, schema: unknown): RegistryEntry {
+  const contentHash = stableHash(schema)?.digest ?? '';
+  const dialect = detectDialect(schema);
+  return {
+    uri,
+    schema,
+    contentHash,
+    meta: {
+      contentHash,
+      dialect: dialect === 'unknown' ? undefined : dialect,
+    },
+  };
+}
+
+/**
+ * Record one document and return the documents it references, located
+ * relative to it when it was read from disk (else relative to the root).
+ */
+async function visitDocument(
+  pending: PendingDocument,
+  state: WalkState
+): Promise<PendingDocument[]> {
+  const { uri } = pending;
+  if (state.registry.size() >= (state.options.maxDocs ?? 64)) {
+    state.unresolved.push({ uri, reason: 'max-docs' });
+    return [];
+  }
+  try {
+    const loaded = await loadDocument(pending, state);
+    if (!loaded) {
+      state.unresolved.push({ uri, reason: 'not-found' });
+      return [];
+    }
+    state.registry.add(toRegistryEntry(uri, loaded.schema));
+    state.sources.set(uri, loaded.source);
+    const base = documentBase(loaded.schema, uri);
+    const referrer =
+      loaded.source.kind === 'file'
+        ? { base, dir: path.dirname(loaded.source.path) }
+        : state.root;
+    return referencedDocuments(loaded.schema, base).map((next) => ({
+      uri: next,
+      referrer,
+    }));
+  } catch (error) {
+    state.unresolved.push({
+      uri,
+      reason: 'read-error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Relative refs in a root without an absolute `$id` resolve against the
+ * synthetic base, which a snapshot cannot key in a way Source AJV finds.
+ */
+function assertAddressableRefs(rootBase: string, uris: string[]): void {
+  if (rootBase !== SYNTHETIC_ROOT_BASE) return;
+  const syntheticDir = new URL('.', SYNTHETIC_ROOT_BASE).href;
+  if (!uris.some((uri) => uri.startsWith(syntheticDir))) return;
+  throw new Error(
+    'Cannot snapshot relative $ref without an absolute root $id; declare $id on the root schema'
+  );
+}
+
+/**
+ * Walk every external `$ref` reachable from `root` without touching the
+ * network: documents on the referencing document's host are read from disk
+ * next to it, everything else from the resolver cache. Throws when the root
+ * has relative refs but no absolute `$id`. Entries are keyed by the canonical URIs the
+ * resolver pre-phase computes, so a snapshot written from the result
+ * reproduces its registry (and fingerprint) offline.
+ */
+export async function collectResolverSnapshot(
+  root: unknown,
+  options: ResolverSnapshotBuildOptions
+): Promise<ResolverSnapshotBuildResult> {
+  const rootBase = documentBase(root, SYNTHETIC_ROOT_BASE);
+  const rootDocuments = referencedDocuments(root, rootBase);
+  assertAddressableRefs(rootBase, rootDocuments);
+  const state: WalkState = {
+    options,
+    root: { base: rootBase, dir: options.baseDir },
+    cacheDir: options.cacheDir
+      ? canonicalizeCacheDir(options.cacheDir)
+      : undefined,
+    registry: new ResolutionRegistry(),
+    sources: new Map(),
+    unresolved: [],
+  };
+  const maxDepth = options.maxRefDepth ?? 16;
+  const seen = new Set<string>([rootBase]);
+  let frontier: PendingDocument[] = rootDocuments.map((uri) => ({
+    uri,
+    referrer: state.root,
+  }));
+
+  for (let depth = 0; frontier.length > 0 && depth <= maxDepth; depth += 1) {
+    const next: PendingDocument[] = [];
+    for (const pending of frontier) {
+      if (seen.has(pending.uri)) continue;
+      seen.add(pending.uri);
+      next.push(...(await visitDocument(pending, state)));
+    }
+    frontier = next;
+  }
+
+  const entries = Array.from(state.registry.entries()).sort((a, b) =>
+    a.uri < b.uri ? -1 : a.uri > b.uri ? 1 : 0
+  );
+  return {
+    entries,
+    sources: state.sources,
+    fingerprint: state.registry.fingerprint(),
+    unresolved: state.unresolved,
+  };
+}
+
+/**
+ * NDJSON snapshot accepted by loadSnapshotFromFile: one `{uri, contentHash,
+ * dialect, body}` line per document, then a `{fingerprint, count}` line.
+ */
+export function serializeResolverSnapshot(
+  result: Pick<ResolverSnapshotBuildResult, 'entries' | 'fingerprint'>
+): string {
+  const lines = result.entries.map((entry) =>
+    JSON.stringify({
+      uri: entry.uri,
+      contentHash: entry.contentHash,
+      dialect: entry.meta?.dialect,
+      body: entry.schema,
+    })
+  );
+  lines.push(
+    JSON.stringify({
+      fingerprint: result.fingerprint,
+      count: result.entries.length,
+    })
+  );
+  return `${lines.join('\n')}\n`;
+}
+
+export interface ResolverSnapshotDrift {
+  /** Fingerprint line of the snapshot file. */
+  declaredFingerprint?: string;
+  /** Fingerprint of the entries stored in the snapshot file. */
+  snapshotFingerprint: string;
+  /** Fingerprint of the documents reachable from the current sources. */
+  currentFingerprint: string;
+  /** Reachable now but missing from the snapshot. */
+  added: string[];
+  /** In the snapshot but no longer reachable. */
+  removed: string[];
+  changed: Array<{ uri: string; snapshotHash: string; currentHash: string }>;
+  unresolved: ResolverSnapshotUnresolved[];
+  /** Snapshot lines that could not be read. */
+  loadDiagnostics: Array<{ code: string; details?: unknown }>;
+  inSync: boolean;
+}
+
+function changedEntries(
+  stored: Map<string, RegistryEntry>,
+  current: RegistryEntry[]
+): ResolverSnapshotDrift['changed'] {
+  const changed: ResolverSnapshotDrift['changed'] = [];
+  for (const entry of current) {
+    const before = stored.get(entry.uri);
+    if (before && before.contentHash !== entry.contentHash) {
+      changed.push({
+        uri: entry.uri,
+        snapshotHash: before.contentHash,
+        currentHash: entry.contentHash,
+      });
+    }
+  }
+  return changed;
+}
+
+/**
+ * Compare a snapshot file with the documents currently reachable from
+ * `root` (same walk as collectResolverSnapshot).
+ */
+export async function verifyResolverSnapshot(
+  snapshotPath: string,
+  root: unknown,
+  options: ResolverSnapshotBuildOptions
+): Promise<ResolverSnapshotDrift> {
+  const snapshot = await loadSnapshotFromFile(snapshotPath);
+  const current = await collectResolverSnapshot(root, options);
+  const stored = new Map(snapshot.entries.map((e) => [e.uri, e]));
+  const now = new Map(current.entries.map((e) => [e.uri, e]));
+
+  const added = current.entries
+    .filter((e) => !stored.has(e.uri))
+    .map((e) => e.uri);
+  const removed = Array.from(stored.keys())
+    .filter((uri) => !now.has(uri))
+    .sort();
+  const changed = changedEntries(stored, current.entries);
+
+  const registry = new ResolutionRegistry();
+  snapshot.entries.forEach((entry) => registry.add(entry));
+  const snapshotFingerprint = registry.fingerprint();
+  const loadDiagnostics = snapshot.diagnostics.map(({ code, details }) => ({
+    code,
+    details,
+  }));
+  return {
+    declaredFingerprint: snapshot.declaredFingerprint,
+    snapshotFingerprint,
+    currentFingerprint: current.fingerprint,
+    added,
+    removed,
+    changed,
+    unresolved: current.unresolved,
+    loadDiagnostics,
+    inSync:
+      snapshotFingerprint === current.fingerprint &&
+      (snapshot.declaredFingerprint ?? snapshotFingerprint) ===
+        snapshotFingerprint &&
+      loadDiagnostics.length === 0 &&
+      current.unresolved.length === 0,
+  };
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { projectSchemaForContext } from '../access-context';
+import { Generate } from '../../api';
+
+const user = {
+  type: 'object',
+  required: ['id', 'name', 'password'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'integer', readOnly: true },
+    name: { type: 'string' },
+    password: { type: 'string', writeOnly: true },
+    createdAt: { $ref: '#/$defs/Timestamp' },
+    tags: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          etag: { allOf: [{ type: 'string' }, { readOnly: true }] },
+        },
+      },
+    },
+  },
+  $defs: {
+    Timestamp: { type: 'string', readOnly: true },
+  },
+};
+
+describe('projectSchemaForContext', () => {
+  it('drops readOnly properties from requests, following $ref and allOf', () => {
+    const projected = projectSchemaForContext(user, 'request') as any;
+
+    expect(Object.keys(projected.properties)).toEqual([
+      'name',
+      'password',
+      'tags',
+    ]);
+    expect(projected.required).toEqual(['name', 'password']);
+    expect(projected.properties.tags.items.properties).toEqual({});
+    expect(projected.$defs.Timestamp).toEqual(user.$defs.Timestamp);
+  });
+
+  it('drops writeOnly properties from responses', () => {
+    const projected = projectSchemaForContext(user, 'response') as any;
+
+    expect(Object.keys(projected.properties)).toEqual([
+      'id',
+      'name',
+      'createdAt',
+      'tags',
+    ]);
+    expect(projected.required).toEqual(['id', 'name']);
+  });
+
+  it('strips names omitted by allOf members and $ref targets from required', () => {
+    const schema = {
+      type: 'object',
+      required: ['id', 'name'],
+      allOf: [
+        { $ref: '#/$defs/Entity' },
+        { required: ['id'], properties: { name: { type: 'string' } } },
+      ],
+      $defs: {
+        Entity: { properties: { id: { type: 'integer', readOnly: true } } },
+      },
+    };
+
+    const projected = projectSchemaForContext(schema, 'request') as any;
+
+    expect(projected.required).toEqual(['name']);
+    expect(projected.allOf[1].required).toEqual([]);
+    expect(projected.$defs.Entity.properties).toEqual({});
+  });
+
+  it('strips omitted names from dependentRequired', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        a: { type: 'string' },
+        id: { type: 'integer', readOnly: true },
+      },
+      dependentRequired: { a: ['id'], id: ['a'] },
+    };
+
+    const projected = projectSchemaForContext(schema, 'request') as any;
+
+    expect(projected.dependentRequired).toEqual({ a: [] });
+  });
+
+  it('projects attached OpenAPI components and leaves the input intact', () => {
+    const schema = {
+      $ref: '#/components/schemas/User',
+      components: { schemas: { User: user } },
+    };
+    const before = JSON.stringify(schema);
+
+    const projected = projectSchemaForContext(schema, 'response') as any;
+
+    expect(projected.components.schemas.User.properties.password).toBe(
+      undefined
+    );
+    expect(JSON.stringify(schema)).toBe(before);
+  });
+});
+
+describe('Generate with an access context', () => {
+  it('leaves readOnly properties of allOf members out of requests', async () => {
+    const schema = {
+      type: 'object',
+      required: ['id', 'name'],
+      allOf: [{ $ref: '#/$defs/Entity' }],
+      properties: { name: { type: 'string' } },
+      $defs: {
+        Entity: {
+          type: 'object',
+          properties: { id: { type: 'integer', readOnly: true } },
+        },
+      },
+    };
+    const result = await Generate(3, 5, schema, { context: 'request' }).result;
+    expect(result.status).toBe('completed');
+
+    for (const item of result.artifacts.repaired as object[]) {
+      expect(item).toHaveProperty('name');
+      expect(item).not.toHaveProperty('id');
+    }
+  });
+
+  it('omits the excluded properties and scopes coverage targets', async () => {
+    const stream = Generate(4, 11, user, {
+      context: 'response',
+      coverage: { mode: 'measure', dimensionsEnabled: ['structure'] },
+    });
+    const result = await stream.result;
+    expect(result.status).toBe('completed');
+
+    const items = result.artifacts.repaired as Array<Record<string, unknown>>;
+    expect(items).toHaveLength(4);
+    for (const item of items) {
+      expect(item).not.toHaveProperty('password');
+      expect(item).toHaveProperty('id');
+    }
+    const canonPaths = (result.artifacts.coverageTargets ?? []).map(
+      (target) => (target as { canonPath: string }).canonPath
+    );
+    expect(canonPaths).not.toContain('#/properties/password');
+    expect(canonPaths).toContain('#/properties/createdAt');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import { solveQfLia } from '../smt/qf-lia.js';
+import type { QfLiaConstraint, QfLiaProblem } from '../smt/solver.js';
+
+type Op = QfLiaConstraint['op'];
+
+function c(
+  coefficients: Record<string, number>,
+  op: Op,
+  constant: number
+): QfLiaConstraint {
+  return { op, left: { coefficients }, right: { coefficients: {}, constant } };
+}
+
+function problem(...constraints: QfLiaConstraint[]): QfLiaProblem {
+  return { kind: 'qf_lia', constraints };
+}
+
+function satisfies(
+  constraints: QfLiaConstraint[],
+  model: Record<string, number>
+): boolean {
+  return constraints.every(({ op, left, right }) => {
+    let lhs = left.constant ?? 0;
+    for (const [name, k] of Object.entries(left.coefficients)) {
+      lhs += k * (model[name] ?? 0);
+    }
+    const rhs = right.constant ?? 0;
+    switch (op) {
+      case '<=':
+        return lhs <= rhs;
+      case '<':
+        return lhs < rhs;
+      case '>=':
+        return lhs >= rhs;
+      case '>':
+        return lhs > rhs;
+      default:
+        return lhs === rhs;
+    }
+  });
+}
+
+describe('solveQfLia', () => {
+  it('returns a model closest to zero for satisfiable bounds', () => {
+    const constraints = [c({ x: 1 }, '>', 2), c({ x: 1, y: 1 }, '=', 10)];
+    const result = solveQfLia(problem(...constraints));
+    expect(result.outcome).toBe('sat');
+    expect(result.model).toEqual({ x: 3, y: 7 });
+    expect(satisfies(constraints, result.model!)).toBe(true);
+  });
+
+  it('proves unsat when the rational relaxation is infeasible', () => {
+    const result = solveQfLia(
+      problem(
+        c({ x: 1, y: 1 }, '>=', 5),
+        c({ x: 1 }, '<=', 1),
+        c({ y: 1 }, '<=', 3)
+      )
+    );
+    expect(result).toEqual({ outcome: 'unsat' });
+  });
+
+  it('proves unsat when only fractional points satisfy the constraints', () => {
+    // 2x = 2y + 1 has rational solutions but no integer ones.
+    const result = solveQfLia(
+      problem(
+        {
+          op: '=',
+          left: { coefficients: { x: 2 } },
+          right: { coefficients: { y: 2 }, constant: 1 },
+        },
+        c({ x: 1 }, '>=', -100),
+        c({ x: 1 }, '<=', 100)
+      )
+    );
+    expect(result).toEqual({ outcome: 'unsat' });
+  });
+
+  it('scales decimal coefficients exactly', () => {
+    // 0.1 * k in [0.25, 0.35] -> k = 3
+    const result = solveQfLia(
+      problem(c({ k: 0.1 }, '>=', 0.25), c({ k: 0.1 }, '<=', 0.35))
+    );
+    expect(result).toEqual({ outcome: 'sat', model: { k: 3 } });
+    expect(
+      solveQfLia(problem(c({ k: 0.1 }, '>', 0.3), c({ k: 0.1 }, '<', 0.4)))
+    ).toEqual({ outcome: 'unsat' });
+  });
+
+  it('answers unknown when the search budget runs out', () => {
+    // 3x + 5y = 7 has integer solutions, none with both x and y >= 0.
+    const constraints = [
+      c({ x: 3, y: 5 }, '=', 7),
+      c({ x: 1 }, '>=', 0),
+      c({ y: 1 }, '>=', 0),
+      c({ y: 1 }, '<=', 1000),
+    ];
+    expect(solveQfLia(problem(...constraints))).toEqual({ outcome: 'unsat' });
+    expect(solveQfLia(problem(...constraints), { maxSteps: 2 })).toEqual({
+      outcome: 'unknown',
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+
+import { DIAGNOSTIC_CODES } from '../../diag/codes.js';
+import { compose, type ComposeInput } from '../composition-engine.js';
+
+function makeInput(schema: unknown): ComposeInput {
+  return {
+    schema,
+    ptrMap: new Map(),
+    revPtrMap: new Map(),
+    notes: [],
+  };
+}
+
+function composeWithSmt(
+  schema: unknown
+): ReturnType<typeof compose>['diag'] | undefined {
+  return compose(makeInput(schema), { planOptions: { enableLocalSMT: true } })
+    .diag;
+}
+
+describe('CompositionEngine local SMT (QF_LIA backend)', () => {
+  it('proves an empty multipleOf domain between satisfiable bounds', () => {
+    const schema = {
+      type: 'number',
+      minimum: 0.25,
+      maximum: 0.29,
+      multipleOf: 0.1,
+    };
+    const withoutSmt = compose(makeInput(schema)).diag;
+    expect(
+      withoutSmt?.fatal?.some(
+        (e) => e.code === DIAGNOSTIC_CODES.UNSAT_NUMERIC_BOUNDS
+      ) ?? false
+    ).toBe(false);
+
+    const diag = composeWithSmt(schema);
+    const fatal = diag?.fatal?.find(
+      (e) => e.code === DIAGNOSTIC_CODES.UNSAT_NUMERIC_BOUNDS
+    );
+    expect(fatal?.details).toEqual({
+      reason: 'multipleOfDomainEmpty',
+      type: 'number',
+      minimum: 0.25,
+      maximum: 0.29,
+      exclusiveMinimum: null,
+      exclusiveMaximum: null,
+      multipleOf: 0.1,
+    });
+    expect(
+      diag?.warn?.some((e) => e.code === DIAGNOSTIC_CODES.SOLVER_TIMEOUT) ??
+        false
+    ).toBe(false);
+  });
+
+  it('keeps the sound-rule reason and accepts satisfiable multiples', () => {
+    const empty = composeWithSmt({
+      type: 'integer',
+      exclusiveMinimum: 0,
+      exclusiveMaximum: 1,
+    });
+    expect(
+      empty?.fatal?.find(
+        (e) => e.code === DIAGNOSTIC_CODES.UNSAT_NUMERIC_BOUNDS
+      )?.details
+    ).toMatchObject({ reason: 'integerDomainEmpty' });
+
+    const fits = composeWithSmt({
+      type: 'integer',
+      minimum: 5,
+      maximum: 7,
+      multipleOf: 3,
+    });
+    expect(fits?.fatal ?? []).toEqual([]);
+  });
+
+  it('proves CONTAINS_UNSAT_BY_SUM for disjoint needs without the heuristic hint', () => {
+    const diag = composeWithSmt({
+      type: 'array',
+      maxItems: 3,
+      allOf: [
+        { contains: { const: 'a' }, minContains: 2 },
+        { contains: { const: 'b' }, minContains: 2 },
+      ],
+    });
+    const fatal = diag?.fatal?.filter(
+      (e) => e.code === DIAGNOSTIC_CODES.CONTAINS_UNSAT_BY_SUM
+    );
+    expect(fatal?.map((e) => e.details)).toEqual([
+      { sumMin: 4, maxItems: 3, disjointness: 'provable' },
+    ]);
+  });
+
+  it('accepts overlapping needs that fit together and keeps the overlap hint', () => {
+    const diag = composeWithSmt({
+      type: 'array',
+      maxItems: 3,
+      allOf: [
+        { contains: { type: 'string' }, minContains: 2 },
+        { contains: { minLength: 1 }, minContains: 2 },
+      ],
+    });
+    expect(
+      diag?.fatal?.some(
+        (e) => e.code === DIAGNOSTIC_CODES.CONTAINS_UNSAT_BY_SUM
+      ) ?? false
+    ).toBe(false);
+    expect(
+      diag?.unsatHints?.find(
+        (h) => h.code === DIAGNOSTIC_CODES.CONTAINS_UNSAT_BY_SUM
+      )
+    ).toMatchObject({ provable: false, reason: 'overlapUnknown' });
+  });
+
+  it('emits UNSAT_PROPERTY_COUNT when required keys exceed maxProperties', () => {
+    const diag = composeWithSmt({
+      type: 'object',
+      required: ['a', 'b', 'c'],
+      maxProperties: 2,
+    });
+    const fatal = diag?.fatal?.find(
+      (e) => e.code === DIAGNOSTIC_CODES.UNSAT_PROPERTY_COUNT
+    );
+    expect(fatal?.details).toEqual({
+      minProperties: null,
+      maxProperties: 2,
+      requiredCount: 3,
+    });
+  });
+
+  it('decides minProperties against a complete coverage enumeration', () => {
+    const diag = composeWithSmt({
+      type: 'object',
+      additionalProperties: false,
+      minProperties: 3,
+      properties: { a: { type: 'string' }, b: { type: 'string' } },
+    });
+    const fatal = diag?.fatal?.filter(
+      (e) => e.code === DIAGNOSTIC_CODES.UNSAT_MINPROPERTIES_VS_COVERAGE
+    );
+    expect(fatal).toHaveLength(1);
+    expect(fatal?.[0]?.details).toMatchObject({
+      minProperties: 3,
+      coverageSize: 2,
+    });
+  });
+
+  it('derives the step budget from solverTimeoutMs', () => {
+    const schema = {
+      type: 'integer',
+      minimum: 1,
+      maximum: 100000,
+      multipleOf: 7,
+    };
+    const solve = (solverTimeoutMs: number): unknown =>
+      compose(makeInput(schema), {
+        planOptions: { enableLocalSMT: true, solverTimeoutMs },
+      }).diag?.warn?.find((e) => e.code === DIAGNOSTIC_CODES.SOLVER_TIMEOUT);
+
+    expect(solve(0.01)).toMatchObject({
+      details: {
+        timeoutMs: 0.01,
+        maxSteps: 4,
+        reason: 'unknown',
+        problemKind: 'numericBounds',
+      },
+    });
+    expect(solve(25)).toBeUndefined();
+  });
+});
@@ -27,10 +27,31 @@ describe('LocalSmtSolver', () => {
     expect(backendFactory).not.toHaveBeenCalled();
   });
 
-  it('returns unavailable when no backend factory is provided', async () => {
+  it('uses the built-in QF_LIA backend when no factory is provided', async () => {
+    const solver = new LocalSmtSolver({
+      enableLocalSMT: true,
+      solverTimeoutMs: 1000,
+    });
+
+    const outcome = await solver.solveWithTimeout({
+      kind: 'qf_lia',
+      constraints: [
+        {
+          op: '>=',
+          left: { coefficients: { x: 1 } },
+          right: { coefficients: {}, constant: 3 },
+        },
+      ],
+    });
+    expect(outcome.kind).toBe('ok');
+    expect(outcome.result).toEqual({ outcome: 'sat', model: { x: 3 } });
+  });
+
+  it('returns unavailable when the backend fails to load', async () => {
     const solver = new LocalSmtSolver({
       enableLocalSMT: true,
       solverTimeoutMs: 10,
+      backendFactory: () => Promise.reject(new Error('no backend')),
     });
 
     const outcome = await solver.solveWithTimeout(dummyProblem);
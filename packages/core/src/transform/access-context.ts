@@ -0,0 +1,227 @@
+/**
+ * readOnly / writeOnly projection for one side of an HTTP exchange.
+ *
+ * OpenAPI gives readOnly properties (server-assigned ids, timestamps) to
+ * responses only and writeOnly properties (passwords) to requests only,
+ * and treats them as not required on the other side. Projecting the schema
+ * before the pipeline runs drops those properties, so they are neither
+ * generated nor counted as coverage targets.
+ */
+
+export type SchemaAccessContext = 'request' | 'response';
+
+type JsonObject = Record<string, unknown>;
+
+interface Projection {
+  root: unknown;
+  /** Annotation marking properties absent from this context. */
+  flag: 'readOnly' | 'writeOnly';
+}
+
+const SCHEMA_KEYWORDS = [
+  'items',
+  'additionalItems',
+  'additionalProperties',
+  'not',
+  'if',
+  'then',
+  'else',
+  'contains',
+  'propertyNames',
+  'unevaluatedItems',
+  'unevaluatedProperties',
+] as const;
+
+const SCHEMA_ARRAY_KEYWORDS = [
+  'allOf',
+  'anyOf',
+  'oneOf',
+  'prefixItems',
+  'items',
+] as const;
+
+const SCHEMA_MAP_KEYWORDS = [
+  'properties',
+  'patternProperties',
+  'dependentSchemas',
+  'dependencies',
+  '$defs',
+  'definitions',
+] as const;
+
+function isRecord(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function resolveLocalRef(root: unknown, ref: string): unknown {
+  if (ref === '#') return root;
+  if (!ref.startsWith('#/')) return undefined;
+  let target = root;
+  for (const raw of ref.slice(2).split('/')) {
+    const token = decodeURIComponent(raw)
+      .replace(/~1/g, '/')
+      .replace(/~0/g, '~');
+    target = isRecord(target) ? target[token] : undefined;
+  }
+  return target;
+}
+
+/**
+ * True when the property schema carries the flag itself, through an allOf
+ * member, or through a local $ref (as OpenAPI 3.0 documents often do).
+ */
+function isExcluded(
+  schema: unknown,
+  projection: Projection,
+  seen: Set<string> = new Set()
+): boolean {
+  if (!isRecord(schema)) return false;
+  if (schema[projection.flag] === true) return true;
+  if (
+    Array.isArray(schema.allOf) &&
+    schema.allOf.some((member) => isExcluded(member, projection, seen))
+  ) {
+    return true;
+  }
+  const ref = schema.$ref;
+  if (typeof ref !== 'string' || seen.has(ref)) return false;
+  seen.add(ref);
+  return isExcluded(resolveLocalRef(projection.root, ref), projection, seen);
+}
+
+function projectMap(map: JsonObject, projection: Projection): JsonObject {
+  const out: JsonObject = {};
+  for (const [key, value] of Object.entries(map)) {
+    out[key] = projectNode(value, projection);
+  }
+  return out;
+}
+
+/**
+ * Names of the excluded properties declared by `schema`, its allOf members
+ * and the local $refs they point to: the object they all describe lacks
+ * those properties.
+ */
+function collectOmitted(
+  schema: unknown,
+  projection: Projection,
+  omitted: Set<string>,
+  seen: Set<string> = new Set()
+): Set<string> {
+  if (!isRecord(schema)) return omitted;
+  if (isRecord(schema.properties)) {
+    for (const [name, value] of Object.entries(schema.properties)) {
+      if (isExcluded(value, projection)) omitted.add(name);
+    }
+  }
+  if (Array.isArray(schema.allOf)) {
+    for (const member of schema.allOf) {
+      collectOmitted(member, projection, omitted, seen);
+    }
+  }
+  const ref = schema.$ref;
+  if (typeof ref === 'string' && !seen.has(ref)) {
+    seen.add(ref);
+    const target = resolveLocalRef(projection.root, ref);
+    collectOmitted(target, projection, omitted, seen);
+  }
+  return omitted;
+}
+
+function withoutOmitted(names: unknown, omitted: Set<string>): unknown {
+  return Array.isArray(names)
+    ? names.filter((name) => !omitted.has(name))
+    : names;
+}
+
+/**
+ * Drop omitted properties and their `required` and `dependentRequired`
+ * entries from `out`.
+ */
+function omitProperties(out: JsonObject, omitted: Set<string>): void {
+  if (omitted.size === 0) return;
+  if (isRecord(out.properties)) {
+    out.properties = Object.fromEntries(
+      Object.entries(out.properties).filter(([name]) => !omitted.has(name))
+    );
+  }
+  if (Array.isArray(out.required)) {
+    out.required = withoutOmitted(out.required, omitted);
+  }
+  if (isRecord(out.dependentRequired)) {
+    out.dependentRequired = Object.fromEntries(
+      Object.entries(out.dependentRequired)
+        .filter(([name]) => !omitted.has(name))
+        .map(([name, names]) => [name, withoutOmitted(names, omitted)])
+    );
+  }
+}
+
+/**
+ * Project the subschemas of `node` into `out`. allOf members describe the
+ * same object, so they inherit the names omitted at `node`.
+ */
+function projectSubschemas(
+  out: JsonObject,
+  node: JsonObject,
+  projection: Projection,
+  omitted: Set<string>
+): void {
+  for (const key of SCHEMA_KEYWORDS) {
+    if (isRecord(node[key])) out[key] = projectNode(node[key], projection);
+  }
+  for (const key of SCHEMA_ARRAY_KEYWORDS) {
+    const value = node[key];
+    const inherited = key === 'allOf' ? omitted : undefined;
+    if (Array.isArray(value)) {
+      out[key] = value.map((member) =>
+        projectNode(member, projection, inherited)
+      );
+    }
+  }
+  for (const key of SCHEMA_MAP_KEYWORDS) {
+    const value = node[key];
+    if (isRecord(value)) out[key] = projectMap(value, projection);
+  }
+}
+
+function projectNode(
+  node: unknown,
+  projection: Projection,
+  inherited?: Set<string>
+): unknown {
+  if (!isRecord(node)) return node;
+  const omitted = collectOmitted(node, projection, new Set(inherited));
+  const out: JsonObject = { ...node };
+  projectSubschemas(out, node, projection, omitted);
+  // OpenAPI components attached next to a selected response/request schema.
+  const components = node.components;
+  if (isRecord(components) && isRecord(components.schemas)) {
+    out.components = {
+      ...components,
+      schemas: projectMap(components.schemas, projection),
+    };
+  }
+  omitProperties(out, omitted);
+  return out;
+}
+
+/**
+ * Project `schema` onto a request or a response: properties whose schema
+ * is readOnly (request) or writeOnly (response) are removed from
+ * `properties` and from the `required` and `dependentRequired` entries of
+ * the object, throughout the document including $defs, definitions and
+ * attached components. A property declared in an allOf member or a local
+ * $ref target is omitted from the enclosing object and its other allOf
+ * members too. Local $refs are followed to read the flags against the
+ * unprojected document. The input is not mutated.
+ */
+export function projectSchemaForContext(
+  schema: unknown,
+  context: SchemaAccessContext
+): unknown {
+  return projectNode(schema, {
+    root: schema,
+    flag: context === 'request' ? 'readOnly' : 'writeOnly',
+  });
+}
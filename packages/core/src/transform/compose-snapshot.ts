@@ -0,0 +1,119 @@
+import type { ContainsNeed } from './arrays/contains-bag.js';
+import type {
+  ComposeDiagnostics,
+  ComposeResult,
+  CoverageEntry,
+  CoverageIndex,
+} from './composition-engine.js';
+import {
+  createNamePredicate,
+  getNameRule,
+  type CoverageNameRule,
+} from './coverage-name-rule.js';
+import type { NormalizerNote } from './schema-normalizer.js';
+
+interface CoverageEntrySnapshot {
+  canonPath: string;
+  rule: CoverageNameRule;
+  enumerate?: string[];
+  provenance?: CoverageEntry['provenance'];
+  nameDfaSummary?: CoverageEntry['nameDfaSummary'];
+}
+
+/**
+ * JSON form of a ComposeResult (normalized schema, pointer maps and compose
+ * artifacts), as stored by the persistent plan cache.
+ */
+export interface ComposeSnapshot {
+  canonical: {
+    schema: unknown;
+    ptrMap: Array<[string, string]>;
+    revPtrMap: Array<[string, string[]]>;
+    notes: NormalizerNote[];
+  };
+  containsBag: Array<[string, ContainsNeed[]]>;
+  coverageIndex: CoverageEntrySnapshot[];
+  nameDfaSummary?: ComposeResult['nameDfaSummary'];
+  diag?: ComposeDiagnostics;
+}
+
+function snapshotCoverageIndex(
+  index: CoverageIndex
+): CoverageEntrySnapshot[] | undefined {
+  const entries: CoverageEntrySnapshot[] = [];
+  for (const [canonPath, entry] of index) {
+    const rule = getNameRule(entry.has);
+    if (!rule) return undefined;
+    entries.push({
+      canonPath,
+      rule,
+      enumerate: entry.enumerate?.(),
+      provenance: entry.provenance,
+      nameDfaSummary: entry.nameDfaSummary,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Capture a ComposeResult as a detached JSON value. Returns undefined when
+ * the result cannot round-trip: a coverage predicate not built from a
+ * CoverageNameRule, or values JSON cannot represent.
+ */
+export function snapshotComposeResult(
+  result: ComposeResult
+): ComposeSnapshot | undefined {
+  const coverageIndex = snapshotCoverageIndex(result.coverageIndex);
+  if (!coverageIndex) return undefined;
+  const snapshot: ComposeSnapshot = {
+    canonical: {
+      schema: result.canonical.schema,
+      ptrMap: Array.from(result.canonical.ptrMap),
+      revPtrMap: Array.from(result.canonical.revPtrMap),
+      notes: result.canonical.notes,
+    },
+    containsBag: Array.from(result.containsBag),
+    coverageIndex,
+    nameDfaSummary: result.nameDfaSummary,
+    diag: result.diag,
+  };
+  try {
+    return JSON.parse(JSON.stringify(snapshot)) as ComposeSnapshot;
+  } catch {
+    return undefined;
+  }
+}
+
+function restoreCoverageEntry(snapshot: CoverageEntrySnapshot): CoverageEntry {
+  const entry: CoverageEntry = { has: createNamePredicate(snapshot.rule) };
+  if (snapshot.provenance) entry.provenance = snapshot.provenance;
+  if (snapshot.nameDfaSummary) entry.nameDfaSummary = snapshot.nameDfaSummary;
+  const names = snapshot.enumerate;
+  if (names) {
+    entry.enumerate = (k?: number) =>
+      k === undefined
+        ? names.slice()
+        : names.slice(0, Math.max(0, Math.floor(k)));
+  }
+  return entry;
+}
+
+/** Rebuild a ComposeResult, including live coverage predicates. */
+export function restoreComposeResult(snapshot: ComposeSnapshot): ComposeResult {
+  const coverageIndex: CoverageIndex = new Map();
+  for (const entry of snapshot.coverageIndex) {
+    coverageIndex.set(entry.canonPath, restoreCoverageEntry(entry));
+  }
+  return {
+    canonical: {
+      schema: snapshot.canonical.schema,
+      ptrMap: new Map(snapshot.canonical.ptrMap),
+      revPtrMap: new Map(snapshot.canonical.revPtrMap),
+      notes: snapshot.canonical.notes,
+    },
+    containsBag: new Map(snapshot.containsBag),
+    coverageIndex,
+    nameDfaSummary: snapshot.nameDfaSummary,
+    diag: snapshot.diag,
+  };
+}
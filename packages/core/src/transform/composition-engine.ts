@@ -25,6 +25,10 @@ import type { MetricsCollector } from '../util/metrics.js';
 import type { NormalizeResult, NormalizerNote } from './schema-normalizer.js';
 import { resolveDynamicRefBinding } from '../util/draft.js';
 import { extractExactLiteralAlternatives } from '../util/pattern-literals.js';
+import {
+  resolveDiscriminator,
+  type DiscriminatorPlan,
+} from './discriminator.js';
 import {
   decideAnchoredSubsetLifting,
   type LiftKind,
@@ -39,6 +43,7 @@ import {
   type ProductSummary,
 } from './name-automata/product.js';
 import { bfsEnumerate } from './name-automata/bfs.js';
+import { createNamePredicate } from './coverage-name-rule.js';
 import {
   applyContainsSubsumption,
   collectContainsNeeds,
@@ -53,7 +58,13 @@ import {
   isNumericLikeSchema,
   type NumericBoundsCheckInput,
 } from './numbers/bounds.js';
-import { probeLocalSmtUsage } from './smt/solver.js';
+import type { QfLiaProblem } from './smt/solver.js';
+import { QF_LIA_STEPS_PER_MS, solveQfLia } from './smt/qf-lia.js';
+import {
+  buildContainsCardinalityProblem,
+  buildNumericBoundsProblem,
+  buildPropertyCountProblem,
+} from './smt/problems.js';
 
 type CoverageProvenance =
   | 'properties'
@@ -138,6 +149,8 @@ export interface BranchDecisionRecord {
   canonPath: string;
   kind: 'anyOf' | 'oneOf';
   chosenBranch: { index: number; score: number };
+  /** Tag chosen for an OpenAPI discriminated oneOf. */
+  discriminator?: { propertyName: string; value: string };
   scoreDetails: {
     orderedIndices: number[];
     topScoreIndices: number[];
@@ -157,6 +170,7 @@ export interface BranchDecisionRecord {
 
 export interface NodeDiagnostics {
   chosenBranch?: BranchDecisionRecord['chosenBranch'];
+  discriminator?: BranchDecisionRecord['discriminator'];
   scoreDetails?: BranchDecisionRecord['scoreDetails'];
   budget?: BranchDecisionRecord['budget'];
 }
@@ -316,6 +330,7 @@ class CompositionEngine {
   private readonly containsIndex = new Map<string, ContainsNeed[]>();
   private readonly regexWarnKeys = new Set<string>();
   private readonly localSmtEnabled: boolean;
+  private readonly coverageSizeByPath = new Map<string, number>();
   private readonly metrics?: MetricsCollector;
   private nameDfaSummary?: {
     states: number;
@@ -432,6 +447,9 @@ class CompositionEngine {
       // Early unsat checks involving propertyNames enums (SPEC §8 early-unsat)
       this.checkPropertyNamesUnsat(schema, canonPath);
       this.registerCoverageEntry(schema, canonPath);
+      if (this.localSmtEnabled) {
+        this.checkPropertyCounts(schema, canonPath);
+      }
     }
     if (isNumericLikeSchema(schema)) {
       this.checkNumericContradictions(schema, canonPath);
@@ -522,7 +540,12 @@ class CompositionEngine {
       : null;
     if (oneOf && oneOf.length > 0) {
       const branchPtr = appendPointer(canonPath, 'oneOf');
-      this.handleBranch('oneOf', oneOf, branchPtr);
+      this.handleBranch(
+        'oneOf',
+        oneOf,
+        branchPtr,
+        resolveDiscriminator(schema)
+      );
       oneOf.forEach((branch, idx) =>
         this.visitNode(branch, appendPointer(branchPtr, String(idx)))
       );
@@ -550,6 +573,13 @@ class CompositionEngine {
     if (schema.else) {
       this.visitNode(schema.else, appendPointer(canonPath, 'else'));
     }
+    // Embedded payload schema; the generator instantiates it for content strings.
+    if (schema.contentSchema) {
+      this.visitNode(
+        schema.contentSchema,
+        appendPointer(canonPath, 'contentSchema')
+      );
+    }
   }
 
   private visitObjectChildren(
@@ -639,8 +669,6 @@ class CompositionEngine {
       return;
     }
 
-    this.maybeRecordSolverTimeoutProbe('arrayCardinality', canonPath);
-
     const evaluated = this.evaluateContainsBag(reducedNeeds, schema, canonPath);
     if (evaluated.length === 0) {
       this.containsIndex.delete(canonPath);
@@ -668,11 +696,28 @@ class CompositionEngine {
           ? schema.exclusiveMaximum
           : undefined,
     };
+    const multipleOf =
+      typeof schema.multipleOf === 'number' ? schema.multipleOf : undefined;
     const result = checkNumericBounds(input);
-    if (!result.contradictory || !result.reason) return;
-    this.maybeRecordSolverTimeoutProbe('numericBounds', canonPath);
+    const problem = this.localSmtEnabled
+      ? buildNumericBoundsProblem({ ...input, multipleOf })
+      : undefined;
+    const outcome = problem
+      ? this.solveLocally(problem, 'numericBounds', canonPath)
+      : undefined;
+    // The exact outcome overrides the sound rules; 'unsat' with bounds that
+    // look satisfiable means no multiple of multipleOf fits in the range.
+    const reason =
+      outcome === undefined
+        ? result.contradictory
+          ? result.reason
+          : undefined
+        : outcome === 'unsat'
+          ? (result.reason ?? 'multipleOfDomainEmpty')
+          : undefined;
+    if (!reason) return;
     this.addFatal(canonPath, DIAGNOSTIC_CODES.UNSAT_NUMERIC_BOUNDS, {
-      reason: result.reason,
+      reason,
       type: kind,
       minimum: typeof schema.minimum === 'number' ? schema.minimum : null,
       maximum: typeof schema.maximum === 'number' ? schema.maximum : null,
@@ -684,25 +729,83 @@ class CompositionEngine {
         typeof schema.exclusiveMaximum === 'number'
           ? schema.exclusiveMaximum
           : null,
+      ...(reason === 'multipleOfDomainEmpty' ? { multipleOf } : {}),
     });
   }
 
-  private maybeRecordSolverTimeoutProbe(
+  /**
+   * Decide a QF_LIA problem with the built-in exact backend. A step budget
+   * derived from solverTimeoutMs keeps this synchronous and deterministic;
+   * when it runs out the caller falls back to the sound rules and
+   * SOLVER_TIMEOUT is recorded.
+   */
+  private solveLocally(
+    problem: QfLiaProblem,
     problemKind: string,
     canonPath: string
-  ): void {
-    if (!this.localSmtEnabled) return;
-    const outcome = probeLocalSmtUsage({
-      enableLocalSMT: this.localSmtEnabled,
-      solverTimeoutMs: this.resolvedOptions.solverTimeoutMs,
-    });
-    if (outcome !== 'unknown') return;
+  ): 'sat' | 'unsat' | undefined {
     const timeoutMs = this.resolvedOptions.solverTimeoutMs;
+    const maxSteps = Math.max(1, Math.round(timeoutMs * QF_LIA_STEPS_PER_MS));
+    const result = solveQfLia(problem, { maxSteps });
+    if (result.outcome !== 'unknown') return result.outcome;
     this.addWarn(canonPath, DIAGNOSTIC_CODES.SOLVER_TIMEOUT, {
       timeoutMs,
+      maxSteps,
       reason: 'unknown',
       problemKind,
     });
+    return undefined;
+  }
+
+  /**
+   * Local SMT only: minProperties, maxProperties, the required count and a
+   * complete coverage enumeration must admit a common property count.
+   */
+  private checkPropertyCounts(
+    schema: Record<string, unknown>,
+    canonPath: string
+  ): void {
+    const minProperties =
+      typeof schema.minProperties === 'number'
+        ? schema.minProperties
+        : undefined;
+    const maxProperties =
+      typeof schema.maxProperties === 'number'
+        ? schema.maxProperties
+        : undefined;
+    const requiredCount = Array.isArray(schema.required)
+      ? new Set(schema.required).size
+      : 0;
+    const coverageSize = this.coverageSizeByPath.get(canonPath);
+    if (minProperties === undefined && maxProperties === undefined) return;
+
+    const counts = { minProperties, maxProperties, requiredCount };
+    const ownBounds = this.solveLocally(
+      buildPropertyCountProblem(counts),
+      'propertyCount',
+      canonPath
+    );
+    if (ownBounds === 'unsat') {
+      this.addFatal(canonPath, DIAGNOSTIC_CODES.UNSAT_PROPERTY_COUNT, {
+        minProperties: minProperties ?? null,
+        maxProperties: maxProperties ?? null,
+        requiredCount,
+      });
+      return;
+    }
+    if (coverageSize === undefined || minProperties === undefined) return;
+    const withCoverage = this.solveLocally(
+      buildPropertyCountProblem({ ...counts, coverageSize }),
+      'propertyCount',
+      canonPath
+    );
+    if (withCoverage === 'unsat' && minProperties > coverageSize) {
+      this.addFatal(
+        canonPath,
+        DIAGNOSTIC_CODES.UNSAT_MINPROPERTIES_VS_COVERAGE,
+        { minProperties, coverageSize }
+      );
+    }
   }
 
   private evaluateContainsBag(
@@ -718,45 +821,75 @@ class CompositionEngine {
 
     const effectiveMaxItems = computeEffectiveMaxItems(schema);
     let aggregateMin = 0;
+    let largestMin = 0;
 
     for (const need of normalized) {
       aggregateMin += need.min;
+      largestMin = Math.max(largestMin, need.min);
       if (need.max !== undefined && need.max < need.min) {
         this.addFatal(canonPath, DIAGNOSTIC_CODES.CONTAINS_NEED_MIN_GT_MAX, {
           min: need.min,
           max: need.max,
         });
       }
-      if (effectiveMaxItems !== undefined && need.min > effectiveMaxItems) {
-        this.addFatal(canonPath, DIAGNOSTIC_CODES.CONTAINS_UNSAT_BY_SUM, {
-          sumMin: need.min,
-          maxItems: effectiveMaxItems,
-          disjointness: 'provable',
-        });
-      }
     }
 
-    if (effectiveMaxItems !== undefined && aggregateMin > effectiveMaxItems) {
-      if (areNeedsPairwiseDisjoint(normalized)) {
+    const disjoint = areNeedsPairwiseDisjoint(normalized);
+    const outcome = this.localSmtEnabled
+      ? this.solveLocally(
+          buildContainsCardinalityProblem(
+            normalized.map((need) => need.min),
+            effectiveMaxItems,
+            disjoint
+          ),
+          'arrayCardinality',
+          canonPath
+        )
+      : undefined;
+
+    if (outcome === 'unsat') {
+      this.addFatal(canonPath, DIAGNOSTIC_CODES.CONTAINS_UNSAT_BY_SUM, {
+        sumMin: disjoint ? aggregateMin : largestMin,
+        maxItems: effectiveMaxItems ?? null,
+        disjointness: 'provable',
+      });
+    } else if (outcome === undefined && effectiveMaxItems !== undefined) {
+      for (const need of normalized) {
+        if (need.min > effectiveMaxItems) {
+          this.addFatal(canonPath, DIAGNOSTIC_CODES.CONTAINS_UNSAT_BY_SUM, {
+            sumMin: need.min,
+            maxItems: effectiveMaxItems,
+            disjointness: 'provable',
+          });
+        }
+      }
+      if (aggregateMin > effectiveMaxItems && disjoint) {
         this.addFatal(canonPath, DIAGNOSTIC_CODES.CONTAINS_UNSAT_BY_SUM, {
           sumMin: aggregateMin,
           maxItems: effectiveMaxItems,
           disjointness: 'provable',
         });
-      } else {
-        this.addUnsatHint({
-          code: DIAGNOSTIC_CODES.CONTAINS_UNSAT_BY_SUM,
-          canonPath,
-          provable: false,
-          reason: 'overlapUnknown',
-          details: {
-            sumMin: aggregateMin,
-            maxItems: effectiveMaxItems ?? null,
-          },
-        });
       }
     }
 
+    if (
+      !disjoint &&
+      outcome !== 'unsat' &&
+      effectiveMaxItems !== undefined &&
+      aggregateMin > effectiveMaxItems
+    ) {
+      this.addUnsatHint({
+        code: DIAGNOSTIC_CODES.CONTAINS_UNSAT_BY_SUM,
+        canonPath,
+        provable: false,
+        reason: 'overlapUnknown',
+        details: {
+          sumMin: aggregateMin,
+          maxItems: effectiveMaxItems ?? null,
+        },
+      });
+    }
+
     for (let i = 0; i < normalized.length; i += 1) {
       const antecedent = normalized[i]!;
       if (antecedent.min <= 0) continue;
@@ -808,7 +941,7 @@ class CompositionEngine {
   ): void {
     if (schema.additionalProperties !== false) {
       this.coverageIndex.set(canonPath, {
-        has: () => true,
+        has: createNamePredicate({ kind: 'any' }),
         provenance: [],
       });
       return;
@@ -833,7 +966,7 @@ class CompositionEngine {
     if (conjuncts.length === 0) {
       // No conjunct enforced AP:false in the effective view; vacuous coverage.
       this.coverageIndex.set(canonPath, {
-        has: () => true,
+        has: createNamePredicate({ kind: 'any' }),
         provenance: [],
       });
       return;
@@ -1190,8 +1323,18 @@ class CompositionEngine {
       }
     }
 
-    // Early-UNSAT: finite coverage smaller than minProperties.
     if (
+      enumerationIsComplete &&
+      enumerationValues &&
+      enumerationValues.length > 0
+    ) {
+      this.coverageSizeByPath.set(canonPath, enumerationValues.length);
+    }
+
+    // Early-UNSAT: finite coverage smaller than minProperties (decided by
+    // checkPropertyCounts under local SMT).
+    if (
+      !this.localSmtEnabled &&
       enumerationIsComplete &&
       enumerationValues &&
       enumerationValues.length > 0 &&
@@ -2104,48 +2247,27 @@ class CompositionEngine {
   private createCoveragePredicate(
     conjuncts: CoverageConjunctInfo[]
   ): (name: string) => boolean {
-    const coverageBearingCount = conjuncts.reduce((count, conj) => {
-      if (
-        conj.hasProperties ||
-        conj.patterns.length > 0 ||
-        conj.hasSyntheticPatterns
-      ) {
-        return count + 1;
-      }
-      return count;
-    }, 0);
-    return (name: string) => {
-      for (const conj of conjuncts) {
-        if (conj.gatingEnum && !conj.gatingEnum.has(name)) {
-          return false;
-        }
-        if (conj.gatingPattern && !conj.gatingPattern.regexp.test(name)) {
-          return false;
-        }
-        const hasCoverageSource =
+    return createNamePredicate({
+      kind: 'conjuncts',
+      conjuncts: conjuncts.map((conj) => ({
+        named: Array.from(conj.named),
+        patterns: conj.patterns.map((pattern) => ({
+          source: pattern.regexp.source,
+          flags: pattern.regexp.flags,
+        })),
+        gatingEnum: conj.gatingEnum ? Array.from(conj.gatingEnum) : undefined,
+        gatingPattern: conj.gatingPattern
+          ? {
+              source: conj.gatingPattern.regexp.source,
+              flags: conj.gatingPattern.regexp.flags,
+            }
+          : undefined,
+        coverageBearing:
           conj.hasProperties ||
           conj.patterns.length > 0 ||
-          conj.hasSyntheticPatterns;
-        const gatingOnly = !hasCoverageSource;
-        if (gatingOnly && coverageBearingCount > 0) {
-          continue;
-        }
-        if (conj.named.has(name)) {
-          continue;
-        }
-        let matched = false;
-        for (const pattern of conj.patterns) {
-          if (pattern.regexp.test(name)) {
-            matched = true;
-            break;
-          }
-        }
-        if (!matched) {
-          return false;
-        }
-      }
-      return true;
-    };
+          conj.hasSyntheticPatterns,
+      })),
+    });
   }
 
   private computePresencePressure(schema: Record<string, unknown>): boolean {
@@ -2167,7 +2289,8 @@ class CompositionEngine {
   private handleBranch(
     kind: 'anyOf' | 'oneOf',
     branches: unknown[],
-    canonPath: string
+    canonPath: string,
+    discriminator?: DiscriminatorPlan
   ): void {
     // Derive memo key upfront to allow memoization short-circuit per SPEC §14
     const userKey = this.options.selectorMemoKeyFn
@@ -2254,6 +2377,16 @@ class CompositionEngine {
       const pick = Math.floor(rand * (topScoreIndices.length || 1));
       chosenIdx = topScoreIndices[pick] ?? chosenIdx;
     }
+    // A discriminated oneOf is decided by its tag: keep the scored choice
+    // when a tag selects it, otherwise take the first mapped branch.
+    const discriminatorEntry = discriminator
+      ? (discriminator.entries.find(
+          (entry) => entry.branchIndex === chosenIdx
+        ) ?? discriminator.entries[0])
+      : undefined;
+    if (discriminatorEntry) {
+      chosenIdx = discriminatorEntry.branchIndex;
+    }
     const topKIndices = ordered.slice(0, kEffective).map((entry) => entry.idx);
 
     if (complexityCapApplied) {
@@ -2307,7 +2440,12 @@ class CompositionEngine {
     const record: BranchDecisionRecord = {
       canonPath,
       kind,
-      chosenBranch: { index: chosenIdx, score: maxScore },
+      chosenBranch: {
+        index: chosenIdx,
+        score: discriminatorEntry
+          ? (scoresByIndex[String(chosenIdx)] ?? maxScore)
+          : maxScore,
+      },
       scoreDetails: {
         orderedIndices,
         topScoreIndices:
@@ -2319,6 +2457,12 @@ class CompositionEngine {
       budget,
       memoKey,
     };
+    if (discriminator && discriminatorEntry) {
+      record.discriminator = {
+        propertyName: discriminator.propertyName,
+        value: discriminatorEntry.value,
+      };
+    }
     this.branchDiagnostics.set(canonPath, record);
     this.memoCache?.set(memoKey, record);
     this.memoKeyLog.set(canonPath, memoKey);
@@ -2390,6 +2534,9 @@ class CompositionEngine {
       for (const record of ordered) {
         nodes[record.canonPath] = {
           chosenBranch: record.chosenBranch,
+          ...(record.discriminator
+            ? { discriminator: record.discriminator }
+            : {}),
           scoreDetails: record.scoreDetails,
           budget: record.budget,
         };
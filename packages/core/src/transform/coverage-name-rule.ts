@@ -0,0 +1,92 @@
+/**
+ * Serializable description of a CoverageEntry `has` predicate.
+ *
+ * The composition engine builds every coverage predicate from a rule so the
+ * persistent plan cache can store the rule and rebuild an equivalent
+ * predicate in a later run.
+ */
+
+export interface CoverageRegExpSource {
+  source: string;
+  flags: string;
+}
+
+export interface CoverageNameConjunct {
+  named: string[];
+  patterns: CoverageRegExpSource[];
+  gatingEnum?: string[];
+  gatingPattern?: CoverageRegExpSource;
+  /** True when the conjunct contributes names (properties or patterns). */
+  coverageBearing: boolean;
+}
+
+export type CoverageNameRule =
+  | { kind: 'any' }
+  | { kind: 'conjuncts'; conjuncts: CoverageNameConjunct[] };
+
+interface CompiledConjunct {
+  named: Set<string>;
+  patterns: RegExp[];
+  gatingEnum?: Set<string>;
+  gatingPattern?: RegExp;
+  coverageBearing: boolean;
+}
+
+const rulesByPredicate = new WeakMap<
+  (name: string) => boolean,
+  CoverageNameRule
+>();
+
+function compileConjunct(conjunct: CoverageNameConjunct): CompiledConjunct {
+  return {
+    named: new Set(conjunct.named),
+    patterns: conjunct.patterns.map((p) => new RegExp(p.source, p.flags)),
+    gatingEnum: conjunct.gatingEnum ? new Set(conjunct.gatingEnum) : undefined,
+    gatingPattern: conjunct.gatingPattern
+      ? new RegExp(conjunct.gatingPattern.source, conjunct.gatingPattern.flags)
+      : undefined,
+    coverageBearing: conjunct.coverageBearing,
+  };
+}
+
+function acceptsName(
+  conj: CompiledConjunct,
+  name: string,
+  coverageBearingCount: number
+): boolean {
+  if (conj.gatingEnum && !conj.gatingEnum.has(name)) return false;
+  if (conj.gatingPattern && !conj.gatingPattern.test(name)) return false;
+  // Gating-only conjuncts defer to the coverage-bearing ones.
+  if (!conj.coverageBearing && coverageBearingCount > 0) return true;
+  if (conj.named.has(name)) return true;
+  return conj.patterns.some((pattern) => pattern.test(name));
+}
+
+/**
+ * Build the `has` predicate for a rule: a name is covered when every
+ * conjunct accepts it.
+ */
+export function createNamePredicate(
+  rule: CoverageNameRule
+): (name: string) => boolean {
+  let predicate: (name: string) => boolean;
+  if (rule.kind === 'any') {
+    predicate = () => true;
+  } else {
+    const conjuncts = rule.conjuncts.map(compileConjunct);
+    const coverageBearingCount = conjuncts.filter(
+      (conj) => conj.coverageBearing
+    ).length;
+    predicate = (name: string) =>
+      conjuncts.every((conj) => acceptsName(conj, name, coverageBearingCount));
+  }
+  rulesByPredicate.set(predicate, rule);
+  return predicate;
+}
+
+/** Rule a predicate was built from, or undefined for foreign predicates. */
+export function getNameRule(
+  predicate: (name: string) => boolean
+): CoverageNameRule | undefined {
+  return rulesByPredicate.get(predicate);
+}
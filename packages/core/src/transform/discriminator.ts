@@ -0,0 +1,99 @@
+/**
+ * OpenAPI `discriminator` support for oneOf unions.
+ *
+ * The Source AJV only understands `discriminator` when its option is on
+ * (and then without `mapping`), so Compose/Generate read the keyword
+ * themselves: each tag value is resolved to the oneOf branch it selects,
+ * letting the generator pick a branch and write its tag up front.
+ */
+
+export interface DiscriminatorEntry {
+  /** Tag value written to `propertyName` (the mapping key). */
+  value: string;
+  /** Index of the oneOf branch the tag selects. */
+  branchIndex: number;
+  /** True when the entry comes from `mapping`, false for implicit names. */
+  explicit: boolean;
+}
+
+export interface DiscriminatorPlan {
+  propertyName: string;
+  /** Explicit mapping entries first (in mapping order), then implicit ones. */
+  entries: DiscriminatorEntry[];
+}
+
+const COMPONENT_SCHEMA_PREFIX = '#/components/schemas/';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Fragment part of a reference ('#/components/schemas/Cat'). */
+function refFragment(ref: string): string {
+  const hash = ref.indexOf('#');
+  return hash >= 0 ? ref.slice(hash) : ref;
+}
+
+/**
+ * Mapping values are either references or bare schema names; a bare
+ * name stands for `#/components/schemas/<name>`.
+ */
+function normalizeMappingTarget(target: string): string {
+  if (target.includes('#') || target.includes('/')) return refFragment(target);
+  return `${COMPONENT_SCHEMA_PREFIX}${target}`;
+}
+
+function implicitSchemaName(ref: string): string | undefined {
+  const fragment = refFragment(ref);
+  if (!fragment.startsWith(COMPONENT_SCHEMA_PREFIX)) return undefined;
+  const name = fragment.slice(COMPONENT_SCHEMA_PREFIX.length);
+  if (name.length === 0 || name.includes('/')) return undefined;
+  return name.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Resolve `schema.discriminator` against `schema.oneOf`. Returns undefined
+ * when the node has no usable discriminator or no tag maps to a branch.
+ * Branches not named by `mapping` get the implicit OpenAPI tag, i.e. the
+ * component name of their `#/components/schemas/<Name>` reference.
+ */
+export function resolveDiscriminator(
+  schema: Record<string, unknown>
+): DiscriminatorPlan | undefined {
+  const discriminator = schema.discriminator;
+  const branches = schema.oneOf;
+  if (!isRecord(discriminator) || !Array.isArray(branches)) return undefined;
+  const propertyName = discriminator.propertyName;
+  if (typeof propertyName !== 'string' || propertyName.length === 0) {
+    return undefined;
+  }
+
+  const branchRefs = branches.map((branch) =>
+    isRecord(branch) && typeof branch.$ref === 'string'
+      ? refFragment(branch.$ref)
+      : undefined
+  );
+  const entries: DiscriminatorEntry[] = [];
+  const seen = new Set<string>();
+  const mapped = new Set<number>();
+
+  const mapping = isRecord(discriminator.mapping) ? discriminator.mapping : {};
+  for (const [value, target] of Object.entries(mapping)) {
+    if (typeof target !== 'string') continue;
+    const branchIndex = branchRefs.indexOf(normalizeMappingTarget(target));
+    if (branchIndex < 0) continue;
+    entries.push({ value, branchIndex, explicit: true });
+    seen.add(value);
+    mapped.add(branchIndex);
+  }
+
+  branchRefs.forEach((ref, branchIndex) => {
+    if (ref === undefined || mapped.has(branchIndex)) return;
+    const name = implicitSchemaName(ref);
+    if (name === undefined || seen.has(name)) return;
+    entries.push({ value: name, branchIndex, explicit: false });
+    seen.add(name);
+  });
+
+  return entries.length > 0 ? { propertyName, entries } : undefined;
+}
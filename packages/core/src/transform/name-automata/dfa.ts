@@ -8,6 +8,12 @@ export interface DfaState {
   id: number;
   accepting: boolean;
   transitions: Map<number, number>;
+  /**
+   * Inclusive end code unit of the segment starting at each transition key,
+   * so callers can draw any code unit of the segment rather than its start.
+   * Hand-built automata may omit it (segments are then single code units).
+   */
+  segmentEnds?: Map<number, number>;
 }
 
 export interface Dfa {
@@ -90,6 +96,7 @@ export function buildDfaFromNfa(
       id,
       accepting,
       transitions: new Map(),
+      segmentEnds: new Map(),
     };
     dfaStates.push(dfaState);
     seen.set(key, id);
@@ -149,6 +156,7 @@ export function buildDfaFromNfa(
 
       const targetId = createDfaState(targetSet);
       state.transitions.set(from, targetId);
+      state.segmentEnds?.set(from, to);
       if (dfaStates.length > maxDfaStates) {
         capped = true;
         break;
@@ -45,6 +45,14 @@ type RegexNode =
 
 class RegexParseError extends Error {}
 
+const CONTROL_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  f: '\f',
+  v: '\v',
+};
+
 class RegexParser {
   private readonly pattern: string;
   private pos = 0;
@@ -203,6 +211,10 @@ class RegexParser {
       });
       return { kind: 'charClass', ranges };
     }
+    const control = CONTROL_ESCAPES[escaped];
+    if (control !== undefined) {
+      return { kind: 'literal', value: control };
+    }
     return { kind: 'literal', value: escaped };
   }
 
@@ -231,7 +243,12 @@ class RegexParser {
           throw new RegexParseError('Dangling escape in character class');
         }
         const escaped = this.consume();
-        const code = escaped.charCodeAt(0);
+        const shorthand = this.parseEscaped(escaped);
+        if (shorthand.kind === 'charClass') {
+          ranges.push(...shorthand.ranges);
+          continue;
+        }
+        const code = (CONTROL_ESCAPES[escaped] ?? escaped).charCodeAt(0);
         ranges.push({ from: code, to: code });
         continue;
       }
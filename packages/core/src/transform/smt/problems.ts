@@ -0,0 +1,117 @@
+import type { NumericBoundsCheckInput } from '../numbers/bounds.js';
+import type {
+  QfLiaComparisonOp,
+  QfLiaConstraint,
+  QfLiaProblem,
+} from './solver.js';
+
+/**
+ * QF_LIA encodings of the composition checks run by the local SMT backend.
+ * Every variable ranges over the integers.
+ */
+
+function bound(
+  coefficients: Record<string, number>,
+  op: QfLiaComparisonOp,
+  constant: number
+): QfLiaConstraint {
+  return { op, left: { coefficients }, right: { coefficients: {}, constant } };
+}
+
+export interface NumericProblemInput extends NumericBoundsCheckInput {
+  multipleOf?: number;
+}
+
+/**
+ * The value as `multipleOf * k` (k integer) when multipleOf is set, else as
+ * an integer variable. Returns undefined for a plain `number` domain, which
+ * is not an integer problem.
+ */
+export function buildNumericBoundsProblem(
+  input: NumericProblemInput
+): QfLiaProblem | undefined {
+  const { multipleOf } = input;
+  const hasStep =
+    typeof multipleOf === 'number' &&
+    Number.isFinite(multipleOf) &&
+    multipleOf > 0;
+  if (!hasStep && input.kind !== 'integer') return undefined;
+
+  const value: Record<string, number> = hasStep
+    ? { k: multipleOf }
+    : { value: 1 };
+  const constraints: QfLiaConstraint[] = [];
+  if (hasStep && input.kind === 'integer') {
+    constraints.push({
+      op: '=',
+      left: { coefficients: { value: 1 } },
+      right: { coefficients: value },
+    });
+  }
+  const limits: Array<[number | undefined, QfLiaComparisonOp]> = [
+    [input.minimum, '>='],
+    [input.exclusiveMinimum, '>'],
+    [input.maximum, '<='],
+    [input.exclusiveMaximum, '<'],
+  ];
+  for (const [limit, op] of limits) {
+    if (typeof limit === 'number' && Number.isFinite(limit)) {
+      constraints.push(bound(value, op, limit));
+    }
+  }
+  return { kind: 'qf_lia', constraints };
+}
+
+/**
+ * Array length n and per-need match counts c_i: min_i <= c_i <= n, n within
+ * effectiveMaxItems, and sum c_i <= n when the needs are pairwise disjoint
+ * (an item then counts towards at most one need).
+ */
+export function buildContainsCardinalityProblem(
+  needMins: number[],
+  effectiveMaxItems: number | undefined,
+  disjoint: boolean
+): QfLiaProblem {
+  const constraints: QfLiaConstraint[] = [bound({ n: 1 }, '>=', 0)];
+  if (effectiveMaxItems !== undefined) {
+    constraints.push(bound({ n: 1 }, '<=', effectiveMaxItems));
+  }
+  const sum: Record<string, number> = { n: -1 };
+  needMins.forEach((min, index) => {
+    const count = `c${index}`;
+    sum[count] = 1;
+    constraints.push(bound({ [count]: 1 }, '>=', min));
+    constraints.push(bound({ [count]: 1, n: -1 }, '<=', 0));
+  });
+  if (disjoint && needMins.length > 1) {
+    constraints.push(bound(sum, '<=', 0));
+  }
+  return { kind: 'qf_lia', constraints };
+}
+
+export interface PropertyCountProblemInput {
+  minProperties?: number;
+  maxProperties?: number;
+  requiredCount: number;
+  /** Number of admissible names when the coverage enumeration is complete. */
+  coverageSize?: number;
+}
+
+/** Property count p bounded by min/maxProperties, required and coverage. */
+export function buildPropertyCountProblem(
+  input: PropertyCountProblemInput
+): QfLiaProblem {
+  const constraints: QfLiaConstraint[] = [
+    bound({ p: 1 }, '>=', input.requiredCount),
+  ];
+  if (typeof input.minProperties === 'number') {
+    constraints.push(bound({ p: 1 }, '>=', input.minProperties));
+  }
+  if (typeof input.maxProperties === 'number') {
+    constraints.push(bound({ p: 1 }, '<=', input.maxProperties));
+  }
+  if (input.coverageSize !== undefined) {
+    constraints.push(bound({ p: 1 }, '<=', input.coverageSize));
+  }
+  return { kind: 'qf_lia', constraints };
+}
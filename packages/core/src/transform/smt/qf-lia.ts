@@ -0,0 +1,378 @@
+import { fromNumber, lcm } from '../../util/rational.js';
+import type {
+  LocalSmtBackend,
+  LocalSmtModel,
+  LocalSmtResult,
+  QfLiaConstraint,
+  QfLiaLinearTerm,
+  QfLiaProblem,
+} from './solver.js';
+
+export interface QfLiaSolveOptions {
+  /**
+   * Search budget: every derived constraint and every candidate assignment
+   * costs one step. Exhausting it yields 'unknown'. Defaults to 10 000.
+   */
+  maxSteps?: number;
+}
+
+export const DEFAULT_QF_LIA_MAX_STEPS = 10_000;
+
+/**
+ * Steps the synchronous Compose path grants per millisecond of
+ * solverTimeoutMs, so the default 25 ms matches DEFAULT_QF_LIA_MAX_STEPS.
+ */
+export const QF_LIA_STEPS_PER_MS = 400;
+
+/** sum(coefficients[x] * x) <= bound over integer variables. */
+interface Inequality {
+  coefficients: Map<string, bigint>;
+  bound: bigint;
+}
+
+interface Budget {
+  remaining: number;
+}
+
+interface Range {
+  lower?: bigint;
+  upper?: bigint;
+}
+
+type SearchResult = { outcome: 'sat'; model: LocalSmtModel } | 'unsat';
+
+class BudgetExhausted extends Error {}
+
+function spend(budget: Budget, steps = 1): void {
+  budget.remaining -= steps;
+  if (budget.remaining < 0) throw new BudgetExhausted();
+}
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+function gcdOf(values: Iterable<bigint>): bigint {
+  let g = 0n;
+  for (const value of values) {
+    let a = abs(value);
+    let b = g;
+    while (b !== 0n) [a, b] = [b, a % b];
+    g = a;
+  }
+  return g;
+}
+
+function floorDiv(a: bigint, b: bigint): bigint {
+  const q = a / b;
+  return a % b !== 0n && a < 0n !== b < 0n ? q - 1n : q;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return -floorDiv(-a, b);
+}
+
+/**
+ * left - right as a rational linear term, then scaled to integer
+ * coefficients: returns [coefficients, constant].
+ */
+function toIntegerDifference(
+  left: QfLiaLinearTerm,
+  right: QfLiaLinearTerm
+): [Map<string, bigint>, bigint] {
+  const rational = new Map<string, { p: bigint; q: bigint }>();
+  const addTerm = (term: QfLiaLinearTerm, sign: bigint): void => {
+    for (const [name, value] of Object.entries(term.coefficients)) {
+      const r = fromNumber(value);
+      const prev = rational.get(name) ?? { p: 0n, q: 1n };
+      rational.set(name, {
+        p: prev.p * r.q + sign * r.p * prev.q,
+        q: prev.q * r.q,
+      });
+    }
+    const c = fromNumber(term.constant ?? 0);
+    const prev = rational.get('') ?? { p: 0n, q: 1n };
+    rational.set('', {
+      p: prev.p * c.q + sign * c.p * prev.q,
+      q: prev.q * c.q,
+    });
+  };
+  addTerm(left, 1n);
+  addTerm(right, -1n);
+
+  let scale = 1n;
+  for (const { q } of rational.values()) scale = lcm(scale, q);
+  const coefficients = new Map<string, bigint>();
+  let constant = 0n;
+  for (const [name, { p, q }] of rational) {
+    const scaled = (p * scale) / q;
+    if (name === '') constant = scaled;
+    else if (scaled !== 0n) coefficients.set(name, scaled);
+  }
+  return [coefficients, constant];
+}
+
+function negate(coefficients: Map<string, bigint>): Map<string, bigint> {
+  return new Map(Array.from(coefficients, ([name, c]) => [name, -c]));
+}
+
+/** Rewrite `left op right` as integer inequalities `a·x <= b`. */
+function toInequalities(constraint: QfLiaConstraint): Inequality[] {
+  const [coefficients, constant] = toIntegerDifference(
+    constraint.left,
+    constraint.right
+  );
+  // a·x + constant op 0; strict comparisons tighten by one on integers.
+  const le: Inequality = { coefficients, bound: -constant };
+  const ge: Inequality = {
+    coefficients: negate(coefficients),
+    bound: constant,
+  };
+  switch (constraint.op) {
+    case '<=':
+      return [le];
+    case '<':
+      return [{ ...le, bound: le.bound - 1n }];
+    case '>=':
+      return [ge];
+    case '>':
+      return [{ ...ge, bound: ge.bound - 1n }];
+    default:
+      return [le, ge];
+  }
+}
+
+/** Divide by the coefficient gcd, rounding the bound down (integer cut). */
+function tighten(inequality: Inequality): Inequality {
+  const g = gcdOf(inequality.coefficients.values());
+  if (g <= 1n) return inequality;
+  const coefficients = new Map<string, bigint>();
+  for (const [name, c] of inequality.coefficients)
+    coefficients.set(name, c / g);
+  return { coefficients, bound: floorDiv(inequality.bound, g) };
+}
+
+function keyOf(inequality: Inequality): string {
+  const terms = Array.from(inequality.coefficients)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, c]) => `${c}*${name}`);
+  return `${terms.join('+')}<=${inequality.bound}`;
+}
+
+/**
+ * Drop duplicates and ground constraints; undefined when a ground
+ * constraint is violated.
+ */
+function simplify(inequalities: Inequality[]): Inequality[] | undefined {
+  const byKey = new Map<string, Inequality>();
+  for (const raw of inequalities) {
+    const inequality = tighten(raw);
+    if (inequality.coefficients.size === 0) {
+      if (inequality.bound < 0n) return undefined;
+      continue;
+    }
+    byKey.set(keyOf(inequality), inequality);
+  }
+  return Array.from(byKey.values());
+}
+
+/** Positive combination of u and l that cancels `name`. */
+function combine(u: Inequality, l: Inequality, name: string): Inequality {
+  const a = u.coefficients.get(name)!;
+  const b = -l.coefficients.get(name)!;
+  const coefficients = new Map<string, bigint>();
+  for (const [v, c] of u.coefficients) coefficients.set(v, c * b);
+  for (const [v, c] of l.coefficients) {
+    coefficients.set(v, (coefficients.get(v) ?? 0n) + c * a);
+  }
+  for (const [v, c] of coefficients) {
+    if (c === 0n) coefficients.delete(v);
+  }
+  return { coefficients, bound: u.bound * b + l.bound * a };
+}
+
+/** Fourier–Motzkin elimination of one variable. */
+function eliminate(
+  inequalities: Inequality[],
+  name: string,
+  budget: Budget
+): Inequality[] | undefined {
+  const upper: Inequality[] = [];
+  const lower: Inequality[] = [];
+  const rest: Inequality[] = [];
+  for (const inequality of inequalities) {
+    const c = inequality.coefficients.get(name) ?? 0n;
+    (c > 0n ? upper : c < 0n ? lower : rest).push(inequality);
+  }
+  spend(budget, upper.length * lower.length);
+  for (const u of upper) {
+    for (const l of lower) rest.push(combine(u, l, name));
+  }
+  return simplify(rest);
+}
+
+/** Integer range of `name` implied by the rational relaxation. */
+function rangeOf(
+  inequalities: Inequality[],
+  variables: string[],
+  name: string,
+  budget: Budget
+): Range | undefined {
+  let projected: Inequality[] | undefined = inequalities;
+  for (const other of variables) {
+    if (other === name) continue;
+    projected = eliminate(projected, other, budget);
+    if (!projected) return undefined;
+  }
+  const range = boundsOf(projected, name);
+  const empty =
+    range.lower !== undefined &&
+    range.upper !== undefined &&
+    range.lower > range.upper;
+  return empty ? undefined : range;
+}
+
+/** Tightest integer bounds from single-variable inequalities over `name`. */
+function boundsOf(inequalities: Inequality[], name: string): Range {
+  const range: Range = {};
+  for (const { coefficients, bound } of inequalities) {
+    const c = coefficients.get(name)!;
+    if (c > 0n) {
+      const upper = floorDiv(bound, c);
+      if (range.upper === undefined || upper < range.upper) range.upper = upper;
+    } else {
+      const lower = ceilDiv(bound, c);
+      if (range.lower === undefined || lower > range.lower) range.lower = lower;
+    }
+  }
+  return range;
+}
+
+function rangeSize(range: Range): bigint | undefined {
+  if (range.lower === undefined || range.upper === undefined) return undefined;
+  return range.upper - range.lower;
+}
+
+/**
+ * Candidate values, nearest to zero first so models stay minimal. Finite
+ * ranges are enumerated exhaustively; open ones until the budget runs out.
+ */
+function* candidates(range: Range): Generator<bigint> {
+  const { lower, upper } = range;
+  let start = 0n;
+  if (lower !== undefined && start < lower) start = lower;
+  if (upper !== undefined && start > upper) start = upper;
+  yield start;
+  for (let offset = 1n; ; offset += 1n) {
+    const up = start + offset;
+    const down = start - offset;
+    const upOk = upper === undefined || up <= upper;
+    const downOk = lower === undefined || down >= lower;
+    if (!upOk && !downOk) return;
+    if (upOk) yield up;
+    if (downOk) yield down;
+  }
+}
+
+function substitute(
+  inequalities: Inequality[],
+  name: string,
+  value: bigint
+): Inequality[] | undefined {
+  return simplify(
+    inequalities.map(({ coefficients, bound }) => {
+      const c = coefficients.get(name);
+      if (c === undefined) return { coefficients, bound };
+      const rest = new Map(coefficients);
+      rest.delete(name);
+      return { coefficients: rest, bound: bound - c * value };
+    })
+  );
+}
+
+/** Branch on the variable with the narrowest range. */
+function pickBranch(
+  inequalities: Inequality[],
+  variables: string[],
+  budget: Budget
+): { name: string; range: Range } | 'unsat' {
+  let best: { name: string; range: Range; size?: bigint } | undefined;
+  for (const name of variables) {
+    const range = rangeOf(inequalities, variables, name, budget);
+    if (!range) return 'unsat';
+    const size = rangeSize(range);
+    const better =
+      !best ||
+      (size !== undefined && (best.size === undefined || size < best.size));
+    if (better) best = { name, range, size };
+  }
+  return best!;
+}
+
+function search(
+  inequalities: Inequality[],
+  variables: string[],
+  budget: Budget
+): SearchResult {
+  if (variables.length === 0) return { outcome: 'sat', model: {} };
+  const branch = pickBranch(inequalities, variables, budget);
+  if (branch === 'unsat') return 'unsat';
+
+  const remaining = variables.filter((name) => name !== branch.name);
+  for (const value of candidates(branch.range)) {
+    spend(budget);
+    const next = substitute(inequalities, branch.name, value);
+    if (!next) continue;
+    const result = search(next, remaining, budget);
+    if (result !== 'unsat') {
+      result.model[branch.name] = Number(value);
+      return result;
+    }
+  }
+  return 'unsat';
+}
+
+/**
+ * Decide a QF_LIA problem exactly (all variables range over the integers):
+ * constraints are scaled to integer coefficients, Fourier–Motzkin projection
+ * bounds each variable, and branch-and-bound enumerates the narrowest range
+ * first. Infeasible relaxations and exhausted finite ranges prove 'unsat';
+ * running out of budget (e.g. on unbounded variables) answers 'unknown'.
+ */
+export function solveQfLia(
+  problem: QfLiaProblem,
+  options: QfLiaSolveOptions = {}
+): LocalSmtResult {
+  const budget: Budget = {
+    remaining: options.maxSteps ?? DEFAULT_QF_LIA_MAX_STEPS,
+  };
+  const inequalities = simplify(problem.constraints.flatMap(toInequalities));
+  if (!inequalities) return { outcome: 'unsat' };
+
+  const variables = new Set<string>();
+  for (const constraint of problem.constraints) {
+    for (const term of [constraint.left, constraint.right]) {
+      Object.keys(term.coefficients).forEach((name) => variables.add(name));
+    }
+  }
+  const sorted = Array.from(variables).sort();
+  try {
+    const result = search(inequalities, sorted, budget);
+    if (result === 'unsat') return { outcome: 'unsat' };
+    // Variables whose coefficients cancelled out are unconstrained.
+    for (const name of sorted) result.model[name] ??= 0;
+    return result;
+  } catch (error) {
+    if (error instanceof BudgetExhausted) return { outcome: 'unknown' };
+    throw error;
+  }
+}
+
+/** Built-in LocalSmtSolver backend running solveQfLia in-process. */
+export function createQfLiaBackend(
+  options: QfLiaSolveOptions = {}
+): LocalSmtBackend {
+  return {
+    solveQfLia: async (problem) => solveQfLia(problem, options),
+  };
+}
@@ -1,3 +1,5 @@
+import { createQfLiaBackend } from './qf-lia.js';
+
 export type QfLiaComparisonOp = '<=' | '<' | '>=' | '>' | '=';
 
 export interface QfLiaLinearTerm {
@@ -34,6 +36,7 @@ export interface LocalSmtBackend {
 export interface LocalSmtConfig {
   enableLocalSMT: boolean;
   solverTimeoutMs: number;
+  /** Defaults to the built-in exact QF_LIA backend (createQfLiaBackend). */
   backendFactory?: () => Promise<LocalSmtBackend>;
 }
 
@@ -60,13 +63,14 @@ const TIMEOUT_SENTINEL: unique symbol = Symbol('local-smt-timeout');
 export class LocalSmtSolver {
   private readonly enableLocalSMT: boolean;
   private readonly solverTimeoutMs: number;
-  private readonly backendFactory?: () => Promise<LocalSmtBackend>;
+  private readonly backendFactory: () => Promise<LocalSmtBackend>;
   private backendPromise?: Promise<LocalSmtBackend>;
 
   constructor(config: LocalSmtConfig) {
     this.enableLocalSMT = config.enableLocalSMT;
     this.solverTimeoutMs = config.solverTimeoutMs;
-    this.backendFactory = config.backendFactory;
+    this.backendFactory =
+      config.backendFactory ?? (async () => createQfLiaBackend());
   }
 
   get enabled(): boolean {
@@ -78,9 +82,6 @@ export class LocalSmtSolver {
   }
 
   private async loadBackend(): Promise<LocalSmtBackend | undefined> {
-    if (!this.backendFactory) {
-      return undefined;
-    }
     if (!this.backendPromise) {
       this.backendPromise = this.backendFactory();
     }
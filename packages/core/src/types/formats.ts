@@ -0,0 +1,34 @@
+/**
+ * Custom format definitions shared by generation and AJV validation.
+ */
+
+/**
+ * Seeded context handed to a custom format generator. The RNG is scoped to
+ * the format name and call index, so outputs stay reproducible per seed.
+ */
+export interface CustomFormatContext {
+  rng: {
+    /** Next uint32 value */
+    next(): number;
+    /** Next float in [0, 1) */
+    nextFloat01(): number;
+  };
+  /** Zero-based call index for this format within the generator run */
+  index: number;
+  seed: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+/**
+ * A named format. `generate` produces values for the generator; `validate`
+ * is registered on the Source and planning AJV instances via addFormat.
+ * When `validate` is omitted the format is accepted as annotation-only.
+ */
+export interface CustomFormatDefinition {
+  generate(context: CustomFormatContext): string;
+  validate?: RegExp | ((value: string) => boolean);
+}
+
+/** Custom formats keyed by format name (as used in `format` keywords). */
+export type CustomFormats = Record<string, CustomFormatDefinition>;
@@ -5,3 +5,4 @@
 export * from './schema.js';
 export * from './errors.js';
 export * from './options.js';
+export * from './formats.js';
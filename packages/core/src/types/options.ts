@@ -69,6 +69,11 @@ export interface CacheOptions {
   hashIfBytesLt?: number;
   /** LRU cache size for compiled validators (default: 64) */
   lruSize?: number;
+  /**
+   * Persist normalize/compose results and coverage target lists under
+   * `<resolver.cacheDir>/plans` so later runs can skip planning (default: false)
+   */
+  persistent?: boolean;
 }
 
 /**
@@ -231,11 +236,15 @@ export interface PlanOptions {
   complexity?: ComplexityOptions;
 
   /**
-   * Enable experimental local SMT reasoning for arrays/numbers (default: false)
+   * Decide numeric bounds/multipleOf, contains cardinalities and property
+   * counts with the built-in exact QF_LIA solver during Compose instead of
+   * the sound-rule heuristics (default: false)
    */
   enableLocalSMT?: boolean;
   /**
-   * Timeout budget in milliseconds for local SMT calls (default: 25)
+   * Timeout budget in milliseconds for LocalSmtSolver calls (default: 25).
+   * Compose runs the built-in backend synchronously on a step budget derived
+   * from it (QF_LIA_STEPS_PER_MS steps per millisecond).
    */
   solverTimeoutMs?: number;
 
@@ -268,9 +277,20 @@ export interface PlanOptions {
   /** External $ref resolver (Extension R1) */
   resolver?: {
     /** Resolution strategies. Default: ['local'] */
-    strategies?: Array<'local' | 'remote' | 'schemastore'>;
+    strategies?: Array<'local' | 'remote' | 'schemastore' | 'mapping'>;
     /** Local on-disk cache directory. Default: "~/.foundrydata/cache" */
     cacheDir?: string;
+    /**
+     * URI prefix -> local directory rewrites for the 'mapping' strategy,
+     * e.g. { "https://schemas.acme.io/": "./shared-schemas/" }. Relative
+     * directories resolve against the working directory. Default: {}.
+     */
+    uriMappings?: Record<string, string>;
+    /**
+     * Glob patterns (`**`, `*`, `?`, `{a,b}`) of JSON/YAML schema files
+     * indexed by their absolute `$id` for the 'mapping' strategy. Default: [].
+     */
+    preload?: string[];
     /**
      * Optional curated snapshot file containing pre-fetched registry entries.
      * When provided, remote fetch is disabled and the snapshot is used instead.
@@ -369,6 +389,7 @@ export const DEFAULT_OPTIONS: ResolvedOptions = {
     useId: true,
     hashIfBytesLt: 1_000_000,
     lruSize: 64,
+    persistent: false,
   },
 
   metrics: true,
@@ -422,6 +443,8 @@ export const DEFAULT_OPTIONS: ResolvedOptions = {
   resolver: {
     strategies: ['local'],
     cacheDir: pathForDefaultCacheDir(),
+    uriMappings: {},
+    preload: [],
     snapshotPath: '',
     stubUnresolved: 'none',
     maxDocs: 64,
@@ -710,6 +733,16 @@ function validateOptions(options: ResolvedOptions): void {
   if (r.snapshotPath !== undefined && typeof r.snapshotPath !== 'string') {
     throw new Error('resolver.snapshotPath must be a string when provided');
   }
+  if (
+    !r.uriMappings ||
+    typeof r.uriMappings !== 'object' ||
+    Object.values(r.uriMappings).some((dir) => typeof dir !== 'string')
+  ) {
+    throw new Error('resolver.uriMappings must map URI prefixes to paths');
+  }
+  if (!Array.isArray(r.preload)) {
+    throw new Error('resolver.preload must be an array of glob patterns');
+  }
 }
 
 // Utility to provide default cache dir without importing os at module top for SSR friendliness
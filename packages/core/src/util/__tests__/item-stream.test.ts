@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+
+import { createItemStream } from '../item-stream';
+
+describe('createItemStream', () => {
+  it('holds the producer until the consumer drains below the high-water mark', async () => {
+    const stream = createItemStream<number>(2);
+    let released = false;
+    const pushed = stream.push([1, 2, 3, 4]).then(() => {
+      released = true;
+    });
+    await Promise.resolve();
+    expect(released).toBe(false);
+
+    const iterator = stream.iterate();
+    expect((await iterator.next()).value).toBe(1);
+    expect((await iterator.next()).value).toBe(2);
+    await pushed;
+    expect(released).toBe(true);
+
+    stream.close();
+    const rest: number[] = [];
+    for await (const value of iterator) rest.push(value);
+    expect(rest).toEqual([3, 4]);
+  });
+
+  it('yields buffered items before surfacing a producer failure', async () => {
+    const stream = createItemStream<string>(8);
+    await stream.push(['a']);
+    stream.fail(new Error('boom'));
+
+    const seen: string[] = [];
+    await expect(
+      (async () => {
+        for await (const value of stream.iterate()) seen.push(value);
+      })()
+    ).rejects.toThrow('boom');
+    expect(seen).toEqual(['a']);
+  });
+
+  it('aborts the signal and releases the producer when the consumer stops', async () => {
+    const stream = createItemStream<number>(0);
+    const pushed = stream.push([1, 2, 3]);
+    for await (const value of stream.iterate()) {
+      expect(value).toBe(1);
+      break;
+    }
+    await pushed;
+    expect(stream.signal.aborted).toBe(true);
+  });
+});
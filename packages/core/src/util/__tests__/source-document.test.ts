@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+
+import { ParseError, SchemaError } from '../../types/errors.js';
+import { ErrorPresenter } from '../../errors/presenter.js';
+import { parseJsonWithPositions } from '../positioned-json.js';
+import {
+  SOURCE_FILE_PATTERN,
+  detectSourceFormat,
+  parseSourceDocument,
+} from '../source-document.js';
+
+describe('parseJsonWithPositions', () => {
+  it('matches JSON.parse on strict JSON', () => {
+    const text =
+      '{"a": [1, -2.5e3, true, null], "b": {"c": "x\\u0041\\n"}, "__proto__": 1}';
+    const { value } = parseJsonWithPositions(text);
+    expect(value).toEqual(JSON.parse(text));
+    expect(Object.keys(value as object)).toContain('__proto__');
+  });
+
+  it('records key positions for members and value positions for items', () => {
+    const { positions } = parseJsonWithPositions(
+      '{\n  "a/b": {\n    "c": [10,\n      20]\n  }\n}'
+    );
+    expect(positions.get('')).toEqual({ line: 1, column: 1 });
+    expect(positions.get('/a~1b')).toEqual({ line: 2, column: 3 });
+    expect(positions.get('/a~1b/c')).toEqual({ line: 3, column: 5 });
+    expect(positions.get('/a~1b/c/1')).toEqual({ line: 4, column: 7 });
+  });
+
+  it.each([
+    ['{"a": 1,}'],
+    ["{'a': 1}"],
+    ['{a: 1}'],
+    ['// c\n{}'],
+    ['[0x10]'],
+    ['[01]'],
+    ['{} {}'],
+  ])('rejects non-JSON input %j in strict mode', (text) => {
+    expect(() => parseJsonWithPositions(text)).toThrow(ParseError);
+  });
+
+  it('accepts JSON5 extensions', () => {
+    const { value } = parseJsonWithPositions(
+      [
+        '// comment',
+        '{',
+        "  unquoted: 'single',",
+        '  /* block */ hex: 0x1F,',
+        '  lead: .5, plus: +1, inf: -Infinity,',
+        '  list: [1, 2,],',
+        "  cont: 'a\\",
+        "b',",
+        '}',
+      ].join('\n'),
+      { json5: true }
+    );
+    expect(value).toEqual({
+      unquoted: 'single',
+      hex: 31,
+      lead: 0.5,
+      plus: 1,
+      inf: -Infinity,
+      list: [1, 2],
+      cont: 'ab',
+    });
+  });
+
+  it('reports line and column of syntax errors', () => {
+    try {
+      parseJsonWithPositions('{\n  "a": tru\n}', { input: 'schema.json' });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParseError);
+      expect((error as ParseError).context).toMatchObject({
+        input: 'schema.json',
+        line: 2,
+        column: 8,
+      });
+    }
+  });
+});
+
+describe('SourceDocument', () => {
+  it('detects formats from file extensions', () => {
+    expect(detectSourceFormat('a/schema.JSON5')).toBe('json5');
+    expect(detectSourceFormat('spec.yml')).toBe('yaml');
+    expect(detectSourceFormat('schema')).toBe('json');
+    expect(SOURCE_FILE_PATTERN.test('x.yaml')).toBe(true);
+    expect(SOURCE_FILE_PATTERN.test('x.txt')).toBe(false);
+  });
+
+  it('locates YAML nodes and falls back to the nearest ancestor', () => {
+    const doc = parseSourceDocument(
+      [
+        'type: object',
+        'properties:',
+        '  name:',
+        '    type: string',
+        '  tags:',
+        '    - first',
+        '    - second',
+      ].join('\n'),
+      'yaml',
+      'schema.yaml'
+    );
+    expect(doc.value).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        tags: ['first', 'second'],
+      },
+    });
+    expect(doc.locate('#/properties/name')).toEqual({ line: 3, column: 3 });
+    expect(doc.locate('/properties/tags/1')).toEqual({ line: 7, column: 7 });
+    expect(doc.describe('#/properties/name/minLength')).toBe('schema.yaml:3:3');
+  });
+
+  it('raises ParseError with position for invalid YAML', () => {
+    expect(() =>
+      parseSourceDocument('a: [1, 2\nb: 3\n', 'yaml', 'bad.yaml')
+    ).toThrow(ParseError);
+  });
+
+  it('lets ErrorPresenter append the source location to schemaPath', () => {
+    const source = parseSourceDocument(
+      '{\n  "properties": {\n    "a": {"minimum": 5, "maximum": 1}\n  }\n}',
+      'json',
+      'schema.json'
+    );
+    const presenter = new ErrorPresenter('dev', { colors: false, source });
+    const view = presenter.formatForCLI(
+      new SchemaError({
+        message: 'bad bounds',
+        context: { schemaPath: '#/properties/a/maximum' },
+      })
+    );
+    expect(view.location).toBe(
+      'Location: #/properties/a/maximum (schema.json:3:25)'
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import type Ajv from 'ajv';
+import { _, type KeywordCxt } from 'ajv';
+
+import { decodeContentPayload, isSupportedContent } from './content-codec.js';
+
+type AjvWithContentMarker = Ajv & { __fd_contentSchema?: boolean };
+
+function readToken(
+  schema: Record<string, unknown>,
+  key: string
+): string | undefined {
+  const value = schema[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Replace AJV's annotation-only `contentSchema` with an assertion: string
+ * instances are decoded per `contentEncoding`, parsed per
+ * `contentMediaType` and validated against `contentSchema`. As the spec
+ * requires, `contentSchema` is ignored without `contentMediaType`; schemas
+ * with an unsupported media type or encoding are not checked either.
+ */
+export function registerContentSchemaKeyword(ajv: Ajv): void {
+  ajv.removeKeyword('contentSchema');
+  ajv.addKeyword({
+    keyword: 'contentSchema',
+    type: 'string',
+    schemaType: ['object', 'boolean'],
+    error: { message: 'must contain a payload valid against contentSchema' },
+    code(cxt: KeywordCxt) {
+      const { gen, data, parentSchema } = cxt;
+      const mediaType = readToken(parentSchema, 'contentMediaType');
+      const encoding = readToken(parentSchema, 'contentEncoding');
+      if (mediaType === undefined || !isSupportedContent(mediaType, encoding)) {
+        return;
+      }
+      const decode = gen.scopeValue('func', {
+        ref: (text: string) => decodeContentPayload(text, mediaType, encoding),
+      });
+      const payload = gen.const('payload', _`${decode}(${data})`);
+      const valid = gen.var('valid', false);
+      gen.if(_`${payload} !== undefined`, () => {
+        cxt.subschema(
+          {
+            keyword: 'contentSchema',
+            data: _`${payload}.value`,
+            compositeRule: true,
+            createErrors: false,
+            allErrors: false,
+          },
+          valid
+        );
+      });
+      cxt.pass(valid);
+    },
+  });
+  (ajv as AjvWithContentMarker).__fd_contentSchema = true;
+}
+
+/** True when registerContentSchemaKeyword ran on this instance. */
+export function hasContentSchemaKeyword(ajv: Ajv): boolean {
+  return (ajv as AjvWithContentMarker).__fd_contentSchema === true;
+}
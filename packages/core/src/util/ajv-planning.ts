@@ -3,13 +3,16 @@ import Ajv2020 from 'ajv/dist/2020.js';
 import addFormats from 'ajv-formats';
 
 import { resolveOptions, type PlanOptions } from '../types/options.js';
-import { extractAjvFlags } from './ajv-source.js';
+import { extractAjvFlags, registerCustomFormats } from './ajv-source.js';
+import type { CustomFormats } from '../types/formats.js';
 
 export interface PlanningAjvFactoryOptions {
   validateFormats?: boolean;
   allowUnionTypes?: boolean; // enable when compiling union-typed canonical views
   discriminator?: boolean;
   multipleOfPrecision?: number;
+  /** Caller-registered formats, mirrored from the Source AJV */
+  formats?: CustomFormats;
 }
 
 /**
@@ -49,6 +52,7 @@ export function createPlanningAjv(
     addFormats(ajv as unknown as Ajv);
     ajv.__fd_formatsPlugin = true;
   }
+  registerCustomFormats(ajv as unknown as Ajv, options.formats);
   ajv.__fd_ajvClass = 'Ajv2020';
   return ajv as unknown as Ajv;
 }
@@ -74,6 +78,7 @@ export function clonePlanningAjvWith(
   } as AjvOptions;
   type AjvWithMarkers = Ajv & {
     __fd_formatsPlugin?: boolean;
+    __fd_customFormats?: CustomFormats;
     __fd_ajvClass?: string;
   };
   const ajv = new Ajv2020(flags) as unknown as AjvWithMarkers;
@@ -81,6 +86,10 @@ export function clonePlanningAjvWith(
     addFormats(ajv as unknown as Ajv);
     ajv.__fd_formatsPlugin = true;
   }
+  registerCustomFormats(
+    ajv as unknown as Ajv,
+    (source as AjvWithMarkers).__fd_customFormats
+  );
   ajv.__fd_ajvClass = 'Ajv2020';
   return ajv as unknown as Ajv;
 }
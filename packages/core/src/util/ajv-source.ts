@@ -19,6 +19,8 @@ import {
   getDialectMetaSynonyms,
   type Dialect,
 } from '../dialect/detectDialect.js';
+import type { CustomFormats } from '../types/formats.js';
+import { registerContentSchemaKeyword } from './ajv-content.js';
 
 export type JsonSchemaDialect =
   | 'draft-04'
@@ -51,6 +53,10 @@ export interface SourceAjvFactoryOptions {
   discriminator?: boolean;
   tolerateInvalidPatterns?: boolean;
   onInvalidPatternDraft06?: (info: { pattern: string }) => void;
+  /** Caller-registered formats added via addFormat (see registerCustomFormats) */
+  formats?: CustomFormats;
+  /** Assert contentSchema on decoded string content (see registerContentSchemaKeyword) */
+  validateContent?: boolean;
 }
 
 /**
@@ -59,6 +65,7 @@ export interface SourceAjvFactoryOptions {
  */
 type AjvWithMarkers = Ajv & {
   __fd_formatsPlugin?: boolean;
+  __fd_customFormats?: CustomFormats;
   __fd_ajvClass?:
     | 'Ajv'
     | 'Ajv2019'
@@ -106,6 +113,8 @@ export function createSourceAjv(
     // mark formats plugin presence for parity checks
     ajv.__fd_formatsPlugin = true;
   }
+  registerCustomFormats(ajv, options.formats);
+  if (options.validateContent) registerContentSchemaKeyword(ajv);
 
   // Attach a stable marker with the chosen class/dialect for parity checks
   ajv.__fd_ajvClass = getAjvClassLabel(options.dialect);
@@ -137,10 +146,46 @@ export function createRepairOnlyValidatorAjv(
     addFormats(ajv2);
     (ajv2 as AjvWithMarkers).__fd_formatsPlugin = true;
   }
+  registerCustomFormats(ajv2, options.formats);
+  if (options.validateContent) registerContentSchemaKeyword(ajv2);
   (ajv2 as AjvWithMarkers).__fd_ajvClass = getAjvClassLabel(dialect);
   return ajv2;
 }
 
+/**
+ * Register caller-provided formats on an AJV instance. Formats without a
+ * validator are added as always-valid so strict compiles accept them.
+ * The map is kept on the instance so clones can re-register it.
+ */
+export function registerCustomFormats(
+  ajv: Ajv,
+  formats: CustomFormats | undefined
+): void {
+  if (!formats) return;
+  for (const name of Object.keys(formats).sort()) {
+    const definition = formats[name];
+    if (!definition) continue;
+    ajv.addFormat(name, definition.validate ?? true);
+  }
+  (ajv as AjvWithMarkers).__fd_customFormats = formats;
+}
+
+/**
+ * Stable fingerprint of the custom formats registered on an AJV instance
+ * (names plus validator source), or undefined when none are registered.
+ * Validator caches include it so runs with different format sets never
+ * share compiled validators.
+ */
+export function getCustomFormatsFingerprint(ajv: Ajv): string | undefined {
+  const formats = (ajv as AjvWithMarkers).__fd_customFormats;
+  if (!formats) return undefined;
+  const names = Object.keys(formats).sort();
+  if (names.length === 0) return undefined;
+  return names
+    .map((name) => `${name}=${String(formats[name]?.validate ?? true)}`)
+    .join('|');
+}
+
 function createAjvByDialect(
   dialect: JsonSchemaDialect,
   flags: AjvOptions,
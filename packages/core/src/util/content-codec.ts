@@ -0,0 +1,194 @@
+/**
+ * Serialization and transfer encodings for string-encoded content
+ * (`contentMediaType` / `contentEncoding`, JSON Schema validation §8).
+ *
+ * The generator uses the encode side to embed a `contentSchema` instance in
+ * a string; the optional Source AJV `contentSchema` keyword uses the decode
+ * side to check it. Unsupported media types and encodings yield undefined so
+ * callers can fall back to plain strings.
+ */
+
+type ContentEncoding = 'base64' | 'base64url' | 'quoted-printable';
+
+/** Encodings that leave the text as-is (RFC 2045 identity encodings). */
+const IDENTITY_ENCODINGS = new Set(['7bit', '8bit', 'binary']);
+
+const BASE64 =
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+const BASE64URL = /^[A-Za-z0-9_-]*$/;
+
+/** RFC 2045 §6.7 rule 5: encoded lines are at most 76 characters. */
+const QP_LINE_LENGTH = 76;
+
+function normalizeToken(value: string | undefined): string | undefined {
+  return value === undefined ? undefined : value.trim().toLowerCase();
+}
+
+/** Media type without parameters, lower-cased. */
+function essence(mediaType: string): string {
+  return (mediaType.split(';')[0] ?? '').trim().toLowerCase();
+}
+
+type MediaKind = 'json' | 'text';
+
+/**
+ * How a media type is serialized: JSON for `application/json` and `+json`
+ * types, text for `text/*` and for strings without a media type.
+ */
+function mediaKind(mediaType: string | undefined): MediaKind | undefined {
+  if (mediaType === undefined) return 'text';
+  const type = essence(mediaType);
+  if (type === 'application/json' || type.endsWith('+json')) return 'json';
+  return type.startsWith('text/') ? 'text' : undefined;
+}
+
+/** Serialize `value` per `mediaType`; text media types take scalars only. */
+export function serializeContent(
+  value: unknown,
+  mediaType: string | undefined
+): string | undefined {
+  const kind = mediaKind(mediaType);
+  if (kind === 'json') return JSON.stringify(value);
+  if (kind === undefined) return undefined;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return undefined;
+}
+
+/** Inverse of serializeContent; undefined when the text does not parse. */
+export function parseContent(
+  text: string,
+  mediaType: string | undefined
+): { value: unknown } | undefined {
+  const kind = mediaKind(mediaType);
+  if (kind === 'text') return { value: text };
+  if (kind === undefined) return undefined;
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+function isSafeQuotedPrintableByte(byte: number): boolean {
+  // Printable ASCII except '=' (RFC 2045 §6.7 rule 2). Spaces and line
+  // breaks are always escaped, which keeps encoded lines free of trailing
+  // whitespace.
+  return byte >= 33 && byte <= 126 && byte !== 61;
+}
+
+function encodeQuotedPrintable(text: string): string {
+  let out = '';
+  let line = '';
+  for (const byte of Buffer.from(text, 'utf8')) {
+    const token = isSafeQuotedPrintableByte(byte)
+      ? String.fromCharCode(byte)
+      : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+    // Leave room for the '=' of a soft line break.
+    if (line.length + token.length > QP_LINE_LENGTH - 1) {
+      out += `${line}=\r\n`;
+      line = '';
+    }
+    line += token;
+  }
+  return out + line;
+}
+
+function decodeQuotedPrintable(encoded: string): string | undefined {
+  const body = encoded.replace(/=\r?\n/g, '');
+  if (/=(?![0-9A-Fa-f]{2})/.test(body)) return undefined;
+  const bytes: number[] = [];
+  for (let i = 0; i < body.length; i += 1) {
+    if (body[i] === '=') {
+      bytes.push(Number.parseInt(body.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(body.charCodeAt(i));
+    }
+  }
+  return Buffer.from(bytes).toString('utf8');
+}
+
+function asContentEncoding(
+  encoding: string | undefined
+): ContentEncoding | 'identity' | undefined {
+  const token = normalizeToken(encoding);
+  if (token === undefined || IDENTITY_ENCODINGS.has(token)) return 'identity';
+  if (
+    token === 'base64' ||
+    token === 'base64url' ||
+    token === 'quoted-printable'
+  ) {
+    return token;
+  }
+  return undefined;
+}
+
+/** Apply `encoding` to UTF-8 `text`; undefined for unsupported encodings. */
+export function encodeContent(
+  text: string,
+  encoding: string | undefined
+): string | undefined {
+  switch (asContentEncoding(encoding)) {
+    case 'identity':
+      return text;
+    case 'base64':
+      return Buffer.from(text, 'utf8').toString('base64');
+    case 'base64url':
+      return Buffer.from(text, 'utf8').toString('base64url');
+    case 'quoted-printable':
+      return encodeQuotedPrintable(text);
+    default:
+      return undefined;
+  }
+}
+
+/** Inverse of encodeContent; undefined when `encoded` is malformed. */
+export function decodeContent(
+  encoded: string,
+  encoding: string | undefined
+): string | undefined {
+  switch (asContentEncoding(encoding)) {
+    case 'identity':
+      return encoded;
+    case 'base64':
+      return BASE64.test(encoded)
+        ? Buffer.from(encoded, 'base64').toString('utf8')
+        : undefined;
+    case 'base64url':
+      return BASE64URL.test(encoded) && encoded.length % 4 !== 1
+        ? Buffer.from(encoded, 'base64url').toString('utf8')
+        : undefined;
+    case 'quoted-printable':
+      return decodeQuotedPrintable(encoded);
+    default:
+      return undefined;
+  }
+}
+
+/** True when both the media type and the encoding are supported. */
+export function isSupportedContent(
+  mediaType: string | undefined,
+  encoding: string | undefined
+): boolean {
+  return (
+    mediaKind(mediaType) !== undefined &&
+    asContentEncoding(encoding) !== undefined
+  );
+}
+
+/**
+ * Decode and parse a content string. Returns the embedded value, or
+ * undefined when the encoding or media type is unsupported or the string
+ * does not decode.
+ */
+export function decodeContentPayload(
+  data: string,
+  mediaType: string | undefined,
+  encoding: string | undefined
+): { value: unknown } | undefined {
+  const text = decodeContent(data, encoding);
+  return text === undefined ? undefined : parseContent(text, mediaType);
+}
@@ -0,0 +1,38 @@
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^$()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Supports `**`, `*`, `?` and `{a,b}` over `/`-separated paths (relative
+ * file paths, JSON Pointers).
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i += 1) {
+    const ch = glob[i]!;
+    if (ch === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '{') {
+      const end = glob.indexOf('}', i);
+      if (end < 0) {
+        source += '\\{';
+        continue;
+      }
+      const options = glob
+        .slice(i + 1, end)
+        .split(',')
+        .map(escapeRegExp);
+      source += `(?:${options.join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
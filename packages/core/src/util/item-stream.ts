@@ -0,0 +1,117 @@
+/* global AbortController, AbortSignal */
+/**
+ * Single-consumer async buffer between a producer that pushes chunks of
+ * items and an async iterator. `push()` resolves once the buffer has drained
+ * to `highWaterMark`, so a slow consumer throttles the producer. When the
+ * consumer stops early (break/return/throw), `signal` is aborted and pending
+ * pushes resolve immediately.
+ */
+export interface ItemStream<T> {
+  readonly signal: AbortSignal;
+  push(items: readonly T[]): Promise<void>;
+  /** Producer finished; the iterator ends once the buffer is drained. */
+  close(): void;
+  /** Producer failed; the iterator throws after draining buffered items. */
+  fail(error: unknown): void;
+  /**
+   * Drop backpressure: pending and later pushes resolve at once and items
+   * stay buffered until the iterator (if any) reads them.
+   */
+  release(): void;
+  iterate(): AsyncIterableIterator<T>;
+}
+
+export function createItemStream<T>(highWaterMark: number): ItemStream<T> {
+  return new BufferedItemStream<T>(highWaterMark);
+}
+
+class BufferedItemStream<T> implements ItemStream<T> {
+  private limit: number;
+  private readonly controller = new AbortController();
+  private buffer: T[] = [];
+  private head = 0;
+  private closed = false;
+  private failure?: { error: unknown };
+  private wakeConsumer?: () => void;
+  private wakeProducer?: () => void;
+
+  constructor(highWaterMark: number) {
+    this.limit = Math.max(0, Math.floor(highWaterMark));
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  async push(items: readonly T[]): Promise<void> {
+    if (this.signal.aborted) return;
+    for (const item of items) this.buffer.push(item);
+    this.notifyConsumer();
+    while (this.pending() > this.limit && !this.signal.aborted) {
+      await new Promise<void>((resolve) => {
+        this.wakeProducer = resolve;
+      });
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.notifyConsumer();
+  }
+
+  fail(error: unknown): void {
+    this.failure = { error };
+    this.notifyConsumer();
+  }
+
+  release(): void {
+    this.limit = Number.POSITIVE_INFINITY;
+    this.notifyProducer();
+  }
+
+  async *iterate(): AsyncIterableIterator<T> {
+    try {
+      for (;;) {
+        if (this.pending() > 0) {
+          yield this.take();
+          continue;
+        }
+        if (this.failure) throw this.failure.error;
+        if (this.closed) return;
+        await new Promise<void>((resolve) => {
+          this.wakeConsumer = resolve;
+        });
+      }
+    } finally {
+      this.controller.abort();
+      this.notifyProducer();
+    }
+  }
+
+  private pending(): number {
+    return this.buffer.length - this.head;
+  }
+
+  private take(): T {
+    const item = this.buffer[this.head] as T;
+    this.head += 1;
+    if (this.head === this.buffer.length) {
+      this.buffer = [];
+      this.head = 0;
+    }
+    if (this.pending() <= this.limit) this.notifyProducer();
+    return item;
+  }
+
+  private notifyConsumer(): void {
+    const wake = this.wakeConsumer;
+    this.wakeConsumer = undefined;
+    wake?.();
+  }
+
+  private notifyProducer(): void {
+    const wake = this.wakeProducer;
+    this.wakeProducer = undefined;
+    wake?.();
+  }
+}
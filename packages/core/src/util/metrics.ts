@@ -1,3 +1,4 @@
+/* eslint-disable max-lines */
 import { performance } from 'node:perf_hooks';
 
 import type { RepairUsageByMotif } from './repair-usage-metrics';
@@ -58,6 +59,9 @@ export interface MetricsSnapshot {
   nameEnumElapsedMs?: number;
   patternPropsHit?: number;
   presencePressureResolved?: number;
+  /** Persistent plan cache lookups (PlanOptions.cache.persistent). */
+  planCacheHits?: number;
+  planCacheMisses?: number;
   repairUsageByMotif?: RepairUsageByMotif[];
 }
 
@@ -297,6 +301,17 @@ export class MetricsCollector {
       (this.snapshot.presencePressureResolved ?? 0) + 1;
   }
 
+  public recordPlanCacheLookup(hit: boolean): void {
+    if (!this.enabled) {
+      return;
+    }
+    if (hit) {
+      this.snapshot.planCacheHits = (this.snapshot.planCacheHits ?? 0) + 1;
+    } else {
+      this.snapshot.planCacheMisses = (this.snapshot.planCacheMisses ?? 0) + 1;
+    }
+  }
+
   public recordRepairUsageEvent(event: {
     motifId: string;
     gValid: boolean;
@@ -41,7 +41,8 @@ export interface ExternalRefSummary {
 }
 
 const ABSOLUTE_URI_PATTERN = /^[a-zA-Z][a-zA-Z0-9+.-]*:/;
-const SYNTHETIC_ROOT_BASE = 'json-schema://fd.internal/root';
+// Base URI for relative refs when the root declares no absolute $id.
+export const SYNTHETIC_ROOT_BASE = 'json-schema://fd.internal/root';
 
 export function classifyExternalRefFailure(
   options: ExternalRefFailureAnalysisOptions
@@ -0,0 +1,309 @@
+/* eslint-disable complexity */
+import { ParseError } from '../types/errors.js';
+
+/** 1-based line and column (UTF-16 code units) of a value in its source. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface PositionedParseResult {
+  value: unknown;
+  /**
+   * JSON Pointer ('' for the root) -> position. Object members point at
+   * their key, array items and the root at the value itself.
+   */
+  positions: Map<string, SourcePosition>;
+}
+
+const STRICT_NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const JSON5_NUMBER =
+  /[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/y;
+const JSON5_IDENTIFIER = /[\p{ID_Start}$_][\p{ID_Continue}$\u200c\u200d]*/uy;
+const JSON5_WHITESPACE = /[\t\n\v\f\r\u00a0\u2028\u2029\ufeff\p{Zs}]/u;
+
+const SIMPLE_ESCAPES: Readonly<Record<string, string>> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const JSON5_ESCAPES: Readonly<Record<string, string>> = {
+  ...SIMPLE_ESCAPES,
+  "'": "'",
+  v: '\v',
+  '0': '\0',
+};
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Recursive-descent parser for JSON and JSON5 that records where every
+ * value starts. With `json5: false` it accepts exactly RFC 8259 JSON.
+ */
+class PositionedJsonParser {
+  private index = 0;
+  private line = 1;
+  private column = 1;
+  readonly positions = new Map<string, SourcePosition>();
+
+  constructor(
+    private readonly text: string,
+    private readonly json5: boolean,
+    private readonly input?: string
+  ) {}
+
+  parseDocument(): unknown {
+    this.skipTrivia();
+    const value = this.parseValue('');
+    this.skipTrivia();
+    if (this.index < this.text.length) {
+      this.fail('Unexpected content after the document');
+    }
+    return value;
+  }
+
+  private get current(): string | undefined {
+    return this.text[this.index];
+  }
+
+  private position(): SourcePosition {
+    return { line: this.line, column: this.column };
+  }
+
+  private advance(count = 1): void {
+    for (let i = 0; i < count && this.index < this.text.length; i += 1) {
+      if (this.text[this.index] === '\n') {
+        this.line += 1;
+        this.column = 1;
+      } else {
+        this.column += 1;
+      }
+      this.index += 1;
+    }
+  }
+
+  private fail(message: string): never {
+    throw new ParseError({
+      message: `${message} at line ${this.line}, column ${this.column}`,
+      context: {
+        input: this.input,
+        position: this.index,
+        line: this.line,
+        column: this.column,
+      },
+    });
+  }
+
+  private unexpected(): never {
+    const ch = this.current;
+    return this.fail(
+      ch === undefined
+        ? 'Unexpected end of input'
+        : `Unexpected character ${JSON.stringify(ch)}`
+    );
+  }
+
+  private expect(ch: string): void {
+    if (this.current !== ch) this.unexpected();
+    this.advance();
+  }
+
+  private skipTrivia(): void {
+    while (this.index < this.text.length) {
+      const ch = this.text[this.index]!;
+      if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') {
+        this.advance();
+      } else if (this.json5 && JSON5_WHITESPACE.test(ch)) {
+        this.advance();
+      } else if (this.json5 && this.text.startsWith('//', this.index)) {
+        while (this.index < this.text.length && this.current !== '\n') {
+          this.advance();
+        }
+      } else if (this.json5 && this.text.startsWith('/*', this.index)) {
+        const end = this.text.indexOf('*/', this.index + 2);
+        if (end < 0) this.fail('Unterminated block comment');
+        this.advance(end + 2 - this.index);
+      } else {
+        return;
+      }
+    }
+  }
+
+  private parseValue(pointer: string): unknown {
+    if (!this.positions.has(pointer)) {
+      this.positions.set(pointer, this.position());
+    }
+    const ch = this.current;
+    if (ch === '{') return this.parseObject(pointer);
+    if (ch === '[') return this.parseArray(pointer);
+    if (ch === '"' || (this.json5 && ch === "'")) return this.parseString();
+    for (const [literal, value] of [
+      ['true', true],
+      ['false', false],
+      ['null', null],
+    ] as const) {
+      if (this.text.startsWith(literal, this.index)) {
+        this.advance(literal.length);
+        return value;
+      }
+    }
+    return this.parseNumber();
+  }
+
+  private parseObject(pointer: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.expect('{');
+    this.skipTrivia();
+    while (this.current !== '}') {
+      const keyPosition = this.position();
+      const key = this.parseKey();
+      const child = `${pointer}/${escapePointerToken(key)}`;
+      this.positions.set(child, keyPosition);
+      this.skipTrivia();
+      this.expect(':');
+      this.skipTrivia();
+      // Own property even for "__proto__", matching JSON.parse.
+      Object.defineProperty(result, key, {
+        value: this.parseValue(child),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+      if (!this.parseSeparator('}')) break;
+    }
+    this.expect('}');
+    return result;
+  }
+
+  private parseArray(pointer: string): unknown[] {
+    const result: unknown[] = [];
+    this.expect('[');
+    this.skipTrivia();
+    while (this.current !== ']') {
+      result.push(this.parseValue(`${pointer}/${result.length}`));
+      if (!this.parseSeparator(']')) break;
+    }
+    this.expect(']');
+    return result;
+  }
+
+  /** Consumes ',' between members; false when the container ends. */
+  private parseSeparator(close: string): boolean {
+    this.skipTrivia();
+    if (this.current !== ',') return false;
+    this.advance();
+    this.skipTrivia();
+    if (this.current === close && !this.json5) {
+      this.fail('Trailing comma');
+    }
+    return true;
+  }
+
+  private parseKey(): string {
+    const ch = this.current;
+    if (ch === '"' || (this.json5 && ch === "'")) return this.parseString();
+    if (this.json5) {
+      JSON5_IDENTIFIER.lastIndex = this.index;
+      const match = JSON5_IDENTIFIER.exec(this.text);
+      if (match) {
+        this.advance(match[0].length);
+        return match[0];
+      }
+    }
+    return this.unexpected();
+  }
+
+  private parseString(): string {
+    const quote = this.current!;
+    this.advance();
+    let out = '';
+    while (this.current !== quote) {
+      const ch = this.current;
+      if (ch === undefined) this.fail('Unterminated string');
+      if (ch === '\\') {
+        out += this.parseEscape();
+        continue;
+      }
+      if (ch === '\n' || ch === '\r' || (!this.json5 && ch < ' ')) {
+        this.fail('Unescaped control character in string');
+      }
+      out += ch;
+      this.advance();
+    }
+    this.advance();
+    return out;
+  }
+
+  private parseEscape(): string {
+    this.advance();
+    const ch = this.current;
+    if (ch === undefined) return this.unexpected();
+    const escapes = this.json5 ? JSON5_ESCAPES : SIMPLE_ESCAPES;
+    if (ch in escapes) {
+      this.advance();
+      return escapes[ch]!;
+    }
+    if (ch === 'u' || (this.json5 && ch === 'x')) {
+      const width = ch === 'u' ? 4 : 2;
+      const hex = this.text.slice(this.index + 1, this.index + 1 + width);
+      if (!new RegExp(`^[0-9a-fA-F]{${width}}$`).test(hex)) {
+        this.fail('Invalid escape sequence');
+      }
+      this.advance(width + 1);
+      return String.fromCharCode(Number.parseInt(hex, 16));
+    }
+    if (this.json5 && (ch === '\n' || ch === '\r')) {
+      // Line continuation.
+      this.advance(this.text.startsWith('\r\n', this.index) ? 2 : 1);
+      return '';
+    }
+    if (this.json5 && !/[1-9]/.test(ch)) {
+      this.advance();
+      return ch;
+    }
+    return this.fail('Invalid escape sequence');
+  }
+
+  private parseNumber(): number {
+    const pattern = this.json5 ? JSON5_NUMBER : STRICT_NUMBER;
+    pattern.lastIndex = this.index;
+    const match = pattern.exec(this.text);
+    if (!match) return this.unexpected();
+    const raw = match[0];
+    this.advance(raw.length);
+    const sign = raw.startsWith('-') ? -1 : 1;
+    const unsigned = raw.replace(/^[+-]/, '');
+    if (unsigned === 'Infinity') return sign * Infinity;
+    if (unsigned === 'NaN') return NaN;
+    if (/^0[xX]/.test(unsigned)) {
+      return sign * Number.parseInt(unsigned.slice(2), 16);
+    }
+    return sign * Number(unsigned);
+  }
+}
+
+/**
+ * Parse JSON (or, with `json5: true`, JSON5) text while recording the
+ * source position of every value. Syntax errors throw ParseError with
+ * line/column (and `input`, typically the file name) in the error context.
+ */
+export function parseJsonWithPositions(
+  text: string,
+  options: { json5?: boolean; input?: string } = {}
+): PositionedParseResult {
+  const parser = new PositionedJsonParser(
+    text,
+    options.json5 === true,
+    options.input
+  );
+  const value = parser.parseDocument();
+  return { value, positions: parser.positions };
+}
@@ -68,3 +68,20 @@ export function isMultipleDecimalFallback(
   const r = vq / mq;
   return Math.abs(r - Math.round(r)) < eps;
 }
+
+// Exact rational for the shortest decimal rendering of x (0.1 -> 1/10), i.e.
+// the literal as written in a schema rather than its binary expansion.
+export function fromNumber(x: number): Rat {
+  if (!Number.isFinite(x)) throw new Error('Value must be finite');
+  const [mantissa = '', exponentPart] = String(x).toLowerCase().split('e');
+  const exponent = Number(exponentPart ?? 0);
+  const negative = mantissa.startsWith('-');
+  const [intPart = '', fracPart = ''] = (
+    negative ? mantissa.slice(1) : mantissa
+  ).split('.');
+  let p = BigInt(intPart + fracPart);
+  let q = 10n ** BigInt(fracPart.length);
+  if (exponent > 0) p *= 10n ** BigInt(exponent);
+  if (exponent < 0) q *= 10n ** BigInt(-exponent);
+  return reduce(negative ? -p : p, q);
+}
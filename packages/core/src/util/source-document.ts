@@ -0,0 +1,147 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import {
+  LineCounter,
+  isMap,
+  isScalar,
+  isSeq,
+  parseDocument,
+  type Node as YamlNode,
+} from 'yaml';
+
+import { ParseError } from '../types/errors.js';
+import {
+  parseJsonWithPositions,
+  type SourcePosition,
+} from './positioned-json.js';
+
+export type { SourcePosition } from './positioned-json.js';
+
+export type SourceFormat = 'json' | 'json5' | 'yaml';
+
+const FORMAT_BY_EXTENSION: Readonly<Record<string, SourceFormat>> = {
+  '.json': 'json',
+  '.json5': 'json5',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+};
+
+/** File names the schema loaders accept (.json, .json5, .yaml, .yml). */
+export const SOURCE_FILE_PATTERN = /\.(?:json5?|ya?ml)$/i;
+
+/**
+ * Format implied by a file extension; anything unknown is read as JSON,
+ * which keeps the historical behaviour for extension-less inputs.
+ */
+export function detectSourceFormat(filePath: string): SourceFormat {
+  return FORMAT_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? 'json';
+}
+
+/**
+ * A parsed schema/spec document that remembers where each value came
+ * from, so diagnostics expressed as JSON Pointers can be reported as
+ * `file:line:column`.
+ */
+export class SourceDocument {
+  constructor(
+    readonly value: unknown,
+    readonly format: SourceFormat,
+    private readonly positions: ReadonlyMap<string, SourcePosition>,
+    readonly filePath?: string
+  ) {}
+
+  /**
+   * Position of `pointer` ('#/properties/a', '/properties/a' or '' for the
+   * root). Pointers into generated or defaulted nodes resolve to their
+   * nearest ancestor present in the source.
+   */
+  locate(pointer: string): SourcePosition | undefined {
+    let current = pointer.startsWith('#') ? pointer.slice(1) : pointer;
+    for (;;) {
+      const hit = this.positions.get(current);
+      if (hit) return hit;
+      if (current === '') return undefined;
+      current = current.slice(0, Math.max(0, current.lastIndexOf('/')));
+    }
+  }
+
+  /** `file:line:column` for `pointer`, or undefined when unknown. */
+  describe(pointer: string): string | undefined {
+    const position = this.locate(pointer);
+    if (!position) return undefined;
+    const prefix = this.filePath !== undefined ? `${this.filePath}:` : '';
+    return `${prefix}${position.line}:${position.column}`;
+  }
+}
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function collectYamlPositions(
+  node: unknown,
+  pointer: string,
+  toPosition: (offset: number) => SourcePosition,
+  positions: Map<string, SourcePosition>
+): void {
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      const key = isScalar(pair.key) ? pair.key.value : pair.key;
+      const child = `${pointer}/${escapePointerToken(String(key))}`;
+      const keyNode = pair.key as YamlNode | null;
+      const range = keyNode?.range ?? (pair.value as YamlNode | null)?.range;
+      if (range) positions.set(child, toPosition(range[0]));
+      collectYamlPositions(pair.value, child, toPosition, positions);
+    }
+  } else if (isSeq(node)) {
+    node.items.forEach((item, index) => {
+      const child = `${pointer}/${index}`;
+      const range = (item as YamlNode | null)?.range;
+      if (range) positions.set(child, toPosition(range[0]));
+      collectYamlPositions(item, child, toPosition, positions);
+    });
+  }
+}
+
+function parseYamlSource(text: string, filePath?: string): SourceDocument {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(text, { lineCounter, prettyErrors: false });
+  const toPosition = (offset: number): SourcePosition => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+  const [first] = doc.errors;
+  if (first) {
+    const { line, column } = toPosition(first.pos[0]);
+    throw new ParseError({
+      message: `${first.message} at line ${line}, column ${column}`,
+      context: { input: filePath, position: first.pos[0], line, column },
+    });
+  }
+  const positions = new Map<string, SourcePosition>();
+  const root = doc.contents as YamlNode | null;
+  if (root?.range) positions.set('', toPosition(root.range[0]));
+  collectYamlPositions(root, '', toPosition, positions);
+  return new SourceDocument(doc.toJS(), 'yaml', positions, filePath);
+}
+
+/** Parse `text` as `format`; syntax errors surface as ParseError. */
+export function parseSourceDocument(
+  text: string,
+  format: SourceFormat,
+  filePath?: string
+): SourceDocument {
+  if (format === 'yaml') return parseYamlSource(text, filePath);
+  const { value, positions } = parseJsonWithPositions(text, {
+    json5: format === 'json5',
+    input: filePath,
+  });
+  return new SourceDocument(value, format, positions, filePath);
+}
+
+/** Read and parse a schema/spec file, choosing the format by extension. */
+export function loadSourceDocument(filePath: string): SourceDocument {
+  const text = fs.readFileSync(filePath, 'utf8');
+  return parseSourceDocument(text, detectSourceFormat(filePath), filePath);
+}
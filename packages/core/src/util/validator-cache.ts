@@ -1,7 +1,11 @@
 import type Ajv from 'ajv';
 
 import { stableHash } from './stable-hash.js';
-import { extractAjvFlags } from './ajv-source.js';
+import {
+  extractAjvFlags,
+  getCustomFormatsFingerprint,
+} from './ajv-source.js';
+import { hasContentSchemaKeyword } from './ajv-content.js';
 import { createPlanOptionsSubKey } from './cache.js';
 import type { PlanOptions, ResolvedOptions } from '../types/options.js';
 
@@ -14,6 +18,8 @@ interface ValidatorCacheKey {
   ajvFlagsJson: string;
   planOptionsSubKey: string;
   registryFingerprint?: string;
+  customFormats?: string;
+  contentSchema?: boolean;
 }
 
 const MAX_VALIDATOR_CACHE_ENTRIES = 64;
@@ -77,6 +83,8 @@ function computeBaseKeyParams(args: {
     ajvFlagsJson,
     planOptionsSubKey,
     registryFingerprint: args.registryFingerprint,
+    customFormats: getCustomFormatsFingerprint(args.ajv),
+    contentSchema: hasContentSchemaKeyword(args.ajv) || undefined,
   };
 }
 
@@ -184,3 +184,96 @@ describe('Node API — Generate & Validate', () => {
     expect(coverageReport?.metrics.overall ?? 1).toBeLessThan(0.95);
   });
 });
+
+describe('Node API — custom formats', () => {
+  const formats = {
+    iban: {
+      generate: ({ rng }: { rng: { next(): number } }) => {
+        let digits = '';
+        for (let i = 0; i < 20; i += 1) digits += String(rng.next() % 10);
+        return `DE${digits}`;
+      },
+      validate: /^[A-Z]{2}\d{20}$/,
+    },
+  };
+  const ibanSchema = {
+    type: 'object',
+    required: ['account'],
+    properties: { account: { type: 'string', format: 'iban' } },
+  } as const;
+
+  it('generates and validates caller-registered formats', async () => {
+    const pipelineResult = await PublicGenerate(3, 99, ibanSchema, {
+      mode: 'strict',
+      validateFormats: true,
+      formats,
+    }).result;
+
+    expect(pipelineResult.status).toBe('completed');
+    const items = (pipelineResult.artifacts.repaired ??
+      pipelineResult.artifacts.generated?.items ??
+      []) as Array<{ account: string }>;
+    expect(items).toHaveLength(3);
+    for (const item of items) {
+      expect(item.account).toMatch(/^DE\d{20}$/);
+    }
+
+    expect(
+      PublicValidate({ account: 'not-an-iban' }, ibanSchema, {
+        validateFormats: true,
+        formats,
+      }).valid
+    ).toBe(false);
+  });
+});
+
+describe('Node API — streaming Generate', () => {
+  const schema = {
+    type: 'object',
+    required: ['id'],
+    properties: { id: { type: 'integer', minimum: 0, maximum: 9 } },
+  } as const;
+
+  it('yields the same items as a buffered run and finalizes result', async () => {
+    const buffered: unknown[] = [];
+    for await (const item of PublicGenerate(12, 5, schema)) {
+      buffered.push(item);
+    }
+
+    const stream = PublicGenerate(12, 5, schema, { stream: { chunkSize: 5 } });
+    const streamed: unknown[] = [];
+    for await (const item of stream) streamed.push(item);
+
+    expect(streamed).toEqual(buffered);
+    const result = await stream.result;
+    expect(result.status).toBe('completed');
+    expect(result.metrics.validationsPerRow).toBe(12);
+  });
+
+  it('stops generating once the consumer breaks out of iteration', async () => {
+    const stream = PublicGenerate(10_000, 5, schema, {
+      stream: { chunkSize: 8 },
+    });
+    let seen = 0;
+    for await (const _item of stream) {
+      seen += 1;
+      if (seen === 3) break;
+    }
+
+    const result = await stream.result;
+    expect(result.status).toBe('completed');
+    expect(result.metrics.validationsPerRow).toBeLessThanOrEqual(16);
+  });
+
+  it('completes when result is awaited before iterating', async () => {
+    const stream = PublicGenerate(40, 5, schema, { stream: { chunkSize: 4 } });
+
+    const result = await stream.result;
+    expect(result.status).toBe('completed');
+    expect(result.metrics.validationsPerRow).toBe(40);
+
+    const streamed: unknown[] = [];
+    for await (const item of stream) streamed.push(item);
+    expect(streamed).toHaveLength(40);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import path from 'node:path';
+import os from 'node:os';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+
+import { prefetchAndBuildRegistry } from '../../src/resolver/http-resolver.js';
+import { expandGlobs } from '../../src/resolver/local-files.js';
+
+const DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+describe('resolver mapping strategy', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'resolver-mapping-'));
+    await mkdir(path.join(dir, 'shared', 'common'), { recursive: true });
+    await writeFile(
+      path.join(dir, 'shared', 'address.json'),
+      JSON.stringify({
+        $schema: DIALECT,
+        type: 'object',
+        properties: { country: { $ref: 'common/country.json' } },
+      }),
+      'utf8'
+    );
+    await writeFile(
+      path.join(dir, 'shared', 'common', 'country.json'),
+      JSON.stringify({ $schema: DIALECT, type: 'string', minLength: 2 }),
+      'utf8'
+    );
+    await writeFile(
+      path.join(dir, 'shared', 'common', 'money.yaml'),
+      [
+        `$schema: ${DIALECT}`,
+        '$id: https://ids.acme.io/money',
+        'type: object',
+        'required: [amount]',
+      ].join('\n'),
+      'utf8'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('rewrites URI prefixes to local files and follows nested relative refs', async () => {
+    const result = await prefetchAndBuildRegistry(
+      ['https://schemas.acme.io/address.json#/properties'],
+      {
+        strategies: ['local', 'mapping'],
+        uriMappings: {
+          'https://schemas.acme.io/': path.join(dir, 'shared') + '/',
+        },
+      }
+    );
+
+    expect(Array.from(result.registry.entries()).map((e) => e.uri)).toEqual([
+      'https://schemas.acme.io/address.json',
+      'https://schemas.acme.io/common/country.json',
+    ]);
+    const loaded = result.diagnostics.filter(
+      (d) => d.code === 'RESOLVER_LOCAL_FILE_LOADED'
+    );
+    expect(loaded.map((d) => d.details)).toMatchObject([
+      { via: 'mapping', path: path.join(dir, 'shared', 'address.json') },
+      {
+        via: 'mapping',
+        path: path.join(dir, 'shared', 'common', 'country.json'),
+      },
+    ]);
+  });
+
+  it('resolves refs from a preloaded directory indexed by $id, including YAML', async () => {
+    const preload = [path.join(dir, 'shared', '**', '*.{json,yaml}')];
+    const result = await prefetchAndBuildRegistry(
+      ['https://ids.acme.io/money'],
+      { strategies: ['mapping'], preload }
+    );
+    expect(result.registry.get('https://ids.acme.io/money')?.schema).toEqual({
+      $schema: DIALECT,
+      $id: 'https://ids.acme.io/money',
+      type: 'object',
+      required: ['amount'],
+    });
+
+    const jsonOnly = await prefetchAndBuildRegistry(
+      ['https://ids.acme.io/money'],
+      { strategies: ['mapping'], preload, acceptYaml: false }
+    );
+    expect(jsonOnly.registry.size()).toBe(0);
+  });
+
+  it('leaves refs unresolved when the mapping strategy is not enabled', async () => {
+    const result = await prefetchAndBuildRegistry(
+      ['https://schemas.acme.io/address.json'],
+      {
+        strategies: ['local'],
+        uriMappings: { 'https://schemas.acme.io/': path.join(dir, 'shared') },
+      }
+    );
+    expect(result.registry.size()).toBe(0);
+    expect(result.diagnostics).toContainEqual({
+      code: 'RESOLVER_OFFLINE_UNAVAILABLE',
+      canonPath: '#',
+      details: {
+        ref: 'https://schemas.acme.io/address.json',
+        reason: 'no-strategy',
+      },
+    });
+  });
+
+  it('rejects encoded traversal out of the mapped directory', async () => {
+    const root = path.join(dir, 'shared', 'common');
+    const ref = 'https://schemas.acme.io/%2e%2e%2faddress.json';
+    const result = await prefetchAndBuildRegistry([ref], {
+      strategies: ['local', 'mapping'],
+      uriMappings: { 'https://schemas.acme.io/': root },
+    });
+    expect(result.registry.size()).toBe(0);
+    expect(result.diagnostics).toContainEqual({
+      code: 'RESOLVER_OFFLINE_UNAVAILABLE',
+      canonPath: '#',
+      details: {
+        ref,
+        reason: 'fetch-error',
+        error: `Mapped $ref escapes ${root}: ${ref}`,
+      },
+    });
+  });
+
+  it('expands ** and * globs relative to a base directory', async () => {
+    expect(await expandGlobs(['shared/*.json'], dir)).toEqual([
+      path.join(dir, 'shared', 'address.json'),
+    ]);
+    expect(await expandGlobs(['shared/**/*.json'], dir)).toEqual([
+      path.join(dir, 'shared', 'address.json'),
+      path.join(dir, 'shared', 'common', 'country.json'),
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import path from 'node:path';
+import os from 'node:os';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+
+import {
+  collectResolverSnapshot,
+  serializeResolverSnapshot,
+  verifyResolverSnapshot,
+} from '../../src/resolver/snapshot-builder.js';
+import { resolveAllExternalRefs } from '../../src/resolver/options.js';
+import { writeToCache } from '../../src/resolver/cache-store.js';
+import { resolveOptions } from '../../src/types/options.js';
+
+const DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+describe('resolver snapshot builder', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'resolver-snapshot-'));
+    await mkdir(path.join(dir, 'sub'));
+    await writeFile(
+      path.join(dir, 'defs.json'),
+      JSON.stringify({
+        $schema: DIALECT,
+        $defs: {
+          A: { type: 'string' },
+          B: { $ref: 'sub/b.json' },
+        },
+      }),
+      'utf8'
+    );
+    await writeFile(
+      path.join(dir, 'sub', 'b.json'),
+      JSON.stringify({ $schema: DIALECT, type: 'integer' }),
+      'utf8'
+    );
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const root = {
+    $schema: DIALECT,
+    $id: 'https://example.test/schemas/root.json',
+    type: 'object',
+    properties: {
+      a: { $ref: 'defs.json#/$defs/A' },
+      b: { $ref: 'defs.json#/$defs/B' },
+    },
+  };
+
+  it('walks nested relative refs from files next to the root', async () => {
+    const result = await collectResolverSnapshot(root, { baseDir: dir });
+
+    expect(result.entries.map((e) => e.uri)).toEqual([
+      'https://example.test/schemas/defs.json',
+      'https://example.test/schemas/sub/b.json',
+    ]);
+    expect(
+      result.sources.get('https://example.test/schemas/sub/b.json')
+    ).toEqual({ kind: 'file', path: path.join(dir, 'sub', 'b.json') });
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('reads refs outside the root directory relative to the referencing file', async () => {
+    const nested = {
+      $schema: DIALECT,
+      $id: 'https://example.test/schemas/sub/root.json',
+      properties: { b: { $ref: '../defs.json#/$defs/B' } },
+    };
+
+    const result = await collectResolverSnapshot(nested, {
+      baseDir: path.join(dir, 'sub'),
+    });
+
+    expect(Array.from(result.sources)).toEqual([
+      [
+        'https://example.test/schemas/defs.json',
+        { kind: 'file', path: path.join(dir, 'defs.json') },
+      ],
+      [
+        'https://example.test/schemas/sub/b.json',
+        { kind: 'file', path: path.join(dir, 'sub', 'b.json') },
+      ],
+    ]);
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('rejects relative refs when the root has no absolute $id', async () => {
+    const { $id: _id, ...anonymous } = root;
+
+    await expect(
+      collectResolverSnapshot(anonymous, { baseDir: dir })
+    ).rejects.toThrow(/absolute root \$id/);
+  });
+
+  it('falls back to the resolver cache and reports missing documents', async () => {
+    const cacheDir = path.join(dir, 'cache');
+    const remote = 'https://remote.test/common.json';
+    const body = { $schema: DIALECT, type: 'boolean' };
+    await writeToCache(remote, body, { cacheDir });
+    const schema = {
+      $schema: DIALECT,
+      properties: {
+        c: { $ref: remote },
+        d: { $ref: 'https://remote.test/missing.json' },
+      },
+    };
+
+    const result = await collectResolverSnapshot(schema, {
+      baseDir: dir,
+      cacheDir,
+    });
+
+    expect(result.sources.get(remote)).toEqual({ kind: 'cache' });
+    expect(result.unresolved).toEqual([
+      { uri: 'https://remote.test/missing.json', reason: 'not-found' },
+    ]);
+  });
+
+  it('writes a snapshot that reproduces the resolver fingerprint offline', async () => {
+    const result = await collectResolverSnapshot(root, { baseDir: dir });
+    const snapshotPath = path.join(dir, 'refs.snapshot.json');
+    await writeFile(snapshotPath, serializeResolverSnapshot(result), 'utf8');
+
+    const resolved = await resolveAllExternalRefs(root, {
+      ...resolveOptions().resolver,
+      strategies: ['local'],
+      snapshotPath,
+    });
+
+    expect(resolved.registry.size()).toBe(2);
+    expect(resolved.registryFingerprint).toBe(result.fingerprint);
+  });
+
+  it('reports drift once a referenced document changes', async () => {
+    const result = await collectResolverSnapshot(root, { baseDir: dir });
+    const snapshotPath = path.join(dir, 'refs.snapshot.json');
+    await writeFile(snapshotPath, serializeResolverSnapshot(result), 'utf8');
+
+    const clean = await verifyResolverSnapshot(snapshotPath, root, {
+      baseDir: dir,
+    });
+    expect(clean.inSync).toBe(true);
+
+    await writeFile(
+      path.join(dir, 'sub', 'b.json'),
+      JSON.stringify({ $schema: DIALECT, type: 'number' }),
+      'utf8'
+    );
+    await writeFile(
+      path.join(dir, 'c.json'),
+      JSON.stringify({ $schema: DIALECT, type: 'null' }),
+      'utf8'
+    );
+    const drift = await verifyResolverSnapshot(
+      snapshotPath,
+      {
+        ...root,
+        properties: {
+          b: { $ref: 'sub/b.json' },
+          c: { $ref: 'c.json' },
+        },
+      },
+      { baseDir: dir }
+    );
+
+    expect(drift.inSync).toBe(false);
+    expect(drift.added).toEqual(['https://example.test/schemas/c.json']);
+    expect(drift.removed).toEqual(['https://example.test/schemas/defs.json']);
+    expect(drift.changed.map((c) => c.uri)).toEqual([
+      'https://example.test/schemas/sub/b.json',
+    ]);
+  });
+});
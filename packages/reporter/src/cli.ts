@@ -7,11 +7,17 @@ import process from 'node:process';
 import { pathToFileURL } from 'node:url';
 
 import { Command } from 'commander';
+import { detectSourceFormat, parseSourceDocument } from '@foundrydata/core';
+import {
+  COVERAGE_REPORT_VERSION_V1,
+  type CoverageReport,
+} from '@foundrydata/shared';
 
 import { Report } from './model/report.js';
 import { runEngineOnSchema } from './engine/runner.js';
 import { renderMarkdownReport } from './render/markdown.js';
 import { renderHtmlReport } from './render/html.js';
+import { renderCoverageHtml } from './render/coverage-html.js';
 import { runBench } from './bench/runner.js';
 import { runCorpus } from './corpus/runner.js';
 
@@ -70,11 +76,14 @@ export async function runReporterCommand(
 ): Promise<string[]> {
   const schemaAbsolute = path.resolve(options.schemaPath);
   const schemaRaw = await readFile(schemaAbsolute, 'utf8');
+  const format = detectSourceFormat(schemaAbsolute);
   let schema: unknown;
   try {
-    schema = JSON.parse(schemaRaw);
+    schema = parseSourceDocument(schemaRaw, format, schemaAbsolute).value;
   } catch (error) {
-    throw new Error(`Invalid JSON schema file: ${(error as Error).message}`);
+    throw new Error(
+      `Invalid ${format.toUpperCase()} schema file: ${(error as Error).message}`
+    );
   }
 
   const schemaRelative =
@@ -115,6 +124,40 @@ export async function runReporterCommand(
   return Promise.all(writePromises);
 }
 
+export interface CoverageRenderOptions {
+  inPath: string;
+  outDir: string;
+}
+
+/**
+ * Render a coverage-report/v1 JSON file as `<outDir>/index.html` and
+ * return the written path.
+ */
+export async function runCoverageRenderCommand(
+  options: CoverageRenderOptions
+): Promise<string> {
+  const inAbsolute = path.resolve(options.inPath);
+  let report: CoverageReport;
+  try {
+    report = JSON.parse(await readFile(inAbsolute, 'utf8')) as CoverageReport;
+  } catch (error) {
+    throw new Error(
+      `Invalid coverage report ${inAbsolute}: ${(error as Error).message}`
+    );
+  }
+  if (report?.version !== COVERAGE_REPORT_VERSION_V1) {
+    throw new Error(
+      `Unsupported coverage report version: ${String(report?.version)} (expected ${COVERAGE_REPORT_VERSION_V1}).`
+    );
+  }
+
+  const outDir = path.resolve(options.outDir);
+  await mkdir(outDir, { recursive: true });
+  const targetPath = path.join(outDir, 'index.html');
+  await writeFile(targetPath, renderCoverageHtml(report), 'utf8');
+  return targetPath;
+}
+
 function isCommanderHelpDisplayed(error: unknown): error is { code: string } {
   return (
     typeof error === 'object' &&
@@ -186,9 +229,31 @@ function createProgram(): Command {
   registerRunCommand(program);
   registerBenchCommand(program);
   registerCorpusCommand(program);
+  registerCoverageCommand(program);
   return program;
 }
 
+function registerCoverageCommand(program: Command): void {
+  const coverage = program
+    .command('coverage')
+    .description('Work with coverage-report/v1 files.');
+
+  coverage
+    .command('render')
+    .description(
+      'Render a coverage-report/v1 file as a self-contained static HTML page.'
+    )
+    .requiredOption('--in <path>', 'Path to the coverage-report/v1 JSON file')
+    .requiredOption('--out <dir>', 'Directory where index.html will be written')
+    .action(async (cmdOptions) => {
+      const filePath = await runCoverageRenderCommand({
+        inPath: cmdOptions.in,
+        outDir: cmdOptions.out,
+      });
+      process.stdout.write(`Wrote ${filePath}\n`);
+    });
+}
+
 function registerBenchCommand(program: Command): void {
   program
     .command('bench')
@@ -313,4 +378,8 @@ json-schema-reporter run \
   --out-dir ./reports \
   --format json,markdown,html \
   --seed 42
+
+json-schema-reporter coverage render \
+  --in ./coverage/user.coverage.json \
+  --out ./site
 */
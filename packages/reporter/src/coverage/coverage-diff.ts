@@ -0,0 +1,11 @@
+export type {
+  CoverageTargetDiffKind,
+  CoverageTargetDiffEntry,
+  CoverageTargetsDiff,
+  CoverageMetricDelta,
+  OperationCoverageDelta,
+  CoverageDiffSummary,
+  CoverageReportsDiff,
+} from '@foundrydata/core';
+
+export { diffCoverageTargets, diffCoverageReports } from '@foundrydata/core';
@@ -0,0 +1,251 @@
+import type {
+  CoverageReport,
+  CoverageTargetReport,
+  PlannerCapHit,
+  UnsatisfiedHint,
+} from '@foundrydata/shared';
+
+import { buildCoverageTree, type CoverageTreeNode } from './coverage-tree.js';
+
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function percent(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
+
+function table(headers: string[], rows: string[][], empty: string): string {
+  if (rows.length === 0) {
+    return `<p class="empty">${escapeHtml(empty)}</p>`;
+  }
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('');
+  const body = rows
+    .map((cells) => `<tr>${cells.map((c) => `<td>${c}</td>`).join('')}</tr>`)
+    .join('');
+  return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+function targetState(target: CoverageTargetReport): string {
+  if (target.status && target.status !== 'active') return target.status;
+  return target.hit ? 'hit' : 'miss';
+}
+
+function renderTarget(target: CoverageTargetReport): string {
+  const state = targetState(target);
+  const params =
+    target.params && Object.keys(target.params).length > 0
+      ? ` <code>${escapeHtml(JSON.stringify(target.params))}</code>`
+      : '';
+  const operation = target.operationKey
+    ? ` <span class="op">${escapeHtml(target.operationKey)}</span>`
+    : '';
+  return `<li class="target"><span class="badge badge-${state}">${state}</span> <span class="kind">${escapeHtml(
+    target.kind
+  )}</span>${params}${operation} <span class="dim">${escapeHtml(target.dimension)}</span></li>`;
+}
+
+function renderCount(hit: number, total: number): string {
+  if (total === 0) return '<span class="count">no active targets</span>';
+  const state = hit === total ? 'hit' : 'miss';
+  return `<span class="count count-${state}">${hit}/${total}</span>`;
+}
+
+function renderTreeNode(node: CoverageTreeNode): string {
+  const targets = node.targets.length
+    ? `<ul class="targets">${node.targets.map(renderTarget).join('')}</ul>`
+    : '';
+  const children = node.children.map(renderTreeNode).join('');
+  const open = node.hit < node.total ? ' open' : '';
+  return `<details class="node"${open}><summary><code title="${escapeHtml(
+    node.canonPath
+  )}">${escapeHtml(node.segment)}</code> ${renderCount(node.hit, node.total)}</summary>${targets}${children}</details>`;
+}
+
+function renderHero(report: CoverageReport): string {
+  const { metrics, engine, run } = report;
+  const weighted = metrics.weighted
+    ? ` · weighted ${percent(metrics.weighted.overall)}`
+    : '';
+  return `<header class="hero">
+    <h1>Coverage Report</h1>
+    <p><span class="badge badge-status-${escapeHtml(metrics.coverageStatus)}">${escapeHtml(
+      metrics.coverageStatus
+    )}</span> Overall ${percent(metrics.overall)}${weighted}</p>
+    <p>${escapeHtml(report.version)} · ${escapeHtml(report.reportMode)} · mode ${escapeHtml(
+      engine.coverageMode
+    )} · FoundryData ${escapeHtml(engine.foundryVersion)}</p>
+    <p>Seed ${escapeHtml(run.seed)} · ${run.actualInstances}/${run.maxInstances} instances · started ${escapeHtml(
+      run.startedAt
+    )}</p>
+  </header>`;
+}
+
+function renderMetrics(report: CoverageReport): string {
+  const { metrics } = report;
+  const minimums = metrics.thresholds?.byDimension ?? {};
+  const rows = Object.entries(metrics.byDimension).map(([dim, ratio]) => [
+    escapeHtml(dim),
+    percent(ratio),
+    metrics.weighted?.byDimension[dim] !== undefined
+      ? percent(metrics.weighted.byDimension[dim])
+      : '—',
+    minimums[dim] !== undefined ? percent(minimums[dim]) : '—',
+  ]);
+  const failures = (metrics.thresholdFailures ?? []).map(
+    (f) =>
+      `<li>${escapeHtml(f.key ? `${f.scope} ${f.key}` : f.scope)}: ${percent(
+        f.actual
+      )} &lt; ${percent(f.threshold)}</li>`
+  );
+  const statusRows = Object.entries(metrics.targetsByStatus)
+    .map(([status, count]) => `${escapeHtml(status)}=${count}`)
+    .join(' · ');
+  return `<section>
+    <h2>Metrics</h2>
+    ${table(['Dimension', 'Coverage', 'Weighted', 'Minimum'], rows, 'No dimensions enabled.')}
+    <p>Targets by status: ${statusRows || '—'}</p>
+    ${failures.length ? `<h3>Thresholds not met</h3><ul class="failures">${failures.join('')}</ul>` : ''}
+  </section>`;
+}
+
+function renderOperations(
+  report: CoverageReport,
+  targets: readonly CoverageTargetReport[]
+): string {
+  const entries = Object.entries(report.metrics.byOperation);
+  if (entries.length === 0) return '';
+  const items = entries.map(([operationKey, ratio]) => {
+    const own = targets.filter((t) => t.operationKey === operationKey);
+    const list = own.length
+      ? `<ul class="targets">${own.map(renderTarget).join('')}</ul>`
+      : '<p class="empty">No targets listed in this report.</p>';
+    return `<details class="node"${ratio < 1 ? ' open' : ''}><summary><code>${escapeHtml(
+      operationKey
+    )}</code> <span class="count">${percent(ratio)}</span></summary>${list}</details>`;
+  });
+  return `<section><h2>Operations</h2>${items.join('')}</section>`;
+}
+
+function metaString(target: CoverageTargetReport, key: string): string {
+  const value = (target.meta as Record<string, unknown> | undefined)?.[key];
+  return value === undefined ? '—' : escapeHtml(value);
+}
+
+function renderUnreachable(targets: readonly CoverageTargetReport[]): string {
+  const rows = targets
+    .filter((t) => t.status === 'unreachable')
+    .map((t) => {
+      const detail = (t.meta as Record<string, unknown> | undefined)
+        ?.conflictReasonDetail;
+      return [
+        `<code>${escapeHtml(t.canonPath)}</code>`,
+        escapeHtml(t.kind),
+        `<span class="code">${metaString(t, 'conflictReasonCode')}</span>`,
+        `<code>${metaString(t, 'conflictReasonCanonPath')}</code>`,
+        detail === undefined
+          ? '—'
+          : `<pre>${escapeHtml(JSON.stringify(detail, null, 2))}</pre>`,
+      ];
+    });
+  return `<section><h2>Unreachable targets</h2>${table(
+    ['canonPath', 'Kind', 'UNSAT reason', 'Proven at', 'Detail'],
+    rows,
+    'No unreachable targets.'
+  )}</section>`;
+}
+
+function renderCaps(caps: readonly PlannerCapHit[]): string {
+  const rows = caps.map((cap) => [
+    escapeHtml(cap.dimension),
+    escapeHtml(cap.scopeType),
+    `<code>${escapeHtml(cap.scopeKey)}</code>`,
+    String(cap.totalTargets),
+    String(cap.plannedTargets),
+    String(cap.unplannedTargets),
+  ]);
+  return `<section><h2>Planner caps hit</h2>${table(
+    ['Dimension', 'Scope', 'Key', 'Total', 'Planned', 'Unplanned'],
+    rows,
+    'No planner caps were hit.'
+  )}</section>`;
+}
+
+function renderHints(hints: readonly UnsatisfiedHint[]): string {
+  if (hints.length === 0) return '';
+  const rows = hints.map((hint) => [
+    escapeHtml(hint.kind),
+    `<code>${escapeHtml(hint.canonPath)}</code>`,
+    `<span class="code">${escapeHtml(hint.reasonCode)}</span>`,
+    escapeHtml(hint.reasonDetail ?? '—'),
+  ]);
+  return `<section><h2>Unsatisfied hints</h2>${table(
+    ['Kind', 'canonPath', 'Reason', 'Detail'],
+    rows,
+    ''
+  )}</section>`;
+}
+
+const STYLES = `body{font-family:system-ui,Segoe UI,sans-serif;margin:0;padding:2rem;background:#f7f7f8;color:#111}
+header.hero{margin-bottom:2rem}
+section{background:#fff;border-radius:0.75rem;padding:1.5rem;margin-bottom:1.5rem;box-shadow:0 1px 4px rgba(15,23,42,.08)}
+h1{margin:0 0 .5rem 0;font-size:2rem}
+.badge{display:inline-flex;align-items:center;padding:0.1rem 0.5rem;border-radius:999px;font-size:0.8rem;font-weight:600}
+.badge-hit,.badge-status-ok{background:#d1fae5;color:#047857}
+.badge-miss,.badge-status-minCoverageNotMet,.badge-status-thresholdsNotMet{background:#fee2e2;color:#b91c1c}
+.badge-unreachable,.badge-deprecated{background:#e5e7eb;color:#374151}
+table{width:100%;border-collapse:collapse;margin-top:0.5rem}
+th,td{border:1px solid #e5e7eb;padding:0.5rem;text-align:left;font-size:0.9rem;vertical-align:top}
+pre{background:#0f172a;color:#e0e7ff;padding:0.5rem;border-radius:0.5rem;overflow:auto;font-size:0.8rem;margin:0}
+details.node{margin-left:1rem;border-left:2px solid #e5e7eb;padding-left:0.5rem}
+summary{cursor:pointer;padding:0.15rem 0}
+ul.targets{list-style:none;margin:0.25rem 0;padding-left:1rem}
+.target{margin:0.15rem 0;font-size:0.9rem}
+.count{font-size:0.8rem;color:#6b7280}
+.count-miss{color:#b91c1c}
+.count-hit{color:#047857}
+.dim,.op{font-size:0.8rem;color:#6b7280}
+.code{font-family:ui-monospace,monospace}
+.empty{color:#6b7280;font-style:italic}
+`;
+
+/**
+ * Self-contained HTML view of a coverage-report/v1: inline styles only and
+ * no scripts, so the page works offline. Summary reports only list
+ * uncovered targets, so the tree then shows misses alone.
+ */
+export function renderCoverageHtml(report: CoverageReport): string {
+  const targets =
+    report.targets.length > 0 ? report.targets : report.uncoveredTargets;
+  const summaryNote =
+    report.reportMode === 'summary'
+      ? '<p class="empty">Summary report: only uncovered targets are listed.</p>'
+      : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Coverage Report – ${escapeHtml(report.version)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  ${renderHero(report)}
+  ${renderMetrics(report)}
+  <section>
+    <h2>Schema tree</h2>
+    ${summaryNote}
+    ${targets.length ? renderTreeNode(buildCoverageTree(targets)) : '<p class="empty">No targets in this report.</p>'}
+  </section>
+  ${renderOperations(report, targets)}
+  ${renderUnreachable(targets)}
+  ${renderCaps(report.diagnostics.plannerCapsHit)}
+  ${renderHints(report.unsatisfiedHints)}
+</body>
+</html>
+`;
+}
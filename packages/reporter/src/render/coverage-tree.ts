@@ -0,0 +1,70 @@
+import type { CoverageTargetReport } from '@foundrydata/shared';
+
+export interface CoverageTreeNode {
+  /** Unescaped JSON Pointer segment; '#' for the root. */
+  segment: string;
+  canonPath: string;
+  /** Targets anchored exactly at this node. */
+  targets: CoverageTargetReport[];
+  children: CoverageTreeNode[];
+  /** Hit / counted active targets in this node and its descendants. */
+  hit: number;
+  total: number;
+}
+
+function decodeSegment(token: string): string {
+  return token.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function createNode(segment: string, canonPath: string): CoverageTreeNode {
+  return { segment, canonPath, targets: [], children: [], hit: 0, total: 0 };
+}
+
+function childFor(
+  node: CoverageTreeNode,
+  token: string,
+  index: Map<string, CoverageTreeNode>
+): CoverageTreeNode {
+  const canonPath = `${node.canonPath}/${token}`;
+  let child = index.get(canonPath);
+  if (!child) {
+    child = createNode(decodeSegment(token), canonPath);
+    node.children.push(child);
+    index.set(canonPath, child);
+  }
+  return child;
+}
+
+function tally(node: CoverageTreeNode): void {
+  for (const child of node.children) {
+    tally(child);
+    node.hit += child.hit;
+    node.total += child.total;
+  }
+  for (const target of node.targets) {
+    if (target.status && target.status !== 'active') continue;
+    node.total += 1;
+    if (target.hit) node.hit += 1;
+  }
+}
+
+/**
+ * Group targets by canonPath into the schema tree they annotate. Children
+ * keep the order in which their first target appears in the report.
+ */
+export function buildCoverageTree(
+  targets: readonly CoverageTargetReport[]
+): CoverageTreeNode {
+  const root = createNode('#', '#');
+  const index = new Map<string, CoverageTreeNode>([['#', root]]);
+  for (const target of targets) {
+    const pointer = target.canonPath.replace(/^#/, '');
+    let node = root;
+    for (const token of pointer.split('/').slice(1)) {
+      node = childFor(node, token, index);
+    }
+    node.targets.push(target);
+  }
+  tally(root);
+  return root;
+}
@@ -0,0 +1,155 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+import type { CoverageReport, CoverageTargetReport } from '@foundrydata/shared';
+
+import { renderCoverageHtml } from '../src/render/coverage-html.js';
+import { runCoverageRenderCommand } from '../src/cli.js';
+
+function target(
+  overrides: Partial<CoverageTargetReport> & Pick<CoverageTargetReport, 'id'>
+): CoverageTargetReport {
+  return {
+    dimension: 'structure',
+    kind: 'SCHEMA_NODE',
+    canonPath: '#',
+    status: 'active',
+    hit: true,
+    ...overrides,
+  } as CoverageTargetReport;
+}
+
+function makeReport(overrides: Partial<CoverageReport> = {}): CoverageReport {
+  const targets = [
+    target({ id: 'root' }),
+    target({
+      id: 'branch-0',
+      dimension: 'branches',
+      kind: 'ONEOF_BRANCH',
+      canonPath: '#/properties/pet/oneOf/0',
+      params: { index: 0 },
+      operationKey: 'GET /pets',
+    }),
+    target({
+      id: 'branch-1',
+      dimension: 'branches',
+      kind: 'ONEOF_BRANCH',
+      canonPath: '#/properties/pet/oneOf/1',
+      params: { index: 1 },
+      operationKey: 'GET /pets',
+      hit: false,
+    }),
+    target({
+      id: 'dead',
+      canonPath: '#/properties/a~1b',
+      status: 'unreachable',
+      hit: false,
+      meta: {
+        conflictReasonCode: 'UNSAT_NUMERIC_BOUNDS',
+        conflictReasonCanonPath: '#/properties/a~1b',
+        conflictReasonDetail: { minimum: 5, maximum: 1 },
+      },
+    }),
+  ];
+  return {
+    version: 'coverage-report/v1',
+    reportMode: 'full',
+    engine: { foundryVersion: '0.1.1', coverageMode: 'guided', ajvMajor: 8 },
+    run: {
+      seed: 7,
+      masterSeed: 7,
+      maxInstances: 10,
+      actualInstances: 3,
+      dimensionsEnabled: ['structure', 'branches'],
+      excludeUnreachable: true,
+      startedAt: '2025-01-01T00:00:00.000Z',
+      durationMs: 1,
+    },
+    metrics: {
+      coverageStatus: 'thresholdsNotMet',
+      overall: 2 / 3,
+      byDimension: { structure: 1, branches: 0.5 },
+      byOperation: { 'GET /pets': 0.5 },
+      targetsByStatus: { active: 3, unreachable: 1, deprecated: 0 },
+      thresholds: { byDimension: { branches: 1 } },
+      thresholdFailures: [
+        { scope: 'dimension', key: 'branches', actual: 0.5, threshold: 1 },
+      ],
+    },
+    targets,
+    uncoveredTargets: targets.filter((t) => !t.hit),
+    unsatisfiedHints: [],
+    diagnostics: {
+      plannerCapsHit: [
+        {
+          dimension: 'branches',
+          scopeType: 'schema',
+          scopeKey: '#/properties/pet',
+          totalTargets: 4,
+          plannedTargets: 2,
+          unplannedTargets: 2,
+        },
+      ],
+      notes: [],
+    },
+    ...overrides,
+  };
+}
+
+describe('renderCoverageHtml', () => {
+  it('renders a self-contained page with tree, operations, unreachable targets and caps', () => {
+    const html = renderCoverageHtml(makeReport());
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).not.toMatch(/<script|<link|https?:\/\//);
+    expect(html).toContain('badge-status-thresholdsNotMet');
+    expect(html).toContain('<code title="#/properties/pet">pet</code>');
+    expect(html).toContain('<code title="#/properties/a~1b">a/b</code>');
+    expect(html).toMatch(/count-miss">1\/2</);
+    expect(html).toContain('<h2>Operations</h2>');
+    expect(html).toContain('<code>GET /pets</code>');
+    expect(html).toContain('UNSAT_NUMERIC_BOUNDS');
+    expect(html).toContain('&quot;maximum&quot;: 1');
+    expect(html).toContain('<h2>Planner caps hit</h2>');
+    expect(html).toContain('dimension branches: 50.0% &lt; 100.0%');
+  });
+
+  it('falls back to uncovered targets for summary reports', () => {
+    const html = renderCoverageHtml(
+      makeReport({ reportMode: 'summary', targets: [] })
+    );
+
+    expect(html).toContain('only uncovered targets are listed');
+    expect(html).toContain('#/properties/pet/oneOf/1');
+    expect(html).not.toContain('title="#/properties/pet/oneOf/0"');
+  });
+});
+
+describe('runCoverageRenderCommand', () => {
+  it('writes index.html and rejects other report versions', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'coverage-render-'));
+    try {
+      const reportPath = path.join(dir, 'coverage.json');
+      await writeFile(reportPath, JSON.stringify(makeReport()), 'utf8');
+      const outDir = path.join(dir, 'site');
+
+      const written = await runCoverageRenderCommand({
+        inPath: reportPath,
+        outDir,
+      });
+      expect(written).toBe(path.join(outDir, 'index.html'));
+      expect(await readFile(written, 'utf8')).toContain(
+        '<h1>Coverage Report</h1>'
+      );
+
+      await writeFile(reportPath, JSON.stringify({ version: 'x' }), 'utf8');
+      await expect(
+        runCoverageRenderCommand({ inPath: reportPath, outDir })
+      ).rejects.toThrow(/Unsupported coverage report version: x/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -58,7 +58,15 @@ export const COVERAGE_REPORT_MODES: readonly CoverageReportMode[] = [
   'summary',
 ] as const;
 
-export type CoverageReportStatus = 'ok' | 'minCoverageNotMet';
+/**
+ * 'minCoverageNotMet' when the overall threshold fails (whatever the other
+ * thresholds say); 'thresholdsNotMet' when only per-dimension or
+ * per-operation thresholds fail.
+ */
+export type CoverageReportStatus =
+  | 'ok'
+  | 'minCoverageNotMet'
+  | 'thresholdsNotMet';
 
 export const COVERAGE_REPORT_VERSION_V1 = 'coverage-report/v1' as const;
 
@@ -91,19 +99,39 @@ export interface CoverageReportRun {
 
 export interface CoverageThresholds {
   /**
-   * In V1, only overall is enforced for coverageStatus.
+   * Enforced against metrics.weighted.overall when the report carries
+   * weighted metrics, metrics.overall otherwise.
    */
   overall?: number;
   /**
-   * Reserved for future per-dimension thresholds; descriptive only in V1.
+   * Minimum ratio per dimension, enforced against metrics.weighted.byDimension
+   * or metrics.byDimension. Dimensions absent from the metrics are skipped.
    */
   byDimension?: Record<string, number>;
   /**
-   * Reserved for future per-operation thresholds; descriptive only in V1.
+   * Minimum ratio per operation key, enforced against metrics.byOperation.
+   * Operations absent from the metrics are skipped.
    */
   byOperation?: Record<string, number>;
 }
 
+export interface CoverageThresholdFailure {
+  scope: 'overall' | 'dimension' | 'operation';
+  /** Dimension or operation key; absent for 'overall'. */
+  key?: string;
+  actual: number;
+  threshold: number;
+}
+
+/**
+ * Ratios of summed target weights (hit / counted), targets without a
+ * weight counting as 1. Same target selection as the unweighted metrics.
+ */
+export interface CoverageWeightedMetrics {
+  overall: number;
+  byDimension: Record<string, number>;
+}
+
 export interface CoverageMetrics {
   coverageStatus: CoverageReportStatus;
   overall: number;
@@ -111,6 +139,13 @@ export interface CoverageMetrics {
   byOperation: Record<string, number>;
   targetsByStatus: Record<string, number>;
   thresholds?: CoverageThresholds;
+  /** Every threshold the run missed, overall first; present when non-empty. */
+  thresholdFailures?: CoverageThresholdFailure[];
+  /**
+   * Present when at least one counted target carries a weight
+   * (risk-based weighting configured or annotated in the schema).
+   */
+  weighted?: CoverageWeightedMetrics;
 }
 
 export interface CoverageDiagnostics {